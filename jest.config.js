@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  // Environment the config modules read at import time
+  setupFiles: ['<rootDir>/src/__tests__/setup/env.ts'],
+  // One in-memory mongod shared by every test file (database tests are skipped when none can start)
+  globalSetup: '<rootDir>/src/__tests__/setup/globalSetup.ts',
+  globalTeardown: '<rootDir>/src/__tests__/setup/globalTeardown.ts',
+  testTimeout: 30000,
+};
@@ -0,0 +1,34 @@
+import mongoose from 'mongoose';
+import { describe } from '@jest/globals';
+
+/**
+ * describe for suites that need MongoDB: skipped when globalSetup could not start a mongod
+ */
+export const describeWithDB = (name: string, fn: () => void): void =>
+  (process.env.MONGO_TEST_URI ? describe : describe.skip)(name, fn);
+
+/**
+ * Connect mongoose to a database of its own on the shared test mongod
+ */
+export const connectTestDB = async (dbName: string): Promise<void> => {
+  await mongoose.connect(process.env.MONGO_TEST_URI!, { dbName: dbName });
+  await Promise.all(Object.values(mongoose.models).map((model) => model.init()));
+};
+
+/**
+ * Remove every document between tests
+ */
+export const clearTestDB = async (): Promise<void> => {
+  const collections = await mongoose.connection.db!.collections();
+  await Promise.all(collections.map((collection) => collection.deleteMany({})));
+};
+
+/**
+ * Drop the test database and disconnect
+ */
+export const closeTestDB = async (): Promise<void> => {
+  if (mongoose.connection.readyState === 1) {
+    await mongoose.connection.dropDatabase();
+  }
+  await mongoose.disconnect();
+};
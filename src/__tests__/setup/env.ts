@@ -0,0 +1,9 @@
+// Runs before each test file, ahead of any import: the config modules read the environment when loaded
+
+// Serve the default chain (Base Sepolia) from the scripted fixture instead of an RPC
+process.env.FIXTURE_CHAIN_SCENARIO = 'src/config/fixtures/token-lifecycle.json';
+process.env.CHAIN_ID = '84532';
+process.env.JWT_SECRET = 'test-secret';
+// No network calls for the ETH price
+process.env.ETH_PRICE_SOURCES = 'fixed';
+process.env.ETH_PRICE_FIXED_USD = '3000';
@@ -0,0 +1,16 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+/**
+ * Start the mongod shared by the database tests and expose its URI as MONGO_TEST_URI.
+ * Uses MONGOMS_SYSTEM_BINARY or a cached binary when there is one and downloads one otherwise;
+ * when none can be started (e.g. offline without a binary) the database tests are skipped.
+ */
+export default async function globalSetup(): Promise<void> {
+  try {
+    const server = await MongoMemoryServer.create();
+    (globalThis as any).__MONGOD__ = server;
+    process.env.MONGO_TEST_URI = server.getUri();
+  } catch (error: any) {
+    console.warn(`⚠️ No mongod available (${error.message}), skipping the database tests`);
+  }
+}
@@ -0,0 +1,11 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+/**
+ * Stop the mongod started by globalSetup
+ */
+export default async function globalTeardown(): Promise<void> {
+  const server: MongoMemoryServer | undefined = (globalThis as any).__MONGOD__;
+  if (server) {
+    await server.stop();
+  }
+}
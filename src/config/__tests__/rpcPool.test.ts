@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PooledJsonRpcProvider } from '../rpcPool';
+
+const CHAIN_ID = 84532;
+
+interface FakeEndpoint {
+  url: string;
+  hits: number;
+  close: () => Promise<void>;
+}
+
+type Responder = (payload: any) => { status?: number; delayMs?: number; body?: any };
+
+/**
+ * Local JSON-RPC endpoint answering every request through the responder
+ */
+const startEndpoint = async (respond: Responder): Promise<FakeEndpoint> => {
+  const endpoint = { hits: 0 } as FakeEndpoint;
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      endpoint.hits++;
+      const payload = JSON.parse(raw);
+      const { status = 200, delayMs = 0, body } = respond(payload);
+      setTimeout(() => {
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(body ?? { jsonrpc: '2.0', id: payload.id, result: '0x64' }));
+      }, delayMs);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  endpoint.close = () => new Promise((resolve) => server.close(() => resolve()));
+  return endpoint;
+};
+
+const ok: Responder = () => ({});
+
+describe('PooledJsonRpcProvider', () => {
+  let endpoints: FakeEndpoint[] = [];
+  let pool: PooledJsonRpcProvider | null = null;
+
+  const createPool = async (responders: Responder[], maxRps = 100): Promise<PooledJsonRpcProvider> => {
+    endpoints = await Promise.all(responders.map(startEndpoint));
+    pool = new PooledJsonRpcProvider(CHAIN_ID, endpoints.map((endpoint) => endpoint.url), maxRps);
+    return pool;
+  };
+
+  afterEach(async () => {
+    pool?.destroy();
+    pool = null;
+    await Promise.all(endpoints.map((endpoint) => endpoint.close()));
+    endpoints = [];
+  });
+
+  it('sends requests to the endpoint with the lowest average latency', async () => {
+    const provider = await createPool([() => ({ delayMs: 300 }), ok]);
+
+    for (let i = 0; i < 5; i++) {
+      expect(await provider.send('eth_blockNumber', [])).toBe('0x64');
+    }
+
+    // The slow endpoint answers first (no latency known yet) and is avoided from then on
+    expect(endpoints.map((endpoint) => endpoint.hits)).toEqual([1, 4]);
+    const [slow, fast] = provider.getMetrics();
+    expect(slow.avgLatencyMs).toBeGreaterThanOrEqual(300);
+    expect(fast.avgLatencyMs).toBeLessThan(300);
+  });
+
+  it('fails over on transport errors and cools an endpoint down after repeated failures', async () => {
+    const provider = await createPool([() => ({ status: 500, body: { error: 'down' } }), ok]);
+
+    expect(await provider.send('eth_blockNumber', [])).toBe('0x64');
+    expect(endpoints.map((endpoint) => endpoint.hits)).toEqual([1, 1]);
+    expect(provider.getMetrics()[0]).toMatchObject({ failures: 1, healthy: true });
+
+    await provider.checkHealth();
+    await provider.checkHealth();
+
+    const [broken, healthy] = provider.getMetrics();
+    expect(broken.failures).toBe(3);
+    expect(broken.healthy).toBe(false);
+    expect(broken.score).toBeGreaterThan(healthy.score);
+    expect(healthy.failures).toBe(0);
+  });
+
+  it('benches a throttling endpoint right away', async () => {
+    const provider = await createPool([
+      (payload) => ({ body: { jsonrpc: '2.0', id: payload.id, error: { code: -32005, message: 'rate limit exceeded' } } }),
+      ok,
+    ]);
+
+    expect(await provider.send('eth_blockNumber', [])).toBe('0x64');
+
+    const [throttled] = provider.getMetrics();
+    expect(throttled.rateLimited).toBe(1);
+    expect(throttled.healthy).toBe(false);
+    expect(throttled.cooldownUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect(provider.hasHealthyEndpoint()).toBe(true);
+  });
+
+  it('returns JSON-RPC errors of the call itself without trying another endpoint', async () => {
+    const provider = await createPool([
+      (payload) => ({ body: { jsonrpc: '2.0', id: payload.id, error: { code: 3, message: 'execution reverted' } } }),
+      ok,
+    ]);
+
+    await expect(provider.send('eth_call', [{ to: '0x1000000000000000000000000000000000000001', data: '0x' }, 'latest']))
+      .rejects.toThrow();
+    expect(endpoints.map((endpoint) => endpoint.hits)).toEqual([1, 0]);
+  });
+
+  it('holds requests back once the endpoint budget is spent', async () => {
+    const provider = await createPool([ok], 2);
+
+    const startedAt = Date.now();
+    for (let i = 0; i < 4; i++) {
+      await provider.send('eth_blockNumber', []);
+    }
+
+    // 2 requests from the full bucket, then one every 500ms
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900);
+    expect(endpoints[0].hits).toBe(4);
+  });
+
+  it('records the head block reported by health checks', async () => {
+    const provider = await createPool([ok, () => ({ status: 500 })]);
+
+    await provider.checkHealth();
+
+    const [reachable, unreachable] = provider.getMetrics();
+    expect(reachable.headBlock).toBe(100);
+    expect(reachable.lastHealthCheckAt).not.toBeNull();
+    expect(unreachable.headBlock).toBeNull();
+    expect(unreachable.failures).toBe(1);
+  });
+});
@@ -19,16 +19,12 @@ export const ACTIVITY_MONITOR_CONFIG = {
   // This reduces RPC credit usage while ensuring no blocks are missed
   CHECK_INTERVAL_SECONDS: 10,  // Check every 10 seconds (processes all accumulated blocks)
 
-  // Rate limiting
-  MAX_CONCURRENT_REQUESTS: 3,
-  MIN_DELAY_BETWEEN_GET_BLOCK_NUMBER: 500, // ms
+  // Retries (request budgets and endpoint failover are handled by the RPC pool)
   MAX_RETRIES: 3,
   RETRY_BACKOFF_BASE: 5000, // ms
   RETRY_BACKOFF_MAX: 30000, // ms
 
-  // Circuit breaker
-  CIRCUIT_BREAKER_THRESHOLD: 50,
-  CIRCUIT_BREAKER_COOLDOWN: 30 * 60 * 1000, // 30 minutes
+  // Error thresholds
   MAX_ERRORS_PER_MINUTE: 10,
   HIGH_ERROR_THRESHOLD: 20,
   HIGH_ERROR_RATE_THRESHOLD: 15,
@@ -60,6 +56,7 @@ export const ACTIVITY_MONITOR_CONFIG = {
   INITIAL_CHECK_DELAY: 5000, // ms
   INITIAL_CHECK_STAGGER: 10000, // ms per chain
   NEW_WALLET_CHECK_DELAY: 2000, // ms
+  WALLET_REFRESH_INTERVAL: 15000, // ms - pick up wallets created through other instances
 
   // WebSocket
   WS_CONNECTION_CHECK_INTERVAL: 1000, // ms
@@ -1,70 +1,60 @@
 import { ethers } from 'ethers';
 import FactoryABI from './abi/TokenFactory.json';
+import TokenABI from './abi/Token.json';
 import dotenv from 'dotenv';
+import { getChainConfig, getChainKey, getSupportedChainIds } from './chains';
+import { getRpcPool } from './rpcPool';
+import { getFixtureProvider, createFixtureProvider, FixtureChainProvider } from './fixtureChain';
 
 dotenv.config();
 
-// Helper function to get chain name
-function getChainName(chainId: number): string {
-  const names: Record<number, string> = {
-    1: 'ETHEREUM',
-    8453: 'BASE',
-    42161: 'ARBITRUM',
-    84532: 'BASE_SEPOLIA',
-  };
-  return names[chainId] || 'BASE_SEPOLIA';
-}
+// TokenFactory interface used to decode factory logs fetched with getLogs
+export const factoryInterface = new ethers.Interface(FactoryABI);
+
+// ERC20 interface shared by the Transfer log subscribers (live tracker and backfill)
+export const tokenInterface = new ethers.Interface(TokenABI);
+export const TRANSFER_TOPIC = tokenInterface.getEvent('Transfer')!.topicHash;
+
+// Provider of live subscriptions: a WebSocket, or the polling provider of a fixture chain (no underlying socket)
+export type EventProvider = ethers.WebSocketProvider | FixtureChainProvider;
 
 // Helper function to get RPC URL for chain
 function getRpcUrl(chainId: number): string | undefined {
-  const urls: Record<number, string | undefined> = {
-    1: process.env.ETHEREUM_RPC_URL,
-    8453: process.env.BASE_RPC_URL,
-    42161: process.env.ARBITRUM_RPC_URL,
-    84532: process.env.BASE_SEPOLIA_RPC_URL,
-  };
-  return urls[chainId]?.trim();
+  return getChainConfig(chainId)?.rpcUrl;
 }
 
 // Helper function to get factory address for chain
 function getFactoryAddress(chainId: number): string | undefined {
-  const chainName = getChainName(chainId);
-  return process.env[`FACTORY_ADDRESS_${chainName}`]?.trim();
+  return getChainConfig(chainId)?.factoryAddress;
 }
 
 // Helper function to get WebSocket URL for chain
 export function getWsUrl(chainId: number): string | undefined {
-  const urls: Record<number, string | undefined> = {
-    1: process.env.ETHEREUM_WS_URL,
-    8453: process.env.BASE_WS_URL,
-    42161: process.env.ARBITRUM_WS_URL,
-    84532: process.env.BASE_SEPOLIA_WS_URL,
-  };
-  return urls[chainId]?.trim();
+  return getChainConfig(chainId)?.wsUrl;
 }
 
 /**
- * Create provider dynamically for a given chainId
- * With staticNetwork option to prevent network detection errors and timeouts
+ * Get the confirmation depth for a chain (blocks after which a record is treated as final).
+ * Defaults come from the chain registry; override per chain with CONFIRMATIONS_<CHAIN_KEY>, e.g. CONFIRMATIONS_BASE=15
+ */
+export function getConfirmationDepth(chainId: number): number {
+  const configured = Number(process.env[`CONFIRMATIONS_${getChainKey(chainId)}`]);
+  if (Number.isInteger(configured) && configured >= 0) {
+    return configured;
+  }
+  return getChainConfig(chainId)?.confirmationDepth ?? 12;
+}
+
+/**
+ * Get the shared provider of a chainId: a pool over every RPC URL configured for the chain
+ * with failover, health scoring and per-endpoint request budgets (see rpcPool.ts),
+ * or the scripted chain of FIXTURE_CHAIN_SCENARIO (see fixtureChain.ts)
  */
 export function getProvider(chainId: number): ethers.JsonRpcProvider {
-  const rpcUrl = getRpcUrl(chainId);
-  if (!rpcUrl) {
-    throw new Error(`RPC URL not configured for chain ${chainId} (${getChainName(chainId)})`);
+  const provider = getFixtureProvider(chainId) || getRpcPool(chainId);
+  if (!provider) {
+    throw new Error(`RPC URL not configured for chain ${chainId} (${getChainKey(chainId)})`);
   }
-  
-  // Create provider with staticNetwork to prevent network detection
-  // This avoids "failed to detect network" errors and timeouts
-  // staticNetwork: true skips the eth_chainId call during initialization
-  const provider = new ethers.JsonRpcProvider(
-    rpcUrl,
-    chainId,
-    {
-      staticNetwork: true, // Skip network detection (prevents "failed to detect network" errors)
-      batchMaxCount: 1, // Disable batching to avoid issues with rate limits
-    }
-  );
-  
   return provider;
 }
 
@@ -74,7 +64,7 @@ export function getProvider(chainId: number): ethers.JsonRpcProvider {
 export function getFactoryAddressForChain(chainId: number): string {
   const factoryAddress = getFactoryAddress(chainId);
   if (!factoryAddress) {
-    throw new Error(`Factory address not configured for chain ${chainId} (${getChainName(chainId)})`);
+    throw new Error(`Factory address not configured for chain ${chainId} (${getChainKey(chainId)})`);
   }
   return factoryAddress;
 }
@@ -111,13 +101,20 @@ const WS_CONNECTION_BACKOFF_MAX = 3600000; // 5 minutes max
  * Create WebSocket provider dynamically for a given chainId
  * Caches providers to prevent multiple connections
  */
-export function getWsProvider(chainId: number): ethers.WebSocketProvider | null {
+export function getWsProvider(chainId: number): EventProvider | null {
   // Enable diagnostic logging for all chains to debug provider creation
   const isDebugChain = true; // Log all chains, not just chain 1
   
   // Always log entry for all chains
   console.log(`🔍 DEBUG getWsProvider ENTRY for chain ${chainId}`);
   
+  // Fixture chains have no WebSocket - their provider delivers events by polling.
+  // Each caller gets its own instance since callers destroy their WebSocket provider when done.
+  const fixtureProvider = createFixtureProvider(chainId);
+  if (fixtureProvider) {
+    return fixtureProvider;
+  }
+
   // Check if we should back off from previous 429 errors
   const attemptInfo = wsConnectionAttempts.get(chainId);
   if (attemptInfo) {
@@ -197,18 +194,9 @@ export function getWsProvider(chainId: number): ethers.WebSocketProvider | null
     if (isDebugChain) {
       console.log(`🔍 DEBUG: Chain ${chainId} RETURNING NULL - NO URL`, {
         chainId,
-        envVar: chainId === 1 ? 'ETHEREUM_WS_URL' :
-                chainId === 8453 ? 'BASE_WS_URL' :
-                chainId === 42161 ? 'ARBITRUM_WS_URL' :
-                chainId === 84532 ? 'BASE_SEPOLIA_WS_URL' : 'UNKNOWN',
-        envValue: process.env[chainId === 1 ? 'ETHEREUM_WS_URL' :
-                              chainId === 8453 ? 'BASE_WS_URL' :
-                              chainId === 42161 ? 'ARBITRUM_WS_URL' :
-                              chainId === 84532 ? 'BASE_SEPOLIA_WS_URL' : ''] || 'NOT SET',
-        envValueLength: process.env[chainId === 1 ? 'ETHEREUM_WS_URL' :
-                                  chainId === 8453 ? 'BASE_WS_URL' :
-                                  chainId === 42161 ? 'ARBITRUM_WS_URL' :
-                                  chainId === 84532 ? 'BASE_SEPOLIA_WS_URL' : '']?.length
+        envVar: getChainConfig(chainId)?.wsUrlEnv || 'UNKNOWN',
+        envValue: process.env[getChainConfig(chainId)?.wsUrlEnv || ''] || 'NOT SET',
+        envValueLength: process.env[getChainConfig(chainId)?.wsUrlEnv || '']?.length
       });
     }
     return null; // RETURN POINT 3: No URL configured
@@ -377,18 +365,7 @@ export function getWsContract(chainId: number): ethers.Contract | null {
  * Get all configured chains (chains that have both RPC URL and Factory Address)
  */
 export function getConfiguredChains(): number[] {
-  const supportedChains = [1, 8453, 42161, 84532]; // Ethereum, Base, Arbitrum, Base Sepolia
-  const configuredChains: number[] = [];
-  
-  for (const chainId of supportedChains) {
-    const rpcUrl = getRpcUrl(chainId);
-    const factoryAddress = getFactoryAddress(chainId);
-    if (rpcUrl && factoryAddress) {
-      configuredChains.push(chainId);
-    }
-  }
-  
-  return configuredChains;
+  return getSupportedChainIds().filter((chainId) => getChainConfig(chainId)?.configured);
 }
 
 /**
@@ -396,7 +373,7 @@ export function getConfiguredChains(): number[] {
  * Uses chain-specific private key: OWNER_PRIVATE_KEY_{CHAIN_NAME} or fallback to OWNER_PRIVATE_KEY
  */
 export function getOwnerSigner(chainId: number): ethers.Wallet {
-  const chainName = getChainName(chainId);
+  const chainName = getChainKey(chainId);
   const privateKey = process.env[`OWNER_PRIVATE_KEY_${chainName}`] || process.env.OWNER_PRIVATE_KEY;
   
   if (!privateKey) {
@@ -426,8 +403,13 @@ const defaultRpcUrl = getRpcUrl(defaultChainId);
 const defaultFactoryAddress = getFactoryAddress(defaultChainId);
 
 if (!defaultRpcUrl || !defaultFactoryAddress) {
-  console.error(`Error: Missing environment variables for default chain ${defaultChainId} (${getChainName(defaultChainId)}).`);
-  console.error(`Required: ${getChainName(defaultChainId)}_RPC_URL and FACTORY_ADDRESS_${getChainName(defaultChainId)}`);
+  const defaultChain = getChainConfig(defaultChainId);
+  if (!defaultChain) {
+    console.error(`Error: Default chain ${defaultChainId} (CHAIN_ID) is not in the chain registry.`);
+  } else {
+    console.error(`Error: Missing environment variables for default chain ${defaultChainId} (${defaultChain.name}).`);
+    console.error(`Required: ${defaultChain.rpcUrlEnv} and ${defaultChain.factoryAddressEnv || `FACTORY_ADDRESS_${defaultChain.key}`}`);
+  }
   process.exit(1);
 }
 
@@ -438,7 +420,7 @@ export const contract = new ethers.Contract(defaultFactoryAddress, FactoryABI, p
 
 // Default WebSocket provider (optional)
 const defaultWsUrl = getWsUrl(defaultChainId);
-let ws_provider: ethers.WebSocketProvider | null = null;
+let ws_provider: EventProvider | null = null;
 let ws_contract: ethers.Contract | null = null;
 
 if (defaultWsUrl) {
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import defaultChains from './chainRegistry.json';
+import { ChainDefinition, ChainConfig } from '../types';
+import { getFixtureScenario } from './fixtureChain';
+
+dotenv.config();
+
+/**
+ * Load the chain registry: src/config/chainRegistry.json, or the JSON file at CHAIN_REGISTRY_PATH.
+ * Every module resolves chain metadata (names, URLs, factory, explorer, confirmations) from here.
+ */
+const loadChainDefinitions = (): ChainDefinition[] => {
+  const registryPath = process.env.CHAIN_REGISTRY_PATH?.trim();
+  const definitions: ChainDefinition[] = registryPath
+    ? JSON.parse(fs.readFileSync(path.resolve(registryPath), 'utf8'))
+    : defaultChains;
+
+  const seen = new Set<number>();
+  for (const definition of definitions) {
+    if (!Number.isInteger(definition.chainId) || !definition.key || !definition.rpcUrlEnv) {
+      throw new Error(`Invalid chain registry entry: ${JSON.stringify(definition)}`);
+    }
+    if (seen.has(definition.chainId)) {
+      throw new Error(`Duplicate chain ${definition.chainId} in chain registry`);
+    }
+    seen.add(definition.chainId);
+  }
+  return definitions;
+};
+
+const chainDefinitions = new Map<number, ChainDefinition>(
+  loadChainDefinitions().map((definition) => [definition.chainId, definition])
+);
+
+const readEnv = (name: string | undefined): string | undefined => {
+  const value = name ? process.env[name]?.trim() : undefined;
+  return value || undefined;
+};
+
+/**
+ * Registry entry for a chain with env-provided values resolved (undefined for unknown chains)
+ */
+export const getChainConfig = (chainId: number): ChainConfig | undefined => {
+  const definition = chainDefinitions.get(chainId);
+  if (!definition) {
+    return undefined;
+  }
+
+  // Chains replayed from a fixture scenario are served in-process (see fixtureChain.ts)
+  const fixture = getFixtureScenario(chainId);
+  if (fixture) {
+    return {
+      ...definition,
+      rpcUrl: `fixture://${chainId}`,
+      rpcUrls: [`fixture://${chainId}`],
+      wsUrl: `fixture://${chainId}`,
+      factoryAddress: fixture.factoryAddress,
+      configured: true,
+    };
+  }
+
+  const rpcUrls = (readEnv(definition.rpcUrlEnv) || definition.rpcUrl || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+  const rpcUrl = rpcUrls[0];
+  const factoryAddress = readEnv(definition.factoryAddressEnv || `FACTORY_ADDRESS_${definition.key}`)
+    || definition.factoryAddress?.trim() || undefined;
+  return {
+    ...definition,
+    rpcUrl,
+    rpcUrls,
+    wsUrl: readEnv(definition.wsUrlEnv) || definition.wsUrl?.trim() || undefined,
+    factoryAddress,
+    configured: !!rpcUrl && !!factoryAddress,
+  };
+};
+
+/**
+ * Registry entry for a chain, throwing for chains that aren't in the registry
+ */
+export const requireChainConfig = (chainId: number): ChainConfig => {
+  const config = getChainConfig(chainId);
+  if (!config) {
+    throw new Error(`Unsupported chain ${chainId}`);
+  }
+  return config;
+};
+
+/**
+ * Every chain in the registry (configured or not)
+ */
+export const getSupportedChains = (): ChainConfig[] =>
+  Array.from(chainDefinitions.keys()).map((chainId) => getChainConfig(chainId)!);
+
+/**
+ * Chain IDs of the registry (used for schema enums)
+ */
+export const getSupportedChainIds = (): number[] => Array.from(chainDefinitions.keys());
+
+/**
+ * Registry key of a chain (suffix of its per-chain env vars), or UNKNOWN_<chainId>
+ */
+export const getChainKey = (chainId: number): string => chainDefinitions.get(chainId)?.key || `UNKNOWN_${chainId}`;
+
+/**
+ * Block explorer link for an address or transaction (null for unknown chains)
+ */
+export const getExplorerUrl = (chainId: number, type: 'address' | 'tx', value: string): string | null => {
+  const explorerUrl = chainDefinitions.get(chainId)?.explorerUrl;
+  return explorerUrl ? `${explorerUrl.replace(/\/+$/, '')}/${type}/${value}` : null;
+};
@@ -0,0 +1,80 @@
+import { ethers } from 'ethers';
+import RouterABI from './abi/UniswapV2Router02.json';
+import PairFactoryABI from './abi/UniswapV2Factory.json';
+import PairABI from './abi/UniswapV2Pair.json';
+import { getContract, getProvider } from './blockchain';
+
+// Uniswap V2 pair interface shared by the live tracker and the backfill
+export const pairInterface = new ethers.Interface(PairABI);
+export const SWAP_TOPIC = pairInterface.getEvent('Swap')!.topicHash;
+export const SYNC_TOPIC = pairInterface.getEvent('Sync')!.topicHash;
+
+interface DexConfig {
+  routerAddress: string;
+  pairFactoryAddress: string;
+  wethAddress: string;
+}
+
+// Router/factory/WETH addresses per chain (read once from the TokenFactory's configured router)
+const dexConfigCache = new Map<number, DexConfig>();
+
+/**
+ * Get the Uniswap V2 router, pair factory and WETH addresses used by the TokenFactory on a chain
+ */
+export async function getDexConfig(chainId: number): Promise<DexConfig> {
+  const cached = dexConfigCache.get(chainId);
+  if (cached) {
+    return cached;
+  }
+
+  const provider = getProvider(chainId);
+  const routerAddress: string = process.env.UNISWAP_ROUTER_ADDRESS?.trim() || await getContract(chainId).uniswapRouter();
+  const router = new ethers.Contract(routerAddress, RouterABI, provider);
+  const [pairFactoryAddress, wethAddress] = await Promise.all([router.factory(), router.WETH()]);
+
+  const config: DexConfig = {
+    routerAddress: routerAddress.toLowerCase(),
+    pairFactoryAddress: (pairFactoryAddress as string).toLowerCase(),
+    wethAddress: (wethAddress as string).toLowerCase(),
+  };
+  dexConfigCache.set(chainId, config);
+  return config;
+}
+
+/**
+ * Forget the cached router configuration (e.g. after UniswapRouterUpdated)
+ */
+export function clearDexConfig(chainId: number): void {
+  dexConfigCache.delete(chainId);
+}
+
+/**
+ * Resolve the token/WETH pair address for a graduated token. Returns null if no pair exists yet.
+ */
+export async function resolvePairAddress(
+  chainId: number,
+  tokenAddress: string
+): Promise<{ pairAddress: string; wethAddress: string } | null> {
+  const { pairFactoryAddress, wethAddress } = await getDexConfig(chainId);
+  const pairFactory = new ethers.Contract(pairFactoryAddress, PairFactoryABI, getProvider(chainId));
+  const pairAddress: string = await pairFactory.getPair(tokenAddress, wethAddress);
+
+  if (!pairAddress || pairAddress === ethers.ZeroAddress) {
+    return null;
+  }
+  return { pairAddress: pairAddress.toLowerCase(), wethAddress };
+}
+
+/**
+ * Get a read-only pair contract
+ */
+export function getPairContract(chainId: number, pairAddress: string): ethers.Contract {
+  return new ethers.Contract(pairAddress, PairABI, getProvider(chainId));
+}
+
+/**
+ * Uniswap orders pair tokens by address, so the token is token0 when its address sorts below WETH
+ */
+export function isToken0(tokenAddress: string, quoteTokenAddress: string): boolean {
+  return tokenAddress.toLowerCase() < quoteTokenAddress.toLowerCase();
+}
@@ -0,0 +1,752 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+import FactoryABI from './abi/TokenFactory.json';
+import TokenABI from './abi/Token.json';
+import PairABI from './abi/UniswapV2Pair.json';
+import RouterABI from './abi/UniswapV2Router02.json';
+import PairFactoryABI from './abi/UniswapV2Factory.json';
+import { FixtureScenario, FixtureEventSpec, FixtureCallSpec, FixtureReactionSpec } from '../types';
+
+dotenv.config();
+
+const DEFAULT_BLOCK_TIME_MS = 2000;
+const DEFAULT_GAS_PRICE = 1000000000n; // 1 gwei
+const TRANSFER_GAS = 21000n;
+const CONTRACT_CALL_GAS = 200000n;
+// Code returned by eth_getCode for addresses the scenario treats as contracts
+const CONTRACT_CODE = '0x6080604052';
+// Signature attached to scripted transactions (ethers only checks it is well-formed)
+const FIXTURE_SIGNATURE = { r: `0x${'11'.repeat(32)}`, s: `0x${'22'.repeat(32)}`, v: '0x1b' };
+
+// ABIs the scenario's events, calls and reactions are resolved against
+const factoryInterface = new ethers.Interface(FactoryABI);
+const fixtureInterfaces = [
+  factoryInterface,
+  new ethers.Interface(TokenABI),
+  new ethers.Interface(PairABI),
+  new ethers.Interface(RouterABI),
+  new ethers.Interface(PairFactoryABI),
+];
+
+interface FixtureLog {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex: number;
+}
+
+interface FixtureTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: bigint;
+  data: string;
+  nonce: number;
+  gasLimit: bigint;
+  gasUsed: bigint;
+  signed: boolean; // sent through eth_sendRawTransaction (pays gas)
+  status: number;
+  contractAddress: string | null;
+  logs: FixtureLog[];
+  blockNumber: number;
+  index: number;
+}
+
+interface FixtureBlock {
+  number: number;
+  timestamp: number;
+  transactions: FixtureTransaction[];
+}
+
+class FixtureRpcError extends Error {
+  code: number;
+  data?: string;
+
+  constructor(code: number, message: string, data?: string) {
+    super(message);
+    this.code = code;
+    this.data = data;
+  }
+}
+
+const toHex = (value: number | bigint): string => ethers.toQuantity(value);
+
+const findEvent = (name: string): { iface: ethers.Interface; fragment: ethers.EventFragment } | null => {
+  for (const iface of fixtureInterfaces) {
+    const fragment = iface.getEvent(name);
+    if (fragment) {
+      return { iface, fragment };
+    }
+  }
+  return null;
+};
+
+const findFunction = (name: string): { iface: ethers.Interface; fragment: ethers.FunctionFragment } | null => {
+  for (const iface of fixtureInterfaces) {
+    const fragment = iface.getFunction(name);
+    if (fragment) {
+      return { iface, fragment };
+    }
+  }
+  return null;
+};
+
+// Revert data as produced by `require(false, reason)`
+const encodeRevert = (reason: string): string =>
+  ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+
+/**
+ * In-memory chain built from a scenario: scripted blocks, their logs and transfers, plus the transactions
+ * sent to it. Block hashes are derived from the block number so they stay stable across restarts.
+ */
+class FixtureChain {
+  readonly scenario: FixtureScenario;
+  readonly chainId: number;
+  readonly factoryAddress: string;
+  private readonly blockTimeMs: number;
+  private readonly gasPrice: bigint;
+  private readonly startBlock: number;
+  private readonly genesisTimestamp: number;
+  private readonly loadedAt = Date.now();
+  private readonly blocks = new Map<number, FixtureBlock>();
+  private readonly transactions = new Map<string, FixtureTransaction>();
+  private readonly blockHashes = new Map<string, number>();
+  private readonly nonces = new Map<string, number>();
+  private readonly contracts = new Set<string>();
+  private lastBlock: number;
+  private minedHead: number;
+
+  constructor(scenario: FixtureScenario) {
+    if (!Number.isInteger(scenario.chainId) || !ethers.isAddress(scenario.factoryAddress) || !Array.isArray(scenario.blocks)) {
+      throw new Error('Fixture scenario needs a chainId, a factoryAddress and a blocks array');
+    }
+    this.scenario = scenario;
+    this.chainId = scenario.chainId;
+    this.factoryAddress = scenario.factoryAddress.toLowerCase();
+    this.blockTimeMs = scenario.blockTimeMs || DEFAULT_BLOCK_TIME_MS;
+    this.gasPrice = scenario.gasPrice ? BigInt(scenario.gasPrice) : DEFAULT_GAS_PRICE;
+
+    const scripted = [...scenario.blocks].sort((a, b) => a.number - b.number);
+    this.startBlock = scenario.startBlock ?? Math.max(0, (scripted[0]?.number ?? 1) - 1);
+    this.genesisTimestamp = scenario.genesisTimestamp ?? Math.floor(this.loadedAt / 1000);
+    this.lastBlock = this.startBlock;
+    this.minedHead = this.startBlock;
+    this.contracts.add(this.factoryAddress);
+
+    for (const blockSpec of scripted) {
+      if (blockSpec.number <= this.startBlock) {
+        throw new Error(`Fixture block ${blockSpec.number} is not after startBlock ${this.startBlock}`);
+      }
+      const block = this.ensureBlock(blockSpec.number, blockSpec.timestamp);
+
+      for (const transfer of blockSpec.transactions || []) {
+        this.addTransaction(block, {
+          hash: transfer.hash,
+          from: this.resolveAddress(transfer.from),
+          to: this.resolveAddress(transfer.to),
+          value: BigInt(transfer.value || '0'),
+          data: transfer.data || '0x',
+        });
+      }
+
+      // Events sharing a txHash belong to one transaction
+      const eventTransactions = new Map<string, FixtureTransaction>();
+      for (const eventSpec of blockSpec.events || []) {
+        const log = this.encodeEvent(eventSpec, {});
+        let tx = eventSpec.txHash ? eventTransactions.get(eventSpec.txHash.toLowerCase()) : undefined;
+        if (!tx) {
+          tx = this.addTransaction(block, {
+            hash: eventSpec.txHash,
+            from: eventSpec.from ? this.resolveAddress(eventSpec.from) : ethers.ZeroAddress,
+            to: log.address,
+            value: 0n,
+            data: '0x',
+          });
+          eventTransactions.set(tx.hash, tx);
+        }
+        tx.logs.push(log);
+      }
+      this.indexLogs(block);
+    }
+  }
+
+  /**
+   * Latest block: every scripted block in instant mode, or one block per blockTimeMs since load in realtime mode
+   */
+  getHead(): number {
+    if (this.scenario.mode === 'realtime') {
+      return Math.max(this.minedHead, this.startBlock + Math.floor((Date.now() - this.loadedAt) / this.blockTimeMs));
+    }
+    return Math.max(this.lastBlock, this.minedHead);
+  }
+
+  blockHash(blockNumber: number): string {
+    const hash = ethers.id(`fixture:${this.chainId}:block:${blockNumber}`);
+    this.blockHashes.set(hash, blockNumber);
+    return hash;
+  }
+
+  resolveAddress(address: string): string {
+    if (address === 'factory') {
+      return this.factoryAddress;
+    }
+    if (!ethers.isAddress(address)) {
+      throw new Error(`Invalid address in fixture scenario: ${address}`);
+    }
+    return address.toLowerCase();
+  }
+
+  resolveBlockTag(tag: any): number {
+    if (tag === undefined || tag === null || ['latest', 'pending', 'safe', 'finalized'].includes(tag)) {
+      return this.getHead();
+    }
+    if (tag === 'earliest') {
+      return 0;
+    }
+    return Math.min(Number(tag), this.getHead());
+  }
+
+  private ensureBlock(blockNumber: number, timestamp?: number): FixtureBlock {
+    let block = this.blocks.get(blockNumber);
+    if (!block) {
+      block = { number: blockNumber, timestamp: timestamp ?? this.timestampOf(blockNumber), transactions: [] };
+      this.blocks.set(blockNumber, block);
+      this.lastBlock = Math.max(this.lastBlock, blockNumber);
+    }
+    return block;
+  }
+
+  private timestampOf(blockNumber: number): number {
+    return this.genesisTimestamp + Math.floor(((blockNumber - this.startBlock) * this.blockTimeMs) / 1000);
+  }
+
+  // Existing block, or an empty one for unscripted numbers up to the head
+  getBlock(blockNumber: number): FixtureBlock | null {
+    if (blockNumber < 0 || blockNumber > this.getHead()) {
+      return null;
+    }
+    return this.blocks.get(blockNumber) || { number: blockNumber, timestamp: this.timestampOf(blockNumber), transactions: [] };
+  }
+
+  getBlockByHash(hash: string): FixtureBlock | null {
+    const blockNumber = this.blockHashes.get(hash.toLowerCase());
+    return blockNumber === undefined ? null : this.getBlock(blockNumber);
+  }
+
+  getTransaction(hash: string): FixtureTransaction | null {
+    const tx = this.transactions.get(hash.toLowerCase());
+    return tx && tx.blockNumber <= this.getHead() ? tx : null;
+  }
+
+  private addTransaction(
+    block: FixtureBlock,
+    fields: { hash?: string; from: string; to: string | null; value: bigint; data: string; gasLimit?: bigint; nonce?: number; signed?: boolean }
+  ): FixtureTransaction {
+    const nonce = fields.nonce ?? (this.nonces.get(fields.from) || 0);
+    this.nonces.set(fields.from, Math.max(this.nonces.get(fields.from) || 0, nonce + 1));
+
+    const gas = fields.data !== '0x' || fields.to === null ? CONTRACT_CALL_GAS : TRANSFER_GAS;
+    const tx: FixtureTransaction = {
+      hash: (fields.hash || ethers.id(`fixture:${this.chainId}:tx:${block.number}:${block.transactions.length}`)).toLowerCase(),
+      from: fields.from,
+      to: fields.to,
+      value: fields.value,
+      data: fields.data,
+      nonce,
+      gasLimit: fields.gasLimit ?? gas,
+      gasUsed: fields.gasLimit !== undefined && fields.gasLimit < gas ? fields.gasLimit : gas,
+      signed: !!fields.signed,
+      status: 1,
+      contractAddress: null,
+      logs: [],
+      blockNumber: block.number,
+      index: block.transactions.length,
+    };
+    if (this.transactions.has(tx.hash)) {
+      throw new Error(`Duplicate fixture transaction ${tx.hash}`);
+    }
+    block.transactions.push(tx);
+    this.transactions.set(tx.hash, tx);
+    return tx;
+  }
+
+  // Log indexes are positions within the block
+  private indexLogs(block: FixtureBlock): void {
+    let logIndex = 0;
+    for (const tx of block.transactions) {
+      for (const log of tx.logs) {
+        log.logIndex = logIndex++;
+      }
+    }
+  }
+
+  private encodeEvent(eventSpec: FixtureEventSpec, substitutions: Record<string, string>): FixtureLog {
+    const found = findEvent(eventSpec.event);
+    if (!found) {
+      throw new Error(`Unknown fixture event ${eventSpec.event}`);
+    }
+    const { iface, fragment } = found;
+    if (!eventSpec.address && iface !== factoryInterface) {
+      throw new Error(`Fixture event ${eventSpec.event} needs an address`);
+    }
+    const address = this.resolveAddress(eventSpec.address || 'factory');
+    this.contracts.add(address);
+
+    const values = fragment.inputs.map((input, index) => {
+      const value = Array.isArray(eventSpec.args) ? eventSpec.args[index] : eventSpec.args[input.name];
+      if (value === undefined) {
+        throw new Error(`Fixture event ${eventSpec.event} is missing argument ${input.name}`);
+      }
+      const substituted = typeof value === 'string' && value in substitutions ? substitutions[value] : value;
+      return input.type === 'address' ? this.resolveAddress(substituted) : substituted;
+    });
+    // Tokens announced by TokenCreated are contracts from then on
+    if (fragment.name === 'TokenCreated') {
+      this.contracts.add(String(values[0]).toLowerCase());
+    }
+
+    const { data, topics } = iface.encodeEventLog(fragment, values);
+    return { address, topics, data, logIndex: 0 };
+  }
+
+  getLogs(filter: any): Array<{ log: FixtureLog; tx: FixtureTransaction }> {
+    let fromBlock: number;
+    let toBlock: number;
+    if (filter.blockHash) {
+      const block = this.getBlockByHash(filter.blockHash);
+      if (!block) {
+        return [];
+      }
+      fromBlock = toBlock = block.number;
+    } else {
+      fromBlock = this.resolveBlockTag(filter.fromBlock);
+      toBlock = this.resolveBlockTag(filter.toBlock);
+    }
+
+    const addresses = filter.address
+      ? (Array.isArray(filter.address) ? filter.address : [filter.address]).map((address: string) => address.toLowerCase())
+      : null;
+    const topics: Array<string | string[] | null> = filter.topics || [];
+
+    const matches: Array<{ log: FixtureLog; tx: FixtureTransaction }> = [];
+    const blockNumbers = Array.from(this.blocks.keys())
+      .filter((blockNumber) => blockNumber >= fromBlock && blockNumber <= toBlock)
+      .sort((a, b) => a - b);
+    for (const blockNumber of blockNumbers) {
+      for (const tx of this.blocks.get(blockNumber)!.transactions) {
+        for (const log of tx.logs) {
+          if (addresses && !addresses.includes(log.address)) {
+            continue;
+          }
+          const topicsMatch = topics.every((topic, index) => {
+            if (topic === null || topic === undefined) {
+              return true;
+            }
+            const wanted = (Array.isArray(topic) ? topic : [topic]).map((value) => value.toLowerCase());
+            return !!log.topics[index] && wanted.includes(log.topics[index].toLowerCase());
+          });
+          if (topicsMatch) {
+            matches.push({ log, tx });
+          }
+        }
+      }
+    }
+    return matches;
+  }
+
+  // Replays value transfers and gas of every transaction up to the block
+  getBalance(address: string, blockNumber: number): bigint {
+    const account = address.toLowerCase();
+    const initial = Object.entries(this.scenario.balances || {})
+      .find(([holder]) => this.resolveAddress(holder) === account);
+    let balance = initial ? BigInt(initial[1]) : 0n;
+
+    for (const [number, block] of this.blocks) {
+      if (number > blockNumber) {
+        continue;
+      }
+      for (const tx of block.transactions) {
+        if (tx.from === account && tx.signed) {
+          balance -= tx.gasUsed * this.gasPrice;
+        }
+        if (tx.status !== 1) {
+          continue;
+        }
+        if (tx.from === account) {
+          balance -= tx.value;
+        }
+        if (tx.to === account) {
+          balance += tx.value;
+        }
+      }
+    }
+    return balance;
+  }
+
+  getNonce(address: string, blockNumber: number): number {
+    const account = address.toLowerCase();
+    let nonce = 0;
+    for (const [number, block] of this.blocks) {
+      if (number <= blockNumber) {
+        nonce += block.transactions.filter((tx) => tx.from === account).length;
+      }
+    }
+    return nonce;
+  }
+
+  getCode(address: string): string {
+    return this.contracts.has(address.toLowerCase()) ? CONTRACT_CODE : '0x';
+  }
+
+  getGasPrice(): bigint {
+    return this.gasPrice;
+  }
+
+  // Scripted entry (call or reaction) for a call to `to` with `data`
+  private matchMethod<T extends FixtureCallSpec | FixtureReactionSpec>(
+    specs: T[] | undefined,
+    to: string,
+    data: string
+  ): { spec: T; fragment: ethers.FunctionFragment; iface: ethers.Interface } | null {
+    const selector = data.slice(0, 10).toLowerCase();
+    for (const spec of specs || []) {
+      if (this.resolveAddress(spec.to) !== to) {
+        continue;
+      }
+      const found = findFunction(spec.method);
+      if (!found || found.fragment.selector !== selector) {
+        continue;
+      }
+      const args = (spec as FixtureCallSpec).args;
+      if (args) {
+        const decoded = found.iface.decodeFunctionData(found.fragment, data);
+        const matches = args.every((arg, index) =>
+          String(decoded[index]).toLowerCase() === String(found.fragment.inputs[index].type === 'address' ? this.resolveAddress(arg) : arg).toLowerCase()
+        );
+        if (!matches) {
+          continue;
+        }
+      }
+      return { spec, ...found };
+    }
+    return null;
+  }
+
+  call(request: any, blockNumber: number): string {
+    const to = request.to ? String(request.to).toLowerCase() : '';
+    const data = request.data || request.input || '0x';
+
+    const matched = this.matchMethod(this.scenario.calls, to, data);
+    if (matched) {
+      if (matched.spec.revert !== undefined) {
+        throw new FixtureRpcError(3, `execution reverted: ${matched.spec.revert}`, encodeRevert(matched.spec.revert));
+      }
+      return matched.iface.encodeFunctionResult(matched.fragment, matched.spec.returns || []);
+    }
+
+    // ERC20 balances follow the scripted Transfer logs
+    const tokenInterface = fixtureInterfaces[1];
+    const balanceOf = tokenInterface.getFunction('balanceOf')!;
+    if (data.slice(0, 10).toLowerCase() === balanceOf.selector) {
+      const [holder] = tokenInterface.decodeFunctionData(balanceOf, data);
+      return tokenInterface.encodeFunctionResult(balanceOf, [this.getTokenBalance(to, holder, blockNumber)]);
+    }
+
+    throw new FixtureRpcError(3, `execution reverted: no fixture for call to ${to} (${data.slice(0, 10)})`, encodeRevert('no fixture'));
+  }
+
+  private getTokenBalance(tokenAddress: string, holder: string, blockNumber: number): bigint {
+    const transferTopic = fixtureInterfaces[1].getEvent('Transfer')!.topicHash;
+    const account = holder.toLowerCase();
+    let balance = 0n;
+    for (const { log } of this.getLogs({ address: tokenAddress, topics: [transferTopic], fromBlock: 0, toBlock: blockNumber })) {
+      const parsed = fixtureInterfaces[1].parseLog(log);
+      if (!parsed) {
+        continue;
+      }
+      if (String(parsed.args[0]).toLowerCase() === account) {
+        balance -= BigInt(parsed.args[2]);
+      }
+      if (String(parsed.args[1]).toLowerCase() === account) {
+        balance += BigInt(parsed.args[2]);
+      }
+    }
+    return balance;
+  }
+
+  estimateGas(request: any): bigint {
+    const to = request.to ? String(request.to).toLowerCase() : null;
+    const data = request.data || request.input || '0x';
+    if (to) {
+      const reaction = this.matchMethod(this.scenario.reactions, to, data);
+      if (reaction?.spec.revert !== undefined) {
+        throw new FixtureRpcError(3, `execution reverted: ${reaction.spec.revert}`, encodeRevert(reaction.spec.revert));
+      }
+    }
+    return data !== '0x' || !to ? CONTRACT_CALL_GAS : TRANSFER_GAS;
+  }
+
+  /**
+   * Mine a signed transaction into the next block, applying the scenario's reaction to the called method
+   */
+  sendRawTransaction(raw: string): string {
+    const signedTx = ethers.Transaction.from(raw);
+    if (!signedTx.from || !signedTx.hash) {
+      throw new FixtureRpcError(-32000, 'invalid transaction: missing signature');
+    }
+    if (signedTx.chainId !== 0n && signedTx.chainId !== BigInt(this.chainId)) {
+      throw new FixtureRpcError(-32000, `invalid chain id ${signedTx.chainId}`);
+    }
+
+    const from = signedTx.from.toLowerCase();
+    const to = signedTx.to ? signedTx.to.toLowerCase() : null;
+    const head = this.getHead();
+    const gas = this.estimateGasSafe(signedTx);
+    if (this.getBalance(from, head) < signedTx.value + gas * this.gasPrice) {
+      throw new FixtureRpcError(-32000, 'insufficient funds for gas * price + value');
+    }
+
+    const block = this.ensureBlock(head + 1);
+    this.minedHead = block.number;
+    const tx = this.addTransaction(block, {
+      hash: signedTx.hash,
+      from,
+      to,
+      value: signedTx.value,
+      data: signedTx.data,
+      gasLimit: signedTx.gasLimit,
+      nonce: signedTx.nonce,
+      signed: true,
+    });
+
+    if (!to) {
+      tx.contractAddress = ethers.getCreateAddress({ from, nonce: signedTx.nonce }).toLowerCase();
+      this.contracts.add(tx.contractAddress);
+    } else {
+      const reaction = this.matchMethod(this.scenario.reactions, to, signedTx.data);
+      if (reaction?.spec.revert !== undefined) {
+        tx.status = 0;
+      } else if (reaction) {
+        const substitutions = { $from: from, $to: to, $value: signedTx.value.toString() };
+        tx.logs.push(...(reaction.spec.events || []).map((eventSpec) => this.encodeEvent(eventSpec, substitutions)));
+      }
+    }
+    this.indexLogs(block);
+    return tx.hash;
+  }
+
+  private estimateGasSafe(signedTx: ethers.Transaction): bigint {
+    const gas = signedTx.data !== '0x' || !signedTx.to ? CONTRACT_CALL_GAS : TRANSFER_GAS;
+    return signedTx.gasLimit < gas ? signedTx.gasLimit : gas;
+  }
+}
+
+const formatLog = (chain: FixtureChain, log: FixtureLog, tx: FixtureTransaction) => ({
+  address: ethers.getAddress(log.address),
+  topics: log.topics,
+  data: log.data,
+  blockNumber: toHex(tx.blockNumber),
+  blockHash: chain.blockHash(tx.blockNumber),
+  transactionHash: tx.hash,
+  transactionIndex: toHex(tx.index),
+  logIndex: toHex(log.logIndex),
+  removed: false,
+});
+
+const formatTransaction = (chain: FixtureChain, tx: FixtureTransaction) => ({
+  hash: tx.hash,
+  blockHash: chain.blockHash(tx.blockNumber),
+  blockNumber: toHex(tx.blockNumber),
+  transactionIndex: toHex(tx.index),
+  from: ethers.getAddress(tx.from),
+  to: tx.to ? ethers.getAddress(tx.to) : null,
+  value: toHex(tx.value),
+  gas: toHex(tx.gasLimit),
+  gasPrice: toHex(chain.getGasPrice()),
+  input: tx.data,
+  nonce: toHex(tx.nonce),
+  type: '0x0',
+  chainId: toHex(chain.chainId),
+  ...FIXTURE_SIGNATURE,
+});
+
+const formatReceipt = (chain: FixtureChain, tx: FixtureTransaction) => ({
+  transactionHash: tx.hash,
+  transactionIndex: toHex(tx.index),
+  blockHash: chain.blockHash(tx.blockNumber),
+  blockNumber: toHex(tx.blockNumber),
+  from: ethers.getAddress(tx.from),
+  to: tx.to ? ethers.getAddress(tx.to) : null,
+  contractAddress: tx.contractAddress ? ethers.getAddress(tx.contractAddress) : null,
+  cumulativeGasUsed: toHex(tx.gasUsed),
+  gasUsed: toHex(tx.gasUsed),
+  effectiveGasPrice: toHex(chain.getGasPrice()),
+  logs: tx.logs.map((log) => formatLog(chain, log, tx)),
+  logsBloom: `0x${'00'.repeat(256)}`,
+  status: toHex(tx.status),
+  type: '0x0',
+});
+
+const formatBlock = (chain: FixtureChain, block: FixtureBlock, fullTransactions: boolean) => ({
+  number: toHex(block.number),
+  hash: chain.blockHash(block.number),
+  parentHash: block.number > 0 ? chain.blockHash(block.number - 1) : ethers.ZeroHash,
+  timestamp: toHex(block.timestamp),
+  nonce: '0x0000000000000000',
+  difficulty: '0x0',
+  gasLimit: toHex(30000000),
+  gasUsed: toHex(block.transactions.reduce((sum, tx) => sum + tx.gasUsed, 0n)),
+  miner: ethers.ZeroAddress,
+  extraData: '0x',
+  baseFeePerGas: toHex(chain.getGasPrice()),
+  transactions: fullTransactions
+    ? block.transactions.map((tx) => formatTransaction(chain, tx))
+    : block.transactions.map((tx) => tx.hash),
+});
+
+// JSON-RPC methods the backend uses, answered from the fixture chain
+const handleRequest = (chain: FixtureChain, method: string, params: any[]): any => {
+  switch (method) {
+    case 'eth_chainId':
+      return toHex(chain.chainId);
+    case 'net_version':
+      return String(chain.chainId);
+    case 'eth_blockNumber':
+      return toHex(chain.getHead());
+    case 'eth_getBlockByNumber': {
+      const block = chain.getBlock(chain.resolveBlockTag(params[0]));
+      return block ? formatBlock(chain, block, !!params[1]) : null;
+    }
+    case 'eth_getBlockByHash': {
+      const block = chain.getBlockByHash(params[0]);
+      return block ? formatBlock(chain, block, !!params[1]) : null;
+    }
+    case 'eth_getTransactionByHash': {
+      const tx = chain.getTransaction(params[0]);
+      return tx ? formatTransaction(chain, tx) : null;
+    }
+    case 'eth_getTransactionReceipt': {
+      const tx = chain.getTransaction(params[0]);
+      return tx ? formatReceipt(chain, tx) : null;
+    }
+    case 'eth_getLogs':
+      return chain.getLogs(params[0] || {}).map(({ log, tx }) => formatLog(chain, log, tx));
+    case 'eth_getBalance':
+      return toHex(chain.getBalance(params[0], chain.resolveBlockTag(params[1])));
+    case 'eth_getTransactionCount':
+      return toHex(chain.getNonce(params[0], chain.resolveBlockTag(params[1])));
+    case 'eth_getCode':
+      return chain.getCode(params[0]);
+    case 'eth_call':
+      return chain.call(params[0] || {}, chain.resolveBlockTag(params[1]));
+    case 'eth_estimateGas':
+      return toHex(chain.estimateGas(params[0] || {}));
+    case 'eth_gasPrice':
+      return toHex(chain.getGasPrice());
+    case 'eth_maxPriorityFeePerGas':
+      return '0x0';
+    case 'eth_sendRawTransaction':
+      return chain.sendRawTransaction(params[0]);
+    default:
+      throw new FixtureRpcError(-32601, `the method ${method} is not supported by the fixture chain`);
+  }
+};
+
+/**
+ * JsonRpcProvider answering from a fixture chain instead of the network. Events are delivered by
+ * polling (eth_blockNumber + eth_getLogs), so contract and filter listeners work as with a live node.
+ */
+export class FixtureChainProvider extends ethers.JsonRpcProvider {
+  private readonly chain: FixtureChain;
+
+  constructor(chain: FixtureChain) {
+    super(`fixture://${chain.chainId}`, chain.chainId, {
+      staticNetwork: true,
+      batchMaxCount: 1,
+      polling: true,
+      pollingInterval: Math.min(chain.scenario.blockTimeMs || DEFAULT_BLOCK_TIME_MS, 4000),
+    });
+    this.chain = chain;
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult>> {
+    const requests = Array.isArray(payload) ? payload : [payload];
+    return requests.map((request) => {
+      try {
+        return { id: request.id, result: handleRequest(this.chain, request.method, request.params as any[] || []) };
+      } catch (error: any) {
+        const rpcError = error instanceof FixtureRpcError ? error : new FixtureRpcError(-32603, error.message);
+        return { id: request.id, error: { code: rpcError.code, message: rpcError.message, data: rpcError.data } } as any;
+      }
+    });
+  }
+}
+
+// Scenarios by chain (loaded once from FIXTURE_CHAIN_SCENARIO, or registered programmatically)
+let fixtureChains: Map<number, FixtureChain> | null = null;
+const sharedProviders = new Map<number, FixtureChainProvider>();
+
+const loadFixtureChains = (): Map<number, FixtureChain> => {
+  if (fixtureChains) {
+    return fixtureChains;
+  }
+  fixtureChains = new Map();
+
+  const scenarioPath = process.env.FIXTURE_CHAIN_SCENARIO?.trim();
+  if (scenarioPath) {
+    const parsed = JSON.parse(fs.readFileSync(path.resolve(scenarioPath), 'utf8'));
+    for (const scenario of (Array.isArray(parsed) ? parsed : [parsed]) as FixtureScenario[]) {
+      if (fixtureChains.has(scenario.chainId)) {
+        throw new Error(`Duplicate fixture scenario for chain ${scenario.chainId}`);
+      }
+      fixtureChains.set(scenario.chainId, new FixtureChain(scenario));
+    }
+    console.log(`🧪 Fixture chain mode: serving chain(s) ${Array.from(fixtureChains.keys()).join(', ')} from ${scenarioPath}`);
+  }
+  return fixtureChains;
+};
+
+/**
+ * Serve a chain from a scenario object (replaces any scenario already loaded for the chain).
+ * The chain must be in the chain registry.
+ */
+export const registerFixtureScenario = (scenario: FixtureScenario): void => {
+  loadFixtureChains().set(scenario.chainId, new FixtureChain(scenario));
+  sharedProviders.get(scenario.chainId)?.destroy();
+  sharedProviders.delete(scenario.chainId);
+};
+
+/**
+ * Scenario of a chain served by the fixture provider (undefined for live chains)
+ */
+export const getFixtureScenario = (chainId: number): FixtureScenario | undefined =>
+  loadFixtureChains().get(chainId)?.scenario;
+
+export const isFixtureChain = (chainId: number): boolean => loadFixtureChains().has(chainId);
+
+/**
+ * Shared fixture provider of a chain (undefined for live chains)
+ */
+export const getFixtureProvider = (chainId: number): FixtureChainProvider | undefined => {
+  const chain = loadFixtureChains().get(chainId);
+  if (!chain) {
+    return undefined;
+  }
+  let provider = sharedProviders.get(chainId);
+  if (!provider || provider.destroyed) {
+    provider = new FixtureChainProvider(chain);
+    sharedProviders.set(chainId, provider);
+  }
+  return provider;
+};
+
+/**
+ * Separate provider over the same fixture chain, for consumers that destroy their provider
+ * (stand-in for the WebSocket provider)
+ */
+export const createFixtureProvider = (chainId: number): FixtureChainProvider | undefined => {
+  const chain = loadFixtureChains().get(chainId);
+  return chain ? new FixtureChainProvider(chain) : undefined;
+};
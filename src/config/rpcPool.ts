@@ -0,0 +1,396 @@
+import { ethers } from 'ethers';
+import { getChainConfig, getChainKey } from './chains';
+import { isFixtureChain } from './fixtureChain';
+
+const REQUEST_TIMEOUT_MS = Number(process.env.RPC_REQUEST_TIMEOUT_MS) || 15000; // 15 seconds
+const HEALTH_CHECK_INTERVAL_MS = Number(process.env.RPC_HEALTH_CHECK_INTERVAL_MS) || 30000; // 30 seconds
+// An endpoint this many blocks behind the best known head is skipped while others are in sync
+const MAX_HEAD_LAG_BLOCKS = Number(process.env.RPC_MAX_HEAD_LAG_BLOCKS) || 10;
+const DEFAULT_MAX_RPS = 25;
+
+// Consecutive transport failures before an endpoint is put in cooldown
+const FAILURES_BEFORE_COOLDOWN = 3;
+const COOLDOWN_BASE_MS = 5000; // 5 seconds
+const COOLDOWN_MAX_MS = 5 * 60 * 1000; // 5 minutes
+
+// Weight of the newest sample in the latency and error-rate moving averages
+const EWMA_WEIGHT = 0.2;
+// Latency assumed for endpoints that haven't answered yet (lets new endpoints get picked)
+const UNKNOWN_LATENCY_MS = 100;
+
+// JSON-RPC error results that mean "this endpoint is throttling us" (anything else is the caller's problem)
+const RATE_LIMIT_PATTERNS = [
+  /rate limit/i,
+  /too many requests/i,
+  /request rate/i,
+  /request count/i,
+  /compute units/i,
+  /capacity/i,
+];
+
+interface RpcEndpoint {
+  url: string;
+  label: string; // host and position only - RPC URLs usually embed API keys
+  connection: ethers.FetchRequest;
+  maxRps: number;
+  tokens: number;
+  refilledAt: number;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  errorRate: number;
+  cooldownUntil: number;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  headBlock: number | null;
+  lastHealthCheckAt: Date | null;
+}
+
+export interface RpcEndpointMetrics {
+  label: string;
+  healthy: boolean;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  avgLatencyMs: number | null;
+  errorRate: number;
+  score: number;
+  maxRps: number;
+  cooldownUntil: Date | null;
+  headBlock: number | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  lastHealthCheckAt: Date | null;
+}
+
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const redactUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}`;
+  } catch (error) {
+    return 'invalid-url';
+  }
+};
+
+const createEndpoint = (url: string, index: number, maxRps: number): RpcEndpoint => {
+  const connection = new ethers.FetchRequest(url);
+  connection.timeout = REQUEST_TIMEOUT_MS;
+  // Fail fast on 429 - the pool moves on to another endpoint instead of FetchRequest's built-in retries
+  connection.retryFunc = async () => false;
+
+  return {
+    url,
+    label: `#${index + 1} ${redactUrl(url)}`,
+    connection,
+    maxRps,
+    tokens: maxRps,
+    refilledAt: Date.now(),
+    requests: 0,
+    failures: 0,
+    rateLimited: 0,
+    consecutiveFailures: 0,
+    avgLatencyMs: null,
+    errorRate: 0,
+    cooldownUntil: 0,
+    lastError: null,
+    lastErrorAt: null,
+    headBlock: null,
+    lastHealthCheckAt: null,
+  };
+};
+
+// Token bucket: maxRps tokens, refilled continuously
+const refillBudget = (endpoint: RpcEndpoint): void => {
+  const now = Date.now();
+  endpoint.tokens = Math.min(endpoint.maxRps, endpoint.tokens + ((now - endpoint.refilledAt) / 1000) * endpoint.maxRps);
+  endpoint.refilledAt = now;
+};
+
+const tryTakeBudget = (endpoint: RpcEndpoint): boolean => {
+  refillBudget(endpoint);
+  if (endpoint.tokens < 1) {
+    return false;
+  }
+  endpoint.tokens -= 1;
+  return true;
+};
+
+const msUntilBudget = (endpoint: RpcEndpoint): number => {
+  refillBudget(endpoint);
+  return Math.max(0, Math.ceil(((1 - endpoint.tokens) / endpoint.maxRps) * 1000));
+};
+
+// Lower is better: latency, inflated by the recent error rate
+const getScore = (endpoint: RpcEndpoint): number =>
+  (endpoint.avgLatencyMs ?? UNKNOWN_LATENCY_MS) * (1 + endpoint.errorRate * 10);
+
+const isRateLimitResult = (result: any): boolean => {
+  const error = result?.error;
+  if (!error) {
+    return false;
+  }
+  return error.code === 429 || RATE_LIMIT_PATTERNS.some((pattern) => pattern.test(String(error.message || '')));
+};
+
+const recordSuccess = (endpoint: RpcEndpoint, latencyMs: number): void => {
+  endpoint.avgLatencyMs = endpoint.avgLatencyMs === null
+    ? latencyMs
+    : endpoint.avgLatencyMs * (1 - EWMA_WEIGHT) + latencyMs * EWMA_WEIGHT;
+  endpoint.errorRate *= 1 - EWMA_WEIGHT;
+  endpoint.consecutiveFailures = 0;
+  endpoint.cooldownUntil = 0;
+};
+
+const recordFailure = (endpoint: RpcEndpoint, message: string, rateLimited: boolean): void => {
+  endpoint.failures++;
+  endpoint.consecutiveFailures++;
+  endpoint.errorRate = endpoint.errorRate * (1 - EWMA_WEIGHT) + EWMA_WEIGHT;
+  endpoint.lastError = message;
+  endpoint.lastErrorAt = new Date();
+
+  // A throttling endpoint is benched right away; other failures only after a streak
+  if (rateLimited) {
+    endpoint.rateLimited++;
+    endpoint.tokens = 0;
+  }
+  if (rateLimited || endpoint.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) {
+    const cooldown = Math.min(COOLDOWN_BASE_MS * Math.pow(2, Math.min(endpoint.consecutiveFailures - 1, 6)), COOLDOWN_MAX_MS);
+    endpoint.cooldownUntil = Date.now() + cooldown;
+  }
+};
+
+const sendToEndpoint = async (endpoint: RpcEndpoint, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<any[]> => {
+  const request = endpoint.connection.clone();
+  request.body = JSON.stringify(payload);
+  request.setHeader('content-type', 'application/json');
+  const response = await request.send();
+  response.assertOk();
+  const result = response.bodyJson;
+  return Array.isArray(result) ? result : [result];
+};
+
+/**
+ * JsonRpcProvider that spreads requests over every RPC URL of a chain. Each request goes to the
+ * best-scoring endpoint that is not cooling down, lagging behind the chain head or out of budget;
+ * transport errors and throttling move it on to the next endpoint.
+ * JSON-RPC error results (reverts, getLogs range limits, ...) are returned as-is.
+ */
+export class PooledJsonRpcProvider extends ethers.JsonRpcProvider {
+  readonly poolChainId: number;
+  readonly endpoints: RpcEndpoint[];
+
+  constructor(chainId: number, urls: string[], maxRps: number) {
+    // staticNetwork skips the eth_chainId call during initialization ("failed to detect network" errors)
+    // and batchMaxCount 1 keeps one payload per request so budgets and failover apply per call
+    super(urls[0], chainId, { staticNetwork: true, batchMaxCount: 1 });
+    this.poolChainId = chainId;
+    this.endpoints = urls.map((url, index) => createEndpoint(url, index, maxRps));
+  }
+
+  /**
+   * Best endpoint of those not tried yet, waiting for its budget if every candidate is spent
+   */
+  private async pickEndpoint(tried: Set<RpcEndpoint>): Promise<RpcEndpoint | null> {
+    const now = Date.now();
+    const heads = this.endpoints.map((endpoint) => endpoint.headBlock ?? 0);
+    const bestHead = Math.max(...heads);
+
+    const candidates = this.endpoints.filter((endpoint) => !tried.has(endpoint));
+    if (candidates.length === 0) {
+      return null;
+    }
+    const healthy = candidates
+      .filter((endpoint) => endpoint.cooldownUntil <= now)
+      .filter((endpoint) => endpoint.headBlock === null || bestHead - endpoint.headBlock <= MAX_HEAD_LAG_BLOCKS)
+      .sort((a, b) => getScore(a) - getScore(b));
+    // Nothing healthy left: try the endpoint whose cooldown ends first rather than failing outright
+    const ordered = healthy.length > 0
+      ? healthy
+      : [...candidates].sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+
+    for (;;) {
+      const endpoint = ordered.find(tryTakeBudget);
+      if (endpoint) {
+        return endpoint;
+      }
+      await delay(Math.max(1, Math.min(...ordered.map(msUntilBudget))));
+    }
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult>> {
+    const tried = new Set<RpcEndpoint>();
+    let lastError: any = null;
+    let throttledResult: any[] | null = null;
+
+    for (;;) {
+      const endpoint = await this.pickEndpoint(tried);
+      if (!endpoint) {
+        break;
+      }
+      tried.add(endpoint);
+      endpoint.requests++;
+
+      const startedAt = Date.now();
+      try {
+        const results = await sendToEndpoint(endpoint, payload);
+        if (results.some(isRateLimitResult)) {
+          recordFailure(endpoint, results.find(isRateLimitResult).error.message || 'rate limited', true);
+          throttledResult = results;
+          continue;
+        }
+
+        recordSuccess(endpoint, Date.now() - startedAt);
+        const single = Array.isArray(payload) ? null : payload;
+        if (single?.method === 'eth_blockNumber' && typeof results[0]?.result === 'string') {
+          endpoint.headBlock = Number(results[0].result);
+        }
+        return results;
+      } catch (error: any) {
+        lastError = error;
+        recordFailure(endpoint, error?.shortMessage || error?.message || String(error), error?.response?.statusCode === 429);
+      }
+    }
+
+    // Every endpoint failed: surface the throttling response or the last transport error
+    if (throttledResult) {
+      return throttledResult;
+    }
+    throw lastError || new Error(`No RPC endpoint available for chain ${this.poolChainId}`);
+  }
+
+  /**
+   * Probe every endpoint with eth_blockNumber (refreshes latency, head block and ends cooldowns early)
+   */
+  async checkHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map(async (endpoint) => {
+      // Health checks never wait for budget - a busy endpoint is evidently alive
+      if (!tryTakeBudget(endpoint)) {
+        return;
+      }
+      endpoint.lastHealthCheckAt = new Date();
+      endpoint.requests++;
+
+      const startedAt = Date.now();
+      try {
+        const [result] = await sendToEndpoint(endpoint, { method: 'eth_blockNumber', params: [], id: 1, jsonrpc: '2.0' });
+        if (!result || result.error || typeof result.result !== 'string') {
+          recordFailure(endpoint, result?.error?.message || 'invalid eth_blockNumber response', isRateLimitResult(result));
+          return;
+        }
+        recordSuccess(endpoint, Date.now() - startedAt);
+        endpoint.headBlock = Number(result.result);
+      } catch (error: any) {
+        recordFailure(endpoint, error?.shortMessage || error?.message || String(error), error?.response?.statusCode === 429);
+      }
+    }));
+  }
+
+  /**
+   * True if at least one endpoint is outside its cooldown
+   */
+  hasHealthyEndpoint(): boolean {
+    const now = Date.now();
+    return this.endpoints.some((endpoint) => endpoint.cooldownUntil <= now);
+  }
+
+  getMetrics(): RpcEndpointMetrics[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({
+      label: endpoint.label,
+      healthy: endpoint.cooldownUntil <= now,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      rateLimited: endpoint.rateLimited,
+      avgLatencyMs: endpoint.avgLatencyMs === null ? null : Math.round(endpoint.avgLatencyMs),
+      errorRate: Math.round(endpoint.errorRate * 1000) / 1000,
+      score: Math.round(getScore(endpoint)),
+      maxRps: endpoint.maxRps,
+      cooldownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil) : null,
+      headBlock: endpoint.headBlock,
+      lastError: endpoint.lastError,
+      lastErrorAt: endpoint.lastErrorAt,
+      lastHealthCheckAt: endpoint.lastHealthCheckAt,
+    }));
+  }
+}
+
+// One pool per chain, shared by sync, routes and the activity monitor
+const pools = new Map<number, PooledJsonRpcProvider>();
+let healthCheckInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Request budget per endpoint: RPC_MAX_RPS_<KEY>, else the registry's rpcMaxRps
+ */
+const getMaxRps = (chainId: number): number => {
+  const configured = Number(process.env[`RPC_MAX_RPS_${getChainKey(chainId)}`]);
+  if (configured > 0) {
+    return configured;
+  }
+  return getChainConfig(chainId)?.rpcMaxRps || DEFAULT_MAX_RPS;
+};
+
+/**
+ * Pooled provider of a chain (created on first use), or undefined if the chain has no RPC URL
+ */
+export const getRpcPool = (chainId: number): PooledJsonRpcProvider | undefined => {
+  const existing = pools.get(chainId);
+  if (existing) {
+    return existing;
+  }
+  const urls = getChainConfig(chainId)?.rpcUrls || [];
+  if (urls.length === 0) {
+    return undefined;
+  }
+  const pool = new PooledJsonRpcProvider(chainId, urls, getMaxRps(chainId));
+  pools.set(chainId, pool);
+  return pool;
+};
+
+/**
+ * False when every RPC endpoint of the chain is cooling down (callers should skip optional work)
+ */
+export const hasHealthyRpcEndpoint = (chainId: number): boolean =>
+  isFixtureChain(chainId) || (getRpcPool(chainId)?.hasHealthyEndpoint() ?? false);
+
+/**
+ * Endpoint metrics of every pool created so far
+ */
+export const getRpcPoolMetrics = () =>
+  Array.from(pools.values()).map((pool) => ({
+    chainId: pool.poolChainId,
+    key: getChainKey(pool.poolChainId),
+    healthy: pool.hasHealthyEndpoint(),
+    endpoints: pool.getMetrics(),
+  }));
+
+/**
+ * Start the periodic endpoint health checks of the given chains
+ */
+export const startRpcHealthChecks = (chainIds: number[]): void => {
+  if (healthCheckInterval) {
+    return;
+  }
+  const runChecks = () => {
+    for (const chainId of chainIds.filter((id) => !isFixtureChain(id))) {
+      getRpcPool(chainId)?.checkHealth().catch((error: any) => {
+        console.error(`❌ Error checking RPC endpoints for chain ${chainId}:`, error.message);
+      });
+    }
+  };
+  runChecks();
+  healthCheckInterval = setInterval(runChecks, HEALTH_CHECK_INTERVAL_MS);
+};
+
+/**
+ * Stop the periodic endpoint health checks
+ */
+export const stopRpcHealthChecks = (): void => {
+  if (healthCheckInterval) {
+    clearInterval(healthCheckInterval);
+    healthCheckInterval = null;
+  }
+};
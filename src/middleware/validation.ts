@@ -72,7 +72,8 @@ export const validatePagination = (page: string | number, pageSize: string | num
 export const validateSort = (sortBy: string, sortOrder: string): boolean => {
   const validSortFields = [
     'createdAt', 'updatedAt', 'name', 'symbol', 'currentPriceUSD',
-    'marketCapUSD', 'volume24hUSD', 'priceChange24hPercent',
+    'marketCapUSD', 'volume1hUSD', 'volume24hUSD', 'volume7dUSD',
+    'priceChange1hPercent', 'priceChange24hPercent', 'priceChange7dPercent',
     'totalLiquidityUSD', 'blockNumber', 'blockTimestamp'
   ];
   
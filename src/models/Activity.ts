@@ -1,5 +1,6 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import { IActivity } from '../types';
+import { getSupportedChainIds } from '../config/chains';
 
 const activitySchema = new Schema<IActivity>({
   // Activity type
@@ -86,7 +87,7 @@ const activitySchema = new Schema<IActivity>({
   chainId: {
     type: Number,
     required: true,
-    enum: [1, 8453, 42161, 84532], // Ethereum, Base, Arbitrum, Base Sepolia
+    enum: getSupportedChainIds(), // Chains of the chain registry (src/config/chainRegistry.json)
     default: 1,
     index: true
   },
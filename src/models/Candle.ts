@@ -0,0 +1,73 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { ICandle } from '../types';
+import { getSupportedChainIds } from '../config/chains';
+
+const candleSchema = new Schema<ICandle>({
+  // Token reference
+  tokenAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  chainId: {
+    type: Number,
+    required: true,
+    enum: getSupportedChainIds() // Chains of the chain registry (src/config/chainRegistry.json)
+  },
+
+  // Bucket
+  resolution: {
+    type: String,
+    required: true,
+    enum: ['1m', '5m', '15m', '1h', '4h', '1d']
+  },
+  openTime: {
+    type: Date,
+    required: true
+  },
+
+  // Prices in ETH (decimal strings)
+  open: { type: String, default: '0' },
+  high: { type: String, default: '0' },
+  low: { type: String, default: '0' },
+  close: { type: String, default: '0' },
+
+  // Prices in USD ('0' when the ETH price was unavailable)
+  openUSD: { type: String, default: '0' },
+  highUSD: { type: String, default: '0' },
+  lowUSD: { type: String, default: '0' },
+  closeUSD: { type: String, default: '0' },
+
+  // Volumes (ETH and token amounts in wei)
+  volumeEth: { type: String, default: '0' },
+  volumeToken: { type: String, default: '0' },
+  volumeUSD: { type: String, default: '0' },
+  trades: { type: Number, default: 0 },
+
+  // Position of the first and last trade, so late (out of order) trades don't overwrite open/close
+  openBlock: { type: Number, default: 0 },
+  openLogIndex: { type: Number, default: 0 },
+  closeBlock: { type: Number, default: 0 },
+  closeLogIndex: { type: Number, default: 0 },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// One candle per token, resolution and bucket
+candleSchema.index({ tokenAddress: 1, chainId: 1, resolution: 1, openTime: 1 }, { unique: true });
+// Chain-wide scans (daily volume rollups, tokens traded within a stats window)
+candleSchema.index({ chainId: 1, resolution: 1, openTime: 1 });
+
+const Candle: Model<ICandle> = mongoose.model<ICandle>('Candle', candleSchema);
+
+export default Candle;
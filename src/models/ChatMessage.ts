@@ -51,6 +51,8 @@ const chatMessageSchema = new Schema<IChatMessage>({
 
 chatMessageSchema.index({ token: 1, timestamp: -1 });
 chatMessageSchema.index({ user: 1 });
+// Recent chat activity across tokens (trending scores)
+chatMessageSchema.index({ timestamp: -1 });
 
 const ChatMessage: Model<IChatMessage> = mongoose.model<IChatMessage>('ChatMessage', chatMessageSchema);
 
@@ -0,0 +1,94 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IDailyStat } from '../types';
+
+const dailyStatSchema = new Schema<IDailyStat>({
+  // UTC day the rollup covers (midnight)
+  date: {
+    type: Date,
+    required: true
+  },
+  // Chain of the metrics; null for platform-wide metrics (new users)
+  chainId: {
+    type: Number,
+    default: null
+  },
+
+  // Token lifecycle
+  tokensCreated: {
+    type: Number,
+    default: 0
+  },
+  graduations: {
+    type: Number,
+    default: 0
+  },
+  // Seconds from creation to graduation of the tokens that graduated this day (for medians)
+  graduationDurations: {
+    type: [Number],
+    default: []
+  },
+
+  // Trading (bonding curve and DEX)
+  trades: {
+    type: Number,
+    default: 0
+  },
+  volumeEth: {
+    type: String,
+    default: '0'
+  },
+  volumeUSD: {
+    type: Number,
+    default: 0
+  },
+  // Addresses that traded this day (unique traders over a range are counted across days)
+  traders: {
+    type: [String],
+    default: []
+  },
+  uniqueTraders: {
+    type: Number,
+    default: 0
+  },
+
+  // Fees paid out by the factory (wei)
+  feesEth: {
+    type: String,
+    default: '0'
+  },
+  feesUSD: {
+    type: Number,
+    default: 0
+  },
+
+  // Platform-wide
+  newUsers: {
+    type: Number,
+    default: 0
+  },
+
+  computedAt: {
+    type: Date,
+    default: Date.now
+  },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// One rollup per day and chain
+dailyStatSchema.index({ date: 1, chainId: 1 }, { unique: true });
+dailyStatSchema.index({ chainId: 1, date: -1 });
+
+const DailyStat: Model<IDailyStat> = mongoose.model<IDailyStat>('DailyStat', dailyStatSchema);
+
+export default DailyStat;
@@ -0,0 +1,83 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IDeadLetterEvent } from '../types';
+import { getSupportedChainIds } from '../config/chains';
+
+const deadLetterEventSchema = new Schema<IDeadLetterEvent>({
+  // Chain information
+  chainId: {
+    type: Number,
+    required: true,
+    enum: getSupportedChainIds() // Chains of the chain registry (src/config/chainRegistry.json)
+  },
+
+  // Log identity
+  txHash: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  eventName: {
+    type: String,
+    required: true
+  },
+  blockNumber: {
+    type: Number,
+    required: true
+  },
+  blockHash: {
+    type: String,
+    lowercase: true,
+    default: ''
+  },
+
+  // Decoded event data passed to the handler
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+
+  // Failure information
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lastError: {
+    type: String,
+    default: ''
+  },
+  failedAt: {
+    type: Date,
+    default: Date.now
+  },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+deadLetterEventSchema.index({ chainId: 1, txHash: 1, logIndex: 1 }, { unique: true });
+deadLetterEventSchema.index({ chainId: 1, eventName: 1, failedAt: -1 });
+deadLetterEventSchema.index({ chainId: 1, blockNumber: 1 });
+
+// Pre-save middleware to update the updatedAt field
+deadLetterEventSchema.pre('save', function(this: any, next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const DeadLetterEvent: Model<IDeadLetterEvent> = mongoose.model<IDeadLetterEvent>('DeadLetterEvent', deadLetterEventSchema);
+
+export default DeadLetterEvent;
@@ -0,0 +1,30 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IEthPrice } from '../types';
+
+const ethPriceSchema = new Schema<IEthPrice>({
+  // Time the price applies to
+  timestamp: {
+    type: Date,
+    required: true,
+    unique: true
+  },
+  // ETH price in USD (decimal string)
+  price: {
+    type: String,
+    required: true
+  },
+  source: {
+    type: String,
+    required: true,
+    enum: ['chainlink', 'alchemy', 'coingecko', 'fixed', 'median', 'coingecko-history']
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const EthPrice: Model<IEthPrice> = mongoose.model<IEthPrice>('EthPrice', ethPriceSchema);
+
+export default EthPrice;
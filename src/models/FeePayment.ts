@@ -0,0 +1,126 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IFeePayment } from '../types';
+import { getSupportedChainIds } from '../config/chains';
+
+const feePaymentSchema = new Schema<IFeePayment>({
+  // Token reference
+  tokenId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Token',
+    required: true
+  },
+  tokenAddress: {
+    type: String,
+    required: true,
+    lowercase: true,
+    validate: {
+      validator: function(v: string) {
+        return /^0x[a-fA-F0-9]{40}$/.test(v);
+      },
+      message: 'Invalid token address format'
+    }
+  },
+
+  // Fee information
+  feeType: {
+    type: String,
+    required: true,
+    enum: ['creator', 'dev', 'marketing']
+  },
+  recipientAddress: {
+    type: String,
+    required: true,
+    lowercase: true,
+    validate: {
+      validator: function(v: string) {
+        return /^0x[a-fA-F0-9]{40}$/.test(v);
+      },
+      message: 'Invalid recipient address format'
+    }
+  },
+  amount: {
+    type: String,
+    required: true,
+    default: '0'
+  },
+  amountUSD: {
+    type: String,
+    default: '0'
+  },
+
+  // Transaction information
+  txHash: {
+    type: String,
+    required: true,
+    lowercase: true,
+    validate: {
+      validator: function(v: string) {
+        return /^0x[a-fA-F0-9]{64}$/.test(v);
+      },
+      message: 'Invalid transaction hash format'
+    }
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  blockNumber: {
+    type: Number,
+    required: true
+  },
+  blockHash: {
+    type: String,
+    lowercase: true,
+    default: ''
+  },
+  blockTimestamp: {
+    type: Date,
+    required: true
+  },
+
+  // Chain information
+  chainId: {
+    type: Number,
+    required: true,
+    enum: getSupportedChainIds(), // Chains of the chain registry (src/config/chainRegistry.json)
+    default: 1
+  },
+
+  // Status
+  status: {
+    type: String,
+    enum: ['pending', 'confirmed', 'failed'],
+    default: 'pending'
+  },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+// A single transaction pays several fees, so the log index is part of the key
+feePaymentSchema.index({ txHash: 1, logIndex: 1, chainId: 1 }, { unique: true });
+feePaymentSchema.index({ tokenAddress: 1, chainId: 1, blockTimestamp: -1 });
+feePaymentSchema.index({ recipientAddress: 1, feeType: 1, chainId: 1, blockTimestamp: -1 });
+feePaymentSchema.index({ chainId: 1, status: 1, blockNumber: 1 });
+// Daily analytics rollups
+feePaymentSchema.index({ chainId: 1, blockTimestamp: 1 });
+
+// Pre-save middleware to update the updatedAt field
+feePaymentSchema.pre('save', function(this: any, next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const FeePayment: Model<IFeePayment> = mongoose.model<IFeePayment>('FeePayment', feePaymentSchema);
+
+export default FeePayment;
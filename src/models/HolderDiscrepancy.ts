@@ -0,0 +1,96 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IHolderDiscrepancy } from '../types';
+import { getSupportedChainIds } from '../config/chains';
+
+const holderDiscrepancySchema = new Schema<IHolderDiscrepancy>({
+  // Token reference
+  tokenId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Token',
+    required: true
+  },
+  tokenAddress: {
+    type: String,
+    required: true,
+    lowercase: true,
+    validate: {
+      validator: function(v: string) {
+        return /^0x[a-fA-F0-9]{40}$/.test(v);
+      },
+      message: 'Invalid token address format'
+    }
+  },
+  holderAddress: {
+    type: String,
+    required: true,
+    lowercase: true,
+    validate: {
+      validator: function(v: string) {
+        return /^0x[a-fA-F0-9]{40}$/.test(v);
+      },
+      message: 'Invalid holder address format'
+    }
+  },
+
+  // Balances (wei)
+  storedBalance: {
+    type: String,
+    required: true,
+    default: '0'
+  },
+  onChainBalance: {
+    type: String,
+    required: true,
+    default: '0'
+  },
+  // onChainBalance - storedBalance
+  difference: {
+    type: String,
+    required: true,
+    default: '0'
+  },
+
+  // Block the on-chain balance was read at
+  blockNumber: {
+    type: Number,
+    required: true
+  },
+  // Whether the TokenHolder row was overwritten with the on-chain balance
+  corrected: {
+    type: Boolean,
+    default: false
+  },
+
+  // Chain information
+  chainId: {
+    type: Number,
+    required: true,
+    enum: getSupportedChainIds() // Chains of the chain registry (src/config/chainRegistry.json)
+  },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+holderDiscrepancySchema.index({ tokenAddress: 1, chainId: 1, createdAt: -1 });
+holderDiscrepancySchema.index({ chainId: 1, createdAt: -1 });
+
+// Pre-save middleware to update the updatedAt field
+holderDiscrepancySchema.pre('save', function(this: any, next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const HolderDiscrepancy: Model<IHolderDiscrepancy> = mongoose.model<IHolderDiscrepancy>('HolderDiscrepancy', holderDiscrepancySchema);
+
+export default HolderDiscrepancy;
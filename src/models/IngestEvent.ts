@@ -0,0 +1,104 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IIngestEvent } from '../types';
+import { getSupportedChainIds } from '../config/chains';
+
+// How long processed events are kept after completion (they only guard against re-processing overlapping
+// ranges); events that keep failing live on as DeadLetterEvent
+const DONE_TTL_SECONDS = Number(process.env.INGEST_DONE_TTL_SECONDS) || 7 * 24 * 60 * 60; // 7 days
+
+const ingestEventSchema = new Schema<IIngestEvent>({
+  // Chain information
+  chainId: {
+    type: Number,
+    required: true,
+    enum: getSupportedChainIds() // Chains of the chain registry (src/config/chainRegistry.json)
+  },
+
+  // Log identity
+  txHash: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  eventName: {
+    type: String,
+    required: true
+  },
+  blockNumber: {
+    type: Number,
+    required: true
+  },
+  blockHash: {
+    type: String,
+    lowercase: true,
+    default: ''
+  },
+
+  // Decoded event data passed to the handler
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+
+  // Processing state
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'done'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedAt: {
+    type: Date,
+    default: null
+  },
+  lastError: {
+    type: String,
+    default: ''
+  },
+  // Set once the event is done - expires the row after INGEST_DONE_TTL_SECONDS
+  completedAt: {
+    type: Date,
+    default: null
+  },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+ingestEventSchema.index({ chainId: 1, txHash: 1, logIndex: 1 }, { unique: true });
+// Oldest unfinished event of a chain
+ingestEventSchema.index({ chainId: 1, status: 1, blockNumber: 1, logIndex: 1 });
+ingestEventSchema.index({ chainId: 1, blockNumber: 1 });
+// Done rows expire; pending ones have no completedAt and stay
+ingestEventSchema.index({ completedAt: 1 }, { expireAfterSeconds: DONE_TTL_SECONDS });
+
+// Pre-save middleware to update the updatedAt field
+ingestEventSchema.pre('save', function(this: any, next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const IngestEvent: Model<IIngestEvent> = mongoose.model<IIngestEvent>('IngestEvent', ingestEventSchema);
+
+export default IngestEvent;
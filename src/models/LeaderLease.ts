@@ -0,0 +1,63 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { ILeaderLease } from '../types';
+import { getSupportedChainIds } from '../config/chains';
+
+const leaderLeaseSchema = new Schema<ILeaderLease>({
+  // Chain information
+  chainId: {
+    type: Number,
+    required: true,
+    enum: getSupportedChainIds(), // Chains of the chain registry (src/config/chainRegistry.json)
+    unique: true
+  },
+
+  // Instance currently holding the lease
+  holderId: {
+    type: String,
+    required: true
+  },
+  hostname: {
+    type: String,
+    default: ''
+  },
+  pid: {
+    type: Number,
+    default: 0
+  },
+
+  // Lease lifetime - another instance may take over once expiresAt has passed
+  acquiredAt: {
+    type: Date,
+    default: Date.now
+  },
+  renewedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Pre-save middleware to update the updatedAt field
+leaderLeaseSchema.pre('save', function(this: any, next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const LeaderLease: Model<ILeaderLease> = mongoose.model<ILeaderLease>('LeaderLease', leaderLeaseSchema);
+
+export default LeaderLease;
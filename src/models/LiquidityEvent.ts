@@ -1,5 +1,6 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import { ILiquidityEvent } from '../types';
+import { getSupportedChainIds } from '../config/chains';
 
 const liquidityEventSchema = new Schema({
   // Token reference
@@ -52,6 +53,20 @@ const liquidityEventSchema = new Schema({
     required: true,
     default: '0'
   },
+  // LP tokens minted to the provider
+  lpTokenAmount: {
+    type: String,
+    default: '0'
+  },
+  ethAmountUSD: {
+    type: String,
+    default: '0'
+  },
+  // Both sides of the deposit valued in USD
+  totalValueUSD: {
+    type: String,
+    default: '0'
+  },
 
   // Price information
   tokenPrice: {
@@ -93,6 +108,11 @@ const liquidityEventSchema = new Schema({
     type: Number,
     required: true
   },
+  blockHash: {
+    type: String,
+    lowercase: true,
+    default: ''
+  },
   blockTimestamp: {
     type: Date,
     required: true
@@ -102,7 +122,7 @@ const liquidityEventSchema = new Schema({
   chainId: {
     type: Number,
     required: true,
-    enum: [1, 8453, 42161, 84532], // Ethereum, Base, Arbitrum, Base Sepolia
+    enum: getSupportedChainIds(), // Chains of the chain registry (src/config/chainRegistry.json)
     default: 1
   },
 
@@ -150,6 +170,8 @@ liquidityEventSchema.index({ blockNumber: -1 });
 liquidityEventSchema.index({ blockTimestamp: -1 });
 liquidityEventSchema.index({ createdAt: -1 });
 liquidityEventSchema.index({ chainId: 1 });
+// Used by reorg detection to scan unconfirmed blocks
+liquidityEventSchema.index({ chainId: 1, status: 1, blockNumber: 1 });
 
 // Virtual for event value in USD
 liquidityEventSchema.virtual('valueUSD').get(function(this: any) {
@@ -0,0 +1,140 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IOrder } from '../types';
+import { getSupportedChainIds } from '../config/chains';
+
+const orderSchema = new Schema<IOrder>({
+  // Owner and the embedded wallet the order trades from
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  walletAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+
+  // Token reference
+  tokenId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Token',
+    required: true
+  },
+  tokenAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  chainId: {
+    type: Number,
+    required: true,
+    enum: getSupportedChainIds() // Chains of the chain registry (src/config/chainRegistry.json)
+  },
+
+  // Order terms
+  type: {
+    type: String,
+    enum: ['limit_buy', 'limit_sell', 'stop_loss', 'take_profit'],
+    required: true
+  },
+  side: {
+    type: String,
+    enum: ['buy', 'sell'],
+    required: true
+  },
+  triggerPrice: {
+    type: String,
+    required: true
+  },
+  amount: {
+    type: String,
+    required: true
+  },
+  maxSlippageBps: {
+    type: Number,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+
+  // Execution state
+  status: {
+    type: String,
+    enum: ['open', 'executing', 'filled', 'failed', 'cancelled', 'expired'],
+    default: 'open'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lastError: {
+    type: String,
+    default: ''
+  },
+  triggeredAt: {
+    type: Date,
+    default: null
+  },
+  triggerTradePrice: {
+    type: String,
+    default: null
+  },
+  lockedAt: {
+    type: Date,
+    default: null
+  },
+
+  // Fill
+  txHash: {
+    type: String,
+    lowercase: true,
+    default: null
+  },
+  // Nonce of the sent transaction (tells a dropped transaction from a replaced one)
+  txNonce: {
+    type: Number,
+    default: null
+  },
+  simulatedAmountOut: {
+    type: String,
+    default: null
+  },
+  filledAmountOut: {
+    type: String,
+    default: null
+  },
+  filledAt: {
+    type: Date,
+    default: null
+  },
+  closedAt: {
+    type: Date,
+    default: null
+  },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Matching: open orders of a token
+orderSchema.index({ tokenAddress: 1, chainId: 1, status: 1 });
+// Listing a user's orders
+orderSchema.index({ userId: 1, createdAt: -1 });
+// Expiry and stuck execution sweeps
+orderSchema.index({ chainId: 1, status: 1, expiresAt: 1 });
+
+const Order: Model<IOrder> = mongoose.model<IOrder>('Order', orderSchema);
+
+export default Order;
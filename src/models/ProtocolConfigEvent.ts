@@ -0,0 +1,148 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IProtocolConfigEvent } from '../types';
+import { getSupportedChainIds } from '../config/chains';
+
+const addressValidator = {
+  validator: function(v: string) {
+    return v === '' || /^0x[a-fA-F0-9]{40}$/.test(v);
+  },
+  message: 'Invalid address format'
+};
+
+const protocolConfigEventSchema = new Schema<IProtocolConfigEvent>({
+  // Event information
+  eventName: {
+    type: String,
+    required: true,
+    enum: ['FeeTierUpdated', 'MarketCapUnitUpdated', 'UniswapRouterUpdated', 'OwnershipTransferred']
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true,
+    validate: addressValidator
+  },
+
+  // FeeTierUpdated
+  tier: {
+    type: Number,
+    default: null
+  },
+  minMarketCap: {
+    type: String,
+    default: '0'
+  },
+  creatorFeeBps: {
+    type: Number,
+    default: 0
+  },
+  devFeeBps: {
+    type: Number,
+    default: 0
+  },
+  marketingFeeBps: {
+    type: Number,
+    default: 0
+  },
+
+  // MarketCapUnitUpdated
+  marketCapUnit: {
+    type: String,
+    default: '0'
+  },
+
+  // UniswapRouterUpdated
+  routerAddress: {
+    type: String,
+    lowercase: true,
+    default: '',
+    validate: addressValidator
+  },
+
+  // OwnershipTransferred
+  previousOwner: {
+    type: String,
+    lowercase: true,
+    default: '',
+    validate: addressValidator
+  },
+  newOwner: {
+    type: String,
+    lowercase: true,
+    default: '',
+    validate: addressValidator
+  },
+
+  // Blockchain information
+  txHash: {
+    type: String,
+    required: true,
+    lowercase: true,
+    validate: {
+      validator: function(v: string) {
+        return /^0x[a-fA-F0-9]{64}$/.test(v);
+      },
+      message: 'Invalid transaction hash format'
+    }
+  },
+  logIndex: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  blockNumber: {
+    type: Number,
+    required: true
+  },
+  blockHash: {
+    type: String,
+    lowercase: true,
+    default: ''
+  },
+  blockTimestamp: {
+    type: Date,
+    required: true
+  },
+
+  // Chain information
+  chainId: {
+    type: Number,
+    required: true,
+    enum: getSupportedChainIds() // Chains of the chain registry (src/config/chainRegistry.json)
+  },
+
+  // Status
+  status: {
+    type: String,
+    enum: ['pending', 'confirmed', 'failed'],
+    default: 'pending'
+  },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+protocolConfigEventSchema.index({ txHash: 1, logIndex: 1, chainId: 1 }, { unique: true });
+// Latest value of a parameter at a given block
+protocolConfigEventSchema.index({ chainId: 1, eventName: 1, blockNumber: -1, logIndex: -1 });
+protocolConfigEventSchema.index({ chainId: 1, status: 1, blockNumber: 1 });
+
+// Pre-save middleware to update the updatedAt field
+protocolConfigEventSchema.pre('save', function(this: any, next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const ProtocolConfigEvent: Model<IProtocolConfigEvent> = mongoose.model<IProtocolConfigEvent>('ProtocolConfigEvent', protocolConfigEventSchema);
+
+export default ProtocolConfigEvent;
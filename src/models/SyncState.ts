@@ -0,0 +1,46 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { ISyncState } from '../types';
+import { getSupportedChainIds } from '../config/chains';
+
+const syncStateSchema = new Schema<ISyncState>({
+  // Chain information
+  chainId: {
+    type: Number,
+    required: true,
+    enum: getSupportedChainIds(), // Chains of the chain registry (src/config/chainRegistry.json)
+    unique: true
+  },
+
+  // Last block whose events have been fully ingested
+  lastProcessedBlock: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  lastProcessedAt: {
+    type: Date,
+    default: Date.now
+  },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Pre-save middleware to update the updatedAt field
+syncStateSchema.pre('save', function(this: any, next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+const SyncState: Model<ISyncState> = mongoose.model<ISyncState>('SyncState', syncStateSchema);
+
+export default SyncState;
@@ -3,6 +3,7 @@ import './LiquidityEvent';
 import './TokenHolder';
 import './Transaction';
 import { IToken, PriceData } from '../types';
+import { getSupportedChainIds } from '../config/chains';
 
 const tokenSchema = new Schema<IToken>({
   // Basic token information
@@ -33,7 +34,7 @@ const tokenSchema = new Schema<IToken>({
   chainId: {
     type: Number,
     required: true,
-    enum: [1, 8453, 42161, 84532], // Ethereum, Base, Arbitrum, Base Sepolia
+    enum: getSupportedChainIds(), // Chains of the chain registry (src/config/chainRegistry.json)
     default: 1 // Ethereum mainnet
   },
   
@@ -130,24 +131,123 @@ const tokenSchema = new Schema<IToken>({
     type: String,
     default: '0'
   },
+
+  // Bonding curve reserves after the latest indexed trade (wei), used to quote trades locally
+  // (services/quoteService). The position guards against older events overwriting newer state.
+  virtualEthReserves: {
+    type: String,
+    default: null
+  },
+  virtualTokenReserves: {
+    type: String,
+    default: null
+  },
+  realEthReserves: {
+    type: String,
+    default: null
+  },
+  realTokenReserves: {
+    type: String,
+    default: null
+  },
+  reservesBlockNumber: {
+    type: Number,
+    default: null
+  },
+  reservesLogIndex: {
+    type: Number,
+    default: null
+  },
+  reservesUpdatedAt: {
+    type: Date,
+    default: null
+  },
+  // Position of the trade currentPrice, marketCap and graduationProgress come from (older trades don't overwrite them)
+  priceBlockNumber: {
+    type: Number,
+    default: null
+  },
+  priceLogIndex: {
+    type: Number,
+    default: null
+  },
+
+  // Fee tier read from the factory (getFeeTier) at feeTierBlockNumber; the tier depends on market cap
+  creatorFeeBps: {
+    type: Number,
+    default: null
+  },
+  devFeeBps: {
+    type: Number,
+    default: null
+  },
+  marketingFeeBps: {
+    type: Number,
+    default: null
+  },
+  feeTierBlockNumber: {
+    type: Number,
+    default: null
+  },
+  feeTierUpdatedAt: {
+    type: Date,
+    default: null
+  },
   
-  // Trading statistics
-  volume24h: {
+  // Trading statistics over rolling windows (maintained by services/tokenStats).
+  // Volumes are in wei, price changes in ETH; USD volumes and percentages are numbers so they sort correctly.
+  volume1h: {
     type: String,
     default: '0'
   },
-  volume24hUSD: {
+  volume1hUSD: {
+    type: Number,
+    default: 0
+  },
+  priceChange1h: {
+    type: String,
+    default: '0'
+  },
+  priceChange1hPercent: {
+    type: Number,
+    default: 0
+  },
+  volume24h: {
     type: String,
     default: '0'
   },
+  volume24hUSD: {
+    type: Number,
+    default: 0
+  },
   priceChange24h: {
     type: String,
     default: '0'
   },
   priceChange24hPercent: {
+    type: Number,
+    default: 0
+  },
+  volume7d: {
     type: String,
     default: '0'
   },
+  volume7dUSD: {
+    type: Number,
+    default: 0
+  },
+  priceChange7d: {
+    type: String,
+    default: '0'
+  },
+  priceChange7dPercent: {
+    type: Number,
+    default: 0
+  },
+  statsUpdatedAt: {
+    type: Date,
+    default: null
+  },
   
   // Status and verification
   isVerified: {
@@ -163,6 +263,28 @@ const tokenSchema = new Schema<IToken>({
     default: false
   },
   
+  // DEX information (set once the token graduates and liquidity is added)
+  pairAddress: {
+    type: String,
+    lowercase: true,
+    default: ''
+  },
+  quoteTokenAddress: {
+    type: String,
+    lowercase: true,
+    default: ''
+  },
+  graduatedAt: {
+    type: Date,
+    default: null
+  },
+
+  // Last time sampled holder balances were checked against balanceOf
+  holdersReconciledAt: {
+    type: Date,
+    default: null
+  },
+  
   // Timestamps
   createdAt: {
     type: Date,
@@ -186,6 +308,17 @@ const tokenSchema = new Schema<IToken>({
     type: Number,
     default: 0
   },
+  // Hash of the deployment block (reorg detection removes tokens created in orphaned blocks)
+  deploymentBlockHash: {
+    type: String,
+    lowercase: true,
+    default: ''
+  },
+  // Timestamp of the deployment block (createdAt is when the token was indexed)
+  deploymentTimestamp: {
+    type: Date,
+    default: null
+  },
   
   // Tags and categories
   tags: [{
@@ -220,8 +353,18 @@ tokenSchema.index({ createdAt: -1 });
 tokenSchema.index({ currentPriceUSD: -1 });
 tokenSchema.index({ marketCapUSD: -1 });
 tokenSchema.index({ volume24hUSD: -1 });
+tokenSchema.index({ priceChange24hPercent: -1 });
+tokenSchema.index({ chainId: 1, volume7d: 1 });
 tokenSchema.index({ isVerified: 1 }, { sparse: true });
 tokenSchema.index({ isActive: 1 });
+tokenSchema.index({ chainId: 1, pairAddress: 1 });
+tokenSchema.index({ chainId: 1, holdersReconciledAt: 1 });
+// Reorg rollback (tokens created in orphaned blocks)
+tokenSchema.index({ chainId: 1, deploymentBlock: 1 });
+// Daily analytics rollups
+tokenSchema.index({ chainId: 1, createdAt: 1 });
+tokenSchema.index({ chainId: 1, graduatedAt: 1 });
+tokenSchema.index({ chainId: 1, deploymentTimestamp: 1 });
 
 // Virtual for liquidity events count
 tokenSchema.virtual('liquidityEventsCount', {
@@ -258,13 +401,6 @@ tokenSchema.statics.findByCreator = function(creatorAddress: string) {
   return this.find({ creatorAddress: creatorAddress.toLowerCase() });
 };
 
-// Static method to find trending tokens
-tokenSchema.statics.findTrending = function(limit: number = 10) {
-  return this.find({ isActive: true })
-    .sort({ volume24hUSD: -1, priceChange24hPercent: -1 })
-    .limit(limit);
-};
-
 // Instance method to update price data
 tokenSchema.methods.updatePriceData = function(priceData: PriceData): Promise<IToken> {
   this.currentPrice = priceData.price;
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import { ITokenHistory } from '../types';
+import { getSupportedChainIds } from '../config/chains';
 
 const historySchema = new Schema({
   // Address information
@@ -55,11 +56,22 @@ const historySchema = new Schema({
     type: Number,
     default: 0
   },
+  // Where the price was observed (bonding curve before graduation, Uniswap pair after)
+  venue: {
+    type: String,
+    enum: ['bonding_curve', 'dex'],
+    default: 'bonding_curve'
+  },
   // Timestamps
   blockNumber: {
     type: Number,
     default: 0
   },
+  blockHash: {
+    type: String,
+    lowercase: true,
+    default: ''
+  },
   timestamp: {
     type: Date,
     required: true,
@@ -68,7 +80,7 @@ const historySchema = new Schema({
   chainId: {
     type: Number,
     required: true,
-    enum: [1, 8453, 42161, 84532], // Ethereum, Base, Arbitrum, Base Sepolia
+    enum: getSupportedChainIds(), // Chains of the chain registry (src/config/chainRegistry.json)
     default: 1
   },
   createdAt: {
@@ -89,6 +101,7 @@ historySchema.index({ tokenId: 1, timestamp: -1 });
 historySchema.index({ tokenAddress: 1, chainId: 1, timestamp: -1 });
 historySchema.index({ timestamp: -1 });
 historySchema.index({ chainId: 1 });
+historySchema.index({ chainId: 1, blockNumber: 1 });
 
 const TokenHistory: Model<ITokenHistory> = mongoose.model<ITokenHistory>('TokenHistory', historySchema);
 
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import { ITokenHolder } from '../types';
+import { getSupportedChainIds } from '../config/chains';
 
 const tokenHolderSchema = new Schema({
   // Token reference
@@ -65,12 +66,17 @@ const tokenHolderSchema = new Schema({
     type: Number,
     default: 0
   },
+  // "<txHash>:<logIndex>" of the last event applied to the balance - a retry of that event skips the holder
+  lastAppliedLog: {
+    type: String,
+    default: ''
+  },
 
   // Chain information
   chainId: {
     type: Number,
     required: true,
-    enum: [1, 8453, 42161, 84532], // Ethereum, Base, Arbitrum, Base Sepolia
+    enum: getSupportedChainIds(), // Chains of the chain registry (src/config/chainRegistry.json)
     default: 1
   },
 
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import { ITransaction } from '../types';
+import { getSupportedChainIds } from '../config/chains';
 
 const transactionSchema = new Schema({
   // Transaction identification
@@ -14,6 +15,11 @@ const transactionSchema = new Schema({
       message: 'Invalid transaction hash format'
     }
   },
+  // Position of the log within the block (one transaction can emit several indexed events)
+  logIndex: {
+    type: Number,
+    default: 0
+  },
   
   // Token reference
   tokenId: {
@@ -34,6 +40,12 @@ const transactionSchema = new Schema({
     enum: ['Bought', 'Sold', 'Add_liquidity', 'Remove_liquidity', 'Transfer', 'Mint', 'Burn'],
     default: 'Bought'
   },
+  // Where the trade happened (bonding curve before graduation, Uniswap pair after)
+  venue: {
+    type: String,
+    enum: ['bonding_curve', 'dex'],
+    default: 'bonding_curve'
+  },
   
   // Addresses
   senderAddress: {
@@ -105,6 +117,11 @@ const transactionSchema = new Schema({
     type: Number,
     required: true
   },
+  blockHash: {
+    type: String,
+    lowercase: true,
+    default: ''
+  },
   blockTimestamp: {
     type: Date
   },
@@ -113,7 +130,7 @@ const transactionSchema = new Schema({
   chainId: {
     type: Number,
     required: true,
-    enum: [1, 8453, 42161, 84532], // Ethereum, Base, Arbitrum, Base Sepolia
+    enum: getSupportedChainIds(), // Chains of the chain registry (src/config/chainRegistry.json)
     default: 1
   },
   
@@ -123,6 +140,12 @@ const transactionSchema = new Schema({
     enum: ['pending', 'confirmed', 'failed'],
     default: 'confirmed'
   },
+  // Ingest steps not applied yet - a retry of a failed event finishes them instead of skipping the record
+  pendingSteps: {
+    type: [String],
+    enum: ['holders', 'candles'],
+    default: []
+  },
   
   // Additional metadata
   methodName: {
@@ -150,8 +173,10 @@ const transactionSchema = new Schema({
 });
 
 // Indexes for better query performance
-// Compound unique index for txHash + chainId (same hash can exist on different chains)
-transactionSchema.index({ txHash: 1, chainId: 1 }, { unique: true });
+// Compound unique index for chainId + txHash + logIndex, the key of IngestEvent (same hash can exist on
+// different chains, and a single transaction can carry several trades plus transfers). `npm run migrate`
+// drops the unique indexes of databases created with the earlier keys.
+transactionSchema.index({ chainId: 1, txHash: 1, logIndex: 1 }, { unique: true });
 transactionSchema.index({ tokenId: 1 });
 transactionSchema.index({ tokenAddress: 1, chainId: 1 });
 transactionSchema.index({ senderAddress: 1, chainId: 1 });
@@ -161,6 +186,10 @@ transactionSchema.index({ blockNumber: -1 });
 transactionSchema.index({ blockTimestamp: -1 });
 transactionSchema.index({ createdAt: -1 });
 transactionSchema.index({ chainId: 1 });
+// Used by reorg detection to scan unconfirmed blocks
+transactionSchema.index({ chainId: 1, status: 1, blockNumber: 1 });
+// Daily analytics rollups (unique traders per day)
+transactionSchema.index({ chainId: 1, blockTimestamp: 1 });
 
 // Virtual for transaction value in USD
 transactionSchema.virtual('valueUSD').get(function(this: any) {
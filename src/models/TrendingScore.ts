@@ -0,0 +1,70 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { ITrendingScore } from '../types';
+import { getSupportedChainIds } from '../config/chains';
+
+const componentSchema = new Schema({
+  value: { type: Number, default: 0 },
+  normalized: { type: Number, default: 0 },
+  contribution: { type: Number, default: 0 }
+}, { _id: false });
+
+const trendingScoreSchema = new Schema<ITrendingScore>({
+  // Token reference
+  tokenId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Token',
+    required: true
+  },
+  tokenAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  chainId: {
+    type: Number,
+    required: true,
+    enum: getSupportedChainIds() // Chains of the chain registry (src/config/chainRegistry.json)
+  },
+
+  // Score (0-100) and its breakdown
+  score: {
+    type: Number,
+    default: 0
+  },
+  rank: {
+    type: Number,
+    default: 0
+  },
+  components: {
+    tradeVelocity: { type: componentSchema, default: () => ({}) },
+    uniqueBuyers: { type: componentSchema, default: () => ({}) },
+    netInflow: { type: componentSchema, default: () => ({}) },
+    holderGrowth: { type: componentSchema, default: () => ({}) },
+    chatActivity: { type: componentSchema, default: () => ({}) },
+    graduationProximity: { type: componentSchema, default: () => ({}) }
+  },
+  computedAt: {
+    type: Date,
+    default: Date.now
+  },
+
+  // Timestamps
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+trendingScoreSchema.index({ tokenAddress: 1, chainId: 1 }, { unique: true });
+trendingScoreSchema.index({ chainId: 1, score: -1 });
+trendingScoreSchema.index({ score: -1 });
+
+const TrendingScore: Model<ITrendingScore> = mongoose.model<ITrendingScore>('TrendingScore', trendingScoreSchema);
+
+export default TrendingScore;
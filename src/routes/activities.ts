@@ -146,9 +146,7 @@ router.get('/health', async (_req: Request, res: Response): Promise<Response | v
       0
     );
     const totalChains = Object.keys(diagnostics.monitoredWallets).length;
-    const activeCircuitBreakers = Object.values(diagnostics.circuitBreakers).filter(
-      (breaker: any) => breaker.enabled && breaker.until > Date.now()
-    ).length;
+    const unhealthyRpcChains = Object.values(diagnostics.rpcPoolHealthy).filter((healthy) => !healthy).length;
 
     const health = {
       status: 'healthy',
@@ -156,7 +154,7 @@ router.get('/health', async (_req: Request, res: Response): Promise<Response | v
       summary: {
         totalWallets,
         totalChains,
-        activeCircuitBreakers,
+        unhealthyRpcChains,
         websocketChains: Object.keys(diagnostics.websocketStatus).length,
       },
       chains: Object.keys(diagnostics.monitoredWallets).map(chainIdStr => {
@@ -167,7 +165,7 @@ router.get('/health', async (_req: Request, res: Response): Promise<Response | v
           lastCheckedBlock: diagnostics.lastCheckedBlocks[chainId as keyof typeof diagnostics.lastCheckedBlocks] || null,
           lastKnownBlock: diagnostics.lastKnownBlocks[chainId as keyof typeof diagnostics.lastKnownBlocks] || null,
           hasActiveCheck: diagnostics.activeChecks[chainId as keyof typeof diagnostics.activeChecks] || false,
-          circuitBreakerActive: diagnostics.circuitBreakers[chainId as keyof typeof diagnostics.circuitBreakers]?.enabled || false,
+          rpcPoolHealthy: diagnostics.rpcPoolHealthy[chainId as keyof typeof diagnostics.rpcPoolHealthy] ?? true,
           rateLimitCount: diagnostics.rateLimitCounts[chainId as keyof typeof diagnostics.rateLimitCounts] || 0,
           websocketConnected: diagnostics.websocketStatus[chainId as keyof typeof diagnostics.websocketStatus] || false,
           blocksSinceLastCheck: diagnostics.blocksSinceLastCheck[chainId as keyof typeof diagnostics.blocksSinceLastCheck] || 0,
@@ -176,7 +174,7 @@ router.get('/health', async (_req: Request, res: Response): Promise<Response | v
     };
 
     // Determine overall health status
-    if (activeCircuitBreakers > 0) {
+    if (unhealthyRpcChains > 0) {
       health.status = 'degraded';
     }
     if (totalWallets === 0) {
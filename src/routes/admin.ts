@@ -0,0 +1,180 @@
+import express, { Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { validateAddress } from '../middleware/validation';
+import { getConfiguredChains } from '../config/blockchain';
+import { getRpcPoolMetrics } from '../config/rpcPool';
+import { startReindexJob, getReindexJob, isReindexRunning } from '../sync/reindex';
+import { getIngestQueueStats, replayDeadLetter } from '../sync/ingestQueue';
+import DeadLetterEvent from '../models/DeadLetterEvent';
+import { AuthRequest } from '../types';
+
+const router = express.Router();
+
+// All admin routes require an authenticated admin
+router.use(authenticateToken, requireAdmin);
+
+// POST /api/admin/reindex - Regenerate derived data for a token, a chain or a block range (runs in the background)
+router.post('/reindex', [
+  body('chainId').isInt({ min: 1 }).withMessage('Invalid chain ID'),
+  body('tokenAddress').optional().custom(validateAddress).withMessage('Invalid token address'),
+  body('fromBlock').optional().isInt({ min: 0 }).withMessage('fromBlock must be a non-negative integer'),
+  body('toBlock').optional().isInt({ min: 0 }).withMessage('toBlock must be a non-negative integer')
+], async (req: AuthRequest, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const chainId = parseInt(req.body.chainId);
+    if (!getConfiguredChains().includes(chainId)) {
+      return res.status(404).json({ error: 'Chain not configured' });
+    }
+    if (isReindexRunning(chainId)) {
+      return res.status(409).json({ error: `A reindex is already running for chain ${chainId}` });
+    }
+
+    const { tokenAddress, fromBlock, toBlock } = req.body;
+    const job = startReindexJob({
+      chainId,
+      tokenAddress: tokenAddress ? (tokenAddress as string).toLowerCase() : undefined,
+      fromBlock: fromBlock !== undefined ? parseInt(fromBlock) : undefined,
+      toBlock: toBlock !== undefined ? parseInt(toBlock) : undefined,
+    });
+
+    res.status(202).json({ data: job });
+  } catch (error) {
+    console.error('Error starting reindex:', error);
+    res.status(500).json({ error: 'Failed to start reindex' });
+  }
+});
+
+// GET /api/admin/reindex/:jobId - Reindex job status
+router.get('/reindex/:jobId', [
+  param('jobId').isHexadecimal().withMessage('Invalid job ID')
+], async (req: AuthRequest, res: Response): Promise<Response | void> => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  const job = getReindexJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Reindex job not found' });
+  }
+
+  res.json({ data: job });
+});
+
+// GET /api/admin/ingest/stats - Ingest queue and dead-letter counts per chain
+router.get('/ingest/stats', async (_req: AuthRequest, res: Response): Promise<Response | void> => {
+  try {
+    const stats = await getIngestQueueStats();
+    res.json({ data: stats });
+  } catch (error) {
+    console.error('Error fetching ingest queue stats:', error);
+    res.status(500).json({ error: 'Failed to fetch ingest queue stats' });
+  }
+});
+
+// GET /api/admin/rpc-pool - Health, latency and request metrics of every RPC endpoint
+router.get('/rpc-pool', async (_req: AuthRequest, res: Response): Promise<Response | void> => {
+  try {
+    res.json({ data: getRpcPoolMetrics() });
+  } catch (error) {
+    console.error('Error fetching RPC pool metrics:', error);
+    res.status(500).json({ error: 'Failed to fetch RPC pool metrics' });
+  }
+});
+
+// GET /api/admin/ingest/dead-letters - Events that exhausted their retries
+router.get('/ingest/dead-letters', [
+  query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID'),
+  query('eventName').optional().isString().trim(),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('pageSize').optional().isInt({ min: 1, max: 100 }).withMessage('Page size must be between 1 and 100')
+], async (req: AuthRequest, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const pageSize = parseInt(req.query.pageSize as string) || 20;
+    const filter: Record<string, any> = {};
+    if (req.query.chainId) {
+      filter.chainId = parseInt(req.query.chainId as string);
+    }
+    if (req.query.eventName) {
+      filter.eventName = req.query.eventName;
+    }
+
+    const [deadLetters, totalCount] = await Promise.all([
+      DeadLetterEvent.find(filter)
+        .sort({ failedAt: -1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .select('-__v')
+        .lean(),
+      DeadLetterEvent.countDocuments(filter),
+    ]);
+
+    res.json({
+      deadLetters,
+      totalCount,
+      currentPage: page,
+      totalPages: Math.ceil(totalCount / pageSize),
+    });
+  } catch (error) {
+    console.error('Error fetching dead letters:', error);
+    res.status(500).json({ error: 'Failed to fetch dead letters' });
+  }
+});
+
+// GET /api/admin/ingest/dead-letters/:id - A single dead-letter event with its payload
+router.get('/ingest/dead-letters/:id', [
+  param('id').isMongoId().withMessage('Invalid dead letter ID')
+], async (req: AuthRequest, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const deadLetter = await DeadLetterEvent.findById(req.params.id).select('-__v').lean();
+    if (!deadLetter) {
+      return res.status(404).json({ error: 'Dead letter not found' });
+    }
+
+    res.json({ data: deadLetter });
+  } catch (error) {
+    console.error('Error fetching dead letter:', error);
+    res.status(500).json({ error: 'Failed to fetch dead letter' });
+  }
+});
+
+// POST /api/admin/ingest/dead-letters/:id/replay - Put a dead-letter event back in the queue
+router.post('/ingest/dead-letters/:id/replay', [
+  param('id').isMongoId().withMessage('Invalid dead letter ID')
+], async (req: AuthRequest, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const replayed = await replayDeadLetter(req.params.id);
+    if (!replayed) {
+      return res.status(404).json({ error: 'Dead letter not found' });
+    }
+
+    res.status(202).json({ message: 'Event queued for replay' });
+  } catch (error) {
+    console.error('Error replaying dead letter:', error);
+    res.status(500).json({ error: 'Failed to replay dead letter' });
+  }
+});
+
+export default router;
@@ -1,3 +1,76 @@
-import express from 'express';
+import express, { Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { AnalyticsRange, getAnalyticsOverview, getDailyAnalytics } from '../services/analyticsService';
+
 const router = express.Router();
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rangeValidators = [
+  query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID'),
+  query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+  query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date')
+];
+
+// Range of UTC days requested; the default is the last 30 days
+const parseRange = (req: Request): AnalyticsRange | string => {
+  const to = req.query.to ? new Date(req.query.to as string) : new Date();
+  const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+  if (from > to) {
+    return 'from must not be after to';
+  }
+  if ((to.getTime() - from.getTime()) / DAY_MS > MAX_RANGE_DAYS) {
+    return `Range exceeds ${MAX_RANGE_DAYS} days`;
+  }
+  return {
+    chainId: req.query.chainId ? parseInt(req.query.chainId as string) : undefined,
+    from,
+    to
+  };
+};
+
+// GET /api/analytics/overview - Platform totals over a range (all chains unless chainId is set)
+router.get('/overview', rangeValidators, async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const range = parseRange(req);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    const overview = await getAnalyticsOverview(range);
+    res.json({ data: overview });
+  } catch (error) {
+    console.error('Error fetching analytics overview:', error);
+    res.status(500).json({ error: 'Failed to fetch analytics overview' });
+  }
+});
+
+// GET /api/analytics/daily - Per-day series (tokens created, graduations, volume, traders, users, fees)
+router.get('/daily', rangeValidators, async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const range = parseRange(req);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    const days = await getDailyAnalytics(range);
+    res.json({ data: days, chainId: range.chainId || null });
+  } catch (error) {
+    console.error('Error fetching daily analytics:', error);
+    res.status(500).json({ error: 'Failed to fetch daily analytics' });
+  }
+});
+
 export default router;
@@ -8,6 +8,7 @@ import crypto from 'crypto';
 import { sendEmail, generateVerificationEmail, generateVerificationEmailText } from '../services/emailService';
 import { authenticateToken } from '../middleware/auth';
 import { AuthRequest } from '../types';
+import { getExplorerUrl } from '../config/chains';
 
 const router = express.Router();
 
@@ -645,7 +646,7 @@ router.get('/embedded-wallet-address', authenticateToken, async (req: AuthReques
       matches: generatedAddress.toLowerCase() === embeddedWallet.address.toLowerCase(),
       chainId: chainId,
       message: `Your embedded wallet address is ${generatedAddress}. Send ETH to this address to create tokens.`,
-      explorerUrl: `https://sepolia.basescan.org/address/${generatedAddress}`,
+      explorerUrl: getExplorerUrl(chainId, 'address', generatedAddress),
     });
   } catch (error) {
     console.error('Error getting embedded wallet address:', error);
@@ -0,0 +1,54 @@
+import express, { Request, Response } from 'express';
+import { param, validationResult } from 'express-validator';
+import { getSupportedChains, getChainConfig } from '../config/chains';
+import { ChainConfig } from '../types';
+
+const router = express.Router();
+
+// Public view of a registry entry - RPC/WS URLs carry provider API keys and are never exposed
+const toPublicChain = (chain: ChainConfig) => ({
+  chainId: chain.chainId,
+  key: chain.key,
+  name: chain.name,
+  factoryAddress: chain.factoryAddress?.toLowerCase() || null,
+  explorerUrl: chain.explorerUrl,
+  nativeCurrency: chain.nativeCurrency,
+  confirmationDepth: chain.confirmationDepth,
+  blockTimeMs: chain.blockTimeMs,
+  testnet: chain.testnet,
+  configured: chain.configured,
+});
+
+// GET /api/chains - Chains of the registry (configured = this backend indexes it)
+router.get('/', async (_req: Request, res: Response): Promise<Response | void> => {
+  try {
+    res.json({ data: getSupportedChains().map(toPublicChain) });
+  } catch (error) {
+    console.error('Error fetching chains:', error);
+    res.status(500).json({ error: 'Failed to fetch chains' });
+  }
+});
+
+// GET /api/chains/:chainId - A single chain
+router.get('/:chainId', [
+  param('chainId').isInt({ min: 1 }).withMessage('Invalid chain ID')
+], async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const chain = getChainConfig(parseInt(req.params.chainId));
+    if (!chain) {
+      return res.status(404).json({ error: 'Chain not found' });
+    }
+
+    res.json({ data: toPublicChain(chain) });
+  } catch (error) {
+    console.error('Error fetching chain:', error);
+    res.status(500).json({ error: 'Failed to fetch chain' });
+  }
+});
+
+export default router;
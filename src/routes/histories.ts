@@ -3,6 +3,8 @@ import { query, param, validationResult } from 'express-validator';
 import TokenHistory from '../models/TokenHistory';
 import Token from '../models/Token';
 import { validateAddress } from '../middleware/validation';
+import { getCandles, CANDLE_RESOLUTIONS, MAX_CANDLES_PER_REQUEST } from '../services/candleService';
+import { CandleResolution } from '../types';
 
 const router = express.Router();
 
@@ -44,9 +46,9 @@ router.get('/token/:tokenAddress', [
     // Format response to include both price and market cap data
     const formattedHistories = histories.map(history => ({
       price: history.tokenPrice || '0',
-      priceUSD: history.priceUSD || '0',
+      priceUSD: history.priceUSD ?? null, // null when the ETH price was unavailable
       marketCap: history.marketCap || '0',
-      marketCapUSD: history.marketCapUSD || '0',
+      marketCapUSD: history.marketCapUSD ?? null,
       timestamp: history.timestamp?.toISOString() || new Date().toISOString(),
       blockNumber: history.blockNumber || 0
     }));
@@ -60,4 +62,55 @@ router.get('/token/:tokenAddress', [
   }
 });
 
+// GET /api/histories/token/:tokenAddress/candles - OHLCV candles for charts
+// from/to are unix seconds; without them the most recent 300 buckets are returned
+router.get('/token/:tokenAddress/candles', [
+  param('tokenAddress').custom(validateAddress).withMessage('Invalid token address'),
+  query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID'),
+  query('resolution').optional().isIn(Object.keys(CANDLE_RESOLUTIONS)).withMessage(`Resolution must be one of ${Object.keys(CANDLE_RESOLUTIONS).join(', ')}`),
+  query('from').optional().isInt({ min: 0 }).withMessage('from must be a unix timestamp in seconds'),
+  query('to').optional().isInt({ min: 0 }).withMessage('to must be a unix timestamp in seconds')
+], async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const tokenAddress = req.params.tokenAddress.toLowerCase();
+    const resolution = (req.query.resolution as CandleResolution) || '15m';
+    const bucketMs = CANDLE_RESOLUTIONS[resolution];
+
+    let chainId = req.query.chainId ? parseInt(req.query.chainId as string) : undefined;
+    if (!chainId) {
+      const token = await Token.findOne({ address: tokenAddress }).select('chainId').lean();
+      if (!token) {
+        return res.status(404).json({ error: 'Token not found' });
+      }
+      chainId = token.chainId;
+    }
+
+    const to = req.query.to ? new Date(parseInt(req.query.to as string) * 1000) : new Date();
+    const from = req.query.from ? new Date(parseInt(req.query.from as string) * 1000) : new Date(to.getTime() - 300 * bucketMs);
+    if (from > to) {
+      return res.status(400).json({ error: 'from must not be after to' });
+    }
+    if ((to.getTime() - from.getTime()) / bucketMs > MAX_CANDLES_PER_REQUEST) {
+      return res.status(400).json({ error: `Range exceeds ${MAX_CANDLES_PER_REQUEST} ${resolution} candles` });
+    }
+
+    const candles = await getCandles(tokenAddress, chainId, resolution, from, to);
+
+    res.json({
+      data: candles,
+      resolution,
+      from: Math.floor(from.getTime() / 1000),
+      to: Math.floor(to.getTime() / 1000)
+    });
+  } catch (error) {
+    console.error('Error fetching candles:', error);
+    res.status(500).json({ error: 'Failed to fetch candles' });
+  }
+});
+
 export default router;
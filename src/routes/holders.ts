@@ -3,6 +3,7 @@ import { query, param, validationResult } from 'express-validator';
 import TokenHolder from '../models/TokenHolder';
 import Token from '../models/Token';
 import { validateAddress } from '../middleware/validation';
+import { getReconciliationReport } from '../services/holderReconciliation';
 
 const router = express.Router();
 
@@ -74,6 +75,39 @@ router.get('/token/:tokenAddress', [
   }
 });
 
+// GET /api/holders/token/:tokenAddress/reconciliation - Holder balance reconciliation report
+router.get('/token/:tokenAddress/reconciliation', [
+  param('tokenAddress').custom(validateAddress).withMessage('Invalid token address'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('pageSize').optional().isInt({ min: 1, max: 100 }).withMessage('Page size must be between 1 and 100'),
+  query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID')
+], async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { tokenAddress } = req.params;
+    const { page = 1, pageSize = 20, chainId } = req.query;
+
+    const tokenQuery: any = { address: tokenAddress.toLowerCase() };
+    if (chainId) {
+      tokenQuery.chainId = parseInt(chainId as string);
+    }
+    const token = await Token.findOne(tokenQuery);
+    if (!token) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    const report = await getReconciliationReport(token, parseInt(page as string), parseInt(pageSize as string));
+    res.json({ data: report });
+  } catch (error) {
+    console.error('Error fetching holder reconciliation report:', error);
+    res.status(500).json({ error: 'Failed to fetch holder reconciliation report' });
+  }
+});
+
 // GET /api/holders/address/:holderAddress - Get tokens held by an address
 router.get('/address/:holderAddress', [
   param('holderAddress').custom(validateAddress).withMessage('Invalid holder address'),
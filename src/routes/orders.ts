@@ -0,0 +1,183 @@
+import express, { Response } from 'express';
+import { body, query, param, validationResult } from 'express-validator';
+import { ethers } from 'ethers';
+import Order from '../models/Order';
+import Token from '../models/Token';
+import { authenticateToken } from '../middleware/auth';
+import { validateAddress } from '../middleware/validation';
+import { AuthRequest, OrderType } from '../types';
+import { getEmbeddedWallet } from '../services/embeddedTradeService';
+import { DEFAULT_ORDER_SLIPPAGE_BPS, ORDER_SIDES, notifyOrderUpdate } from '../services/orderService';
+
+const router = express.Router();
+
+const ORDER_TYPES = Object.keys(ORDER_SIDES);
+const ORDER_STATUSES = ['open', 'executing', 'filled', 'failed', 'cancelled', 'expired'];
+// Open orders a user can have at once
+const MAX_OPEN_ORDERS = Number(process.env.ORDER_MAX_OPEN_PER_USER) || 50;
+
+// POST /api/orders - Place a limit buy, limit sell, stop-loss or take-profit order
+router.post('/', authenticateToken, [
+  body('tokenAddress').custom(validateAddress).withMessage('Invalid token address'),
+  body('chainId').isInt({ min: 1 }).withMessage('Invalid chain ID'),
+  body('type').isIn(ORDER_TYPES).withMessage(`Type must be one of ${ORDER_TYPES.join(', ')}`),
+  body('triggerPrice').isString().matches(/^\d+(\.\d{1,18})?$/).withMessage('triggerPrice must be an ETH price with up to 18 decimals'),
+  body('amount').isString().matches(/^\d+$/).withMessage('amount must be an integer amount in wei'),
+  body('maxSlippageBps').optional().isInt({ min: 0, max: 5000 }).withMessage('maxSlippageBps must be between 0 and 5000'),
+  body('expiresAt').optional({ nullable: true }).isISO8601().withMessage('expiresAt must be an ISO 8601 date')
+], async (req: AuthRequest, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user = req.user;
+    if (!user || !user._id) {
+      return res.status(401).json({ error: 'Unauthorized - User not found' });
+    }
+
+    const { tokenAddress, type, triggerPrice, amount, maxSlippageBps, expiresAt } = req.body;
+    const chainId = parseInt(req.body.chainId);
+
+    if (BigInt(amount) <= 0n) {
+      return res.status(400).json({ error: 'amount must be greater than 0' });
+    }
+    if (ethers.parseUnits(triggerPrice, 18) <= 0n) {
+      return res.status(400).json({ error: 'triggerPrice must be greater than 0' });
+    }
+    const expiry = expiresAt ? new Date(expiresAt) : null;
+    if (expiry && expiry <= new Date()) {
+      return res.status(400).json({ error: 'expiresAt must be in the future' });
+    }
+
+    const token = await Token.findOne({ address: tokenAddress.toLowerCase(), chainId: chainId });
+    if (!token) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+    if (!token.isActive || token.graduatedAt) {
+      return res.status(400).json({ error: 'Token is no longer traded on the bonding curve' });
+    }
+
+    const openOrders = await Order.countDocuments({ userId: user._id, status: { $in: ['open', 'executing'] } });
+    if (openOrders >= MAX_OPEN_ORDERS) {
+      return res.status(400).json({ error: `Open order limit of ${MAX_OPEN_ORDERS} reached` });
+    }
+
+    const order = await Order.create({
+      userId: user._id,
+      walletAddress: getEmbeddedWallet(user).address.toLowerCase(),
+      tokenId: token._id,
+      tokenAddress: token.address,
+      chainId: chainId,
+      type: type as OrderType,
+      side: ORDER_SIDES[type as OrderType],
+      triggerPrice: triggerPrice,
+      amount: amount,
+      maxSlippageBps: maxSlippageBps !== undefined ? parseInt(maxSlippageBps) : DEFAULT_ORDER_SLIPPAGE_BPS,
+      expiresAt: expiry,
+    });
+
+    res.status(201).json({ data: order });
+  } catch (error) {
+    console.error('Error creating order:', error);
+    res.status(500).json({ error: 'Failed to create order' });
+  }
+});
+
+// GET /api/orders - List the user's orders
+router.get('/', authenticateToken, [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('pageSize').optional().isInt({ min: 1, max: 100 }).withMessage('Page size must be between 1 and 100'),
+  query('status').optional().isIn(ORDER_STATUSES).withMessage('Invalid status'),
+  query('tokenAddress').optional().custom(validateAddress).withMessage('Invalid token address'),
+  query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID')
+], async (req: AuthRequest, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user = req.user;
+    if (!user || !user._id) {
+      return res.status(401).json({ error: 'Unauthorized - User not found' });
+    }
+
+    const { page = 1, pageSize = 20, status, tokenAddress, chainId } = req.query;
+    const filter: any = { userId: user._id };
+    if (status) {
+      filter.status = status;
+    }
+    if (tokenAddress) {
+      filter.tokenAddress = (tokenAddress as string).toLowerCase();
+    }
+    if (chainId) {
+      filter.chainId = parseInt(chainId as string);
+    }
+
+    const skip = (parseInt(page as string) - 1) * parseInt(pageSize as string);
+    const limit = parseInt(pageSize as string);
+
+    const [orders, totalCount] = await Promise.all([
+      Order.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      Order.countDocuments(filter)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      data: orders,
+      totalCount,
+      currentPage: parseInt(page as string),
+      totalPages,
+      hasNextPage: parseInt(page as string) < totalPages,
+      hasPrevPage: parseInt(page as string) > 1
+    });
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    res.status(500).json({ error: 'Failed to fetch orders' });
+  }
+});
+
+// DELETE /api/orders/:id - Cancel an open order (orders already executing can't be cancelled)
+router.delete('/:id', authenticateToken, [
+  param('id').isMongoId().withMessage('Invalid order ID')
+], async (req: AuthRequest, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user = req.user;
+    if (!user || !user._id) {
+      return res.status(401).json({ error: 'Unauthorized - User not found' });
+    }
+
+    const order = await Order.findOneAndUpdate(
+      { _id: req.params.id, userId: user._id, status: 'open' },
+      { $set: { status: 'cancelled', closedAt: new Date() } },
+      { new: true }
+    );
+    if (!order) {
+      const existing = await Order.findOne({ _id: req.params.id, userId: user._id }).select('status').lean();
+      if (!existing) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+      return res.status(409).json({ error: `Order is ${existing.status} and can no longer be cancelled` });
+    }
+
+    notifyOrderUpdate(order, 'cancelled');
+    res.json({ data: order });
+  } catch (error) {
+    console.error('Error cancelling order:', error);
+    res.status(500).json({ error: 'Failed to cancel order' });
+  }
+});
+
+export default router;
@@ -0,0 +1,41 @@
+import express, { Request, Response } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { getConfiguredChains } from '../config/blockchain';
+import { getProtocolConfig } from '../services/protocolConfigService';
+import { PROTOCOL_CONFIG_EVENTS } from '../sync/handler';
+
+const router = express.Router();
+
+// GET /api/protocol/:chainId/config - Current fee tiers, market cap unit, router and owner plus their change history
+router.get('/:chainId/config', [
+  param('chainId').isInt({ min: 1 }).withMessage('Invalid chain ID'),
+  query('block').optional().isInt({ min: 0 }).withMessage('Block must be a non-negative integer'),
+  query('historyLimit').optional().isInt({ min: 1, max: 500 }).withMessage('History limit must be between 1 and 500'),
+  query('eventName').optional().isIn([...PROTOCOL_CONFIG_EVENTS]).withMessage('Invalid event name')
+], async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const chainId = parseInt(req.params.chainId);
+    if (!getConfiguredChains().includes(chainId)) {
+      return res.status(404).json({ error: 'Chain not configured' });
+    }
+
+    const { block, historyLimit, eventName } = req.query;
+    const config = await getProtocolConfig(chainId, {
+      blockNumber: block !== undefined ? parseInt(block as string) : undefined,
+      historyLimit: historyLimit ? parseInt(historyLimit as string) : undefined,
+      eventName: eventName as string | undefined,
+    });
+
+    res.json({ data: config });
+  } catch (error) {
+    console.error('Error fetching protocol config:', error);
+    res.status(500).json({ error: 'Failed to fetch protocol config' });
+  }
+});
+
+export default router;
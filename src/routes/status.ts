@@ -0,0 +1,29 @@
+import express, { Request, Response } from 'express';
+import { getLeaderStatus } from '../services/leaderElection';
+import { getSyncStatus } from '../services/syncStatus';
+
+const router = express.Router();
+
+// GET /api/status/leader - Which instance owns ingestion and deposit monitoring per chain
+router.get('/leader', async (_req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const status = await getLeaderStatus();
+    res.json({ data: status });
+  } catch (error) {
+    console.error('Error fetching leader status:', error);
+    res.status(500).json({ error: 'Failed to fetch leader status' });
+  }
+});
+
+// GET /api/status/sync - Per-chain ingestion lag, live tracker connection and ingestion health
+router.get('/sync', async (_req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const chains = await getSyncStatus();
+    res.json({ data: chains });
+  } catch (error) {
+    console.error('Error fetching sync status:', error);
+    res.status(500).json({ error: 'Failed to fetch sync status' });
+  }
+});
+
+export default router;
@@ -6,8 +6,11 @@ import Token from '../models/Token';
 import TokenHolder from '../models/TokenHolder';
 import { ethers } from 'ethers';
 import { getFactoryAddressForChain, getProvider } from '../config/blockchain';
+import { getChainConfig, getExplorerUrl } from '../config/chains';
 import { recalculatePercentages } from '../sync/handler';
 import { getEthPriceUSD } from '../services/ethPriceService';
+import { resolveSlippageBound } from '../services/slippageService';
+import { executeEmbeddedTrade, getEmbeddedWallet } from '../services/embeddedTradeService';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -103,8 +106,11 @@ router.post('/create-with-embedded-wallet',
     }
 
     // Get factory address for chain
-    const chainName = getChainName(chainId);
-    const factoryAddress = process.env[`FACTORY_ADDRESS_${chainName}`] || process.env.TOKEN_FACTORY_ADDRESS;
+    const chainConfig = getChainConfig(Number(chainId));
+    if (!chainConfig) {
+      return res.status(400).json({ error: `Unsupported chain ${chainId}` });
+    }
+    const factoryAddress = chainConfig.factoryAddress || process.env.TOKEN_FACTORY_ADDRESS;
     if (!factoryAddress) {
       return res.status(400).json({ 
         error: `Factory address not configured for chain ${chainId}` 
@@ -184,7 +190,7 @@ router.post('/create-with-embedded-wallet',
         required: ethers.formatEther(purchaseAmount),
         address: wallet.address,
         message: `Your embedded wallet address is ${wallet.address}. Please send ETH to this address to create tokens.`,
-        explorerUrl: `https://sepolia.basescan.org/address/${wallet.address}`,
+        explorerUrl: getExplorerUrl(Number(chainId), 'address', wallet.address),
       });
     }
     
@@ -298,7 +304,7 @@ router.post('/create-with-embedded-wallet',
       // Fetch ETH price and calculate USD values
       try {
         const ethPriceUSD = await getEthPriceUSD();
-        const ethPrice = parseFloat(ethPriceUSD);
+        const ethPrice = parseFloat(ethPriceUSD || '0');
         
         if (initialPrice !== '0' && ethPrice > 0) {
           // currentPrice is in ETH (decimal string), convert to USD
@@ -453,46 +459,12 @@ router.post('/create-with-embedded-wallet',
   }
 });
 
-// Helper function to get chain name
-function getChainName(chainId: number): string {
-  const names: Record<number, string> = {
-    1: 'ETHEREUM',
-    8453: 'BASE',
-    42161: 'ARBITRUM',
-    84532: 'BASE_SEPOLIA',
-  };
-  return names[chainId] || '';
-}
-
-// Helper function to get RPC URL for chain (unused but kept for potential future use)
-// @ts-expect-error - Function is intentionally unused but kept for future use
-function _getRpcUrl(chainId: number): string | undefined {
-  const urls: Record<number, string | undefined> = {
-    1: process.env.ETHEREUM_RPC_URL,
-    8453: process.env.BASE_RPC_URL || process.env.BASE_SEPOLIA_RPC_URL,
-    42161: process.env.ARBITRUM_RPC_URL,
-    84532: process.env.BASE_SEPOLIA_RPC_URL,
-  };
-  const url = urls[chainId];
-  // Return undefined if URL is empty or just whitespace
-  return url?.trim() || undefined;
-}
-
-// Helper function to get environment variable key for RPC URL (unused but kept for potential future use)
-// @ts-expect-error - Function is intentionally unused but kept for future use
-function _getRpcUrlEnvKey(chainId: number): string {
-  const keys: Record<number, string> = {
-    1: 'ETHEREUM_RPC_URL',
-    8453: 'BASE_RPC_URL or BASE_SEPOLIA_RPC_URL',
-    42161: 'ARBITRUM_RPC_URL',
-    84532: 'BASE_SEPOLIA_RPC_URL',
-  };
-  return keys[chainId] || 'RPC_URL';
-}
-
 /**
  * POST /api/tokens/buy-with-embedded-wallet
  * Buy tokens using the user's embedded wallet
+ * The output is bounded by minAmountOut, or by a quote (quoteId from calc-buy-return, else a fresh one)
+ * less maxSlippageBps. buyTokens takes no minimum, so the trade is simulated right before sending
+ * and refused when its expected output falls below the bound.
  */
 router.post('/buy-with-embedded-wallet', authenticateToken, async (req: AuthRequest, res: Response): Promise<Response | void> => {
   try {
@@ -501,7 +473,7 @@ router.post('/buy-with-embedded-wallet', authenticateToken, async (req: AuthRequ
       return res.status(401).json({ error: 'Unauthorized - User not found' });
     }
 
-    const { tokenAddress, ethAmount, chainId } = req.body;
+    const { tokenAddress, ethAmount, chainId, quoteId, minAmountOut, maxSlippageBps } = req.body;
 
     if (!tokenAddress || !ethAmount || !chainId) {
       return res.status(400).json({ error: 'Missing required fields: tokenAddress, ethAmount, chainId' });
@@ -537,68 +509,57 @@ router.post('/buy-with-embedded-wallet', authenticateToken, async (req: AuthRequ
     }
 
     // Get factory address
-    const chainName = getChainName(chainId);
-    const factoryAddress = process.env[`FACTORY_ADDRESS_${chainName}`] || process.env.TOKEN_FACTORY_ADDRESS;
+    const chainConfig = getChainConfig(Number(chainId));
+    if (!chainConfig) {
+      return res.status(400).json({ error: `Unsupported chain ${chainId}` });
+    }
+    const factoryAddress = chainConfig.factoryAddress || process.env.TOKEN_FACTORY_ADDRESS;
     if (!factoryAddress) {
       return res.status(400).json({ error: `Factory address not configured for chain ${chainId}` });
     }
 
-    // Generate wallet from user credentials
-    const userId = user._id.toString();
-    const userEmail = user.email.toLowerCase().trim();
-    const jwtSecret = process.env.JWT_SECRET || 'default-secret';
-    const seed = `${userId}-${userEmail}-${jwtSecret}`;
-    const privateKey = ethers.keccak256(ethers.toUtf8Bytes(seed));
-    const wallet = new ethers.Wallet(privateKey);
+    // Lowest output the user accepts
+    const bound = await resolveSlippageBound({
+      side: 'buy',
+      tokenAddress,
+      chainId: Number(chainId),
+      amountIn: purchaseAmount,
+      quoteId,
+      minAmountOut,
+      maxSlippageBps
+    });
+    if (typeof bound === 'string') {
+      return res.status(400).json({ error: bound });
+    }
 
-    // Verify wallet address matches
+    // Derive the embedded wallet and keep the stored address in sync with it
+    const wallet = getEmbeddedWallet(user);
     if (wallet.address.toLowerCase() !== embeddedWallet.address.toLowerCase()) {
       embeddedWallet.address = wallet.address.toLowerCase();
       await user.save();
     }
 
-    // Connect to provider (using getProvider to ensure staticNetwork option is set)
-    const provider = getProvider(chainId);
-    const signer = wallet.connect(provider);
-
-    // Load factory ABI
-    const FactoryABI = require('../config/abi/TokenFactory.json');
-    const factory = new ethers.Contract(factoryAddress, FactoryABI, signer);
-
-    // Check balance
-    const balance = await provider.getBalance(wallet.address);
-    const estimatedGasPrice = await provider.getFeeData();
-    const gasPrice = estimatedGasPrice.gasPrice || 0n;
-    const estimatedGasLimit = 300000n; // Estimated gas for buyTokens
-    const gasCost = gasPrice * estimatedGasLimit;
-    const totalRequired = purchaseAmount + gasCost;
-
-    if (balance < totalRequired) {
-      return res.status(400).json({ 
-        error: `Insufficient balance. Required: ${ethers.formatEther(totalRequired)} ETH, Available: ${ethers.formatEther(balance)} ETH`,
-        balance: ethers.formatEther(balance),
-        required: ethers.formatEther(totalRequired),
-        address: wallet.address,
-      });
-    }
-
-    // Execute buy transaction
-    const nonce = await provider.getTransactionCount(wallet.address, 'pending');
-    const tx = await factory.buyTokens(tokenAddress, {
-      value: purchaseAmount,
-      gasLimit: 300000n,
-      nonce: nonce,
+    const result = await executeEmbeddedTrade({
+      user,
+      side: 'buy',
+      tokenAddress,
+      amountIn: purchaseAmount,
+      chainId: Number(chainId),
+      factoryAddress,
+      bound
     });
-
-    const receipt = await tx.wait();
+    if (result.status === 'refused') {
+      return res.status(400).json({ error: result.error, ...result.details });
+    }
 
     res.json({
       success: true,
-      txHash: tx.hash,
+      txHash: result.txHash,
       receipt: {
-        blockNumber: receipt.blockNumber,
-        gasUsed: receipt.gasUsed.toString(),
+        blockNumber: result.blockNumber,
+        gasUsed: result.gasUsed,
       },
+      ...result.outcome,
     });
   } catch (error: any) {
     console.error('Error buying tokens with embedded wallet:', error);
@@ -612,6 +573,7 @@ router.post('/buy-with-embedded-wallet', authenticateToken, async (req: AuthRequ
 /**
  * POST /api/tokens/sell-with-embedded-wallet
  * Sell tokens using the user's embedded wallet
+ * Slippage protection works as for buy-with-embedded-wallet (quoteId from calc-sell-return)
  */
 router.post('/sell-with-embedded-wallet', authenticateToken, async (req: AuthRequest, res: Response): Promise<Response | void> => {
   try {
@@ -620,7 +582,7 @@ router.post('/sell-with-embedded-wallet', authenticateToken, async (req: AuthReq
       return res.status(401).json({ error: 'Unauthorized - User not found' });
     }
 
-    const { tokenAddress, tokenAmount, chainId } = req.body;
+    const { tokenAddress, tokenAmount, chainId, quoteId, minAmountOut, maxSlippageBps } = req.body;
 
     if (!tokenAddress || !tokenAmount || !chainId) {
       return res.status(400).json({ error: 'Missing required fields: tokenAddress, tokenAmount, chainId' });
@@ -656,70 +618,57 @@ router.post('/sell-with-embedded-wallet', authenticateToken, async (req: AuthReq
     }
 
     // Get factory address
-    const chainName = getChainName(chainId);
-    const factoryAddress = process.env[`FACTORY_ADDRESS_${chainName}`] || process.env.TOKEN_FACTORY_ADDRESS;
+    const chainConfig = getChainConfig(Number(chainId));
+    if (!chainConfig) {
+      return res.status(400).json({ error: `Unsupported chain ${chainId}` });
+    }
+    const factoryAddress = chainConfig.factoryAddress || process.env.TOKEN_FACTORY_ADDRESS;
     if (!factoryAddress) {
       return res.status(400).json({ error: `Factory address not configured for chain ${chainId}` });
     }
 
-    // Generate wallet from user credentials
-    const userId = user._id.toString();
-    const userEmail = user.email.toLowerCase().trim();
-    const jwtSecret = process.env.JWT_SECRET || 'default-secret';
-    const seed = `${userId}-${userEmail}-${jwtSecret}`;
-    const privateKey = ethers.keccak256(ethers.toUtf8Bytes(seed));
-    const wallet = new ethers.Wallet(privateKey);
+    // Lowest output the user accepts
+    const bound = await resolveSlippageBound({
+      side: 'sell',
+      tokenAddress,
+      chainId: Number(chainId),
+      amountIn: sellAmount,
+      quoteId,
+      minAmountOut,
+      maxSlippageBps
+    });
+    if (typeof bound === 'string') {
+      return res.status(400).json({ error: bound });
+    }
 
-    // Verify wallet address matches
+    // Derive the embedded wallet and keep the stored address in sync with it
+    const wallet = getEmbeddedWallet(user);
     if (wallet.address.toLowerCase() !== embeddedWallet.address.toLowerCase()) {
       embeddedWallet.address = wallet.address.toLowerCase();
       await user.save();
     }
 
-    // Connect to provider (using getProvider to ensure staticNetwork option is set)
-    const provider = getProvider(chainId);
-    const signer = wallet.connect(provider);
-
-    // Load factory and token ABIs
-    const FactoryABI = require('../config/abi/TokenFactory.json');
-    const TokenABI = require('../config/abi/Token.json');
-    const factory = new ethers.Contract(factoryAddress, FactoryABI, signer);
-    const token = new ethers.Contract(tokenAddress, TokenABI, signer);
-
-    // Check token balance
-    const tokenBalance = await token.balanceOf(wallet.address);
-    if (tokenBalance < sellAmount) {
-      return res.status(400).json({ 
-        error: `Insufficient token balance. Required: ${ethers.formatEther(sellAmount)}, Available: ${ethers.formatEther(tokenBalance)}`,
-        balance: ethers.formatEther(tokenBalance),
-        required: ethers.formatEther(sellAmount),
-      });
-    }
-
-    // Check allowance
-    const allowance = await token.allowance(wallet.address, factoryAddress);
-    if (allowance < sellAmount) {
-      // Approve first
-      const approveTx = await token.approve(factoryAddress, ethers.MaxUint256);
-      await approveTx.wait();
-    }
-
-    // Execute sell transaction
-    const nonce = await provider.getTransactionCount(wallet.address, 'pending');
-    const tx = await factory.sellTokens(tokenAddress, sellAmount, {
-      gasLimit: 300000n,
-      nonce: nonce,
+    const result = await executeEmbeddedTrade({
+      user,
+      side: 'sell',
+      tokenAddress,
+      amountIn: sellAmount,
+      chainId: Number(chainId),
+      factoryAddress,
+      bound
     });
-
-    const receipt = await tx.wait();
+    if (result.status === 'refused') {
+      return res.status(400).json({ error: result.error, ...result.details });
+    }
 
     res.json({
       success: true,
-      txHash: tx.hash,
+      txHash: result.txHash,
       receipt: {
-        blockNumber: receipt.blockNumber,
-        gasUsed: receipt.gasUsed.toString(),
+        blockNumber: result.blockNumber,
+        gasUsed: result.gasUsed,
       },
+      ...result.outcome,
     });
   } catch (error: any) {
     console.error('Error selling tokens with embedded wallet:', error);
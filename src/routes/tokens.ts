@@ -4,20 +4,30 @@ import { ethers } from 'ethers';
 import Token from '../models/Token';
 import TokenHolder from '../models/TokenHolder';
 import Transaction from '../models/Transaction';
+import TrendingScore from '../models/TrendingScore';
 import { authenticateToken } from '../middleware/auth';
 import { validateAddress } from '../middleware/validation';
 import { AuthRequest } from '../types';
 import { getContract, getProvider, getFactoryAddressForChain } from '../config/blockchain';
 import { recalculatePercentages } from '../sync/handler';
+import { getTokenFeeSummary, FeePeriod } from '../services/feeService';
+import { getTrendingWeights } from '../services/trendingService';
+import { quoteBuy, quoteSell, issueQuoteId } from '../services/quoteService';
 import TokenABI from '../config/abi/Token.json';
 
 const router = express.Router();
 
+const TOKEN_SORT_FIELDS = [
+  'createdAt', 'currentPriceUSD', 'marketCapUSD',
+  'volume1hUSD', 'volume24hUSD', 'volume7dUSD',
+  'priceChange1hPercent', 'priceChange24hPercent', 'priceChange7dPercent'
+];
+
 // GET /api/tokens - Get all tokens with pagination
 router.get('/', [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('pageSize').optional().isInt({ min: 1, max: 100 }).withMessage('Page size must be between 1 and 100'),
-  query('sortBy').optional().isIn(['createdAt', 'currentPriceUSD', 'marketCapUSD', 'volume24hUSD', 'priceChange24hPercent']).withMessage('Invalid sort field'),
+  query('sortBy').optional().isIn(TOKEN_SORT_FIELDS).withMessage('Invalid sort field'),
   query('sortOrder').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc'),
   query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID'),
   query('verified').optional().isBoolean().withMessage('Verified must be true or false'),
@@ -177,7 +187,7 @@ router.get('/by-creator/:address', [
   param('address').custom(validateAddress).withMessage('Invalid creator address'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('pageSize').optional().isInt({ min: 1, max: 100 }).withMessage('Page size must be between 1 and 100'),
-  query('sortBy').optional().isIn(['createdAt', 'currentPriceUSD', 'marketCapUSD', 'volume24hUSD', 'priceChange24hPercent']).withMessage('Invalid sort field'),
+  query('sortBy').optional().isIn(TOKEN_SORT_FIELDS).withMessage('Invalid sort field'),
   query('sortOrder').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc'),
   query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID'),
 ], async (req: Request, res: Response): Promise<Response | void> => {
@@ -243,7 +253,7 @@ router.get('/by-creator/:address', [
   }
 });
 
-// GET /api/tokens/trending - Get trending tokens
+// GET /api/tokens/trending - Tokens ranked by trending score (see services/trendingService), with score breakdowns
 router.get('/trending', [
   query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
   query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID'),
@@ -254,6 +264,11 @@ router.get('/trending', [
   query('timeRange').optional().isIn(['1h', '24h', '7d', '30d', 'all']).withMessage('Invalid time range')
 ], async (req: Request, res: Response): Promise<Response | void> => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
     const { 
       limit = 10,
       chainId,
@@ -268,7 +283,11 @@ router.get('/trending', [
     const filter: any = { isActive: true };
     const exprConditions: any[] = [];
     
-    if (chainId) filter.chainId = parseInt(chainId as string);
+    const scoreFilter: any = {};
+    if (chainId) {
+      filter.chainId = parseInt(chainId as string);
+      scoreFilter.chainId = parseInt(chainId as string);
+    }
     
     // Price range filter (currentPrice is stored as decimal string)
     if (minPrice || maxPrice) {
@@ -322,14 +341,46 @@ router.get('/trending', [
       filter.createdAt = { $gte: startTime };
     }
     
-    const tokens = await Token.find(filter)
-      .sort({ volume24hUSD: -1, priceChange24hPercent: -1 })
-      .limit(parseInt(limit as string))
+    // Highest scores first, skipping tokens the filters exclude
+    const ranked = await TrendingScore.aggregate([
+      { $match: scoreFilter },
+      { $sort: { score: -1 } },
+      {
+        $lookup: {
+          from: Token.collection.name,
+          let: { tokenId: '$tokenId' },
+          pipeline: [
+            { $match: { $expr: { $eq: ['$_id', '$$tokenId'] } } },
+            { $match: filter },
+            { $project: { _id: 1 } }
+          ],
+          as: 'token'
+        }
+      },
+      { $match: { 'token.0': { $exists: true } } },
+      { $limit: parseInt(limit as string) },
+      { $project: { token: 0, __v: 0 } }
+    ]);
+
+    const matchedTokens = await Token.find({ _id: { $in: ranked.map((entry) => entry.tokenId) } })
       .populate('liquidityEventsCount')
       .populate('transactionsCount')
       .lean(); // Use lean() for better performance (returns plain JS objects)
+    const tokensById = new Map(matchedTokens.map((token) => [token._id.toString(), token]));
+
+    const tokens = ranked
+      .filter((entry) => tokensById.has(entry.tokenId.toString()))
+      .map((entry) => ({
+        ...tokensById.get(entry.tokenId.toString()),
+        trending: {
+          score: entry.score,
+          rank: entry.rank,
+          components: entry.components,
+          computedAt: entry.computedAt
+        }
+      }));
 
-    res.json({ data: tokens });
+    res.json({ data: tokens, weights: getTrendingWeights() });
   } catch (error) {
     console.error('Error fetching trending tokens:', error);
     res.status(500).json({ error: 'Failed to fetch trending tokens' });
@@ -618,7 +669,44 @@ router.get('/address/:address/graduation-progress', [
   }
 });
 
+// GET /api/tokens/address/:address/fees - Fee totals (creator/dev/marketing) for a token, overall and per period
+router.get('/address/:address/fees', [
+  param('address').custom(validateAddress).withMessage('Invalid token address'),
+  query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID'),
+  query('period').optional().isIn(['day', 'week', 'month']).withMessage('Period must be day, week or month'),
+  query('from').optional().isISO8601().withMessage('From must be a valid ISO 8601 date'),
+  query('to').optional().isISO8601().withMessage('To must be a valid ISO 8601 date')
+], async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { address } = req.params;
+    const { chainId, period, from, to } = req.query;
+    const targetChainId = chainId ? parseInt(chainId as string) : parseInt(process.env.CHAIN_ID || '84532');
+
+    const summary = await getTokenFeeSummary(address, (period as FeePeriod) || 'day', {
+      chainId: targetChainId,
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+    });
+
+    res.json({
+      tokenAddress: address.toLowerCase(),
+      chainId: targetChainId,
+      period: period || 'day',
+      ...summary
+    });
+  } catch (error: any) {
+    console.error('Error fetching token fees:', error);
+    res.status(500).json({ error: 'Failed to fetch token fees' });
+  }
+});
+
 // GET /api/tokens/:address/calc-buy-return - Calculate token amount for ETH amount
+// (quoted from the indexed curve state, see services/quoteService)
 router.get('/address/:address/calc-buy-return', [
   param('address').custom(validateAddress).withMessage('Invalid token address'),
   query('ethAmount').isString().withMessage('ETH amount is required'),
@@ -634,9 +722,8 @@ router.get('/address/:address/calc-buy-return', [
     const { ethAmount, chainId } = req.query;
     const targetChainId = chainId ? parseInt(chainId as string) : parseInt(process.env.CHAIN_ID || '84532');
 
-    let factoryContract;
     try {
-      factoryContract = getContract(targetChainId);
+      getContract(targetChainId);
     } catch (error: any) {
       return res.status(500).json({ 
         error: `Factory address or RPC URL not configured for chain ${targetChainId}`,
@@ -646,12 +733,15 @@ router.get('/address/:address/calc-buy-return', [
 
     try {
       const ethAmountWei = ethers.parseUnits(ethAmount as string, 18);
-      const tokenAmount = await factoryContract.calculateTokenAmount(address, ethAmountWei);
+      const quote = await quoteBuy(address, ethAmountWei, targetChainId);
 
       res.json({
         ethAmount: ethAmount,
-        tokenAmount: tokenAmount.toString(),
-        tokenAmountFormatted: ethers.formatUnits(tokenAmount, 18)
+        tokenAmount: quote.amountOut,
+        tokenAmountFormatted: ethers.formatUnits(quote.amountOut, 18),
+        quote,
+        // Pass to buy-with-embedded-wallet to bound the trade by this quote
+        quoteId: issueQuoteId(quote, address, targetChainId)
       });
     } catch (contractError: any) {
       console.error('Error calculating buy return:', contractError);
@@ -682,9 +772,8 @@ router.get('/address/:address/calc-sell-return', [
     const { tokenAmount, chainId } = req.query;
     const targetChainId = chainId ? parseInt(chainId as string) : parseInt(process.env.CHAIN_ID || '84532');
 
-    let factoryContract;
     try {
-      factoryContract = getContract(targetChainId);
+      getContract(targetChainId);
     } catch (error: any) {
       return res.status(500).json({ 
         error: `Factory address or RPC URL not configured for chain ${targetChainId}`,
@@ -694,12 +783,14 @@ router.get('/address/:address/calc-sell-return', [
 
     try {
       const tokenAmountWei = ethers.parseUnits(tokenAmount as string, 18);
-      const ethAmount = await factoryContract.calculateEthAmount(address, tokenAmountWei);
+      const quote = await quoteSell(address, tokenAmountWei, targetChainId);
 
       res.json({
         tokenAmount: tokenAmount,
-        ethAmount: ethAmount.toString(),
-        ethAmountFormatted: ethers.formatUnits(ethAmount, 18)
+        ethAmount: quote.amountOut,
+        ethAmountFormatted: ethers.formatUnits(quote.amountOut, 18),
+        quote,
+        quoteId: issueQuoteId(quote, address, targetChainId)
       });
     } catch (contractError: any) {
       console.error('Error calculating sell return:', contractError);
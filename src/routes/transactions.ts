@@ -10,7 +10,8 @@ router.get('/token/:tokenAddress', [
   param('tokenAddress').custom(validateAddress).withMessage('Invalid token address'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('pageSize').optional().isInt({ min: 1, max: 100 }).withMessage('Page size must be between 1 and 100'),
-  query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID')
+  query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID'),
+  query('venue').optional().isIn(['bonding_curve', 'dex']).withMessage('Venue must be bonding_curve or dex')
 ], async (req: Request, res: Response): Promise<Response | void> => {
   try {
     const errors = validationResult(req);
@@ -19,7 +20,7 @@ router.get('/token/:tokenAddress', [
     }
 
     const { tokenAddress } = req.params;
-    const { page = 1, pageSize = 10, chainId } = req.query;
+    const { page = 1, pageSize = 10, chainId, venue } = req.query;
 
     const skip = (parseInt(page as string) - 1) * parseInt(pageSize as string);
     const limit = parseInt(pageSize as string);
@@ -31,6 +32,9 @@ router.get('/token/:tokenAddress', [
     if (chainId) {
       query.chainId = parseInt(chainId as string);
     }
+    if (venue) {
+      query.venue = venue;
+    }
 
     const [transactions, totalCount] = await Promise.all([
       Transaction.find(query)
@@ -1,8 +1,9 @@
 import express, { Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, query, param, validationResult } from 'express-validator';
 import User from '../models/User';
 import { authenticateToken } from '../middleware/auth';
-import { validateUsername } from '../middleware/validation';
+import { validateUsername, validateAddress } from '../middleware/validation';
+import { getCreatorEarnings, FeePeriod } from '../services/feeService';
 import { AuthRequest } from '../types';
 
 const router = express.Router();
@@ -89,6 +90,40 @@ router.get('/:address', async (req: Request, res: Response): Promise<Response |
   }
 });
 
+// GET /api/users/:address/creator-earnings - Creator fees earned by a wallet, per token and per period
+router.get('/:address/creator-earnings', [
+  param('address').custom(validateAddress).withMessage('Invalid wallet address'),
+  query('chainId').optional().isInt({ min: 1 }).withMessage('Invalid chain ID'),
+  query('period').optional().isIn(['day', 'week', 'month']).withMessage('Period must be day, week or month'),
+  query('from').optional().isISO8601().withMessage('From must be a valid ISO 8601 date'),
+  query('to').optional().isISO8601().withMessage('To must be a valid ISO 8601 date')
+], async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { address } = req.params;
+    const { chainId, period, from, to } = req.query;
+
+    const earnings = await getCreatorEarnings(address, (period as FeePeriod) || 'day', {
+      chainId: chainId ? parseInt(chainId as string) : undefined,
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+    });
+
+    res.json({
+      address: address.toLowerCase(),
+      period: period || 'day',
+      ...earnings
+    });
+  } catch (error: any) {
+    console.error('Error fetching creator earnings:', error);
+    res.status(500).json({ error: 'Failed to fetch creator earnings' });
+  }
+});
+
 // PATCH /api/users/profile - Update user profile
 router.patch('/profile', 
   authenticateToken,
@@ -7,23 +7,6 @@ import { getProvider } from '../config/blockchain';
 
 const router = express.Router();
 
-// Helper functions (same as tokenCreation.ts)
-// @ts-expect-error - Function is intentionally unused but kept for future use
-function _getRpcUrl(chainId: number): string | null {
-  const envKey = getRpcUrlEnvKey(chainId);
-  return process.env[envKey] || process.env.RPC_URL || null;
-}
-
-function getRpcUrlEnvKey(chainId: number): string {
-  const keys: Record<number, string> = {
-    1: 'MAINNET_RPC_URL',
-    8453: 'BASE_RPC_URL',
-    42161: 'ARBITRUM_RPC_URL',
-    84532: 'BASE_SEPOLIA_RPC_URL',
-  };
-  return keys[chainId] || 'RPC_URL';
-}
-
 /**
  * POST /api/wallet/withdraw
  * Send ETH from embedded wallet to another address
@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import Transaction from '../models/Transaction';
+import IngestEvent from '../models/IngestEvent';
+
+/**
+ * Bring the indexes of an existing database, and the fields they cover, in line with the models.
+ *
+ * Usage:
+ *   npm run migrate
+ */
+
+// Indexes replaced by another key - the unique ones would reject records the new index allows,
+// a TTL index would keep expiring documents by the old field
+const LEGACY_INDEXES: { model: mongoose.Model<any>; key: Record<string, number> }[] = [
+  // Transactions became unique per log (txHash + chainId + logIndex): one transaction can carry a trade plus transfers
+  { model: Transaction, key: { txHash: 1, chainId: 1 } },
+  // and later keyed like IngestEvent (chainId + txHash + logIndex)
+  { model: Transaction, key: { txHash: 1, chainId: 1, logIndex: 1 } },
+  // Done ingest events expire by completedAt (formerly processedAt)
+  { model: IngestEvent, key: { processedAt: 1 } },
+];
+
+const sameKey = (a: Record<string, number>, b: Record<string, number>): boolean =>
+  JSON.stringify(Object.entries(a)) === JSON.stringify(Object.entries(b));
+
+const dropLegacyIndexes = async (): Promise<void> => {
+  for (const { model, key } of LEGACY_INDEXES) {
+    let indexes: any[];
+    try {
+      indexes = await model.collection.indexes();
+    } catch (error: any) {
+      // The collection doesn't exist yet
+      if (error.codeName === 'NamespaceNotFound') {
+        continue;
+      }
+      throw error;
+    }
+
+    for (const index of indexes) {
+      if (index.name && sameKey(index.key, key)) {
+        await model.collection.dropIndex(index.name);
+        console.log(`✅ Dropped legacy index ${index.name} of ${model.collection.collectionName}`);
+      }
+    }
+  }
+};
+
+// Done ingest events stored before the rename expire like the new ones
+const renameIngestCompletedAt = async (): Promise<void> => {
+  const { modifiedCount } = await IngestEvent.collection.updateMany(
+    { processedAt: { $exists: true } },
+    [{ $set: { completedAt: '$processedAt' } }, { $unset: 'processedAt' }]
+  );
+  if (modifiedCount > 0) {
+    console.log(`✅ Moved processedAt to completedAt on ${modifiedCount} ingest events`);
+  }
+};
+
+const run = async (): Promise<void> => {
+  await connectDB();
+  try {
+    await renameIngestCompletedAt();
+    await dropLegacyIndexes();
+
+    // Create the replacement indexes the models declare
+    for (const model of new Set(LEGACY_INDEXES.map(({ model }) => model))) {
+      await model.createIndexes();
+    }
+    console.log('✅ Migration completed');
+  } catch (error: any) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+  }
+};
+
+run();
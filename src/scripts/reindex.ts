@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import connectDB from '../config/database';
+import { getConfiguredChains } from '../config/blockchain';
+import { reindex, ReindexOptions } from '../sync/reindex';
+
+/**
+ * Regenerate derived data (holders, price history, token price fields) from stored transactions and on-chain logs.
+ *
+ * Usage:
+ *   npm run reindex -- --chain 8453 --token 0x...            (one token, from its first transaction)
+ *   npm run reindex -- --chain 8453 --from 1000 --to 2000    (every token touched in a block range)
+ */
+const USAGE = 'Usage: npm run reindex -- --chain <chainId> [--token <address>] [--from <block>] [--to <block>]';
+
+const parseArgs = (argv: string[]): ReindexOptions => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Invalid argument: ${argv[i]}`);
+    }
+    args.set(argv[i].slice(2), argv[i + 1]);
+  }
+
+  const chainId = Number(args.get('chain'));
+  if (!chainId || !getConfiguredChains().includes(chainId)) {
+    throw new Error(`Unknown or unconfigured chain: ${args.get('chain')}`);
+  }
+
+  const tokenAddress = args.get('token');
+  if (tokenAddress && !/^0x[a-fA-F0-9]{40}$/.test(tokenAddress)) {
+    throw new Error(`Invalid token address: ${tokenAddress}`);
+  }
+
+  const parseBlock = (name: string): number | undefined => {
+    const value = args.get(name);
+    if (value === undefined) {
+      return undefined;
+    }
+    const block = Number(value);
+    if (!Number.isInteger(block) || block < 0) {
+      throw new Error(`Invalid --${name} block: ${value}`);
+    }
+    return block;
+  };
+
+  return {
+    chainId,
+    tokenAddress,
+    fromBlock: parseBlock('from'),
+    toBlock: parseBlock('to'),
+  };
+};
+
+const run = async (): Promise<void> => {
+  let options: ReindexOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  await connectDB();
+  try {
+    const result = await reindex(options);
+    console.log('✅ Reindex completed:', result);
+  } catch (error: any) {
+    console.error('❌ Reindex failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+  }
+};
+
+run();
@@ -26,12 +26,28 @@ import analyticsRoutes from './routes/analytics';
 import chatRoutes from './routes/chat';
 import tokenCreationRoutes from './routes/tokenCreation';
 import liquidityEventRoutes from './routes/liquidityEvents';
+import protocolRoutes from './routes/protocol';
+import adminRoutes from './routes/admin';
 import walletRoutes from './routes/wallet';
 import activitiesRoutes from './routes/activities';
+import statusRoutes from './routes/status';
+import chainRoutes from './routes/chains';
+import orderRoutes from './routes/orders';
 
 // Import sync job
-import { trackTrading } from './sync/track';
+import { startChainTracking, stopChainTracking } from './sync/track';
 import { startActivityMonitoring, stopActivityMonitoring } from './services/activityMonitor';
+import { startHolderReconciliation, stopHolderReconciliation } from './services/holderReconciliation';
+import { startIngestWorkers, stopIngestWorkers } from './sync/ingestQueue';
+import { startLeaderElection, stopLeaderElection } from './services/leaderElection';
+import { startRpcHealthChecks, stopRpcHealthChecks } from './config/rpcPool';
+import { startSyncLagMonitor, stopSyncLagMonitor } from './services/syncStatus';
+import { startTokenStatsSweep, stopTokenStatsSweep } from './services/tokenStats';
+import { startAnalyticsRollups, stopAnalyticsRollups } from './services/analyticsService';
+import { startEthPriceSampler, stopEthPriceSampler } from './services/ethPriceService';
+import { startTrendingScores, stopTrendingScores } from './services/trendingService';
+import { startOrderSweeps, stopOrderSweeps } from './services/orderService';
+import { getConfiguredChains } from './config/blockchain';
 
 dotenv.config();
 
@@ -273,6 +289,11 @@ app.use('/api/analytics', analyticsRoutes);
 app.use('/api/chat', chatRoutes);
 app.use('/api/wallet', walletRoutes);
 app.use('/api/activities', activitiesRoutes);
+app.use('/api/protocol', protocolRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/status', statusRoutes);
+app.use('/api/chains', chainRoutes);
+app.use('/api/orders', orderRoutes);
 
 // Serve frontend for all non-API routes (SPA routing)
 app.get('*', (req: Request, res: Response): Response | void => {
@@ -372,14 +393,49 @@ const startServer = async (): Promise<void> => {
       console.log(`   Environment: ${process.env.NODE_ENV || 'development'}`);
     });
     
-    // Start multi-chain tracking (will track all configured chains)
-    // trackTrading() will automatically detect and track all chains with WebSocket URLs configured
-    trackTrading();
-    
-    // Start activity monitoring for embedded wallets (deposit/withdraw tracking)
-    startActivityMonitoring().catch((error) => {
-      console.error('Error starting activity monitoring:', error);
+    // Probe every RPC endpoint so the pools route around slow, lagging or failing ones
+    startRpcHealthChecks(getConfiguredChains());
+
+    // Retry queued events that failed to process
+    startIngestWorkers();
+
+    // Chain tracking and activity monitoring (deposit/withdraw tracking) run on one instance per chain:
+    // whichever holds the chain's leader lease. Other instances take over when it stops renewing.
+    startLeaderElection({
+      onAcquire: (chainId) => {
+        startChainTracking(chainId);
+        startActivityMonitoring([chainId]).catch((error) => {
+          console.error(`Error starting activity monitoring for chain ${chainId}:`, error);
+        });
+      },
+      onRelease: (chainId) => {
+        stopChainTracking(chainId);
+        stopActivityMonitoring(chainId);
+      },
+    }).catch((error) => {
+      console.error('Error starting leader election:', error);
     });
+
+    // Periodically check sampled holder balances against balanceOf
+    startHolderReconciliation();
+
+    // Notify clients (syncLag socket event) when a chain's ingestion falls behind
+    startSyncLagMonitor();
+
+    // Keep rolling 1h/24h/7d volume and price change current as trades age out of the windows
+    startTokenStatsSweep();
+
+    // Maintain the daily rollups behind /api/analytics
+    startAnalyticsRollups();
+
+    // Record the ETH/USD price series used for point-in-time USD values
+    startEthPriceSampler();
+
+    // Recompute trending scores from recent trades, holders and chat
+    startTrendingScores();
+
+    // Expire limit/stop orders and settle interrupted executions (orders fire on indexed trades)
+    startOrderSweeps();
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
@@ -396,6 +452,69 @@ const shutdown = (): void => {
   } catch (err) {
     console.error('Error stopping activity monitoring:', err);
   }
+
+  // Stop holder reconciliation
+  try {
+    stopHolderReconciliation();
+  } catch (err) {
+    console.error('Error stopping holder reconciliation:', err);
+  }
+
+  // Stop order sweeps
+  try {
+    stopOrderSweeps();
+  } catch (err) {
+    console.error('Error stopping order sweeps:', err);
+  }
+
+  // Stop trending scores
+  try {
+    stopTrendingScores();
+  } catch (err) {
+    console.error('Error stopping trending scores:', err);
+  }
+
+  // Stop ETH price sampler
+  try {
+    stopEthPriceSampler();
+  } catch (err) {
+    console.error('Error stopping ETH price sampler:', err);
+  }
+
+  // Stop analytics rollups
+  try {
+    stopAnalyticsRollups();
+  } catch (err) {
+    console.error('Error stopping analytics rollups:', err);
+  }
+
+  // Stop token stats sweep
+  try {
+    stopTokenStatsSweep();
+  } catch (err) {
+    console.error('Error stopping token stats sweep:', err);
+  }
+
+  // Stop sync lag monitor
+  try {
+    stopSyncLagMonitor();
+  } catch (err) {
+    console.error('Error stopping sync lag monitor:', err);
+  }
+
+  // Stop ingest queue workers
+  try {
+    stopIngestWorkers();
+  } catch (err) {
+    console.error('Error stopping ingest workers:', err);
+  }
+
+  // Stop RPC endpoint health checks
+  try {
+    stopRpcHealthChecks();
+  } catch (err) {
+    console.error('Error stopping RPC health checks:', err);
+  }
   
   // Clean up auth store intervals
   try {
@@ -405,16 +524,21 @@ const shutdown = (): void => {
     // Ignore if module not loaded
   }
   
-  if (mongoose.connection.readyState === 1) {
-    mongoose.connection.close(false).then(() => {
+  // Release leader leases first so another instance takes over without waiting for them to expire
+  stopLeaderElection().catch((err) => {
+    console.error('Error releasing leader leases:', err);
+  }).finally(() => {
+    if (mongoose.connection.readyState === 1) {
+      mongoose.connection.close(false).then(() => {
+        process.exit(0);
+      }).catch((err) => {
+        console.error('Error closing MongoDB connection:', err);
+        process.exit(1);
+      });
+    } else {
       process.exit(0);
-    }).catch((err) => {
-      console.error('Error closing MongoDB connection:', err);
-      process.exit(1);
-    });
-  } else {
-    process.exit(0);
-  }
+    }
+  });
 };
 
 process.on('SIGTERM', shutdown);
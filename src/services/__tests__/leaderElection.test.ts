@@ -0,0 +1,113 @@
+import { it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import LeaderLease from '../../models/LeaderLease';
+import {
+  startLeaderElection,
+  stopLeaderElection,
+  isChainLeader,
+  getLeaderStatus,
+  LeaderCallbacks
+} from '../leaderElection';
+import { describeWithDB, connectTestDB, clearTestDB, closeTestDB } from '../../__tests__/setup/database';
+
+// The only chain configured by the test environment
+const CHAIN_ID = 84532;
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let waited = 0; !condition(); waited += 20) {
+    if (waited > 5000) {
+      throw new Error('Condition not reached');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+describeWithDB('leader election', () => {
+  let callbacks: { onAcquire: jest.Mock<LeaderCallbacks['onAcquire']>; onRelease: jest.Mock<LeaderCallbacks['onRelease']> };
+
+  beforeAll(async () => {
+    await connectTestDB('leader-election');
+  });
+
+  afterAll(async () => {
+    await closeTestDB();
+  });
+
+  beforeEach(async () => {
+    await clearTestDB();
+    callbacks = { onAcquire: jest.fn(), onRelease: jest.fn() };
+  });
+
+  afterEach(async () => {
+    await stopLeaderElection();
+    jest.restoreAllMocks();
+  });
+
+  it('acquires a free lease and starts the chain work', async () => {
+    await startLeaderElection(callbacks);
+
+    expect(callbacks.onAcquire).toHaveBeenCalledWith(CHAIN_ID);
+    expect(isChainLeader(CHAIN_ID)).toBe(true);
+
+    const status = await getLeaderStatus();
+    const lease = await LeaderLease.findOne({ chainId: CHAIN_ID }).lean();
+    expect(lease?.holderId).toBe(status.instanceId);
+    expect(lease!.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(status.chains.find((chain) => chain.chainId === CHAIN_ID)?.isSelf).toBe(true);
+  });
+
+  it('leaves a live lease of another instance alone', async () => {
+    await LeaderLease.create({ chainId: CHAIN_ID, holderId: 'other:1', expiresAt: new Date(Date.now() + 60000) });
+
+    await startLeaderElection(callbacks);
+
+    expect(callbacks.onAcquire).not.toHaveBeenCalled();
+    expect(isChainLeader(CHAIN_ID)).toBe(false);
+    expect((await LeaderLease.findOne({ chainId: CHAIN_ID }).lean())?.holderId).toBe('other:1');
+  });
+
+  it('takes over the expired lease of another instance', async () => {
+    await LeaderLease.create({ chainId: CHAIN_ID, holderId: 'other:1', expiresAt: new Date(Date.now() - 1000) });
+
+    await startLeaderElection(callbacks);
+
+    expect(callbacks.onAcquire).toHaveBeenCalledWith(CHAIN_ID);
+    expect((await LeaderLease.findOne({ chainId: CHAIN_ID }).lean())?.holderId).toBe((await getLeaderStatus()).instanceId);
+  });
+
+  it('renews its own lease without re-acquiring it', async () => {
+    await startLeaderElection(callbacks);
+    const acquired = await LeaderLease.findOne({ chainId: CHAIN_ID }).lean();
+
+    // Stopping expires the lease but keeps this instance as its holder
+    await stopLeaderElection();
+    expect(callbacks.onRelease).toHaveBeenCalledWith(CHAIN_ID);
+    expect(isChainLeader(CHAIN_ID)).toBe(false);
+
+    await startLeaderElection(callbacks);
+    const renewed = await LeaderLease.findOne({ chainId: CHAIN_ID }).lean();
+    expect(renewed?.acquiredAt.getTime()).toBe(acquired?.acquiredAt.getTime());
+    expect(renewed!.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(isChainLeader(CHAIN_ID)).toBe(true);
+  });
+
+  it('steps down when another instance took the lease over', async () => {
+    let renewLease: () => void = () => undefined;
+    jest.spyOn(global, 'setInterval').mockImplementation(((callback: () => void) => {
+      renewLease = callback;
+      return {} as NodeJS.Timeout;
+    }) as any);
+
+    await startLeaderElection(callbacks);
+    expect(isChainLeader(CHAIN_ID)).toBe(true);
+
+    await LeaderLease.updateOne(
+      { chainId: CHAIN_ID },
+      { $set: { holderId: 'other:1', expiresAt: new Date(Date.now() + 60000) } }
+    );
+    renewLease();
+    await waitFor(() => callbacks.onRelease.mock.calls.length > 0);
+
+    expect(callbacks.onRelease).toHaveBeenCalledWith(CHAIN_ID);
+    expect(isChainLeader(CHAIN_ID)).toBe(false);
+  });
+});
@@ -0,0 +1,298 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { Types } from 'mongoose';
+import Order from '../../models/Order';
+import User from '../../models/User';
+import Transaction from '../../models/Transaction';
+import SyncState from '../../models/SyncState';
+import { IOrder, IUser, OrderType } from '../../types';
+import { getContract, getProvider } from '../../config/blockchain';
+import { resolveSlippageBound } from '../slippageService';
+import { executeEmbeddedTrade, getEmbeddedWallet } from '../embeddedTradeService';
+import { isOrderTriggered, matchOrders, startOrderSweeps, stopOrderSweeps } from '../orderService';
+import { describeWithDB, connectTestDB, clearTestDB, closeTestDB } from '../../__tests__/setup/database';
+
+jest.mock('../../config/blockchain', () => ({
+  ...jest.requireActual<typeof import('../../config/blockchain')>('../../config/blockchain'),
+  getContract: jest.fn(),
+  getProvider: jest.fn(),
+}));
+
+jest.mock('../leaderElection', () => ({
+  isChainLeader: jest.fn(() => true),
+}));
+
+jest.mock('../slippageService', () => ({
+  ...jest.requireActual<typeof import('../slippageService')>('../slippageService'),
+  resolveSlippageBound: jest.fn(),
+}));
+
+jest.mock('../embeddedTradeService', () => ({
+  ...jest.requireActual<typeof import('../embeddedTradeService')>('../embeddedTradeService'),
+  executeEmbeddedTrade: jest.fn(),
+}));
+
+jest.mock('../../socket/updateEmitter', () => ({
+  emitOrderUpdate: jest.fn(),
+}));
+
+const CHAIN_ID = 84532;
+const TOKEN = '0x2000000000000000000000000000000000000002';
+const TX_HASH = '0x' + 'ab'.repeat(32);
+
+describe('isOrderTriggered', () => {
+  it.each<[OrderType, bigint, boolean]>([
+    ['limit_buy', 99n, true],
+    ['limit_buy', 100n, true],
+    ['limit_buy', 101n, false],
+    ['stop_loss', 100n, true],
+    ['stop_loss', 101n, false],
+    ['limit_sell', 100n, true],
+    ['limit_sell', 99n, false],
+    ['take_profit', 101n, true],
+    ['take_profit', 99n, false],
+  ])('%s at price %s against a trigger of 100 is %s', (type, price, triggered) => {
+    expect(isOrderTriggered(type, price, 100n)).toBe(triggered);
+  });
+});
+
+const waitFor = async (condition: () => Promise<boolean>): Promise<void> => {
+  for (let waited = 0; !(await condition()); waited += 20) {
+    if (waited > 5000) {
+      throw new Error('Condition not reached');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+describeWithDB('order execution', () => {
+  let user: IUser;
+  // Curve price of 0.000000001 ETH per token
+  const curveState = { virtualEthReserves: 10n ** 18n, virtualTokenReserves: 10n ** 27n, isActive: true, liquidityAdded: false };
+
+  const createOrder = (type: OrderType, triggerPrice: string, fields: Partial<IOrder> = {}) =>
+    Order.create({
+      userId: user._id,
+      walletAddress: getEmbeddedWallet(user).address.toLowerCase(),
+      tokenId: new Types.ObjectId(),
+      tokenAddress: TOKEN,
+      chainId: CHAIN_ID,
+      type: type,
+      side: type === 'limit_buy' ? 'buy' : 'sell',
+      triggerPrice: triggerPrice,
+      amount: '1000000000000000000',
+      maxSlippageBps: 200,
+      ...fields,
+    });
+
+  const statusOf = async (order: IOrder) => (await Order.findById(order._id).lean())!;
+
+  beforeAll(async () => {
+    await connectTestDB('order-service');
+  });
+
+  afterAll(async () => {
+    await closeTestDB();
+  });
+
+  beforeEach(async () => {
+    await clearTestDB();
+    user = await User.create({ username: 'trader', email: 'trader@example.com', password: 'password123' });
+    jest.mocked(getContract).mockReset().mockReturnValue({ tokens: async () => curveState } as any);
+    jest.mocked(resolveSlippageBound).mockReset().mockResolvedValue({
+      minAmountOut: 1n,
+      reference: 'quote',
+      referenceAmountOut: '2',
+      maxSlippageBps: 200,
+    });
+    jest.mocked(executeEmbeddedTrade).mockReset();
+  });
+
+  describe('matchOrders', () => {
+    it('executes the open orders whose trigger the trade price crossed', async () => {
+      jest.mocked(executeEmbeddedTrade).mockImplementation(async (params) => {
+        await params.onSigned?.(TX_HASH, 7);
+        return {
+          status: 'filled',
+          txHash: TX_HASH,
+          blockNumber: 1004,
+          gasUsed: '21000',
+          outcome: {
+            minAmountOut: '1',
+            slippage: { reference: 'quote', referenceAmountOut: '2', maxSlippageBps: 200 },
+            simulated: { amountOut: '2', blockNumber: 1003 },
+            realized: { amountOut: '2', slippageBps: 0 },
+          },
+        };
+      });
+      const limitBuy = await createOrder('limit_buy', '0.000000002');
+      const takeProfit = await createOrder('take_profit', '0.000000002');
+
+      await matchOrders(TOKEN, CHAIN_ID, '0.000000001');
+      await waitFor(async () => (await statusOf(limitBuy)).status === 'filled');
+
+      expect(await statusOf(limitBuy)).toMatchObject({ attempts: 1, txHash: TX_HASH, filledAmountOut: '2' });
+      expect((await statusOf(takeProfit)).status).toBe('open');
+      expect(executeEmbeddedTrade).toHaveBeenCalledTimes(1);
+      expect(jest.mocked(executeEmbeddedTrade).mock.calls[0][0]).toMatchObject({ side: 'buy', tokenAddress: TOKEN, amountIn: 10n ** 18n });
+    });
+
+    it('skips an order when the live curve price no longer crosses its trigger', async () => {
+      // The curve price went back up to 0.000000004 since the indexed trade
+      jest.mocked(getContract).mockReturnValue({ tokens: async () => ({ ...curveState, virtualEthReserves: 4n * 10n ** 18n }) } as any);
+      const limitBuy = await createOrder('limit_buy', '0.000000002');
+
+      await matchOrders(TOKEN, CHAIN_ID, '0.000000001');
+      await waitFor(async () => jest.mocked(getContract).mock.calls.length > 0);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(executeEmbeddedTrade).not.toHaveBeenCalled();
+      expect(await statusOf(limitBuy)).toMatchObject({ status: 'open', attempts: 0 });
+    });
+
+    it('reopens an order whose trade was refused', async () => {
+      jest.mocked(executeEmbeddedTrade).mockResolvedValue({ status: 'refused', error: 'Trade simulation failed', details: {} });
+      const limitBuy = await createOrder('limit_buy', '0.000000002');
+
+      await matchOrders(TOKEN, CHAIN_ID, '0.000000001');
+      await waitFor(async () => (await statusOf(limitBuy)).attempts === 1 && (await statusOf(limitBuy)).status === 'open');
+
+      expect((await statusOf(limitBuy)).lastError).toBe('Trade simulation failed');
+    });
+  });
+
+  describe('stuck executions', () => {
+    const provider = {
+      getTransactionReceipt: jest.fn<(hash: string) => Promise<any>>(),
+      getTransaction: jest.fn<(hash: string) => Promise<any>>(),
+      getTransactionCount: jest.fn<(address: string, blockTag: string) => Promise<number>>(),
+    };
+    let runSweep: () => void = () => undefined;
+    let intervalSpy: jest.Spied<typeof setInterval>;
+
+    const createStuckOrder = (fields: Partial<IOrder> = {}) =>
+      createOrder('limit_buy', '0.000000002', {
+        status: 'executing',
+        attempts: 1,
+        lockedAt: new Date(Date.now() - 60 * 60 * 1000),
+        ...fields,
+      });
+
+    beforeEach(() => {
+      provider.getTransactionReceipt.mockReset().mockResolvedValue(null);
+      provider.getTransaction.mockReset().mockResolvedValue(null);
+      provider.getTransactionCount.mockReset().mockResolvedValue(7);
+      jest.mocked(getProvider).mockReturnValue(provider as any);
+      intervalSpy = jest.spyOn(global, 'setInterval').mockImplementation(((callback: () => void) => {
+        runSweep = callback;
+        return {} as NodeJS.Timeout;
+      }) as any);
+      startOrderSweeps();
+    });
+
+    afterEach(() => {
+      stopOrderSweeps();
+      intervalSpy.mockRestore();
+    });
+
+    describe('without a recorded transaction', () => {
+      beforeEach(async () => {
+        // The index has caught up since the lock
+        await SyncState.create({ chainId: CHAIN_ID, lastProcessedBlock: 1010, lastProcessedAt: new Date() });
+      });
+
+      it('reopens an execution interrupted before its transaction was sent', async () => {
+        const order = await createStuckOrder();
+
+        runSweep();
+        await waitFor(async () => (await statusOf(order)).status !== 'executing');
+
+        expect(await statusOf(order)).toMatchObject({ status: 'open', lastError: 'Execution was interrupted' });
+      });
+
+      it('fills an execution whose trade the wallet sent anyway', async () => {
+        const order = await createStuckOrder();
+        await Transaction.create({
+          txHash: TX_HASH,
+          tokenId: order.tokenId,
+          tokenAddress: TOKEN,
+          type: 'Bought',
+          senderAddress: order.walletAddress,
+          recipientAddress: order.walletAddress,
+          ethAmount: order.amount,
+          tokenAmount: '5',
+          tokenPrice: '0.000000001',
+          blockNumber: 1004,
+          chainId: CHAIN_ID,
+        });
+
+        runSweep();
+        await waitFor(async () => (await statusOf(order)).status !== 'executing');
+
+        expect(await statusOf(order)).toMatchObject({ status: 'filled', txHash: TX_HASH, filledAmountOut: '5' });
+      });
+
+      it('waits while the wallet has a transaction pending', async () => {
+        provider.getTransactionCount.mockImplementation(async (_address, blockTag) => (blockTag === 'pending' ? 8 : 7));
+        const order = await createStuckOrder();
+
+        runSweep();
+        await waitFor(async () => provider.getTransactionCount.mock.calls.length >= 2);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect((await statusOf(order)).status).toBe('executing');
+      });
+    });
+
+    it('fills an execution whose transaction was mined', async () => {
+      provider.getTransactionReceipt.mockResolvedValue({ status: 1, logs: [] });
+      const order = await createStuckOrder({ txHash: TX_HASH, txNonce: 7 });
+
+      runSweep();
+      await waitFor(async () => (await statusOf(order)).status !== 'executing');
+
+      expect(await statusOf(order)).toMatchObject({ status: 'filled', txHash: TX_HASH });
+      expect(provider.getTransactionReceipt).toHaveBeenCalledWith(TX_HASH);
+    });
+
+    it('reopens an execution whose transaction reverted', async () => {
+      provider.getTransactionReceipt.mockResolvedValue({ status: 0, logs: [] });
+      const order = await createStuckOrder({ txHash: TX_HASH, txNonce: 7 });
+
+      runSweep();
+      await waitFor(async () => (await statusOf(order)).status !== 'executing');
+
+      expect(await statusOf(order)).toMatchObject({ status: 'open', lastError: 'Transaction reverted', txHash: null });
+    });
+
+    it('reopens an execution whose nonce another transaction of the wallet took', async () => {
+      provider.getTransactionCount.mockResolvedValue(8);
+      const order = await createStuckOrder({ txHash: TX_HASH, txNonce: 7 });
+
+      runSweep();
+      await waitFor(async () => (await statusOf(order)).status !== 'executing');
+
+      expect(await statusOf(order)).toMatchObject({ status: 'open', lastError: 'Transaction was replaced', txHash: null, txNonce: null });
+      expect(provider.getTransactionCount).toHaveBeenCalledWith(getEmbeddedWallet(user).address.toLowerCase(), 'latest');
+    });
+
+    it('closes an execution whose transaction the node no longer knows', async () => {
+      const order = await createStuckOrder({ txHash: TX_HASH, txNonce: 7 });
+
+      runSweep();
+      await waitFor(async () => (await statusOf(order)).status !== 'executing');
+
+      expect(await statusOf(order)).toMatchObject({ status: 'failed', lastError: 'Transaction was dropped' });
+    });
+
+    it('leaves an execution whose transaction is still pending', async () => {
+      provider.getTransaction.mockResolvedValue({ hash: TX_HASH });
+      const order = await createStuckOrder({ txHash: TX_HASH, txNonce: 7 });
+
+      runSweep();
+      await waitFor(async () => provider.getTransaction.mock.calls.length > 0);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect((await statusOf(order)).status).toBe('executing');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import Token from '../../models/Token';
+import SyncState from '../../models/SyncState';
+import IngestEvent from '../../models/IngestEvent';
+import { getContract } from '../../config/blockchain';
+import { calculateBuyQuote, calculateSellQuote, quoteBuy, CurveState } from '../quoteService';
+import { describeWithDB, connectTestDB, clearTestDB, closeTestDB } from '../../__tests__/setup/database';
+
+jest.mock('../../config/blockchain', () => ({
+  ...jest.requireActual<typeof import('../../config/blockchain')>('../../config/blockchain'),
+  getContract: jest.fn(),
+}));
+
+const ETH = 10n ** 18n;
+
+// 1 ETH against 1B tokens of virtual reserves, 1% creator + 0.5% dev + 0.5% marketing fees
+const curve: CurveState = {
+  virtualEthReserves: ETH,
+  virtualTokenReserves: 10n ** 27n,
+  realEthReserves: 0n,
+  realTokenReserves: 8n * 10n ** 26n,
+  creatorFeeBps: 100,
+  devFeeBps: 50,
+  marketingFeeBps: 50,
+  bpsDenominator: 10000n,
+};
+
+describe('calculateBuyQuote', () => {
+  it('takes the fees from the ETH sent and moves the constant-product reserves with the rest', () => {
+    const quote = calculateBuyQuote(curve, ETH);
+
+    expect(quote.fees).toEqual({
+      creator: '10000000000000000',
+      dev: '5000000000000000',
+      marketing: '5000000000000000',
+      total: '20000000000000000',
+      totalBps: 200,
+    });
+    // 1e27 - 1e18 * 1e27 / (1e18 + 0.98e18)
+    expect(quote.amountOut).toBe('494949494949494949494949495');
+    expect(quote.priceBefore).toBe('0.000000001');
+    expect(quote.priceAfter).toBe('0.0000000039204');
+    expect(quote.executionPrice).toBe('0.000000002020408163');
+    expect(quote.priceImpactPercent).toBe(292.04);
+    expect(quote.exceedsReserves).toBe(false);
+  });
+
+  it('rounds every fee down on its own', () => {
+    const quote = calculateBuyQuote({ ...curve, creatorFeeBps: 1, devFeeBps: 1, marketingFeeBps: 1 }, 19999n);
+
+    expect(quote.fees).toMatchObject({ creator: '1', dev: '1', marketing: '1', total: '3', totalBps: 3 });
+  });
+
+  it('charges nothing in the zero fee tier', () => {
+    const quote = calculateBuyQuote({ ...curve, creatorFeeBps: 0, devFeeBps: 0, marketingFeeBps: 0 }, ETH);
+
+    expect(quote.fees?.total).toBe('0');
+    // 1e27 - 1e18 * 1e27 / 2e18
+    expect(quote.amountOut).toBe('500000000000000000000000000');
+  });
+
+  it('flags buys the real token reserves cannot fill', () => {
+    const quote = calculateBuyQuote({ ...curve, realTokenReserves: 10n ** 26n }, ETH);
+
+    expect(quote.exceedsReserves).toBe(true);
+  });
+});
+
+describe('calculateSellQuote', () => {
+  it('takes the fees from the ETH that comes out of the curve', () => {
+    const quote = calculateSellQuote({ ...curve, realEthReserves: ETH }, 10n ** 26n);
+
+    // Gross 1e18 - 1e18 * 1e27 / 1.1e27, less 2% in fees
+    expect(quote.fees?.total).toBe('1818181818181817');
+    expect(quote.amountOut).toBe('89090909090909093');
+    expect(quote.priceImpactPercent).toBeGreaterThan(0);
+    expect(Number(quote.priceAfter)).toBeLessThan(Number(quote.priceBefore));
+    expect(quote.exceedsReserves).toBe(false);
+  });
+
+  it('flags sells the real ETH reserves cannot pay out', () => {
+    const quote = calculateSellQuote(curve, 10n ** 26n);
+
+    expect(quote.exceedsReserves).toBe(true);
+  });
+
+  it('returns less ETH than the buy cost when selling the bought tokens back', () => {
+    const buy = calculateBuyQuote(curve, ETH);
+    const afterBuy: CurveState = {
+      ...curve,
+      virtualEthReserves: curve.virtualEthReserves + ETH - BigInt(buy.fees!.total),
+      virtualTokenReserves: curve.virtualTokenReserves - BigInt(buy.amountOut),
+      realEthReserves: ETH,
+    };
+
+    const sell = calculateSellQuote(afterBuy, BigInt(buy.amountOut));
+
+    expect(BigInt(sell.amountOut)).toBeLessThan(ETH);
+    expect(sell.amountOut).toBe('960400000000000001');
+  });
+});
+
+const CHAIN_ID = 84532;
+const TOKEN = '0x2000000000000000000000000000000000000002';
+
+describeWithDB('quoteBuy', () => {
+  const contract = {
+    BPS_DENOMINATOR: jest.fn(async () => 10000n),
+    getFeeTier: jest.fn(async () => ({ creatorFeeBps: 100n, devFeeBps: 50n, marketingFeeBps: 50n })),
+    calculateTokenAmount: jest.fn(async () => 123n),
+    calculateEthAmount: jest.fn(async () => 456n),
+  };
+
+  beforeAll(async () => {
+    await connectTestDB('quote-service');
+  });
+
+  afterAll(async () => {
+    await closeTestDB();
+  });
+
+  beforeEach(async () => {
+    await clearTestDB();
+    Object.values(contract).forEach((method) => method.mockClear());
+    jest.mocked(getContract).mockReturnValue(contract as any);
+
+    await Token.create({
+      name: 'Quote',
+      symbol: 'QTE',
+      address: TOKEN,
+      chainId: CHAIN_ID,
+      creatorAddress: '0x3000000000000000000000000000000000000003',
+      virtualEthReserves: curve.virtualEthReserves.toString(),
+      virtualTokenReserves: curve.virtualTokenReserves.toString(),
+      realEthReserves: curve.realEthReserves.toString(),
+      realTokenReserves: curve.realTokenReserves.toString(),
+      reservesBlockNumber: 1003,
+    });
+    await SyncState.create({ chainId: CHAIN_ID, lastProcessedBlock: 1003, lastProcessedAt: new Date() });
+  });
+
+  it('quotes locally and reads the fee tier again only once the reserves moved past it', async () => {
+    const first = await quoteBuy(TOKEN, ETH, CHAIN_ID);
+    expect(first.source).toBe('local');
+    expect(first.amountOut).toBe('494949494949494949494949495');
+    expect(first.blockNumber).toBe(1003);
+
+    await quoteBuy(TOKEN, ETH, CHAIN_ID);
+    expect(contract.getFeeTier).toHaveBeenCalledTimes(1);
+    expect((await Token.findOne({ address: TOKEN }).lean())?.feeTierBlockNumber).toBe(1003);
+
+    // A trade at 1005 moved the market cap: the higher tier is read
+    contract.getFeeTier.mockResolvedValueOnce({ creatorFeeBps: 50n, devFeeBps: 25n, marketingFeeBps: 25n });
+    await Token.updateOne({ address: TOKEN }, { $set: { reservesBlockNumber: 1005 } });
+
+    const repriced = await quoteBuy(TOKEN, ETH, CHAIN_ID);
+    expect(contract.getFeeTier).toHaveBeenCalledTimes(2);
+    expect(repriced.fees?.totalBps).toBe(100);
+  });
+
+  it('asks the contract while the chain sync is behind', async () => {
+    await SyncState.updateOne({ chainId: CHAIN_ID }, { $set: { lastProcessedAt: new Date(Date.now() - 10 * 60 * 1000) } });
+
+    const quote = await quoteBuy(TOKEN, ETH, CHAIN_ID);
+
+    expect(quote).toMatchObject({ source: 'contract', amountOut: '123', staleReason: 'chain sync is behind', fees: null });
+    expect(contract.calculateTokenAmount).toHaveBeenCalledWith(TOKEN, ETH);
+  });
+
+  it('asks the contract while a trade of the token waits in the ingest queue', async () => {
+    await IngestEvent.create({
+      chainId: CHAIN_ID,
+      txHash: '0x' + '1'.repeat(64),
+      logIndex: 0,
+      eventName: 'TokenBought',
+      blockNumber: 1004,
+      payload: { eventData: { tokenAddress: TOKEN } },
+    });
+
+    const quote = await quoteBuy(TOKEN, ETH, CHAIN_ID);
+
+    expect(quote.source).toBe('contract');
+    expect(quote.staleReason).toBe('trades pending ingestion');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { factoryInterface } from '../../config/blockchain';
+import { quoteBuy, issueQuoteId, TradeQuote } from '../quoteService';
+import { resolveSlippageBound, readRealizedAmountOut, slippageBpsOf } from '../slippageService';
+
+jest.mock('../quoteService', () => ({
+  ...jest.requireActual<typeof import('../quoteService')>('../quoteService'),
+  quoteBuy: jest.fn(),
+  quoteSell: jest.fn(),
+}));
+
+const CHAIN_ID = 84532;
+const FACTORY = '0x1000000000000000000000000000000000000001';
+const TOKEN = '0x2000000000000000000000000000000000000002';
+const TRADER = '0x3000000000000000000000000000000000000003';
+const ETH = 10n ** 18n;
+
+const buyQuote = (amountOut: string): TradeQuote => ({
+  side: 'buy',
+  source: 'local',
+  amountIn: ETH.toString(),
+  amountOut,
+  fees: null,
+  priceBefore: null,
+  priceAfter: null,
+  executionPrice: null,
+  priceImpactPercent: null,
+  exceedsReserves: false,
+  blockNumber: 1003,
+});
+
+describe('resolveSlippageBound', () => {
+  const request = { side: 'buy' as const, tokenAddress: TOKEN, chainId: CHAIN_ID, amountIn: ETH };
+
+  beforeEach(() => {
+    jest.mocked(quoteBuy).mockReset().mockResolvedValue(buyQuote('1000000'));
+  });
+
+  it('uses minAmountOut as given', async () => {
+    expect(await resolveSlippageBound({ ...request, minAmountOut: '750', maxSlippageBps: 10 })).toEqual({
+      minAmountOut: 750n,
+      reference: 'minAmountOut',
+      referenceAmountOut: null,
+      maxSlippageBps: null,
+    });
+    expect(quoteBuy).not.toHaveBeenCalled();
+  });
+
+  it('rejects an invalid minAmountOut or slippage limit', async () => {
+    expect(await resolveSlippageBound({ ...request, minAmountOut: 'lots' })).toBe('Invalid minAmountOut format');
+    expect(await resolveSlippageBound({ ...request, minAmountOut: '-1' })).toBe('minAmountOut must not be negative');
+    expect(await resolveSlippageBound({ ...request, maxSlippageBps: 5001 })).toMatch(/^maxSlippageBps must be/);
+    expect(await resolveSlippageBound({ ...request, maxSlippageBps: '1.5' })).toMatch(/^maxSlippageBps must be/);
+  });
+
+  it('applies the slippage limit to the output of a quote ID', async () => {
+    const quoteId = issueQuoteId(buyQuote('2000000'), TOKEN, CHAIN_ID);
+
+    expect(await resolveSlippageBound({ ...request, quoteId, maxSlippageBps: '250' })).toEqual({
+      minAmountOut: 1950000n,
+      reference: 'quoteId',
+      referenceAmountOut: '2000000',
+      maxSlippageBps: 250,
+    });
+    expect(quoteBuy).not.toHaveBeenCalled();
+  });
+
+  it('refuses a quote ID issued for another trade', async () => {
+    const quoteId = issueQuoteId(buyQuote('2000000'), TOKEN, CHAIN_ID);
+
+    expect(await resolveSlippageBound({ ...request, quoteId, amountIn: 2n * ETH })).toBe('Quote does not match the trade');
+    expect(await resolveSlippageBound({ ...request, quoteId, side: 'sell' })).toBe('Quote does not match the trade');
+    expect(await resolveSlippageBound({ ...request, quoteId: 'not-a-quote' })).toBe('Quote is invalid or expired');
+  });
+
+  it('quotes the trade and applies the default 1% when nothing is given', async () => {
+    expect(await resolveSlippageBound(request)).toEqual({
+      minAmountOut: 990000n,
+      reference: 'quote',
+      referenceAmountOut: '1000000',
+      maxSlippageBps: 100,
+    });
+    expect(quoteBuy).toHaveBeenCalledWith(TOKEN, ETH, CHAIN_ID);
+  });
+});
+
+describe('readRealizedAmountOut', () => {
+  const tradeLog = (eventName: 'TokenBought' | 'TokenSold', address: string, tokenAddress: string, amounts: bigint[]) => {
+    const { topics, data } = factoryInterface.encodeEventLog(eventName, [tokenAddress, TRADER, ...amounts, 0n, 0n, 0n, 0n]);
+    return { address, topics, data };
+  };
+  const receiptOf = (...logs: Array<{ address: string; topics: string[]; data: string }>) =>
+    ({ logs }) as unknown as ethers.TransactionReceipt;
+
+  it('reads the tokens bought from the TokenBought log', () => {
+    const receipt = receiptOf(tradeLog('TokenBought', FACTORY, TOKEN, [ETH, 35n * 10n ** 24n]));
+
+    expect(readRealizedAmountOut(receipt, 'buy', TOKEN, FACTORY)).toBe(35n * 10n ** 24n);
+  });
+
+  it('reads the ETH received from the TokenSold log', () => {
+    const receipt = receiptOf(tradeLog('TokenSold', FACTORY, TOKEN, [35n * 10n ** 24n, ETH / 2n]));
+
+    expect(readRealizedAmountOut(receipt, 'sell', TOKEN, FACTORY)).toBe(ETH / 2n);
+  });
+
+  it('ignores logs of other contracts, tokens and events', () => {
+    const otherToken = '0x4000000000000000000000000000000000000004';
+    const receipt = receiptOf(
+      tradeLog('TokenBought', otherToken, TOKEN, [ETH, 1n]),
+      tradeLog('TokenBought', FACTORY, otherToken, [ETH, 2n]),
+      tradeLog('TokenSold', FACTORY, TOKEN, [3n, ETH]),
+      { address: FACTORY, topics: [ethers.id('Unknown()')], data: '0x' }
+    );
+
+    expect(readRealizedAmountOut(receipt, 'buy', TOKEN, FACTORY)).toBeNull();
+  });
+});
+
+describe('slippageBpsOf', () => {
+  it('measures the shortfall against the simulated output in bps', () => {
+    expect(slippageBpsOf(10000n, 9950n)).toBe(50);
+    expect(slippageBpsOf(10000n, 10100n)).toBe(-100);
+    expect(slippageBpsOf(0n, 5n)).toBe(0);
+  });
+});
@@ -1,9 +1,11 @@
 import { ethers } from 'ethers';
 import User from '../models/User';
 import { saveActivity, saveActivitiesBatch } from './activityService';
-import { getProvider, getConfiguredChains, getWsProvider, getWsUrl, wsConnectionAttempts, wsProviderCache } from '../config/blockchain';
+import { getProvider, getConfiguredChains, getWsProvider, getWsUrl, wsConnectionAttempts, wsProviderCache, EventProvider } from '../config/blockchain';
 import { logger } from '../utils/logger';
 import { ACTIVITY_MONITOR_CONFIG } from '../config/activityMonitor';
+import { getChainConfig } from '../config/chains';
+import { hasHealthyRpcEndpoint } from '../config/rpcPool';
 
 // Store monitored wallets per chain
 const monitoredWallets = new Map<number, Set<string>>();
@@ -12,7 +14,7 @@ const walletToUserId = new Map<string, string>();
 const monitoringIntervals = new Map<number, NodeJS.Timeout>();
 
 // Store WebSocket providers for real-time monitoring
-const wsProviders = new Map<number, ethers.WebSocketProvider>();
+const wsProviders = new Map<number, EventProvider>();
 const wsSubscriptions = new Map<number, { pending: any; block: any }>();
 const wsHealthChecks = new Map<number, NodeJS.Timeout>(); // Track health check intervals
 const wsTimeBasedIntervals = new Map<number, NodeJS.Timeout>(); // Track time-based check intervals (10-second intervals as fallback)
@@ -35,15 +37,19 @@ const blocksBeingProcessed = new Map<number, Set<number>>(); // chainId -> Set<b
 const rateLimitCount = new Map<number, number>(); // Consecutive rate limit errors per chain
 const rateLimitFrequency = new Map<number, number[]>(); // Timestamps of rate limit errors (for frequency calculation)
 
-// Circuit breaker: track when to stop checking due to excessive rate limits
-const circuitBreaker = new Map<number, { enabled: boolean; until: number }>();
-
 // Concurrency control: prevent multiple checkForDeposits running simultaneously for same chain
 const activeChecks = new Map<number, Promise<void>>();
 
 // Track number of new blocks since last check per chain (for batching)
 const blocksSinceLastCheck = new Map<number, number>();
 
+// Chains this instance monitors (the ones it holds the leader lease for)
+const monitoredChains = new Set<number>();
+
+// Picks up embedded wallets created through other instances
+let walletRefreshInterval: NodeJS.Timeout | null = null;
+let lastWalletRefreshAt = new Date();
+
 // Helper function for rate limiting delays
 const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -67,62 +73,6 @@ function isWebSocketReady(chainId: number): boolean {
   return false;
 }
 
-// Global RPC request queue
-const globalRequestQueue: Array<{ resolve: () => void; timestamp: number }> = [];
-let activeRequests = 0;
-let lastGetBlockNumberTime = 0;
-
-/**
- * Wait for an available RPC request slot
- * This prevents exceeding Alchemy's concurrent request limit
- * Also enforces minimum delay between getBlockNumber calls to prevent per-second rate limits
- */
-async function waitForRequestSlot(): Promise<void> {
-  return new Promise((resolve) => {
-    const now = Date.now();
-    const timeSinceLastRequest = now - lastGetBlockNumberTime;
-    const delayNeeded = Math.max(0, ACTIVITY_MONITOR_CONFIG.MIN_DELAY_BETWEEN_GET_BLOCK_NUMBER - timeSinceLastRequest);
-    
-    if (activeRequests < ACTIVITY_MONITOR_CONFIG.MAX_CONCURRENT_REQUESTS && delayNeeded === 0) {
-      activeRequests++;
-      lastGetBlockNumberTime = now;
-      resolve();
-    } else {
-      const executeRequest = () => {
-        activeRequests++;
-        lastGetBlockNumberTime = Date.now();
-        resolve();
-      };
-      
-      if (activeRequests < ACTIVITY_MONITOR_CONFIG.MAX_CONCURRENT_REQUESTS) {
-        setTimeout(executeRequest, delayNeeded);
-      } else {
-        globalRequestQueue.push({ resolve: executeRequest, timestamp: now });
-      }
-    }
-  });
-}
-
-/**
- * Release an RPC request slot and process next queued request
- * Uses longer delay to ensure proper spacing between requests (prevents per-second rate limits)
- */
-function releaseRequestSlot(): void {
-  activeRequests = Math.max(0, activeRequests - 1);
-  if (globalRequestQueue.length > 0) {
-    const next = globalRequestQueue.shift();
-    if (next) {
-      const now = Date.now();
-      const timeSinceLastRequest = now - lastGetBlockNumberTime;
-      const delayNeeded = Math.max(
-        ACTIVITY_MONITOR_CONFIG.MIN_DELAY_BETWEEN_GET_BLOCK_NUMBER,
-        ACTIVITY_MONITOR_CONFIG.MIN_DELAY_BETWEEN_GET_BLOCK_NUMBER - timeSinceLastRequest
-      );
-      setTimeout(() => next.resolve(), delayNeeded);
-    }
-  }
-}
-
 /**
  * Get block number with retry logic and exponential backoff for rate limits
  * Handles Infura/rate limit errors gracefully
@@ -145,17 +95,12 @@ async function getBlockNumberWithRetry(
         await delay(backoffDelay);
       }
       
-      await waitForRequestSlot();
-      try {
-        const blockNumber = await provider.getBlockNumber();
-        if (attempt > 0) {
-          const currentCount = rateLimitCount.get(chainId) || 0;
-          rateLimitCount.set(chainId, Math.max(0, currentCount - 1));
-        }
-        return blockNumber;
-      } finally {
-        releaseRequestSlot();
+      const blockNumber = await provider.getBlockNumber();
+      if (attempt > 0) {
+        const currentCount = rateLimitCount.get(chainId) || 0;
+        rateLimitCount.set(chainId, Math.max(0, currentCount - 1));
       }
+      return blockNumber;
     } catch (error: any) {
       lastError = error;
       
@@ -209,7 +154,6 @@ async function getBlockWithFullTransactions(
   blockNum: number,
   chainId: number
 ): Promise<ethers.Block | null> {
-  await waitForRequestSlot();
   try {
     const blockHex = `0x${blockNum.toString(16)}`;
     
@@ -343,8 +287,6 @@ async function getBlockWithFullTransactions(
     
     // Fallback to normal getBlock
     return await provider.getBlock(blockNum, true);
-  } finally {
-    releaseRequestSlot();
   }
 }
 
@@ -352,7 +294,7 @@ async function getBlockWithFullTransactions(
  * Get all embedded wallet addresses from database with pagination
  * Optimized for large datasets (10k+ wallets)
  */
-async function getAllEmbeddedWallets(): Promise<Array<{ address: string; chainId: number; userId: string }>> {
+async function getAllEmbeddedWallets(updatedSince?: Date): Promise<Array<{ address: string; chainId: number; userId: string }>> {
   try {
     const wallets: Array<{ address: string; chainId: number; userId: string }> = [];
     const chains = getConfiguredChains();
@@ -363,7 +305,8 @@ async function getAllEmbeddedWallets(): Promise<Array<{ address: string; chainId
 
     while (hasMore) {
       const users = await User.find({
-        'walletAddresses.isSmartWallet': true
+        'walletAddresses.isSmartWallet': true,
+        ...(updatedSince ? { updatedAt: { $gte: updatedSince } } : {})
       })
         .select('walletAddresses _id')
         .skip(skip)
@@ -783,32 +726,14 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
         .filter(time => Date.now() - time < 60000).length;
       const consecutiveErrors = rateLimitCount.get(chainId) || 0;
 
-      // Circuit breaker check
-      if (consecutiveErrors > ACTIVITY_MONITOR_CONFIG.CIRCUIT_BREAKER_THRESHOLD || 
-          recentErrors > ACTIVITY_MONITOR_CONFIG.MAX_ERRORS_PER_MINUTE) {
-        const breaker = circuitBreaker.get(chainId);
-        const now = Date.now();
-        
-        if (!breaker || breaker.until < now) {
-          const cooldownUntil = now + ACTIVITY_MONITOR_CONFIG.CIRCUIT_BREAKER_COOLDOWN;
-          circuitBreaker.set(chainId, { enabled: true, until: cooldownUntil });
-          logger.error(`Circuit breaker enabled for chain ${chainId}`, {
-            consecutiveErrors,
-            recentErrors,
-            cooldownMinutes: ACTIVITY_MONITOR_CONFIG.CIRCUIT_BREAKER_COOLDOWN / 60000
-          });
-        }
-        
-        const activeBreaker = circuitBreaker.get(chainId);
-        if (activeBreaker && activeBreaker.enabled && activeBreaker.until > now) {
-          return;
-        }
-        
-        if (activeBreaker && activeBreaker.until <= now) {
-          rateLimitCount.set(chainId, 0);
-          rateLimitFrequency.set(chainId, []);
-          circuitBreaker.delete(chainId);
-        }
+      // The RPC pool benches throttling or failing endpoints - skip the check while all of them are benched
+      if (!hasHealthyRpcEndpoint(chainId)) {
+        logger.warn(`All RPC endpoints of chain ${chainId} are cooling down - skipping deposit check`, {
+          chainId,
+          consecutiveErrors,
+          recentErrors
+        });
+        return;
       }
 
       if (!providedBlockNumber && 
@@ -903,9 +828,8 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
       // Calculate actual block range to process
       const actualBlockRange = toBlock - fromBlock + 1;
       
-      // Calculate expected block time for this chain (in milliseconds)
-      // Ethereum: ~12s, Base/Arbitrum: ~2s
-      const BLOCK_TIME_MS = chainId === 1 ? 12000 : 2000;
+      // Expected block time for this chain (in milliseconds) from the chain registry
+      const BLOCK_TIME_MS = getChainConfig(chainId)?.blockTimeMs || 2000;
       const gapTimeMinutes = (actualBlockRange * BLOCK_TIME_MS) / 60000;
       
       // Warning threshold: Based on chain block time (2 minutes worth of blocks)
@@ -1053,7 +977,6 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
             // Mark block as being processed
             processingSet.add(blockNum);
             
-            await waitForRequestSlot();
             try {
               // CRITICAL OPTIMIZATION: Use direct RPC call to ensure Ankr returns full transactions
               // This uses eth_getBlockByNumber(blockNum, true) which should return full transaction objects
@@ -1103,7 +1026,7 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
                 
                 // CRITICAL: For pay-as-you-go RPC, we MUST fetch transactions individually
                 // because native ETH transfers don't emit events and we need to check tx.value
-                // However, we can optimize by batching requests and using the request queue
+                // However, we can optimize by batching requests and relying on the RPC pool budgets
                 logger.debug(`Block ${blockNum} contains transaction hashes, fetching full transaction objects`, {
                   chainId,
                   blockNum,
@@ -1111,10 +1034,9 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
                   monitoredWallets: walletSet.size
                 });
                 
-                // Fetch all transactions in parallel (with rate limiting via request queue)
+                // Fetch all transactions in parallel (with rate limiting via the RPC pool budgets)
                 // This is necessary for native ETH transfers - no way around it
                 const transactionPromises = transactionHashes.map(async (txHash) => {
-                  await waitForRequestSlot();
                   try {
                     const tx = await provider.getTransaction(txHash);
                     return tx;
@@ -1126,8 +1048,6 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
                       error: error.message || String(error)
                     });
                     return null;
-                  } finally {
-                    releaseRequestSlot();
                   }
                 });
                 
@@ -1150,8 +1070,6 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
             } catch (error: any) {
               processingSet.delete(blockNum); // Release lock on error
               return { blockNum, block: null, error, skipped: false };
-            } finally {
-              releaseRequestSlot();
             }
           });
 
@@ -1205,10 +1123,7 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
                 
                 const currentRecentErrors = errors.filter(time => Date.now() - time < 60000).length;
                 
-                if (currentConsecutiveErrors + 1 > ACTIVITY_MONITOR_CONFIG.CIRCUIT_BREAKER_THRESHOLD || 
-                    currentRecentErrors > ACTIVITY_MONITOR_CONFIG.MAX_ERRORS_PER_MINUTE) {
-                  const cooldownUntil = Date.now() + ACTIVITY_MONITOR_CONFIG.CIRCUIT_BREAKER_COOLDOWN;
-                  circuitBreaker.set(chainId, { enabled: true, until: cooldownUntil });
+                if (currentRecentErrors > ACTIVITY_MONITOR_CONFIG.MAX_ERRORS_PER_MINUTE && !hasHealthyRpcEndpoint(chainId)) {
                   return;
                 }
                 
@@ -1238,7 +1153,6 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
                 }
                 blocksBeingProcessed.get(chainId)!.add(blockNum);
                 
-                await waitForRequestSlot();
                 try {
                   // Try to get block with full transactions using direct RPC call
                   let retryBlock: ethers.Block | null = null;
@@ -1268,7 +1182,6 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
                   if (retryBlock && retryBlock.transactions && retryBlock.transactions.length > 0 && typeof retryBlock.transactions[0] === 'string') {
                     const transactionHashes = retryBlock.transactions as string[];
                     const transactionPromises = transactionHashes.map(async (txHash) => {
-                      await waitForRequestSlot();
                       try {
                         const tx = await provider.getTransaction(txHash);
                         return tx;
@@ -1280,8 +1193,6 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
                           error: error.message || String(error)
                         });
                         return null;
-                      } finally {
-                        releaseRequestSlot();
                       }
                     });
                     
@@ -1305,8 +1216,6 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
                   logger.error(`Failed to retry block ${blockNum} on chain ${chainId}`, retryError);
                   // Release lock on error
                   blocksBeingProcessed.get(chainId)?.delete(blockNum);
-                } finally {
-                  releaseRequestSlot();
                 }
               }
               continue;
@@ -1608,6 +1517,11 @@ async function checkForDeposits(chainId: number, providedBlockNumber?: number):
  */
 async function setupWebSocketMonitoring(chainId: number): Promise<void> {
   try {
+    // Released to another instance (e.g. a reconnect scheduled before the lease was lost)
+    if (!monitoredChains.has(chainId)) {
+      return;
+    }
+
     // CRITICAL: Check if URL is configured first
     const wsUrl = getWsUrl(chainId);
     
@@ -1617,9 +1531,9 @@ async function setupWebSocketMonitoring(chainId: number): Promise<void> {
         chainId,
         wsUrl: wsUrl || 'NOT SET',
         wsUrlLength: wsUrl?.length,
-        envVar: 'ETHEREUM_WS_URL',
-        envValue: process.env.ETHEREUM_WS_URL || 'NOT SET',
-        envValueLength: process.env.ETHEREUM_WS_URL?.length
+        envVar: getChainConfig(chainId)?.wsUrlEnv,
+        envValue: process.env[getChainConfig(chainId)?.wsUrlEnv || ''] || 'NOT SET',
+        envValueLength: process.env[getChainConfig(chainId)?.wsUrlEnv || '']?.length
       });
     }
     
@@ -1925,9 +1839,8 @@ async function setupWebSocketMonitoring(chainId: number): Promise<void> {
             if (lastBlock !== undefined && currentBlock > lastBlock) {
               const gap = currentBlock - lastBlock;
               
-              // Calculate expected block time for this chain (in milliseconds)
-              // Ethereum: ~12s, Base/Arbitrum: ~2s
-              const BLOCK_TIME_MS = chainId === 1 ? 12000 : 2000; // Ethereum vs Base/Arbitrum
+              // Expected block time for this chain (in milliseconds) from the chain registry
+              const BLOCK_TIME_MS = getChainConfig(chainId)?.blockTimeMs || 2000;
               
               // If gap exceeds 2 minutes worth of blocks, sync to prevent huge processing
               // This allows processing recent blocks but avoids processing very old blocks
@@ -1985,12 +1898,49 @@ async function setupWebSocketMonitoring(chainId: number): Promise<void> {
 }
 
 /**
- * Start monitoring all embedded wallets
+ * Add embedded wallets created since monitoring started (possibly through another instance)
+ */
+async function refreshMonitoredWallets(): Promise<void> {
+  if (monitoredChains.size === 0) {
+    return;
+  }
+
+  // Only users changed since the last refresh (with overlap for clock skew between instances)
+  const refreshStartedAt = new Date();
+  const wallets = await getAllEmbeddedWallets(new Date(lastWalletRefreshAt.getTime() - ACTIVITY_MONITOR_CONFIG.WALLET_REFRESH_INTERVAL));
+  lastWalletRefreshAt = refreshStartedAt;
+  for (const wallet of wallets) {
+    if (!monitoredChains.has(wallet.chainId) || monitoredWallets.get(wallet.chainId)?.has(wallet.address)) {
+      continue;
+    }
+    await addWalletToMonitoring(wallet.address, wallet.chainId, wallet.userId).catch(error => {
+      logger.error(`Error adding wallet ${wallet.address} during refresh on chain ${wallet.chainId}`, error);
+    });
+  }
+}
+
+/**
+ * Start monitoring all embedded wallets on the given chains (all configured chains by default)
  * Optimized for large-scale operations (10k+ wallets)
  */
-export async function startActivityMonitoring(): Promise<void> {
+export async function startActivityMonitoring(chainIds: number[] = getConfiguredChains()): Promise<void> {
   try {
-    const wallets = await getAllEmbeddedWallets();
+    const chainsToStart = chainIds.filter(chainId => !monitoredChains.has(chainId));
+    if (chainsToStart.length === 0) {
+      return;
+    }
+    chainsToStart.forEach(chainId => monitoredChains.add(chainId));
+
+    if (!walletRefreshInterval) {
+      lastWalletRefreshAt = new Date();
+      walletRefreshInterval = setInterval(() => {
+        refreshMonitoredWallets().catch(error => {
+          logger.error('Error refreshing monitored wallets', error);
+        });
+      }, ACTIVITY_MONITOR_CONFIG.WALLET_REFRESH_INTERVAL);
+    }
+
+    const wallets = (await getAllEmbeddedWallets()).filter(wallet => chainsToStart.includes(wallet.chainId));
     
     // CRITICAL: Add detailed logging for wallet loading
     logger.info('Loading embedded wallets for monitoring', {
@@ -2047,8 +1997,7 @@ export async function startActivityMonitoring(): Promise<void> {
       });
 
       const interval = setInterval(() => {
-        const breaker = circuitBreaker.get(chainId);
-        if (breaker && breaker.enabled && breaker.until > Date.now()) {
+        if (!hasHealthyRpcEndpoint(chainId)) {
           return;
         }
         
@@ -2103,9 +2052,68 @@ export async function startActivityMonitoring(): Promise<void> {
 }
 
 /**
- * Stop monitoring (cleanup)
+ * Stop monitoring one chain (leader lease lost or released)
  */
-export function stopActivityMonitoring(): void {
+function stopChainMonitoring(chainId: number): void {
+  monitoredChains.delete(chainId);
+
+  for (const intervals of [monitoringIntervals, wsTimeBasedIntervals, wsHealthChecks]) {
+    const interval = intervals.get(chainId);
+    if (interval) {
+      clearInterval(interval);
+      intervals.delete(chainId);
+    }
+  }
+  const timeout = wsBlockProcessingTimeouts.get(chainId);
+  if (timeout) {
+    clearTimeout(timeout);
+    wsBlockProcessingTimeouts.delete(chainId);
+  }
+
+  const wsProvider = wsProviders.get(chainId);
+  const subscriptions = wsSubscriptions.get(chainId);
+  if (wsProvider) {
+    try {
+      if (subscriptions?.block) {
+        wsProvider.off('block', subscriptions.block);
+      }
+      wsProvider.destroy();
+    } catch (error) {
+      logger.error(`Error stopping WebSocket for chain ${chainId}`, error);
+    }
+  }
+
+  for (const state of [
+    monitoredWallets, lastCheckedBlock, lastKnownBlockNumber, lastKnownBlockTimestamp, wsProviders,
+    wsSubscriptions, rateLimitCount, rateLimitFrequency, blocksSinceLastCheck,
+    blocksBeingProcessed, activeChecks
+  ] as Map<number, unknown>[]) {
+    state.delete(chainId);
+  }
+
+  if (monitoredChains.size === 0 && walletRefreshInterval) {
+    clearInterval(walletRefreshInterval);
+    walletRefreshInterval = null;
+  }
+
+  logger.info(`Activity monitoring stopped for chain ${chainId}`);
+}
+
+/**
+ * Stop monitoring (cleanup) - a single chain if given, otherwise everything
+ */
+export function stopActivityMonitoring(chainId?: number): void {
+  if (chainId !== undefined) {
+    stopChainMonitoring(chainId);
+    return;
+  }
+
+  if (walletRefreshInterval) {
+    clearInterval(walletRefreshInterval);
+    walletRefreshInterval = null;
+  }
+  monitoredChains.clear();
+
   monitoringIntervals.forEach((interval) => {
     clearInterval(interval);
   });
@@ -2146,7 +2154,6 @@ export function stopActivityMonitoring(): void {
   wsHealthChecks.clear();
   rateLimitCount.clear();
   rateLimitFrequency.clear();
-  circuitBreaker.clear();
   blocksSinceLastCheck.clear();
   blocksBeingProcessed.clear();
   activeChecks.clear();
@@ -2165,6 +2172,12 @@ export async function addWalletToMonitoring(
 ): Promise<void> {
   try {
     const walletLower = walletAddress.toLowerCase();
+
+    // Another instance leads this chain - its wallet refresh picks the new wallet up
+    if (!monitoredChains.has(chainId)) {
+      logger.debug(`Chain ${chainId} is monitored by another instance - not adding wallet ${walletLower} here`);
+      return;
+    }
     
     // Add to monitored wallets for this chain
     if (!monitoredWallets.has(chainId)) {
@@ -2274,7 +2287,7 @@ export async function addWalletToMonitoring(
           return;
         }
         
-        // Quick check for recent deposits (only new blocks, with request queue)
+        // Quick check for recent deposits (only new blocks, rate limited by the RPC pool)
         for (let blockNum = checkFromBlock; blockNum <= checkToBlock; blockNum++) {
           // CRITICAL: Multiple checks to prevent redundant RPC calls
           const isAlreadyProcessed = lastBlock && blockNum <= lastBlock;
@@ -2296,7 +2309,6 @@ export async function addWalletToMonitoring(
           }
           blocksBeingProcessed.get(chainId)!.add(blockNum);
           
-          await waitForRequestSlot(); // Use request queue to prevent 429 errors
           try {
             // Try to get block with full transactions using direct RPC call
             let block: ethers.Block | null = null;
@@ -2326,7 +2338,6 @@ export async function addWalletToMonitoring(
             if (block && block.transactions && block.transactions.length > 0 && typeof block.transactions[0] === 'string') {
               const transactionHashes = block.transactions as string[];
               const transactionPromises = transactionHashes.map(async (txHash) => {
-                await waitForRequestSlot();
                 try {
                   const tx = await provider.getTransaction(txHash);
                   return tx;
@@ -2338,8 +2349,6 @@ export async function addWalletToMonitoring(
                     error: error.message || String(error)
                   });
                   return null;
-                } finally {
-                  releaseRequestSlot();
                 }
               });
               
@@ -2352,7 +2361,6 @@ export async function addWalletToMonitoring(
             if (block && block.transactions && block.transactions.length > 0 && typeof block.transactions[0] === 'string') {
               const transactionHashes = block.transactions as string[];
               const transactionPromises = transactionHashes.map(async (txHash) => {
-                await waitForRequestSlot();
                 try {
                   const tx = await provider.getTransaction(txHash);
                   return tx;
@@ -2364,8 +2372,6 @@ export async function addWalletToMonitoring(
                     error: error.message || String(error)
                   });
                   return null;
-                } finally {
-                  releaseRequestSlot();
                 }
               });
               
@@ -2376,7 +2382,6 @@ export async function addWalletToMonitoring(
             
             if (!block || !block.transactions) {
               blocksBeingProcessed.get(chainId)?.delete(blockNum); // Release lock
-              releaseRequestSlot();
               continue;
             }
             
@@ -2458,8 +2463,6 @@ export async function addWalletToMonitoring(
             // Release lock on error
             blocksBeingProcessed.get(chainId)?.delete(blockNum);
             // Skip block on error
-          } finally {
-            releaseRequestSlot(); // Always release slot
           }
         }
       } catch (error) {
@@ -2485,7 +2488,7 @@ export function getMonitoringDiagnostics(): {
   lastCheckedBlocks: Record<number, number>;
   lastKnownBlocks: Record<number, number>;
   activeChecks: Record<number, boolean>;
-  circuitBreakers: Record<number, { enabled: boolean; until: number }>;
+  rpcPoolHealthy: Record<number, boolean>;
   rateLimitCounts: Record<number, number>;
   websocketStatus: Record<number, boolean>;
   blocksSinceLastCheck: Record<number, number>;
@@ -2495,7 +2498,7 @@ export function getMonitoringDiagnostics(): {
     lastCheckedBlocks: {},
     lastKnownBlocks: {},
     activeChecks: {},
-    circuitBreakers: {},
+    rpcPoolHealthy: {},
     rateLimitCounts: {},
     websocketStatus: {},
     blocksSinceLastCheck: {},
@@ -2518,8 +2521,8 @@ export function getMonitoringDiagnostics(): {
     diagnostics.activeChecks[chainId] = true;
   });
 
-  circuitBreaker.forEach((breaker, chainId) => {
-    diagnostics.circuitBreakers[chainId] = breaker;
+  monitoredChains.forEach((chainId) => {
+    diagnostics.rpcPoolHealthy[chainId] = hasHealthyRpcEndpoint(chainId);
   });
 
   rateLimitCount.forEach((count, chainId) => {
@@ -2664,14 +2667,9 @@ export async function checkWalletForDeposits(
       if (trackedBlock) {
         currentBlock = trackedBlock;
       } else {
-        await waitForRequestSlot();
-        try {
-          currentBlock = await provider.getBlockNumber();
-          lastKnownBlockNumber.set(chainId, currentBlock);
-          lastKnownBlockTimestamp.set(chainId, Date.now());
-        } finally {
-          releaseRequestSlot();
-        }
+        currentBlock = await provider.getBlockNumber();
+        lastKnownBlockNumber.set(chainId, currentBlock);
+        lastKnownBlockTimestamp.set(chainId, Date.now());
       }
     }
     
@@ -74,15 +74,18 @@ export async function saveActivity(activityData: {
     }
 
     // Calculate USD amount if not provided
-    let amountUSD = '0';
+    let amountUSD: string | null = '0';
     if (activityData.amount && activityData.amount !== '0') {
       try {
         const ethPriceUSD = await getEthPriceUSD();
         const amountInEth = parseFloat(ethers.formatEther(activityData.amount));
-        const ethPrice = parseFloat(ethPriceUSD);
+        const ethPrice = parseFloat(ethPriceUSD || '0');
         
         // Validate parseFloat results are valid numbers
-        if (!isFinite(amountInEth) || isNaN(amountInEth) || amountInEth < 0) {
+        if (ethPriceUSD === null) {
+          // No ETH price source available: the USD amount is unknown, not zero
+          amountUSD = null;
+        } else if (!isFinite(amountInEth) || isNaN(amountInEth) || amountInEth < 0) {
           logger.warn('Invalid amountInEth calculated:', { amount: activityData.amount, amountInEth });
           amountUSD = '0';
         } else if (!isFinite(ethPrice) || isNaN(ethPrice) || ethPrice <= 0) {
@@ -275,7 +278,7 @@ export async function saveActivitiesBatch(
     });
 
     // Get ETH price once for all activities (batch USD calculation)
-    let ethPriceUSD = '0';
+    let ethPriceUSD: string | null = null;
     try {
       ethPriceUSD = await getEthPriceUSD();
     } catch (error) {
@@ -286,8 +289,11 @@ export async function saveActivitiesBatch(
     // Prepare activities for batch insert
     const activitiesToInsert = newActivities.map(activityData => {
       // Calculate USD amount if not provided
-      let amountUSD = activityData.amountUSD || '0';
-      if (!activityData.amountUSD && activityData.amount && activityData.amount !== '0' && ethPriceUSD !== '0') {
+      let amountUSD: string | null = activityData.amountUSD || '0';
+      if (!activityData.amountUSD && activityData.amount && activityData.amount !== '0' && ethPriceUSD === null) {
+        // No ETH price source available: the USD amount is unknown, not zero
+        amountUSD = null;
+      } else if (!activityData.amountUSD && activityData.amount && activityData.amount !== '0' && ethPriceUSD !== null) {
         try {
           const amountInEth = parseFloat(ethers.formatEther(activityData.amount));
           const usdValue = amountInEth * parseFloat(ethPriceUSD);
@@ -0,0 +1,368 @@
+import DailyStat from '../models/DailyStat';
+import Candle from '../models/Candle';
+import Transaction from '../models/Transaction';
+import FeePayment from '../models/FeePayment';
+import Token from '../models/Token';
+import User from '../models/User';
+import { IDailyStat } from '../types';
+import { getConfiguredChains } from '../config/blockchain';
+import { isChainLeader } from './leaderElection';
+
+const ROLLUP_INTERVAL_MS = Number(process.env.ANALYTICS_ROLLUP_INTERVAL_MS) || 10 * 60 * 1000; // 10 minutes
+// Days computed per run when catching up on history (the rest follows on the next runs)
+const MAX_DAYS_PER_RUN = Number(process.env.ANALYTICS_ROLLUP_MAX_DAYS_PER_RUN) || 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rollupIntervals = new Map<number, NodeJS.Timeout>();
+
+// Chains (and null for the platform row) with a rollup run in progress
+const activeRollups = new Set<number | null>();
+
+export interface AnalyticsRange {
+  chainId?: number;
+  from: Date;
+  to: Date;
+}
+
+/**
+ * UTC midnight of the day a date falls into
+ */
+export const startOfUtcDay = (date: Date): Date => new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// When a token was created on chain (the deployment block), else when it was indexed
+const creationTime = (token: { deploymentTimestamp?: Date | null; createdAt: Date }): Date =>
+  token.deploymentTimestamp || token.createdAt;
+
+// Decimal128 sums come back as e.g. "1234" or "1234.0"
+const decimalToWei = (value: any): string => (value ? BigInt(value.toString().split('.')[0]).toString() : '0');
+
+/**
+ * Recompute the rollup of one chain for one UTC day from the source collections
+ */
+export const rollupChainDay = async (chainId: number, day: Date): Promise<void> => {
+  const start = startOfUtcDay(day);
+  const end = new Date(start.getTime() + DAY_MS);
+  const inDay = { $gte: start, $lt: end };
+
+  const [tokensCreated, graduatedTokens, volume, traders, fees] = await Promise.all([
+    // Tokens indexed before the deployment timestamp was recorded fall back to their index time
+    Token.countDocuments({
+      chainId: chainId,
+      $or: [{ deploymentTimestamp: inDay }, { deploymentTimestamp: null, createdAt: inDay }],
+    }),
+    Token.find({ chainId: chainId, graduatedAt: inDay }).select('deploymentTimestamp createdAt graduatedAt').lean(),
+    // Volume and trade counts come from the daily candles
+    Candle.aggregate([
+      { $match: { chainId: chainId, resolution: '1d', openTime: start } },
+      {
+        $group: {
+          _id: null,
+          trades: { $sum: '$trades' },
+          volumeEth: { $sum: { $toDecimal: '$volumeEth' } },
+          volumeUSD: { $sum: { $toDouble: '$volumeUSD' } },
+        },
+      },
+    ]),
+    // The trader is the recipient of a buy and the sender of a sell
+    Transaction.aggregate([
+      { $match: { chainId: chainId, blockTimestamp: inDay, type: { $in: ['Bought', 'Sold'] } } },
+      { $group: { _id: { $cond: [{ $eq: ['$type', 'Bought'] }, '$recipientAddress', '$senderAddress'] } } },
+    ]),
+    FeePayment.aggregate([
+      { $match: { chainId: chainId, blockTimestamp: inDay } },
+      {
+        $group: {
+          _id: null,
+          feesEth: { $sum: { $toDecimal: '$amount' } },
+          feesUSD: { $sum: { $convert: { input: '$amountUSD', to: 'double', onError: 0, onNull: 0 } } },
+        },
+      },
+    ]),
+  ]);
+
+  const traderAddresses = traders.map((trader) => trader._id as string);
+  await DailyStat.updateOne(
+    { date: start, chainId: chainId },
+    {
+      $set: {
+        tokensCreated: tokensCreated,
+        graduations: graduatedTokens.length,
+        graduationDurations: graduatedTokens.map((token) =>
+          Math.max(0, Math.round((token.graduatedAt!.getTime() - creationTime(token).getTime()) / 1000))
+        ),
+        trades: volume[0]?.trades || 0,
+        volumeEth: decimalToWei(volume[0]?.volumeEth),
+        volumeUSD: volume[0]?.volumeUSD || 0,
+        traders: traderAddresses,
+        uniqueTraders: traderAddresses.length,
+        feesEth: decimalToWei(fees[0]?.feesEth),
+        feesUSD: fees[0]?.feesUSD || 0,
+        computedAt: new Date(),
+        updatedAt: new Date(),
+      },
+      $setOnInsert: { createdAt: new Date() },
+    },
+    { upsert: true }
+  );
+};
+
+/**
+ * Recompute the platform-wide rollup (metrics without a chain) for one UTC day
+ */
+export const rollupPlatformDay = async (day: Date): Promise<void> => {
+  const start = startOfUtcDay(day);
+  const end = new Date(start.getTime() + DAY_MS);
+
+  const newUsers = await User.countDocuments({ createdAt: { $gte: start, $lt: end } });
+  await DailyStat.updateOne(
+    { date: start, chainId: null },
+    {
+      $set: { newUsers: newUsers, computedAt: new Date(), updatedAt: new Date() },
+      $setOnInsert: { createdAt: new Date() },
+    },
+    { upsert: true }
+  );
+};
+
+/**
+ * Recompute the rollups of a chain for every day touched by a time range (used after reindexing)
+ */
+export const rollupChainRange = async (chainId: number, from: Date, to: Date): Promise<void> => {
+  for (let day = startOfUtcDay(from); day <= to; day = new Date(day.getTime() + DAY_MS)) {
+    await rollupChainDay(chainId, day);
+  }
+};
+
+/**
+ * Bring the rollups of a chain (or the platform row for null) up to date: yesterday and today are
+ * always recomputed (late events, reorgs); missing history is filled in from the first record onwards.
+ */
+const runRollups = async (chainId: number | null): Promise<void> => {
+  if (activeRollups.has(chainId)) {
+    return;
+  }
+  activeRollups.add(chainId);
+
+  try {
+    const today = startOfUtcDay(new Date());
+    const latest = await DailyStat.findOne({ chainId: chainId }).sort({ date: -1 }).select('date').lean();
+
+    let day: Date;
+    if (latest) {
+      day = new Date(Math.min(latest.date.getTime(), today.getTime() - DAY_MS));
+    } else {
+      let first: Date | null = null;
+      if (chainId === null) {
+        const firstUser = await User.findOne().sort({ createdAt: 1 }).select('createdAt').lean();
+        first = firstUser?.createdAt || null;
+      } else {
+        const [firstToken] = await Token.aggregate([
+          { $match: { chainId: chainId } },
+          { $group: { _id: null, createdAt: { $min: { $ifNull: ['$deploymentTimestamp', '$createdAt'] } } } },
+        ]);
+        first = firstToken?.createdAt || null;
+      }
+      day = first ? startOfUtcDay(first) : today;
+    }
+
+    for (let computed = 0; day <= today && computed < MAX_DAYS_PER_RUN; computed++) {
+      if (chainId === null) {
+        await rollupPlatformDay(day);
+      } else {
+        await rollupChainDay(chainId, day);
+      }
+      day = new Date(day.getTime() + DAY_MS);
+    }
+  } catch (error: any) {
+    console.error(`❌ Error running analytics rollups for ${chainId === null ? 'platform' : `chain ${chainId}`}:`, error.message);
+  } finally {
+    activeRollups.delete(chainId);
+  }
+};
+
+/**
+ * Start the periodic daily rollups (each chain on its leader; the platform row on the leader of the first chain)
+ */
+export const startAnalyticsRollups = (): void => {
+  const chains = getConfiguredChains();
+  for (const chainId of chains) {
+    if (rollupIntervals.has(chainId)) {
+      continue;
+    }
+    rollupIntervals.set(chainId, setInterval(async () => {
+      if (!isChainLeader(chainId)) {
+        return;
+      }
+      await runRollups(chainId);
+      if (chainId === chains[0]) {
+        await runRollups(null);
+      }
+    }, ROLLUP_INTERVAL_MS));
+  }
+};
+
+/**
+ * Stop the periodic daily rollups
+ */
+export const stopAnalyticsRollups = (): void => {
+  for (const interval of rollupIntervals.values()) {
+    clearInterval(interval);
+  }
+  rollupIntervals.clear();
+};
+
+const getRollups = (range: AnalyticsRange, chainScoped: boolean) => {
+  const filter: Record<string, any> = { date: { $gte: startOfUtcDay(range.from), $lte: range.to } };
+  if (!chainScoped) {
+    filter.chainId = null;
+  } else if (range.chainId) {
+    filter.chainId = range.chainId;
+  } else {
+    filter.chainId = { $ne: null };
+  }
+  return DailyStat.find(filter).select('-traders -__v').sort({ date: 1 }).lean();
+};
+
+const countUniqueTraders = async (range: AnalyticsRange, groupByDay: boolean) => {
+  const match: Record<string, any> = {
+    date: { $gte: startOfUtcDay(range.from), $lte: range.to },
+    chainId: range.chainId ? range.chainId : { $ne: null },
+  };
+  return DailyStat.aggregate([
+    { $match: match },
+    { $unwind: '$traders' },
+    { $group: { _id: groupByDay ? { date: '$date', trader: '$traders' } : '$traders' } },
+    { $group: { _id: groupByDay ? '$_id.date' : null, count: { $sum: 1 } } },
+  ]);
+};
+
+interface RollupTotals {
+  tokensCreated: number;
+  graduations: number;
+  graduationDurations: number[];
+  trades: number;
+  volumeEth: bigint;
+  volumeUSD: number;
+  feesEth: bigint;
+  feesUSD: number;
+}
+
+const emptyTotals = (): RollupTotals => ({
+  tokensCreated: 0,
+  graduations: 0,
+  graduationDurations: [],
+  trades: 0,
+  volumeEth: 0n,
+  volumeUSD: 0,
+  feesEth: 0n,
+  feesUSD: 0,
+});
+
+type RollupFields = Pick<
+  IDailyStat,
+  'tokensCreated' | 'graduations' | 'graduationDurations' | 'trades' | 'volumeEth' | 'volumeUSD' | 'feesEth' | 'feesUSD'
+>;
+
+const addRollup = (totals: RollupTotals, rollup: RollupFields): void => {
+  totals.tokensCreated += rollup.tokensCreated || 0;
+  totals.graduations += rollup.graduations || 0;
+  totals.graduationDurations.push(...(rollup.graduationDurations || []));
+  totals.trades += rollup.trades || 0;
+  totals.volumeEth += BigInt(rollup.volumeEth || '0');
+  totals.volumeUSD += rollup.volumeUSD || 0;
+  totals.feesEth += BigInt(rollup.feesEth || '0');
+  totals.feesUSD += rollup.feesUSD || 0;
+};
+
+const formatTotals = (totals: RollupTotals) => ({
+  tokensCreated: totals.tokensCreated,
+  graduations: totals.graduations,
+  medianTimeToGraduationSec: median(totals.graduationDurations),
+  trades: totals.trades,
+  volumeEth: totals.volumeEth.toString(),
+  volumeUSD: totals.volumeUSD,
+  feesEth: totals.feesEth.toString(),
+  feesUSD: totals.feesUSD,
+});
+
+/**
+ * Platform totals over a range, with the per-chain breakdown
+ */
+export const getAnalyticsOverview = async (range: AnalyticsRange) => {
+  const [chainRollups, platformRollups, uniqueTraders] = await Promise.all([
+    getRollups(range, true),
+    getRollups(range, false),
+    countUniqueTraders(range, false),
+  ]);
+
+  const totals = emptyTotals();
+  const perChain = new Map<number, RollupTotals>();
+  for (const rollup of chainRollups) {
+    addRollup(totals, rollup);
+    const chainTotals = perChain.get(rollup.chainId!) || emptyTotals();
+    addRollup(chainTotals, rollup);
+    perChain.set(rollup.chainId!, chainTotals);
+  }
+
+  return {
+    from: startOfUtcDay(range.from),
+    to: range.to,
+    chainId: range.chainId || null,
+    ...formatTotals(totals),
+    uniqueTraders: uniqueTraders[0]?.count || 0,
+    newUsers: platformRollups.reduce((sum, rollup) => sum + (rollup.newUsers || 0), 0),
+    chains: Array.from(perChain.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([chainId, chainTotals]) => ({ chainId, ...formatTotals(chainTotals) })),
+  };
+};
+
+/**
+ * One entry per UTC day of the range (days without activity included), summed over chains unless chainId is set
+ */
+export const getDailyAnalytics = async (range: AnalyticsRange) => {
+  const [chainRollups, platformRollups, uniqueTraders] = await Promise.all([
+    getRollups(range, true),
+    getRollups(range, false),
+    countUniqueTraders(range, true),
+  ]);
+
+  const days = new Map<number, { totals: RollupTotals; newUsers: number; uniqueTraders: number }>();
+  for (let day = startOfUtcDay(range.from); day <= range.to; day = new Date(day.getTime() + DAY_MS)) {
+    days.set(day.getTime(), { totals: emptyTotals(), newUsers: 0, uniqueTraders: 0 });
+  }
+  for (const rollup of chainRollups) {
+    const entry = days.get(rollup.date.getTime());
+    if (entry) {
+      addRollup(entry.totals, rollup);
+    }
+  }
+  for (const rollup of platformRollups) {
+    const entry = days.get(rollup.date.getTime());
+    if (entry) {
+      entry.newUsers = rollup.newUsers || 0;
+    }
+  }
+  for (const row of uniqueTraders) {
+    const entry = days.get(new Date(row._id).getTime());
+    if (entry) {
+      entry.uniqueTraders = row.count;
+    }
+  }
+
+  return Array.from(days.entries()).map(([date, entry]) => ({
+    date: new Date(date).toISOString().slice(0, 10),
+    ...formatTotals(entry.totals),
+    uniqueTraders: entry.uniqueTraders,
+    newUsers: entry.newUsers,
+  }));
+};
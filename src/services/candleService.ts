@@ -0,0 +1,255 @@
+import { ethers } from 'ethers';
+import Candle from '../models/Candle';
+import Transaction from '../models/Transaction';
+import { ICandle, CandleResolution } from '../types';
+
+// Bucket length per resolution
+export const CANDLE_RESOLUTIONS: Record<CandleResolution, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export const MAX_CANDLES_PER_REQUEST = 1500;
+
+const MAX_UPDATE_ATTEMPTS = 3;
+const INSERT_BATCH_SIZE = 1000;
+
+// The fields of a stored trade (Bought/Sold Transaction) that candles are built from
+export interface CandleTrade {
+  tokenAddress: string;
+  chainId: number;
+  blockNumber: number;
+  logIndex?: number;
+  blockTimestamp?: Date;
+  tokenPrice: string;
+  tokenPriceUSD?: string | null;
+  ethAmount: string;
+  tokenAmount: string;
+}
+
+type CandleValues = Pick<ICandle,
+  'open' | 'high' | 'low' | 'close' |
+  'openUSD' | 'highUSD' | 'lowUSD' | 'closeUSD' |
+  'volumeEth' | 'volumeToken' | 'volumeUSD' | 'trades' |
+  'openBlock' | 'openLogIndex' | 'closeBlock' | 'closeLogIndex'>;
+
+/**
+ * Start of the bucket a timestamp falls into
+ */
+export const getCandleOpenTime = (timestamp: Date, resolution: CandleResolution): Date => {
+  const bucketMs = CANDLE_RESOLUTIONS[resolution];
+  return new Date(Math.floor(timestamp.getTime() / bucketMs) * bucketMs);
+};
+
+// Trades without a price (failed price calculation) can't be charted
+const isChartableTrade = (trade: CandleTrade): boolean => parseFloat(trade.tokenPrice || '0') > 0;
+
+// Compare chain positions: negative if a comes first
+const comparePosition = (aBlock: number, aLogIndex: number, bBlock: number, bLogIndex: number): number =>
+  aBlock !== bBlock ? aBlock - bBlock : aLogIndex - bLogIndex;
+
+const pickHigher = (current: string, candidate: string): string =>
+  parseFloat(candidate) > parseFloat(current) ? candidate : current;
+
+// '0' means "no USD price yet", so it never wins the low
+const pickLower = (current: string, candidate: string): string =>
+  current === '0' || parseFloat(candidate) < parseFloat(current) ? candidate : current;
+
+/**
+ * Fold a trade into a candle's values (or start a candle from it)
+ */
+const mergeTrade = (candle: CandleValues | null, trade: CandleTrade): CandleValues => {
+  const price = trade.tokenPrice;
+  const priceUSD = trade.tokenPriceUSD && parseFloat(trade.tokenPriceUSD) > 0 ? trade.tokenPriceUSD : '0';
+  const logIndex = trade.logIndex || 0;
+
+  // USD volume uses the ETH price implied by the trade's USD and ETH prices
+  let tradeVolumeUSD = 0;
+  if (priceUSD !== '0') {
+    const ethPrice = parseFloat(priceUSD) / parseFloat(price);
+    tradeVolumeUSD = parseFloat(ethers.formatEther(BigInt(trade.ethAmount || '0'))) * ethPrice;
+  }
+
+  if (!candle) {
+    return {
+      open: price,
+      high: price,
+      low: price,
+      close: price,
+      openUSD: priceUSD,
+      highUSD: priceUSD,
+      lowUSD: priceUSD,
+      closeUSD: priceUSD,
+      volumeEth: BigInt(trade.ethAmount || '0').toString(),
+      volumeToken: BigInt(trade.tokenAmount || '0').toString(),
+      volumeUSD: tradeVolumeUSD.toString(),
+      trades: 1,
+      openBlock: trade.blockNumber,
+      openLogIndex: logIndex,
+      closeBlock: trade.blockNumber,
+      closeLogIndex: logIndex,
+    };
+  }
+
+  const next: CandleValues = {
+    ...candle,
+    high: pickHigher(candle.high, price),
+    low: pickLower(candle.low, price),
+    highUSD: priceUSD !== '0' ? pickHigher(candle.highUSD, priceUSD) : candle.highUSD,
+    lowUSD: priceUSD !== '0' ? pickLower(candle.lowUSD, priceUSD) : candle.lowUSD,
+    volumeEth: (BigInt(candle.volumeEth) + BigInt(trade.ethAmount || '0')).toString(),
+    volumeToken: (BigInt(candle.volumeToken) + BigInt(trade.tokenAmount || '0')).toString(),
+    volumeUSD: (parseFloat(candle.volumeUSD) + tradeVolumeUSD).toString(),
+    trades: candle.trades + 1,
+  };
+  if (comparePosition(trade.blockNumber, logIndex, candle.openBlock, candle.openLogIndex) < 0) {
+    next.open = price;
+    next.openUSD = priceUSD;
+    next.openBlock = trade.blockNumber;
+    next.openLogIndex = logIndex;
+  }
+  if (comparePosition(trade.blockNumber, logIndex, candle.closeBlock, candle.closeLogIndex) > 0) {
+    next.close = price;
+    next.closeUSD = priceUSD;
+    next.closeBlock = trade.blockNumber;
+    next.closeLogIndex = logIndex;
+  }
+  return next;
+};
+
+/**
+ * Add a newly stored trade to the token's candles of every resolution.
+ * Must be called once per trade (saveTradeEvent calls it only when it creates the Transaction; a retry
+ * after a failed update rebuilds the token's candles instead).
+ */
+export const applyTradeToCandles = async (trade: CandleTrade): Promise<void> => {
+  if (!isChartableTrade(trade)) {
+    return;
+  }
+  const tokenAddress = trade.tokenAddress.toLowerCase();
+  const timestamp = trade.blockTimestamp ? new Date(trade.blockTimestamp) : new Date();
+
+  for (const resolution of Object.keys(CANDLE_RESOLUTIONS) as CandleResolution[]) {
+    const key = {
+      tokenAddress: tokenAddress,
+      chainId: trade.chainId,
+      resolution: resolution,
+      openTime: getCandleOpenTime(timestamp, resolution),
+    };
+
+    // Optimistic update: retry if another writer changed the candle between read and write
+    let applied = false;
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS && !applied; attempt++) {
+      const existing = await Candle.findOne(key).lean();
+      const values = mergeTrade(existing, trade);
+
+      if (!existing) {
+        try {
+          await Candle.create({ ...key, ...values });
+          applied = true;
+        } catch (error: any) {
+          if (error.code !== 11000) {
+            throw error;
+          }
+        }
+      } else {
+        const result = await Candle.updateOne(
+          { _id: existing._id, trades: existing.trades },
+          { $set: { ...values, updatedAt: new Date() } }
+        );
+        applied = result.modifiedCount > 0;
+      }
+    }
+    if (!applied) {
+      throw new Error(`Candle ${resolution} of ${tokenAddress} on chain ${trade.chainId} kept changing during the update`);
+    }
+  }
+};
+
+/**
+ * Recompute all candles of a token from its stored trades (after a reorg rollback or reindex)
+ */
+export const rebuildTokenCandles = async (tokenAddress: string, chainId: number): Promise<void> => {
+  const normalizedAddress = tokenAddress.toLowerCase();
+
+  const trades = await Transaction.find({
+    tokenAddress: normalizedAddress,
+    chainId: chainId,
+    type: { $in: ['Bought', 'Sold'] }
+  })
+    .sort({ blockNumber: 1, logIndex: 1 })
+    .select('tokenAddress chainId blockNumber logIndex blockTimestamp tokenPrice tokenPriceUSD ethAmount tokenAmount createdAt')
+    .lean();
+
+  const candles = new Map<string, { resolution: CandleResolution; openTime: Date; values: CandleValues }>();
+  for (const trade of trades) {
+    const candleTrade: CandleTrade = { ...trade, blockTimestamp: trade.blockTimestamp || trade.createdAt };
+    if (!isChartableTrade(candleTrade)) {
+      continue;
+    }
+    for (const resolution of Object.keys(CANDLE_RESOLUTIONS) as CandleResolution[]) {
+      const openTime = getCandleOpenTime(new Date(candleTrade.blockTimestamp!), resolution);
+      const key = `${resolution}:${openTime.getTime()}`;
+      const current = candles.get(key);
+      candles.set(key, {
+        resolution,
+        openTime,
+        values: mergeTrade(current ? current.values : null, candleTrade),
+      });
+    }
+  }
+
+  await Candle.deleteMany({ tokenAddress: normalizedAddress, chainId: chainId });
+
+  const docs = Array.from(candles.values()).map((candle) => ({
+    tokenAddress: normalizedAddress,
+    chainId: chainId,
+    resolution: candle.resolution,
+    openTime: candle.openTime,
+    ...candle.values,
+  }));
+  for (let i = 0; i < docs.length; i += INSERT_BATCH_SIZE) {
+    await Candle.insertMany(docs.slice(i, i + INSERT_BATCH_SIZE), { ordered: false });
+  }
+};
+
+/**
+ * Candles of a token between two times (inclusive), oldest first. Buckets without trades are omitted.
+ */
+export const getCandles = async (
+  tokenAddress: string,
+  chainId: number,
+  resolution: CandleResolution,
+  from: Date,
+  to: Date
+) => {
+  const candles = await Candle.find({
+    tokenAddress: tokenAddress.toLowerCase(),
+    chainId: chainId,
+    resolution: resolution,
+    openTime: { $gte: getCandleOpenTime(from, resolution), $lte: to }
+  })
+    .sort({ openTime: 1 })
+    .limit(MAX_CANDLES_PER_REQUEST)
+    .lean();
+
+  return candles.map((candle) => ({
+    time: Math.floor(candle.openTime.getTime() / 1000),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    openUSD: candle.openUSD,
+    highUSD: candle.highUSD,
+    lowUSD: candle.lowUSD,
+    closeUSD: candle.closeUSD,
+    volumeEth: candle.volumeEth,
+    volumeToken: candle.volumeToken,
+    volumeUSD: candle.volumeUSD,
+    trades: candle.trades,
+  }));
+};
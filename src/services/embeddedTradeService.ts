@@ -0,0 +1,203 @@
+import { ethers } from 'ethers';
+import { IUser } from '../types';
+import { getProvider } from '../config/blockchain';
+import FactoryABI from '../config/abi/TokenFactory.json';
+import TokenABI from '../config/abi/Token.json';
+import { QuoteSide } from './quoteService';
+import {
+  SlippageBound,
+  TradeSimulation,
+  simulateTrade,
+  readRealizedAmountOut,
+  slippageBpsOf
+} from './slippageService';
+
+// How long to wait for a sent transaction to be mined before giving up on it (it may still be mined later)
+const CONFIRMATION_TIMEOUT_MS = Number(process.env.TRADE_CONFIRMATION_TIMEOUT_MS) || 3 * 60 * 1000; // 3 minutes
+
+export interface EmbeddedTradeParams {
+  user: IUser;
+  side: QuoteSide;
+  tokenAddress: string;
+  amountIn: bigint; // wei: ETH for buys, tokens for sells
+  chainId: number;
+  factoryAddress: string;
+  bound: SlippageBound;
+  // Called with the signed transaction's hash and nonce before it is broadcast (an error stops the trade unsent)
+  onSigned?: (txHash: string, nonce: number) => Promise<void>;
+}
+
+export interface TradeOutcome {
+  minAmountOut: string;
+  slippage: {
+    reference: SlippageBound['reference'];
+    referenceAmountOut: string | null;
+    maxSlippageBps: number | null;
+  };
+  simulated: {
+    amountOut: string;
+    blockNumber: number;
+  };
+  realized: {
+    amountOut: string | null;
+    slippageBps: number | null;
+  };
+}
+
+export type EmbeddedTradeResult =
+  | { status: 'filled'; txHash: string; blockNumber: number; gasUsed: string; outcome: TradeOutcome }
+  // The trade was not sent (insufficient balance, simulation revert, output below the bound)
+  | { status: 'refused'; error: string; details: Record<string, any> };
+
+/**
+ * The user's embedded wallet, derived from their ID, email and the JWT secret
+ */
+export const getEmbeddedWallet = (user: IUser): ethers.Wallet => {
+  const userId = user._id.toString();
+  const userEmail = user.email.toLowerCase().trim();
+  const jwtSecret = process.env.JWT_SECRET || 'default-secret';
+  const seed = `${userId}-${userEmail}-${jwtSecret}`;
+  const privateKey = ethers.keccak256(ethers.toUtf8Bytes(seed));
+  return new ethers.Wallet(privateKey);
+};
+
+// Simulated vs. realized output of a mined trade
+const tradeOutcome = (
+  receipt: ethers.TransactionReceipt,
+  params: EmbeddedTradeParams,
+  simulation: TradeSimulation
+): TradeOutcome => {
+  const { side, tokenAddress, factoryAddress, bound } = params;
+  const realized = readRealizedAmountOut(receipt, side, tokenAddress, factoryAddress);
+  if (realized !== null && realized < bound.minAmountOut) {
+    console.error(`⚠️ ${side} of ${tokenAddress} in ${receipt.hash} filled below the minimum: ${realized} < ${bound.minAmountOut}`);
+  }
+  return {
+    minAmountOut: bound.minAmountOut.toString(),
+    slippage: {
+      reference: bound.reference,
+      referenceAmountOut: bound.referenceAmountOut,
+      maxSlippageBps: bound.maxSlippageBps,
+    },
+    simulated: {
+      amountOut: simulation.expectedAmountOut.toString(),
+      blockNumber: simulation.blockNumber,
+    },
+    realized: {
+      amountOut: realized !== null ? realized.toString() : null,
+      slippageBps: realized !== null ? slippageBpsOf(simulation.expectedAmountOut, realized) : null,
+    },
+  };
+};
+
+/**
+ * Buy or sell on the bonding curve from the user's embedded wallet.
+ * buyTokens/sellTokens take no minimum output, so the trade is simulated against the latest state
+ * right before sending and refused when it would revert or its expected output is below the bound.
+ * Sells approve the factory first when needed. Unexpected RPC errors, reverts of the sent transaction
+ * and transactions not mined within TRADE_CONFIRMATION_TIMEOUT_MS are thrown.
+ */
+export const executeEmbeddedTrade = async (params: EmbeddedTradeParams): Promise<EmbeddedTradeResult> => {
+  const { user, side, tokenAddress, amountIn, chainId, factoryAddress, bound } = params;
+
+  // Connect to provider (using getProvider to ensure staticNetwork option is set)
+  const provider = getProvider(chainId);
+  const wallet = getEmbeddedWallet(user).connect(provider);
+  const factory = new ethers.Contract(factoryAddress, FactoryABI, wallet);
+
+  if (side === 'sell') {
+    const token = new ethers.Contract(tokenAddress, TokenABI, wallet);
+
+    // Check token balance
+    const tokenBalance = await token.balanceOf(wallet.address);
+    if (tokenBalance < amountIn) {
+      return {
+        status: 'refused',
+        error: `Insufficient token balance. Required: ${ethers.formatEther(amountIn)}, Available: ${ethers.formatEther(tokenBalance)}`,
+        details: {
+          balance: ethers.formatEther(tokenBalance),
+          required: ethers.formatEther(amountIn),
+        },
+      };
+    }
+
+    // Check allowance
+    const allowance = await token.allowance(wallet.address, factoryAddress);
+    if (allowance < amountIn) {
+      // Approve first
+      const approveTx = await token.approve(factoryAddress, ethers.MaxUint256);
+      await approveTx.wait(1, CONFIRMATION_TIMEOUT_MS);
+    }
+  }
+
+  // Simulate against the latest state right before sending (after the approval a sell needs)
+  let simulation: TradeSimulation;
+  try {
+    simulation = await simulateTrade(factory, side, tokenAddress, amountIn);
+  } catch (error: any) {
+    return {
+      status: 'refused',
+      error: 'Trade simulation failed',
+      details: { details: error.reason || error.shortMessage || error.message },
+    };
+  }
+
+  if (simulation.expectedAmountOut < bound.minAmountOut) {
+    return {
+      status: 'refused',
+      error: 'Expected output is below the minimum amount out',
+      details: {
+        simulatedAmountOut: simulation.expectedAmountOut.toString(),
+        minAmountOut: bound.minAmountOut.toString(),
+        blockNumber: simulation.blockNumber,
+      },
+    };
+  }
+
+  if (side === 'buy') {
+    // Check balance
+    const balance = await provider.getBalance(wallet.address);
+    const estimatedGasPrice = await provider.getFeeData();
+    const gasPrice = estimatedGasPrice.gasPrice || 0n;
+    const gasCost = gasPrice * simulation.gasLimit;
+    const totalRequired = amountIn + gasCost;
+
+    if (balance < totalRequired) {
+      return {
+        status: 'refused',
+        error: `Insufficient balance. Required: ${ethers.formatEther(totalRequired)} ETH, Available: ${ethers.formatEther(balance)} ETH`,
+        details: {
+          balance: ethers.formatEther(balance),
+          required: ethers.formatEther(totalRequired),
+          address: wallet.address,
+        },
+      };
+    }
+  }
+
+  // Execute the trade: sign it first so that the caller can record its hash and nonce before it is broadcast
+  const nonce = await provider.getTransactionCount(wallet.address, 'pending');
+  const request = side === 'buy'
+    ? await factory.buyTokens.populateTransaction(tokenAddress, { value: amountIn, gasLimit: simulation.gasLimit, nonce: nonce })
+    : await factory.sellTokens.populateTransaction(tokenAddress, amountIn, { gasLimit: simulation.gasLimit, nonce: nonce });
+  const signedTx = await wallet.signTransaction(await wallet.populateTransaction(request));
+  const txHash = ethers.Transaction.from(signedTx).hash!;
+
+  if (params.onSigned) {
+    await params.onSigned(txHash, nonce);
+  }
+
+  const tx = await provider.broadcastTransaction(signedTx);
+  const receipt = await tx.wait(1, CONFIRMATION_TIMEOUT_MS);
+  if (!receipt) {
+    throw new Error(`Transaction ${txHash} has no receipt`);
+  }
+
+  return {
+    status: 'filled',
+    txHash: txHash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+    outcome: tradeOutcome(receipt, params, simulation),
+  };
+};
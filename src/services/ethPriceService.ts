@@ -1,101 +1,305 @@
 import axios from 'axios';
+import EthPrice from '../models/EthPrice';
+import { EthPriceSource } from '../types';
+import { EthPriceQuote, getEthPriceProviders } from './ethPriceSources';
+import { getConfiguredChains } from '../config/blockchain';
+import { isChainLeader } from './leaderElection';
 
 interface CachedPrice {
   price: string;
   timestamp: number;
 }
 
+interface SpotPrice {
+  price: string;
+  source: EthPriceSource;
+}
+
 // Cache ETH price for 5 minutes (300000 ms)
 const CACHE_DURATION = 5 * 60 * 1000;
 let cachedPrice: CachedPrice | null = null;
 
+// Quotes last updated longer ago than this are ignored (the slowest Chainlink ETH/USD heartbeat is 1 hour)
+const MAX_QUOTE_AGE_MS = (Number(process.env.ETH_PRICE_MAX_AGE_SECONDS) || 3900) * 1000;
+// Quotes further than this from the median of all quotes are treated as outliers
+const MAX_DEVIATION_PERCENT = Number(process.env.ETH_PRICE_MAX_DEVIATION_PERCENT) || 2;
+// How long the last aggregated price is still served when every source fails or the sources disagree
+const MAX_STALE_CACHE_MS = Number(process.env.ETH_PRICE_MAX_STALE_MS) || 30 * 60 * 1000; // 30 minutes
+
+const SAMPLE_INTERVAL_MS = Number(process.env.ETH_PRICE_SAMPLE_INTERVAL_MS) || 5 * 60 * 1000; // 5 minutes
+// Samples further than this from a timestamp are not used to price it
+const MAX_SAMPLE_GAP_MS = Number(process.env.ETH_PRICE_MAX_SAMPLE_GAP_MS) || 60 * 60 * 1000; // 1 hour
+// History is backfilled in windows of this size (CoinGecko returns 5-minute prices for ranges under a day)
+const HISTORY_WINDOW_MS = 12 * 60 * 60 * 1000;
+// A window whose backfill failed is retried after this long
+const HISTORY_RETRY_MS = 10 * 60 * 1000;
+
+let sampleInterval: NodeJS.Timeout | null = null;
+
+// History windows (start time) being fetched, and when a fetch last failed
+const historyFetches = new Map<number, Promise<boolean>>();
+const failedHistoryWindows = new Map<number, number>();
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
 /**
- * Fetches the current ETH price in USD from Alchemy API
+ * Queries every configured price source and aggregates the usable quotes:
+ * stale and invalid quotes are dropped, then the median of the quotes that agree with each other
+ * is taken. Without a majority within the deviation limit no source can be trusted and there is no
+ * spot price (getEthPriceUSD then serves the cached price while it is fresh enough).
+ */
+async function fetchSpotPrice(): Promise<SpotPrice | null> {
+  const providers = getEthPriceProviders();
+  const results = await Promise.allSettled(providers.map((provider) => provider.fetchQuote()));
+
+  const quotes: EthPriceQuote[] = [];
+  results.forEach((result, i) => {
+    const name = providers[i].name;
+    if (result.status === 'rejected') {
+      console.error(`❌ Error fetching ETH price from ${name}:`, result.reason?.message || result.reason);
+      return;
+    }
+    const quote = result.value;
+    if (!isFinite(quote.price) || quote.price <= 0) {
+      console.error(`❌ Invalid ETH price from ${name}: ${quote.price}`);
+      return;
+    }
+    if (Date.now() - quote.updatedAt.getTime() > MAX_QUOTE_AGE_MS) {
+      console.error(`⚠️ Ignoring stale ETH price from ${name} (last updated ${quote.updatedAt.toISOString()})`);
+      return;
+    }
+    quotes.push(quote);
+  });
+
+  if (quotes.length === 0) {
+    return null;
+  }
+
+  const midpoint = median(quotes.map((quote) => quote.price));
+  const agreeing = quotes.filter((quote) => (Math.abs(quote.price - midpoint) / midpoint) * 100 <= MAX_DEVIATION_PERCENT);
+  if (agreeing.length * 2 <= quotes.length) {
+    console.error(
+      `⚠️ ETH price sources disagree (${quotes.map((quote) => `${quote.source}=${quote.price}`).join(', ')}), no spot price`
+    );
+    return null;
+  }
+
+  for (const outlier of quotes.filter((quote) => !agreeing.includes(quote))) {
+    console.error(`⚠️ Ignoring ETH price from ${outlier.source} (${outlier.price}), more than ${MAX_DEVIATION_PERCENT}% from the median ${midpoint}`);
+  }
+  return {
+    price: median(agreeing.map((quote) => quote.price)).toString(),
+    source: agreeing.length === 1 ? agreeing[0].source : 'median',
+  };
+}
+
+/**
+ * Stores a fresh spot price in the cache and the price series
+ */
+function recordSpotPrice(spot: SpotPrice): void {
+  const now = Date.now();
+  cachedPrice = {
+    price: spot.price,
+    timestamp: now
+  };
+  EthPrice.updateOne(
+    { timestamp: new Date(now) },
+    { $setOnInsert: { price: spot.price, source: spot.source } },
+    { upsert: true }
+  ).catch((error: any) => {
+    console.error('❌ Error storing ETH price sample:', error.message);
+  });
+}
+
+/**
+ * Fetches the current ETH price in USD from the configured price sources (see ethPriceSources.ts)
  * Uses caching to reduce API calls (5-minute cache)
- * Falls back to CoinGecko if Alchemy fails
- * 
- * @returns Promise<string> ETH price in USD as a string
+ *
+ * @returns Promise<string | null> ETH price in USD as a string, null when no source has a usable price
+ * (callers must treat USD values as unavailable rather than zero)
  */
-export async function getEthPriceUSD(): Promise<string> {
+export async function getEthPriceUSD(): Promise<string | null> {
   // Check cache first
   if (cachedPrice && Date.now() - cachedPrice.timestamp < CACHE_DURATION) {
     return cachedPrice.price;
   }
 
-  const alchemyApiKey = process.env.ALCHEMY_API_KEY;
-  
-  // Try Alchemy API first
-  if (alchemyApiKey) {
-    try {
-      const response = await axios.get(
-        'https://api.g.alchemy.com/prices/v1/tokens/by-symbol',
-        {
-          params: {
-            symbols: 'ETH'
-          },
-          headers: {
-            'Authorization': `Bearer ${alchemyApiKey}`
-          },
-          timeout: 5000 // 5 second timeout
-        }
-      );
-
-      if (response.data?.data?.[0]?.prices) {
-        const usdPrice = response.data.data[0].prices.find(
-          (p: any) => p.currency === 'USD'
-        );
-        
-        if (usdPrice?.value) {
-          const price = usdPrice.value.toString();
-          // Update cache
-          cachedPrice = {
-            price,
-            timestamp: Date.now()
-          };
-          return price;
-        }
-      }
-    } catch (error: any) {
-      console.error('❌ Error fetching ETH price from Alchemy:', error.message);
-      // Fall through to CoinGecko fallback
-    }
+  const spot = await fetchSpotPrice();
+  if (spot) {
+    recordSpotPrice(spot);
+    return spot.price;
+  }
+
+  // If every source fails (or they disagree), serve the last price for a limited time
+  if (cachedPrice && Date.now() - cachedPrice.timestamp < MAX_STALE_CACHE_MS) {
+    console.error('⚠️ Using stale cached ETH price, no usable price from the sources');
+    return cachedPrice.price;
+  }
+
+  console.error('❌ No ETH price source available, USD values are unavailable');
+  return null;
+}
+
+/**
+ * Price at a time from the stored samples: interpolated between the neighbouring samples,
+ * or the nearest one when only one side is close enough
+ */
+async function getSampledPriceAt(time: number): Promise<string | null> {
+  const [before, after] = await Promise.all([
+    EthPrice.findOne({ timestamp: { $lte: new Date(time), $gte: new Date(time - MAX_SAMPLE_GAP_MS) } })
+      .sort({ timestamp: -1 })
+      .lean(),
+    EthPrice.findOne({ timestamp: { $gt: new Date(time), $lte: new Date(time + MAX_SAMPLE_GAP_MS) } })
+      .sort({ timestamp: 1 })
+      .lean(),
+  ]);
+
+  if (before && after) {
+    const beforeTime = before.timestamp.getTime();
+    const weight = (time - beforeTime) / (after.timestamp.getTime() - beforeTime);
+    const beforePrice = parseFloat(before.price);
+    return (beforePrice + (parseFloat(after.price) - beforePrice) * weight).toString();
+  }
+  return before?.price || after?.price || null;
+}
+
+/**
+ * Backfills the price history around a time from CoinGecko (one window per call, deduplicated)
+ */
+async function backfillHistory(time: number): Promise<boolean> {
+  const windowStart = Math.floor(time / HISTORY_WINDOW_MS) * HISTORY_WINDOW_MS;
+  const failedAt = failedHistoryWindows.get(windowStart);
+  if (failedAt && Date.now() - failedAt < HISTORY_RETRY_MS) {
+    return false;
   }
 
-  // Fallback to CoinGecko API
+  let pending = historyFetches.get(windowStart);
+  if (!pending) {
+    pending = fetchHistoryWindow(windowStart).finally(() => {
+      historyFetches.delete(windowStart);
+    });
+    historyFetches.set(windowStart, pending);
+  }
+  return pending;
+}
+
+async function fetchHistoryWindow(windowStart: number): Promise<boolean> {
+  // Overlap the neighbouring windows so timestamps near the edges have samples on both sides
+  const from = windowStart - MAX_SAMPLE_GAP_MS;
+  const to = Math.min(windowStart + HISTORY_WINDOW_MS + MAX_SAMPLE_GAP_MS, Date.now());
+
   try {
     const response = await axios.get(
-      'https://api.coingecko.com/api/v3/simple/price',
+      'https://api.coingecko.com/api/v3/coins/ethereum/market_chart/range',
       {
         params: {
-          ids: 'ethereum',
-          vs_currencies: 'usd'
+          vs_currency: 'usd',
+          from: Math.floor(from / 1000),
+          to: Math.floor(to / 1000)
         },
-        timeout: 5000
+        timeout: 10000
       }
     );
 
-    if (response.data?.ethereum?.usd) {
-      const price = response.data.ethereum.usd.toString();
-      // Update cache
-      cachedPrice = {
-        price,
-        timestamp: Date.now()
-      };
-      return price;
+    const prices: [number, number][] = response.data?.prices || [];
+    if (prices.length === 0) {
+      failedHistoryWindows.set(windowStart, Date.now());
+      return false;
     }
+
+    await EthPrice.bulkWrite(
+      prices.map(([timestamp, price]) => ({
+        updateOne: {
+          filter: { timestamp: new Date(timestamp) },
+          update: { $setOnInsert: { price: price.toString(), source: 'coingecko-history' } },
+          upsert: true
+        }
+      })),
+      { ordered: false }
+    );
+    failedHistoryWindows.delete(windowStart);
+    return true;
   } catch (error: any) {
-    console.error('❌ Error fetching ETH price from CoinGecko:', error.message);
+    console.error('❌ Error fetching ETH price history from CoinGecko:', error.message);
+    failedHistoryWindows.set(windowStart, Date.now());
+    return false;
   }
+}
 
-  // If both fail, return last cached price or default
-  if (cachedPrice) {
-    console.error('⚠️ Using stale cached ETH price due to API failures');
-    return cachedPrice.price;
+/**
+ * ETH price in USD at a point in time (e.g. a block timestamp)
+ * Recent timestamps use the spot price; older ones are interpolated from the stored price series,
+ * which is backfilled from CoinGecko when it has no samples near the timestamp
+ *
+ * @returns Promise<string | null> ETH price in USD as a string, null when no price is known for the time
+ */
+export async function getEthPriceAt(timestamp: Date): Promise<string | null> {
+  const time = timestamp.getTime();
+  // A fixed stand-in price (development) applies to every point in time
+  if (Date.now() - time < CACHE_DURATION || getEthPriceProviders()[0]?.name === 'fixed') {
+    const spot = await getEthPriceUSD();
+    if (spot) {
+      return spot;
+    }
+  }
+
+  const sampled = await getSampledPriceAt(time);
+  if (sampled) {
+    return sampled;
   }
 
-  // Last resort: return a default price (should rarely happen)
-  console.error('❌ All ETH price APIs failed, using default price');
-  return '3000'; // Default fallback price
+  if (await backfillHistory(time)) {
+    const backfilled = await getSampledPriceAt(time);
+    if (backfilled) {
+      return backfilled;
+    }
+  }
+
+  console.error(`❌ No ETH price available for ${timestamp.toISOString()}, USD values are unavailable`);
+  return null;
+}
+
+/**
+ * Sample the spot price into the price series (on the leader of the first configured chain only)
+ */
+async function sampleEthPrice(): Promise<void> {
+  const chains = getConfiguredChains();
+  if (chains.length === 0 || !isChainLeader(chains[0])) {
+    return;
+  }
+
+  const spot = await fetchSpotPrice();
+  if (spot) {
+    recordSpotPrice(spot);
+  }
+}
+
+/**
+ * Start sampling the ETH price on a schedule
+ */
+export function startEthPriceSampler(): void {
+  if (sampleInterval) {
+    return;
+  }
+  sampleInterval = setInterval(() => {
+    sampleEthPrice().catch((error: any) => {
+      console.error('❌ Error sampling ETH price:', error.message);
+    });
+  }, SAMPLE_INTERVAL_MS);
+}
+
+/**
+ * Stop sampling the ETH price
+ */
+export function stopEthPriceSampler(): void {
+  if (sampleInterval) {
+    clearInterval(sampleInterval);
+    sampleInterval = null;
+  }
 }
 
 /**
@@ -103,6 +307,5 @@ export async function getEthPriceUSD(): Promise<string> {
  */
 export function clearEthPriceCache(): void {
   cachedPrice = null;
+  failedHistoryWindows.clear();
 }
-
-
@@ -0,0 +1,167 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+import AggregatorABI from '../config/abi/ChainlinkAggregatorV3.json';
+import { EthPriceSource } from '../types';
+import { getChainConfig, getSupportedChainIds } from '../config/chains';
+import { getProvider } from '../config/blockchain';
+import { getFixtureScenario } from '../config/fixtureChain';
+
+export type LiveEthPriceSource = Exclude<EthPriceSource, 'median' | 'coingecko-history'>;
+
+export interface EthPriceQuote {
+  source: LiveEthPriceSource;
+  price: number;
+  // When the source last updated the price (used for staleness checks)
+  updatedAt: Date;
+}
+
+export interface EthPriceProvider {
+  name: LiveEthPriceSource;
+  // Resolves with the source's current quote, rejects when the source can't provide one
+  fetchQuote(): Promise<EthPriceQuote>;
+}
+
+const DEFAULT_SOURCES: LiveEthPriceSource[] = ['chainlink', 'alchemy', 'coingecko'];
+
+// Decimals of the Chainlink aggregator per chain (fixed per feed)
+const feedDecimals = new Map<number, number>();
+
+/**
+ * Chain whose Chainlink ETH/USD feed is read: ETH_PRICE_CHAINLINK_CHAIN_ID, or the first mainnet
+ * (then testnet) registry chain with a feed and an RPC URL. Fixture chains have no feeds.
+ */
+const getChainlinkChainId = (): number | null => {
+  const configured = Number(process.env.ETH_PRICE_CHAINLINK_CHAIN_ID);
+  const candidates = Number.isInteger(configured) && configured > 0 ? [configured] : getSupportedChainIds();
+
+  const usable = candidates
+    .map((chainId) => getChainConfig(chainId))
+    .filter((config) => config?.ethUsdFeedAddress && config.rpcUrl && !getFixtureScenario(config.chainId));
+  const chain = usable.find((config) => !config!.testnet) || usable[0];
+  return chain ? chain.chainId : null;
+};
+
+const chainlinkProvider: EthPriceProvider = {
+  name: 'chainlink',
+  async fetchQuote() {
+    const chainId = getChainlinkChainId();
+    if (chainId === null) {
+      throw new Error('No chain with a Chainlink ETH/USD feed and an RPC URL');
+    }
+
+    const aggregator = new ethers.Contract(getChainConfig(chainId)!.ethUsdFeedAddress!, AggregatorABI, getProvider(chainId));
+    let decimals = feedDecimals.get(chainId);
+    if (decimals === undefined) {
+      decimals = Number(await aggregator.decimals());
+      feedDecimals.set(chainId, decimals);
+    }
+
+    const [, answer, , updatedAt] = await aggregator.latestRoundData();
+    if (answer <= 0n) {
+      throw new Error(`Chainlink feed on chain ${chainId} returned a non-positive answer`);
+    }
+    return {
+      source: 'chainlink',
+      price: parseFloat(ethers.formatUnits(answer, decimals)),
+      updatedAt: new Date(Number(updatedAt) * 1000),
+    };
+  },
+};
+
+const alchemyProvider: EthPriceProvider = {
+  name: 'alchemy',
+  async fetchQuote() {
+    const alchemyApiKey = process.env.ALCHEMY_API_KEY;
+    if (!alchemyApiKey) {
+      throw new Error('ALCHEMY_API_KEY is not set');
+    }
+
+    const response = await axios.get(
+      'https://api.g.alchemy.com/prices/v1/tokens/by-symbol',
+      {
+        params: {
+          symbols: 'ETH'
+        },
+        headers: {
+          'Authorization': `Bearer ${alchemyApiKey}`
+        },
+        timeout: 5000 // 5 second timeout
+      }
+    );
+
+    const usdPrice = response.data?.data?.[0]?.prices?.find((p: any) => p.currency === 'USD');
+    if (!usdPrice?.value) {
+      throw new Error('No USD price in Alchemy response');
+    }
+    return {
+      source: 'alchemy',
+      price: parseFloat(usdPrice.value),
+      updatedAt: usdPrice.lastUpdatedAt ? new Date(usdPrice.lastUpdatedAt) : new Date(),
+    };
+  },
+};
+
+const coingeckoProvider: EthPriceProvider = {
+  name: 'coingecko',
+  async fetchQuote() {
+    const response = await axios.get(
+      'https://api.coingecko.com/api/v3/simple/price',
+      {
+        params: {
+          ids: 'ethereum',
+          vs_currencies: 'usd',
+          include_last_updated_at: true
+        },
+        timeout: 5000
+      }
+    );
+
+    const ethereum = response.data?.ethereum;
+    if (!ethereum?.usd) {
+      throw new Error('No USD price in CoinGecko response');
+    }
+    return {
+      source: 'coingecko',
+      price: parseFloat(ethereum.usd),
+      updatedAt: ethereum.last_updated_at ? new Date(ethereum.last_updated_at * 1000) : new Date(),
+    };
+  },
+};
+
+// Local stand-in for development and fixture runs (ETH_PRICE_FIXED_USD)
+const fixedProvider: EthPriceProvider = {
+  name: 'fixed',
+  async fetchQuote() {
+    const price = parseFloat(process.env.ETH_PRICE_FIXED_USD || '');
+    if (!(price > 0)) {
+      throw new Error('ETH_PRICE_FIXED_USD is not set to a positive number');
+    }
+    return { source: 'fixed', price, updatedAt: new Date() };
+  },
+};
+
+const providers: Record<LiveEthPriceSource, EthPriceProvider> = {
+  chainlink: chainlinkProvider,
+  alchemy: alchemyProvider,
+  coingecko: coingeckoProvider,
+  fixed: fixedProvider,
+};
+
+/**
+ * Price sources in priority order: ETH_PRICE_SOURCES (comma-separated), or chainlink, alchemy, coingecko
+ */
+export const getEthPriceProviders = (): EthPriceProvider[] => {
+  const configured = (process.env.ETH_PRICE_SOURCES || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const names = configured.length > 0 ? configured : DEFAULT_SOURCES;
+  return names.map((name) => {
+    const provider = providers[name as LiveEthPriceSource];
+    if (!provider) {
+      throw new Error(`Unknown ETH price source "${name}" in ETH_PRICE_SOURCES`);
+    }
+    return provider;
+  });
+};
@@ -0,0 +1,178 @@
+import { ethers } from 'ethers';
+import FeePayment from '../models/FeePayment';
+import Token from '../models/Token';
+
+export type FeePeriod = 'day' | 'week' | 'month';
+type FeeType = 'creator' | 'dev' | 'marketing';
+
+export interface FeeTotal {
+  amount: string; // wei
+  amountEth: string;
+  amountUSD: string;
+  count: number;
+}
+
+export interface FeeBreakdown {
+  creator: FeeTotal;
+  dev: FeeTotal;
+  marketing: FeeTotal;
+  total: FeeTotal;
+}
+
+interface FeeFilter {
+  chainId?: number;
+  from?: Date;
+  to?: Date;
+}
+
+// Decimal128 sums can come back in exponent form (e.g. 1.5E+18) - expand to a plain integer string
+const toWeiString = (value: any): string => {
+  const str = value?.toString() || '0';
+  if (!/e/i.test(str)) {
+    return str.split('.')[0] || '0';
+  }
+  const [mantissa, exponent] = str.toUpperCase().split('E');
+  const [intPart, fracPart = ''] = mantissa.split('.');
+  const shift = parseInt(exponent, 10) - fracPart.length;
+  const digits = intPart + fracPart;
+  return shift >= 0 ? digits + '0'.repeat(shift) : digits.slice(0, shift) || '0';
+};
+
+const emptyTotal = (): FeeTotal => ({ amount: '0', amountEth: '0.0', amountUSD: '0', count: 0 });
+
+const emptyBreakdown = (): FeeBreakdown => ({
+  creator: emptyTotal(),
+  dev: emptyTotal(),
+  marketing: emptyTotal(),
+  total: emptyTotal(),
+});
+
+// Add an aggregated row into a breakdown (per fee type plus the running total)
+const addToBreakdown = (breakdown: FeeBreakdown, feeType: FeeType, amount: string, amountUSD: number, count: number): void => {
+  for (const key of [feeType, 'total'] as const) {
+    const entry = breakdown[key];
+    const wei = BigInt(entry.amount) + BigInt(amount);
+    entry.amount = wei.toString();
+    entry.amountEth = ethers.formatEther(wei);
+    entry.amountUSD = (parseFloat(entry.amountUSD) + amountUSD).toString();
+    entry.count += count;
+  }
+};
+
+const buildMatch = (base: Record<string, any>, filter: FeeFilter): Record<string, any> => {
+  const match: Record<string, any> = { ...base };
+  if (filter.chainId) {
+    match.chainId = filter.chainId;
+  }
+  if (filter.from || filter.to) {
+    match.blockTimestamp = {};
+    if (filter.from) match.blockTimestamp.$gte = filter.from;
+    if (filter.to) match.blockTimestamp.$lte = filter.to;
+  }
+  return match;
+};
+
+// Aggregate fees grouped by fee type and period bucket
+const aggregateByPeriod = async (match: Record<string, any>, period: FeePeriod) => {
+  const rows = await FeePayment.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: {
+          feeType: '$feeType',
+          periodStart: { $dateTrunc: { date: '$blockTimestamp', unit: period } },
+        },
+        amount: { $sum: { $toDecimal: '$amount' } },
+        amountUSD: { $sum: { $toDouble: '$amountUSD' } },
+        count: { $sum: 1 },
+      },
+    },
+    { $sort: { '_id.periodStart': 1 } },
+  ]);
+
+  const totals = emptyBreakdown();
+  const periods = new Map<number, { periodStart: Date } & FeeBreakdown>();
+
+  for (const row of rows) {
+    const amount = toWeiString(row.amount);
+    const periodStart: Date = row._id.periodStart;
+    const bucket = periods.get(periodStart.getTime()) || { periodStart, ...emptyBreakdown() };
+    addToBreakdown(bucket, row._id.feeType, amount, row.amountUSD || 0, row.count);
+    addToBreakdown(totals, row._id.feeType, amount, row.amountUSD || 0, row.count);
+    periods.set(periodStart.getTime(), bucket);
+  }
+
+  return { totals, periods: Array.from(periods.values()) };
+};
+
+/**
+ * Fee totals for a token (all fee types), overall and per period
+ */
+export const getTokenFeeSummary = async (
+  tokenAddress: string,
+  period: FeePeriod,
+  filter: FeeFilter = {}
+) => {
+  const match = buildMatch({ tokenAddress: tokenAddress.toLowerCase() }, filter);
+  return aggregateByPeriod(match, period);
+};
+
+/**
+ * Creator fee earnings for a wallet: overall, per token and per period
+ */
+export const getCreatorEarnings = async (
+  creatorAddress: string,
+  period: FeePeriod,
+  filter: FeeFilter = {}
+) => {
+  const match = buildMatch({ recipientAddress: creatorAddress.toLowerCase(), feeType: 'creator' }, filter);
+
+  const [{ totals, periods }, tokenRows] = await Promise.all([
+    aggregateByPeriod(match, period),
+    FeePayment.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: { tokenAddress: '$tokenAddress', chainId: '$chainId' },
+          amount: { $sum: { $toDecimal: '$amount' } },
+          amountUSD: { $sum: { $toDouble: '$amountUSD' } },
+          count: { $sum: 1 },
+          lastPaidAt: { $max: '$blockTimestamp' },
+        },
+      },
+    ]),
+  ]);
+
+  // Attach token name/symbol/logo for display
+  const tokens = await Token.find({
+    address: { $in: tokenRows.map((row) => row._id.tokenAddress) }
+  })
+    .select('address chainId name symbol logo')
+    .lean();
+  const tokenInfo = new Map(tokens.map((token) => [`${token.address}:${token.chainId}`, token]));
+
+  const perToken = tokenRows
+    .map((row) => {
+      const amount = toWeiString(row.amount);
+      const info = tokenInfo.get(`${row._id.tokenAddress}:${row._id.chainId}`);
+      return {
+        tokenAddress: row._id.tokenAddress,
+        chainId: row._id.chainId,
+        name: info?.name || '',
+        symbol: info?.symbol || '',
+        logo: info?.logo || '',
+        amount: amount,
+        amountEth: ethers.formatEther(amount),
+        amountUSD: (row.amountUSD || 0).toString(),
+        count: row.count,
+        lastPaidAt: row.lastPaidAt,
+      };
+    })
+    .sort((a, b) => (BigInt(b.amount) > BigInt(a.amount) ? 1 : BigInt(b.amount) < BigInt(a.amount) ? -1 : 0));
+
+  return {
+    totals: totals.creator,
+    tokens: perToken,
+    periods: periods.map((bucket) => ({ periodStart: bucket.periodStart, ...bucket.creator })),
+  };
+};
@@ -0,0 +1,258 @@
+import { ethers } from 'ethers';
+import Token from '../models/Token';
+import TokenHolder from '../models/TokenHolder';
+import Transaction from '../models/Transaction';
+import HolderDiscrepancy from '../models/HolderDiscrepancy';
+import { IToken } from '../types';
+import { getProvider, getConfiguredChains, tokenInterface } from '../config/blockchain';
+import { recalculatePercentages } from '../sync/handler';
+import { getLastProcessedBlock, isBackfillRunning } from '../sync/checkpoint';
+import { isReorgRecoveryRunning } from '../sync/reorg';
+import { isReindexRunning } from '../sync/reindex';
+import { isChainLeader } from './leaderElection';
+
+const RECONCILIATION_INTERVAL_MS = Number(process.env.HOLDER_RECONCILIATION_INTERVAL_MS) || 10 * 60 * 1000; // 10 minutes
+const TOKENS_PER_RUN = Number(process.env.HOLDER_RECONCILIATION_TOKENS_PER_RUN) || 20;
+const SAMPLE_SIZE = Number(process.env.HOLDER_RECONCILIATION_SAMPLE_SIZE) || 25;
+
+const reconciliationIntervals = new Map<number, NodeJS.Timeout>();
+
+// Chains with a reconciliation run in progress
+const activeRuns = new Set<number>();
+
+export interface ReconciliationSummary {
+  tokenAddress: string;
+  chainId: number;
+  blockNumber: number;
+  sampled: number;
+  skipped: number;
+  mismatches: number;
+  corrected: number;
+}
+
+/**
+ * Compare a random sample of a token's holder rows with balanceOf at a fully ingested block and correct mismatches.
+ * Holders touched by transactions after that block are skipped, since their stored balance is legitimately ahead.
+ */
+export const reconcileTokenHolders = async (
+  token: IToken,
+  blockNumber: number,
+  sampleSize: number = SAMPLE_SIZE
+): Promise<ReconciliationSummary> => {
+  const chainId = token.chainId;
+  const tokenAddress = token.address.toLowerCase();
+  const summary: ReconciliationSummary = {
+    tokenAddress,
+    chainId,
+    blockNumber,
+    sampled: 0,
+    skipped: 0,
+    mismatches: 0,
+    corrected: 0,
+  };
+
+  const holders = await TokenHolder.aggregate([
+    { $match: { tokenAddress: tokenAddress, chainId: chainId } },
+    { $sample: { size: sampleSize } },
+    { $project: { holderAddress: 1, balance: 1 } },
+  ]);
+  if (holders.length === 0) {
+    await Token.updateOne({ _id: token._id }, { $set: { holdersReconciledAt: new Date() } });
+    return summary;
+  }
+
+  // Holders with newer activity than the comparison block
+  const newerTransactions = await Transaction.find({
+    tokenAddress: tokenAddress,
+    chainId: chainId,
+    blockNumber: { $gt: blockNumber }
+  })
+    .select('senderAddress recipientAddress')
+    .lean();
+  const recentlyActive = new Set<string>();
+  for (const tx of newerTransactions) {
+    recentlyActive.add(tx.senderAddress.toLowerCase());
+    recentlyActive.add(tx.recipientAddress.toLowerCase());
+  }
+
+  const tokenContract = new ethers.Contract(tokenAddress, tokenInterface, getProvider(chainId));
+  let changed = false;
+
+  for (const holder of holders) {
+    if (recentlyActive.has(holder.holderAddress)) {
+      summary.skipped++;
+      continue;
+    }
+
+    let onChainBalance: bigint;
+    try {
+      onChainBalance = BigInt((await tokenContract.balanceOf(holder.holderAddress, { blockTag: blockNumber })).toString());
+    } catch (error: any) {
+      console.error(`❌ Error reading balanceOf(${holder.holderAddress}) for ${tokenAddress} on chain ${chainId}:`, error.message);
+      summary.skipped++;
+      continue;
+    }
+    summary.sampled++;
+
+    const storedBalance = BigInt(holder.balance || '0');
+    if (storedBalance === onChainBalance) {
+      continue;
+    }
+    summary.mismatches++;
+
+    // Only overwrite the row if no event updated it while we were reading the chain
+    let corrected: boolean;
+    if (onChainBalance > 0n) {
+      const result = await TokenHolder.updateOne(
+        { _id: holder._id, balance: holder.balance },
+        { $set: { balance: onChainBalance.toString(), updatedAt: new Date() } }
+      );
+      corrected = result.modifiedCount > 0;
+    } else {
+      const result = await TokenHolder.deleteOne({ _id: holder._id, balance: holder.balance });
+      corrected = result.deletedCount > 0;
+    }
+    if (corrected) {
+      summary.corrected++;
+      changed = true;
+    }
+
+    await HolderDiscrepancy.create({
+      tokenId: token._id,
+      tokenAddress: tokenAddress,
+      holderAddress: holder.holderAddress,
+      storedBalance: storedBalance.toString(),
+      onChainBalance: onChainBalance.toString(),
+      difference: (onChainBalance - storedBalance).toString(),
+      blockNumber: blockNumber,
+      corrected: corrected,
+      chainId: chainId,
+    });
+    console.warn(
+      `⚠️ Holder balance mismatch for ${holder.holderAddress} on ${tokenAddress} (chain ${chainId}): ` +
+      `stored ${storedBalance}, on-chain ${onChainBalance}${corrected ? ' - corrected' : ''}`
+    );
+  }
+
+  if (changed) {
+    await recalculatePercentages(tokenAddress, token.totalSupply || '0', chainId);
+  }
+  await Token.updateOne({ _id: token._id }, { $set: { holdersReconciledAt: new Date() } });
+
+  return summary;
+};
+
+/**
+ * Reconcile the tokens of a chain that were checked least recently
+ */
+const reconcileChain = async (chainId: number): Promise<void> => {
+  // Only the instance ingesting the chain corrects its holder rows
+  if (activeRuns.has(chainId) || !isChainLeader(chainId)) {
+    return;
+  }
+  // Holder rows are being rewritten - comparing now would report false mismatches
+  if (isBackfillRunning(chainId) || isReorgRecoveryRunning(chainId) || isReindexRunning(chainId)) {
+    return;
+  }
+  activeRuns.add(chainId);
+
+  try {
+    // Compare at the last block whose events are fully ingested
+    const [lastProcessedBlock, headBlock] = await Promise.all([
+      getLastProcessedBlock(chainId),
+      getProvider(chainId).getBlockNumber(),
+    ]);
+    if (lastProcessedBlock === null) {
+      return;
+    }
+    const blockNumber = Math.min(lastProcessedBlock, headBlock);
+
+    const tokens = await Token.find({ chainId: chainId })
+      .sort({ holdersReconciledAt: 1 })
+      .limit(TOKENS_PER_RUN);
+
+    for (const token of tokens) {
+      try {
+        await reconcileTokenHolders(token, blockNumber);
+      } catch (error: any) {
+        console.error(`❌ Error reconciling holders for ${token.address} on chain ${chainId}:`, error.message);
+      }
+    }
+  } catch (error: any) {
+    console.error(`❌ Error running holder reconciliation for chain ${chainId}:`, error.message);
+  } finally {
+    activeRuns.delete(chainId);
+  }
+};
+
+/**
+ * Start the periodic holder reconciliation for all configured chains
+ */
+export const startHolderReconciliation = (): void => {
+  for (const chainId of getConfiguredChains()) {
+    if (reconciliationIntervals.has(chainId)) {
+      continue;
+    }
+    reconciliationIntervals.set(chainId, setInterval(() => {
+      reconcileChain(chainId);
+    }, RECONCILIATION_INTERVAL_MS));
+  }
+};
+
+/**
+ * Stop the periodic holder reconciliation
+ */
+export const stopHolderReconciliation = (): void => {
+  for (const interval of reconciliationIntervals.values()) {
+    clearInterval(interval);
+  }
+  reconciliationIntervals.clear();
+};
+
+/**
+ * Reconciliation report for a token: discrepancy totals and the most recent discrepancies
+ */
+export const getReconciliationReport = async (
+  token: IToken,
+  page: number,
+  pageSize: number
+) => {
+  const filter = { tokenAddress: token.address.toLowerCase(), chainId: token.chainId };
+
+  const [totals, discrepancies, totalCount] = await Promise.all([
+    HolderDiscrepancy.aggregate([
+      { $match: filter },
+      {
+        $group: {
+          _id: null,
+          total: { $sum: 1 },
+          corrected: { $sum: { $cond: ['$corrected', 1, 0] } },
+          holders: { $addToSet: '$holderAddress' },
+          lastDetectedAt: { $max: '$createdAt' },
+        },
+      },
+    ]),
+    HolderDiscrepancy.find(filter)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * pageSize)
+      .limit(pageSize)
+      .select('-__v -tokenId')
+      .lean(),
+    HolderDiscrepancy.countDocuments(filter),
+  ]);
+
+  const summary = totals[0];
+  return {
+    tokenAddress: filter.tokenAddress,
+    chainId: filter.chainId,
+    lastReconciledAt: token.holdersReconciledAt,
+    totalDiscrepancies: summary?.total || 0,
+    correctedDiscrepancies: summary?.corrected || 0,
+    affectedHolders: summary?.holders.length || 0,
+    lastDetectedAt: summary?.lastDetectedAt || null,
+    discrepancies,
+    totalCount,
+    currentPage: page,
+    totalPages: Math.ceil(totalCount / pageSize),
+  };
+};
@@ -0,0 +1,219 @@
+import os from 'os';
+import crypto from 'crypto';
+import LeaderLease from '../models/LeaderLease';
+import { getConfiguredChains } from '../config/blockchain';
+
+const LEASE_TTL_MS = Number(process.env.LEADER_LEASE_TTL_MS) || 30000; // 30 seconds
+const RENEW_INTERVAL_MS = Number(process.env.LEADER_LEASE_RENEW_INTERVAL_MS) || 10000; // 10 seconds
+
+// Identifies this process in the lease collection (pid alone is not unique across containers)
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+export interface LeaderCallbacks {
+  // Start the per-chain work this instance now owns
+  onAcquire: (chainId: number) => void | Promise<void>;
+  // Stop it again (lease lost or shutting down)
+  onRelease: (chainId: number) => void | Promise<void>;
+}
+
+export interface ChainLeaderStatus {
+  chainId: number;
+  leader: {
+    holderId: string;
+    hostname: string;
+    pid: number;
+    acquiredAt: Date;
+    renewedAt: Date;
+    expiresAt: Date;
+  } | null;
+  expired: boolean;
+  isSelf: boolean;
+}
+
+// Chains this instance leads, with the time (ms) until which its last renewal is known to be valid
+const heldLeases = new Map<number, number>();
+let electionInterval: NodeJS.Timeout | null = null;
+let leaderCallbacks: LeaderCallbacks | null = null;
+let electionRunning = false;
+
+/**
+ * Renew our lease on a chain, or take it over if it is free or expired.
+ * Returns false while another instance holds a live lease.
+ */
+const tryAcquireLease = async (chainId: number): Promise<boolean> => {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + LEASE_TTL_MS);
+
+  const renewed = await LeaderLease.updateOne(
+    { chainId: chainId, holderId: INSTANCE_ID },
+    { $set: { renewedAt: now, expiresAt: expiresAt, updatedAt: now } }
+  );
+  if (renewed.matchedCount > 0) {
+    return true;
+  }
+
+  // A live lease of another instance doesn't match the filter, so the upsert collides with the unique chainId index
+  try {
+    await LeaderLease.updateOne(
+      { chainId: chainId, expiresAt: { $lte: now } },
+      {
+        $set: {
+          holderId: INSTANCE_ID,
+          hostname: os.hostname(),
+          pid: process.pid,
+          acquiredAt: now,
+          renewedAt: now,
+          expiresAt: expiresAt,
+          updatedAt: now,
+        },
+      },
+      { upsert: true }
+    );
+    return true;
+  } catch (error: any) {
+    if (error.code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+const becomeLeader = async (chainId: number): Promise<void> => {
+  console.log(`👑 Acquired leader lease for chain ${chainId} (${INSTANCE_ID})`);
+  try {
+    await leaderCallbacks?.onAcquire(chainId);
+  } catch (error: any) {
+    console.error(`❌ Error starting leader work for chain ${chainId}:`, error.message);
+  }
+};
+
+const stepDown = async (chainId: number): Promise<void> => {
+  console.warn(`⚠️ Lost leader lease for chain ${chainId} (${INSTANCE_ID})`);
+  try {
+    await leaderCallbacks?.onRelease(chainId);
+  } catch (error: any) {
+    console.error(`❌ Error stopping leader work for chain ${chainId}:`, error.message);
+  }
+};
+
+/**
+ * One election round: renew or acquire the lease of every configured chain and start/stop work on changes
+ */
+const runElection = async (): Promise<void> => {
+  if (electionRunning) {
+    return;
+  }
+  electionRunning = true;
+
+  try {
+    for (const chainId of getConfiguredChains()) {
+      const requestedAt = Date.now();
+      let isLeader: boolean;
+      try {
+        isLeader = await tryAcquireLease(chainId);
+      } catch (error: any) {
+        console.error(`❌ Error renewing leader lease for chain ${chainId}:`, error.message);
+        // Mongo unreachable: keep leading only while the last successful renewal is still valid
+        isLeader = (heldLeases.get(chainId) || 0) > Date.now();
+        if (isLeader) {
+          continue;
+        }
+      }
+
+      const wasLeader = heldLeases.has(chainId);
+      if (isLeader) {
+        heldLeases.set(chainId, requestedAt + LEASE_TTL_MS);
+        if (!wasLeader) {
+          await becomeLeader(chainId);
+        }
+      } else if (wasLeader) {
+        heldLeases.delete(chainId);
+        await stepDown(chainId);
+      }
+    }
+  } finally {
+    electionRunning = false;
+  }
+};
+
+/**
+ * Start competing for the per-chain leader leases. Exactly one instance per chain runs the
+ * callbacks' work at a time; when it dies its lease expires and another instance takes over.
+ */
+export const startLeaderElection = async (callbacks: LeaderCallbacks): Promise<void> => {
+  if (electionInterval) {
+    return;
+  }
+  leaderCallbacks = callbacks;
+
+  await runElection();
+  electionInterval = setInterval(() => {
+    runElection().catch((error: any) => {
+      console.error('❌ Error running leader election:', error.message);
+    });
+  }, RENEW_INTERVAL_MS);
+};
+
+/**
+ * Stop the work of every led chain and give up the leases so another instance can take over right away
+ */
+export const stopLeaderElection = async (): Promise<void> => {
+  if (electionInterval) {
+    clearInterval(electionInterval);
+    electionInterval = null;
+  }
+
+  for (const chainId of Array.from(heldLeases.keys())) {
+    heldLeases.delete(chainId);
+    try {
+      await leaderCallbacks?.onRelease(chainId);
+    } catch (error: any) {
+      console.error(`❌ Error stopping leader work for chain ${chainId}:`, error.message);
+    }
+    try {
+      await LeaderLease.updateOne(
+        { chainId: chainId, holderId: INSTANCE_ID },
+        { $set: { expiresAt: new Date(), updatedAt: new Date() } }
+      );
+    } catch (error: any) {
+      console.error(`❌ Error releasing leader lease for chain ${chainId}:`, error.message);
+    }
+  }
+  leaderCallbacks = null;
+};
+
+/**
+ * Returns true if this instance currently owns ingestion and deposit monitoring for the chain
+ */
+export const isChainLeader = (chainId: number): boolean => (heldLeases.get(chainId) || 0) > Date.now();
+
+/**
+ * Current lease holder of every configured chain
+ */
+export const getLeaderStatus = async (): Promise<{ instanceId: string; chains: ChainLeaderStatus[] }> => {
+  const leases = await LeaderLease.find({ chainId: { $in: getConfiguredChains() } }).lean();
+  const leasesByChain = new Map(leases.map((lease) => [lease.chainId, lease]));
+  const now = Date.now();
+
+  return {
+    instanceId: INSTANCE_ID,
+    chains: getConfiguredChains().map((chainId) => {
+      const lease = leasesByChain.get(chainId);
+      return {
+        chainId: chainId,
+        leader: lease
+          ? {
+              holderId: lease.holderId,
+              hostname: lease.hostname,
+              pid: lease.pid,
+              acquiredAt: lease.acquiredAt,
+              renewedAt: lease.renewedAt,
+              expiresAt: lease.expiresAt,
+            }
+          : null,
+        expired: !lease || lease.expiresAt.getTime() <= now,
+        isSelf: !!lease && lease.holderId === INSTANCE_ID && lease.expiresAt.getTime() > now,
+      };
+    }),
+  };
+};
@@ -0,0 +1,413 @@
+import { ethers } from 'ethers';
+import Order from '../models/Order';
+import Token from '../models/Token';
+import User from '../models/User';
+import Transaction from '../models/Transaction';
+import SyncState from '../models/SyncState';
+import { IOrder, OrderType } from '../types';
+import { getConfiguredChains, getContract, getFactoryAddressForChain, getProvider } from '../config/blockchain';
+import { isChainLeader } from './leaderElection';
+import { resolveSlippageBound, readRealizedAmountOut } from './slippageService';
+import { executeEmbeddedTrade, getEmbeddedWallet } from './embeddedTradeService';
+import { emitOrderUpdate } from '../socket/updateEmitter';
+
+const SWEEP_INTERVAL_MS = Number(process.env.ORDER_SWEEP_INTERVAL_MS) || 60 * 1000; // 1 minute
+// Failed attempts (refused or reverted trades) before an order is given up
+const MAX_ATTEMPTS = Number(process.env.ORDER_MAX_ATTEMPTS) || 3;
+// Executions locked longer than this are resolved from their transaction by the sweep
+const STUCK_EXECUTION_MS = 10 * 60 * 1000;
+export const DEFAULT_ORDER_SLIPPAGE_BPS = Number(process.env.ORDER_DEFAULT_SLIPPAGE_BPS) || 200; // 2%
+
+export const ORDER_SIDES: Record<OrderType, 'buy' | 'sell'> = {
+  limit_buy: 'buy',
+  limit_sell: 'sell',
+  stop_loss: 'sell',
+  take_profit: 'sell',
+};
+
+type OrderEvent = Parameters<typeof emitOrderUpdate>[0]['event'];
+
+const sweepIntervals = new Map<number, NodeJS.Timeout>();
+
+// Chains with a sweep in progress
+const activeSweeps = new Set<number>();
+
+// Executions run one at a time per chain (embedded wallet nonces come from the pending count)
+const executionQueues = new Map<number, Promise<void>>();
+
+/**
+ * Whether a curve price (wei per token) has crossed an order's trigger price:
+ * limit buys and stop-losses fire at or below it, limit sells and take-profits at or above it
+ */
+export const isOrderTriggered = (type: OrderType, price: bigint, triggerPrice: bigint): boolean =>
+  type === 'limit_buy' || type === 'stop_loss' ? price <= triggerPrice : price >= triggerPrice;
+
+const toWei = (price: string): bigint | null => {
+  try {
+    return ethers.parseUnits(price, 18);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Notify the order's owner over their socket room
+ */
+export const notifyOrderUpdate = (order: IOrder, event: OrderEvent, error?: string): void => {
+  emitOrderUpdate({
+    userId: order.userId.toString(),
+    orderId: order._id.toString(),
+    event,
+    type: order.type,
+    status: order.status,
+    tokenAddress: order.tokenAddress,
+    chainId: order.chainId,
+    triggerPrice: order.triggerPrice,
+    amount: order.amount,
+    attempts: order.attempts,
+    txHash: order.txHash,
+    simulatedAmountOut: order.simulatedAmountOut,
+    filledAmountOut: order.filledAmountOut,
+    error,
+  });
+};
+
+// Close an order (or put it back for another attempt) after a refused or reverted trade
+const recordFailedAttempt = async (order: IOrder, error: string, retryable = true): Promise<void> => {
+  const final = !retryable || order.attempts >= MAX_ATTEMPTS;
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id, status: 'executing' },
+    {
+      $set: {
+        status: final ? 'failed' : 'open',
+        lastError: error,
+        lockedAt: null,
+        txHash: null,
+        txNonce: null,
+        ...(final ? { closedAt: new Date() } : {}),
+      },
+    },
+    { new: true }
+  );
+  if (updated) {
+    notifyOrderUpdate(updated, final ? 'failed' : 'attemptFailed', error);
+  }
+};
+
+const recordFill = async (order: IOrder, txHash: string, simulatedAmountOut: string | null, filledAmountOut: string | null): Promise<void> => {
+  const now = new Date();
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id, status: 'executing' },
+    {
+      $set: {
+        status: 'filled',
+        txHash: txHash.toLowerCase(),
+        simulatedAmountOut,
+        filledAmountOut,
+        filledAt: now,
+        closedAt: now,
+        lockedAt: null,
+        lastError: '',
+      },
+    },
+    { new: true }
+  );
+  if (updated) {
+    notifyOrderUpdate(updated, 'filled');
+  }
+};
+
+// Current curve price of a token in wei per token, or null when it is no longer on the curve
+const getCurvePrice = async (tokenAddress: string, chainId: number): Promise<bigint | null> => {
+  const curveState = await getContract(chainId).tokens(tokenAddress);
+  const virtualEthReserves = BigInt(curveState.virtualEthReserves.toString());
+  const virtualTokenReserves = BigInt(curveState.virtualTokenReserves.toString());
+  if (!curveState.isActive || curveState.liquidityAdded || virtualTokenReserves === 0n) {
+    return null;
+  }
+  return (virtualEthReserves * 10n ** 18n) / virtualTokenReserves;
+};
+
+/**
+ * Execute a triggered order from its owner's embedded wallet, if the live curve price still crosses the trigger
+ */
+const executeOrder = async (orderId: IOrder['_id'], tradePrice: string): Promise<void> => {
+  const candidate = await Order.findById(orderId);
+  if (!candidate || candidate.status !== 'open') {
+    return;
+  }
+
+  // The trade that triggered the order may be old (catch-up after downtime): check the price now
+  const livePrice = await getCurvePrice(candidate.tokenAddress, candidate.chainId);
+  const triggerPrice = toWei(candidate.triggerPrice);
+  if (livePrice === null || triggerPrice === null || !isOrderTriggered(candidate.type, livePrice, triggerPrice)) {
+    return;
+  }
+
+  const now = new Date();
+  const order = await Order.findOneAndUpdate(
+    { _id: orderId, status: 'open', $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+    {
+      $set: { status: 'executing', lockedAt: now, triggeredAt: now, triggerTradePrice: tradePrice },
+      $inc: { attempts: 1 },
+    },
+    { new: true }
+  );
+  if (!order) {
+    return;
+  }
+  notifyOrderUpdate(order, 'triggered');
+
+  const user = await User.findById(order.userId);
+  if (!user || !user.isActive) {
+    await recordFailedAttempt(order, 'User not found or inactive', false);
+    return;
+  }
+  if (getEmbeddedWallet(user).address.toLowerCase() !== order.walletAddress) {
+    await recordFailedAttempt(order, 'Embedded wallet no longer matches the order', false);
+    return;
+  }
+
+  const amountIn = BigInt(order.amount);
+  const bound = await resolveSlippageBound({
+    side: order.side,
+    tokenAddress: order.tokenAddress,
+    chainId: order.chainId,
+    amountIn,
+    maxSlippageBps: order.maxSlippageBps,
+  });
+  if (typeof bound === 'string') {
+    await recordFailedAttempt(order, bound, false);
+    return;
+  }
+
+  let signed = false;
+  try {
+    const result = await executeEmbeddedTrade({
+      user,
+      side: order.side,
+      tokenAddress: order.tokenAddress,
+      amountIn,
+      chainId: order.chainId,
+      factoryAddress: getFactoryAddressForChain(order.chainId),
+      bound,
+      // Recorded before the broadcast: the sweep can then settle any sent transaction from its hash and nonce
+      onSigned: async (txHash, nonce) => {
+        await Order.updateOne({ _id: order._id }, { $set: { txHash: txHash.toLowerCase(), txNonce: nonce } });
+        signed = true;
+      },
+    });
+
+    if (result.status === 'refused') {
+      await recordFailedAttempt(order, result.error);
+      return;
+    }
+    await recordFill(order, result.txHash, result.outcome.simulated.amountOut, result.outcome.realized.amountOut);
+  } catch (error: any) {
+    if (signed) {
+      // The transaction may have been sent and still be mined (e.g. the broadcast or the wait timed out)
+      // - the sweep settles the order from its hash and nonce
+      console.error(`❌ Error waiting for order ${order._id} transaction on chain ${order.chainId}:`, error.message);
+      return;
+    }
+    await recordFailedAttempt(order, error.shortMessage || error.message);
+  }
+};
+
+const enqueueExecution = (chainId: number, orderId: IOrder['_id'], tradePrice: string): Promise<void> => {
+  const previous = executionQueues.get(chainId) || Promise.resolve();
+  const next = previous
+    .then(() => executeOrder(orderId, tradePrice))
+    .catch((error: any) => {
+      console.error(`❌ Error executing order ${orderId} on chain ${chainId}:`, error.message);
+    });
+  executionQueues.set(chainId, next);
+  return next;
+};
+
+/**
+ * Execute the open orders of a token whose trigger the traded price crossed.
+ * Called with every indexed curve trade (saveTradeEvent); only the chain leader executes orders.
+ */
+export const matchOrders = async (tokenAddress: string, chainId: number, tradePrice: string): Promise<void> => {
+  const price = toWei(tradePrice);
+  if (price === null || !isChainLeader(chainId)) {
+    return;
+  }
+
+  const now = new Date();
+  const orders = await Order.find({
+    tokenAddress: tokenAddress.toLowerCase(),
+    chainId: chainId,
+    status: 'open',
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+  })
+    .select('_id type triggerPrice')
+    .lean();
+
+  for (const order of orders) {
+    const triggerPrice = toWei(order.triggerPrice);
+    if (triggerPrice !== null && isOrderTriggered(order.type, price, triggerPrice)) {
+      enqueueExecution(chainId, order._id, tradePrice);
+    }
+  }
+};
+
+/**
+ * Settle an execution that recorded no transaction. Transactions are recorded before they are sent,
+ * so it was interrupted before - unless it predates that: the wallet's trades since the lock tell.
+ */
+const settleUnrecordedExecution = async (order: IOrder, provider: ethers.Provider): Promise<void> => {
+  const isBuy = order.side === 'buy';
+  const trade = await Transaction.findOne({
+    chainId: order.chainId,
+    tokenAddress: order.tokenAddress,
+    type: isBuy ? 'Bought' : 'Sold',
+    venue: { $ne: 'dex' },
+    [isBuy ? 'recipientAddress' : 'senderAddress']: order.walletAddress,
+    // Indexed after the order was locked
+    createdAt: { $gte: order.lockedAt },
+  }).sort({ blockNumber: 1, logIndex: 1 });
+  if (trade) {
+    await recordFill(order, trade.txHash, order.simulatedAmountOut, isBuy ? trade.tokenAmount : trade.ethAmount);
+    return;
+  }
+
+  // A transaction of the wallet still waiting to be mined, or mined but not indexed yet, may be the order's
+  const [minedNonce, pendingNonce, syncState] = await Promise.all([
+    provider.getTransactionCount(order.walletAddress, 'latest'),
+    provider.getTransactionCount(order.walletAddress, 'pending'),
+    SyncState.findOne({ chainId: order.chainId }).lean(),
+  ]);
+  const indexedSinceLock = !!syncState?.lastProcessedAt && !!order.lockedAt
+    && syncState.lastProcessedAt.getTime() - order.lockedAt.getTime() >= STUCK_EXECUTION_MS;
+  if (pendingNonce > minedNonce || !indexedSinceLock) {
+    return;
+  }
+  await recordFailedAttempt(order, 'Execution was interrupted');
+};
+
+/**
+ * Settle executions whose result was never recorded (restart or RPC failure while waiting)
+ */
+const settleStuckExecutions = async (chainId: number): Promise<void> => {
+  const stuck = await Order.find({
+    chainId: chainId,
+    status: 'executing',
+    lockedAt: { $lt: new Date(Date.now() - STUCK_EXECUTION_MS) },
+  });
+  const provider = getProvider(chainId);
+
+  for (const order of stuck) {
+    if (!order.txHash) {
+      await settleUnrecordedExecution(order, provider);
+      continue;
+    }
+
+    // Read the wallet's nonce before the receipt: once it has passed the order's nonce, a missing
+    // receipt means another transaction took that nonce and this one can never be mined
+    const minedNonce = order.txNonce !== null
+      ? await provider.getTransactionCount(order.walletAddress, 'latest')
+      : null;
+    const receipt = await provider.getTransactionReceipt(order.txHash);
+    if (receipt && receipt.status === 1) {
+      const realized = readRealizedAmountOut(receipt, order.side, order.tokenAddress, getFactoryAddressForChain(chainId));
+      await recordFill(order, order.txHash, order.simulatedAmountOut, realized !== null ? realized.toString() : null);
+    } else if (receipt) {
+      await recordFailedAttempt(order, 'Transaction reverted');
+    } else if (minedNonce !== null && minedNonce > order.txNonce!) {
+      await recordFailedAttempt(order, 'Transaction was replaced');
+    } else if (!(await provider.getTransaction(order.txHash))) {
+      // Unknown to the node, but it could still be rebroadcast and mined: executing the order
+      // again might fill it twice, so it is closed instead of reopened
+      await recordFailedAttempt(order, 'Transaction was dropped', false);
+    }
+    // Otherwise still pending
+  }
+};
+
+/**
+ * Expire open orders past their expiry and fail those whose token left the bonding curve
+ */
+const closeOpenOrders = async (chainId: number): Promise<void> => {
+  const now = new Date();
+  const expired = await Order.find({ chainId: chainId, status: 'open', expiresAt: { $ne: null, $lte: now } });
+  for (const order of expired) {
+    const updated = await Order.findOneAndUpdate(
+      { _id: order._id, status: 'open' },
+      { $set: { status: 'expired', closedAt: now } },
+      { new: true }
+    );
+    if (updated) {
+      notifyOrderUpdate(updated, 'expired');
+    }
+  }
+
+  const tokenAddresses = await Order.distinct('tokenAddress', { chainId: chainId, status: 'open' });
+  if (tokenAddresses.length === 0) {
+    return;
+  }
+  const graduated = await Token.find({
+    chainId: chainId,
+    address: { $in: tokenAddresses },
+    $or: [{ graduatedAt: { $ne: null } }, { isActive: false }],
+  })
+    .select('address')
+    .lean();
+  if (graduated.length === 0) {
+    return;
+  }
+
+  const orders = await Order.find({ chainId: chainId, status: 'open', tokenAddress: { $in: graduated.map((token) => token.address) } });
+  for (const order of orders) {
+    const updated = await Order.findOneAndUpdate(
+      { _id: order._id, status: 'open' },
+      { $set: { status: 'failed', lastError: 'Token left the bonding curve', closedAt: now } },
+      { new: true }
+    );
+    if (updated) {
+      notifyOrderUpdate(updated, 'failed', updated.lastError);
+    }
+  }
+};
+
+const runSweep = async (chainId: number): Promise<void> => {
+  // Only the instance ingesting the chain executes its orders
+  if (activeSweeps.has(chainId) || !isChainLeader(chainId)) {
+    return;
+  }
+  activeSweeps.add(chainId);
+
+  try {
+    await closeOpenOrders(chainId);
+    await settleStuckExecutions(chainId);
+  } catch (error: any) {
+    console.error(`❌ Error sweeping orders for chain ${chainId}:`, error.message);
+  } finally {
+    activeSweeps.delete(chainId);
+  }
+};
+
+/**
+ * Start the periodic order sweep (expiry, graduated tokens, interrupted executions) for all configured chains
+ */
+export const startOrderSweeps = (): void => {
+  for (const chainId of getConfiguredChains()) {
+    if (sweepIntervals.has(chainId)) {
+      continue;
+    }
+    sweepIntervals.set(chainId, setInterval(() => {
+      runSweep(chainId);
+    }, SWEEP_INTERVAL_MS));
+  }
+};
+
+/**
+ * Stop the periodic order sweep
+ */
+export const stopOrderSweeps = (): void => {
+  for (const interval of sweepIntervals.values()) {
+    clearInterval(interval);
+  }
+  sweepIntervals.clear();
+};
@@ -0,0 +1,185 @@
+import ProtocolConfigEvent from '../models/ProtocolConfigEvent';
+import { getContract, getFactoryAddressForChain } from '../config/blockchain';
+
+// Upper bound when probing feeTiers(i) on-chain (the contract has no tier count getter)
+const MAX_FEE_TIERS = 10;
+
+type ConfigSource = 'event' | 'chain';
+
+export interface FeeTierConfig {
+  tier: number;
+  minMarketCap: string;
+  creatorFeeBps: number;
+  devFeeBps: number;
+  marketingFeeBps: number;
+  source: ConfigSource;
+  blockNumber: number | null;
+  txHash: string | null;
+}
+
+export interface ConfigValue<T> {
+  value: T;
+  source: ConfigSource;
+  blockNumber: number | null;
+  txHash: string | null;
+}
+
+export interface ProtocolConfig {
+  chainId: number;
+  factoryAddress: string;
+  blockNumber: number | null; // null = latest
+  feeTiers: FeeTierConfig[];
+  marketCapUnit: ConfigValue<string> | null;
+  uniswapRouter: ConfigValue<string> | null;
+  owner: ConfigValue<string> | null;
+}
+
+interface ProtocolConfigOptions {
+  blockNumber?: number;
+  historyLimit?: number;
+  eventName?: string;
+}
+
+const fromEvent = <T>(value: T, event: { blockNumber: number; txHash: string }): ConfigValue<T> => ({
+  value,
+  source: 'event',
+  blockNumber: event.blockNumber,
+  txHash: event.txHash,
+});
+
+const fromChain = <T>(value: T): ConfigValue<T> => ({ value, source: 'chain', blockNumber: null, txHash: null });
+
+/**
+ * Read a value from the factory, optionally at a historical block (requires an archive node)
+ */
+const readOnChain = async <T>(read: () => Promise<T>, label: string, chainId: number): Promise<T | null> => {
+  try {
+    return await read();
+  } catch (error: any) {
+    console.error(`❌ Error reading ${label} from factory on chain ${chainId}:`, error.message);
+    return null;
+  }
+};
+
+/**
+ * Protocol parameters that were live at a block (latest if omitted).
+ * Values come from the indexed admin events; parameters that were never changed by an event
+ * (e.g. set in the constructor) are read from the factory instead.
+ */
+export const getProtocolConfigAt = async (chainId: number, blockNumber?: number): Promise<ProtocolConfig> => {
+  const match: Record<string, any> = { chainId: chainId };
+  if (blockNumber !== undefined) {
+    match.blockNumber = { $lte: blockNumber };
+  }
+
+  const events = await ProtocolConfigEvent.find(match)
+    .sort({ blockNumber: -1, logIndex: -1 })
+    .lean();
+
+  // Newest first, so the first event seen for a parameter is the one in effect
+  const feeTiers = new Map<number, FeeTierConfig>();
+  let marketCapUnit: ConfigValue<string> | null = null;
+  let uniswapRouter: ConfigValue<string> | null = null;
+  let owner: ConfigValue<string> | null = null;
+
+  for (const event of events) {
+    switch (event.eventName) {
+      case 'FeeTierUpdated':
+        if (event.tier !== null && !feeTiers.has(event.tier)) {
+          feeTiers.set(event.tier, {
+            tier: event.tier,
+            minMarketCap: event.minMarketCap,
+            creatorFeeBps: event.creatorFeeBps,
+            devFeeBps: event.devFeeBps,
+            marketingFeeBps: event.marketingFeeBps,
+            source: 'event',
+            blockNumber: event.blockNumber,
+            txHash: event.txHash,
+          });
+        }
+        break;
+      case 'MarketCapUnitUpdated':
+        marketCapUnit = marketCapUnit || fromEvent(event.marketCapUnit, event);
+        break;
+      case 'UniswapRouterUpdated':
+        uniswapRouter = uniswapRouter || fromEvent(event.routerAddress, event);
+        break;
+      case 'OwnershipTransferred':
+        owner = owner || fromEvent(event.newOwner, event);
+        break;
+    }
+  }
+
+  const contract = getContract(chainId);
+  const overrides = blockNumber !== undefined ? { blockTag: blockNumber } : {};
+
+  if (!marketCapUnit) {
+    const value = await readOnChain(() => contract.marketCapUnit(overrides), 'marketCapUnit', chainId);
+    marketCapUnit = value !== null ? fromChain(value.toString()) : null;
+  }
+  if (!uniswapRouter) {
+    const value = await readOnChain(() => contract.uniswapRouter(overrides), 'uniswapRouter', chainId);
+    uniswapRouter = value !== null ? fromChain((value as string).toLowerCase()) : null;
+  }
+  if (!owner) {
+    const value = await readOnChain(() => contract.owner(overrides), 'owner', chainId);
+    owner = value !== null ? fromChain((value as string).toLowerCase()) : null;
+  }
+
+  // Tiers that were configured without an event - feeTiers(i) reverts past the last tier
+  for (let tier = 0; tier < MAX_FEE_TIERS; tier++) {
+    if (feeTiers.has(tier)) {
+      continue;
+    }
+    let onChainTier: any;
+    try {
+      onChainTier = await contract.feeTiers(tier, overrides);
+    } catch {
+      break;
+    }
+    feeTiers.set(tier, {
+      tier: tier,
+      minMarketCap: onChainTier[0].toString(),
+      creatorFeeBps: Number(onChainTier[1]),
+      devFeeBps: Number(onChainTier[2]),
+      marketingFeeBps: Number(onChainTier[3]),
+      source: 'chain',
+      blockNumber: null,
+      txHash: null,
+    });
+  }
+
+  return {
+    chainId: chainId,
+    factoryAddress: getFactoryAddressForChain(chainId).toLowerCase(),
+    blockNumber: blockNumber ?? null,
+    feeTiers: Array.from(feeTiers.values()).sort((a, b) => a.tier - b.tier),
+    marketCapUnit,
+    uniswapRouter,
+    owner,
+  };
+};
+
+/**
+ * Current (or at-block) protocol config plus the change history up to that block
+ */
+export const getProtocolConfig = async (chainId: number, options: ProtocolConfigOptions = {}) => {
+  const historyMatch: Record<string, any> = { chainId: chainId };
+  if (options.blockNumber !== undefined) {
+    historyMatch.blockNumber = { $lte: options.blockNumber };
+  }
+  if (options.eventName) {
+    historyMatch.eventName = options.eventName;
+  }
+
+  const [config, history] = await Promise.all([
+    getProtocolConfigAt(chainId, options.blockNumber),
+    ProtocolConfigEvent.find(historyMatch)
+      .sort({ blockNumber: -1, logIndex: -1 })
+      .limit(options.historyLimit || 100)
+      .select('-__v')
+      .lean(),
+  ]);
+
+  return { ...config, history };
+};
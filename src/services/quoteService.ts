@@ -0,0 +1,346 @@
+import { ethers } from 'ethers';
+import jwt from 'jsonwebtoken';
+import Token from '../models/Token';
+import SyncState from '../models/SyncState';
+import IngestEvent from '../models/IngestEvent';
+import { getContract } from '../config/blockchain';
+
+// Local quotes are only served while the chain's ingestion checkpoint moved within this window
+const MAX_SYNC_AGE_MS = Number(process.env.QUOTE_MAX_SYNC_AGE_MS) || 60 * 1000; // 1 minute
+// Share of local quotes that are checked against the contract in the background (0 disables)
+const VERIFY_RATE = Math.min(Math.max(Number(process.env.QUOTE_VERIFY_RATE) || 0, 0), 1);
+// How long a quote ID can be used to bound a trade
+const QUOTE_TTL_SECONDS = Number(process.env.QUOTE_TTL_SECONDS) || 60;
+// Keeps quote IDs and auth tokens (same secret) from being accepted in place of each other
+const QUOTE_AUDIENCE = 'trade-quote';
+
+export type QuoteSide = 'buy' | 'sell';
+
+// State the bonding curve math needs (reserves in wei)
+export interface CurveState {
+  virtualEthReserves: bigint;
+  virtualTokenReserves: bigint;
+  realEthReserves: bigint;
+  realTokenReserves: bigint;
+  creatorFeeBps: number;
+  devFeeBps: number;
+  marketingFeeBps: number;
+  bpsDenominator: bigint;
+}
+
+export interface QuoteFees {
+  creator: string;
+  dev: string;
+  marketing: string;
+  total: string;
+  totalBps: number;
+}
+
+export interface TradeQuote {
+  side: QuoteSide;
+  // 'local' = computed from the indexed curve state, 'contract' = calculateTokenAmount/calculateEthAmount
+  source: 'local' | 'contract';
+  amountIn: string; // wei (ETH for buys, tokens for sells)
+  amountOut: string; // wei, after fees
+  // Only known for local quotes
+  fees: QuoteFees | null;
+  priceBefore: string | null; // ETH per token
+  priceAfter: string | null;
+  executionPrice: string | null; // ETH paid (or received) per token, fees included
+  priceImpactPercent: number | null; // How far the trade moves the curve price
+  exceedsReserves: boolean; // The curve can't fill the trade (the contract would revert)
+  blockNumber: number | null; // Block of the curve state the quote was computed from
+  staleReason?: string; // Why the contract was used instead
+}
+
+// What a quote ID commits to
+export interface QuoteClaims {
+  side: QuoteSide;
+  tokenAddress: string;
+  chainId: number;
+  amountIn: string;
+  amountOut: string;
+}
+
+interface LocalState {
+  state: CurveState;
+  blockNumber: number;
+}
+
+// BPS_DENOMINATOR per chain (a contract constant)
+const bpsDenominators = new Map<number, bigint>();
+
+const getBpsDenominator = async (chainId: number): Promise<bigint> => {
+  let denominator = bpsDenominators.get(chainId);
+  if (denominator === undefined) {
+    denominator = BigInt((await getContract(chainId).BPS_DENOMINATOR()).toString());
+    bpsDenominators.set(chainId, denominator);
+  }
+  return denominator;
+};
+
+// Curve price in ETH per token (18 decimals)
+const spotPrice = (virtualEthReserves: bigint, virtualTokenReserves: bigint): bigint =>
+  virtualTokenReserves > 0n ? (virtualEthReserves * 10n ** 18n) / virtualTokenReserves : 0n;
+
+const feesOf = (amount: bigint, state: CurveState): { fees: QuoteFees; total: bigint } => {
+  // Each fee is rounded down on its own, as the contract does
+  const creator = (amount * BigInt(state.creatorFeeBps)) / state.bpsDenominator;
+  const dev = (amount * BigInt(state.devFeeBps)) / state.bpsDenominator;
+  const marketing = (amount * BigInt(state.marketingFeeBps)) / state.bpsDenominator;
+  const total = creator + dev + marketing;
+  return {
+    total,
+    fees: {
+      creator: creator.toString(),
+      dev: dev.toString(),
+      marketing: marketing.toString(),
+      total: total.toString(),
+      totalBps: state.creatorFeeBps + state.devFeeBps + state.marketingFeeBps,
+    },
+  };
+};
+
+const priceFields = (priceBefore: bigint, priceAfter: bigint, ethAmount: bigint, tokenAmount: bigint) => ({
+  priceBefore: ethers.formatUnits(priceBefore, 18),
+  priceAfter: ethers.formatUnits(priceAfter, 18),
+  executionPrice: tokenAmount > 0n ? ethers.formatUnits((ethAmount * 10n ** 18n) / tokenAmount, 18) : null,
+  // Percent with 4 decimals, as a positive number in both directions
+  priceImpactPercent: priceBefore > 0n
+    ? Number(((priceAfter > priceBefore ? priceAfter - priceBefore : priceBefore - priceAfter) * 1000000n) / priceBefore) / 10000
+    : null,
+});
+
+/**
+ * Tokens received for ethAmount (wei), mirroring the factory's calculateTokenAmount:
+ * fees are taken from the ETH sent, the rest moves the constant-product virtual reserves
+ */
+export const calculateBuyQuote = (state: CurveState, ethAmount: bigint): Omit<TradeQuote, 'source' | 'blockNumber'> => {
+  const { fees, total } = feesOf(ethAmount, state);
+  const ethIn = ethAmount - total;
+  const newVirtualEthReserves = state.virtualEthReserves + ethIn;
+  const newVirtualTokenReserves = (state.virtualEthReserves * state.virtualTokenReserves) / newVirtualEthReserves;
+  const tokensOut = state.virtualTokenReserves - newVirtualTokenReserves;
+
+  return {
+    side: 'buy',
+    amountIn: ethAmount.toString(),
+    amountOut: tokensOut.toString(),
+    fees,
+    ...priceFields(
+      spotPrice(state.virtualEthReserves, state.virtualTokenReserves),
+      spotPrice(newVirtualEthReserves, newVirtualTokenReserves),
+      ethAmount,
+      tokensOut
+    ),
+    exceedsReserves: tokensOut > state.realTokenReserves,
+  };
+};
+
+/**
+ * ETH received for tokenAmount (wei), mirroring the factory's calculateEthAmount:
+ * the tokens move the virtual reserves, fees are taken from the ETH that comes out
+ */
+export const calculateSellQuote = (state: CurveState, tokenAmount: bigint): Omit<TradeQuote, 'source' | 'blockNumber'> => {
+  const newVirtualTokenReserves = state.virtualTokenReserves + tokenAmount;
+  const newVirtualEthReserves = (state.virtualEthReserves * state.virtualTokenReserves) / newVirtualTokenReserves;
+  const grossEth = state.virtualEthReserves - newVirtualEthReserves;
+  const { fees, total } = feesOf(grossEth, state);
+  const ethOut = grossEth - total;
+
+  return {
+    side: 'sell',
+    amountIn: tokenAmount.toString(),
+    amountOut: ethOut.toString(),
+    fees,
+    ...priceFields(
+      spotPrice(state.virtualEthReserves, state.virtualTokenReserves),
+      spotPrice(newVirtualEthReserves, newVirtualTokenReserves),
+      ethOut,
+      tokenAmount
+    ),
+    exceedsReserves: grossEth > state.realEthReserves,
+  };
+};
+
+/**
+ * Indexed curve state of a token, or the reason it can't be trusted for quoting
+ */
+const getLocalState = async (tokenAddress: string, chainId: number): Promise<LocalState | string> => {
+  const token = await Token.findOne({ address: tokenAddress.toLowerCase(), chainId: chainId });
+  if (!token) {
+    return 'token not indexed';
+  }
+  if (!token.isActive || token.graduatedAt) {
+    return 'token left the bonding curve';
+  }
+  const reserves = [token.virtualEthReserves, token.virtualTokenReserves, token.realEthReserves, token.realTokenReserves];
+  if (reserves.some((value) => value === null || value === undefined) || token.reservesBlockNumber === null) {
+    return 'no indexed trade';
+  }
+  if (BigInt(token.virtualEthReserves!) <= 0n || BigInt(token.virtualTokenReserves!) <= 0n) {
+    return 'curve reserves are empty';
+  }
+
+  const [syncState, pendingTrade] = await Promise.all([
+    SyncState.findOne({ chainId: chainId }).lean(),
+    // Trades waiting in the ingest queue would change the reserves
+    IngestEvent.exists({
+      chainId: chainId,
+      status: { $in: ['pending', 'processing'] },
+      eventName: { $in: ['TokenBought', 'TokenSold'] },
+      'payload.eventData.tokenAddress': { $in: [tokenAddress.toLowerCase(), ethers.getAddress(tokenAddress)] },
+    }),
+  ]);
+  if (!syncState?.lastProcessedAt || Date.now() - syncState.lastProcessedAt.getTime() > MAX_SYNC_AGE_MS) {
+    return 'chain sync is behind';
+  }
+  if (pendingTrade) {
+    return 'trades pending ingestion';
+  }
+
+  // The fee tier follows the market cap, so it is re-read once the reserves have moved past it
+  if (!token.feeTierUpdatedAt || token.feeTierBlockNumber === null || token.feeTierBlockNumber < token.reservesBlockNumber
+    || token.creatorFeeBps === null || token.devFeeBps === null || token.marketingFeeBps === null) {
+    const tier = await getContract(chainId).getFeeTier(token.address);
+    token.creatorFeeBps = Number(tier.creatorFeeBps);
+    token.devFeeBps = Number(tier.devFeeBps);
+    token.marketingFeeBps = Number(tier.marketingFeeBps);
+    token.feeTierBlockNumber = token.reservesBlockNumber;
+    token.feeTierUpdatedAt = new Date();
+    await Token.updateOne(
+      { _id: token._id },
+      {
+        $set: {
+          creatorFeeBps: token.creatorFeeBps,
+          devFeeBps: token.devFeeBps,
+          marketingFeeBps: token.marketingFeeBps,
+          feeTierBlockNumber: token.feeTierBlockNumber,
+          feeTierUpdatedAt: token.feeTierUpdatedAt,
+        },
+      }
+    );
+  }
+
+  return {
+    blockNumber: token.reservesBlockNumber,
+    state: {
+      virtualEthReserves: BigInt(token.virtualEthReserves!),
+      virtualTokenReserves: BigInt(token.virtualTokenReserves!),
+      realEthReserves: BigInt(token.realEthReserves!),
+      realTokenReserves: BigInt(token.realTokenReserves!),
+      creatorFeeBps: token.creatorFeeBps,
+      devFeeBps: token.devFeeBps,
+      marketingFeeBps: token.marketingFeeBps,
+      bpsDenominator: await getBpsDenominator(chainId),
+    },
+  };
+};
+
+const quoteFromContract = async (side: QuoteSide, tokenAddress: string, amount: bigint, chainId: number): Promise<bigint> => {
+  const contract = getContract(chainId);
+  const result = side === 'buy'
+    ? await contract.calculateTokenAmount(tokenAddress, amount)
+    : await contract.calculateEthAmount(tokenAddress, amount);
+  return BigInt(result.toString());
+};
+
+// Compare a local quote with the contract and report drift in the local math or state
+const verifyQuote = async (quote: TradeQuote, tokenAddress: string, chainId: number): Promise<void> => {
+  try {
+    const expected = await quoteFromContract(quote.side, tokenAddress, BigInt(quote.amountIn), chainId);
+    if (expected.toString() !== quote.amountOut) {
+      console.error(
+        `❌ Local ${quote.side} quote for ${tokenAddress} on chain ${chainId} differs from the contract: ` +
+        `${quote.amountOut} vs ${expected} (in ${quote.amountIn}, state at block ${quote.blockNumber})`
+      );
+    }
+  } catch (error: any) {
+    console.error(`❌ Error verifying ${quote.side} quote for ${tokenAddress} on chain ${chainId}:`, error.message);
+  }
+};
+
+const quote = async (side: QuoteSide, tokenAddress: string, amount: bigint, chainId: number): Promise<TradeQuote> => {
+  let local: LocalState | string;
+  try {
+    local = await getLocalState(tokenAddress, chainId);
+  } catch (error: any) {
+    console.error(`❌ Error loading curve state for ${tokenAddress} on chain ${chainId}:`, error.message);
+    local = 'curve state unavailable';
+  }
+
+  if (typeof local !== 'string') {
+    const result: TradeQuote = {
+      ...(side === 'buy' ? calculateBuyQuote(local.state, amount) : calculateSellQuote(local.state, amount)),
+      source: 'local',
+      blockNumber: local.blockNumber,
+    };
+    if (VERIFY_RATE > 0 && Math.random() < VERIFY_RATE) {
+      verifyQuote(result, tokenAddress, chainId);
+    }
+    return result;
+  }
+
+  const amountOut = await quoteFromContract(side, tokenAddress, amount, chainId);
+  return {
+    side,
+    source: 'contract',
+    amountIn: amount.toString(),
+    amountOut: amountOut.toString(),
+    fees: null,
+    priceBefore: null,
+    priceAfter: null,
+    executionPrice: null,
+    priceImpactPercent: null,
+    exceedsReserves: false,
+    blockNumber: null,
+    staleReason: local,
+  };
+};
+
+/**
+ * Quote a bonding curve buy of ethAmount (wei). Computed from the indexed reserves and fee tier,
+ * falling back to the contract's calculateTokenAmount when that state is missing or may be stale.
+ */
+export const quoteBuy = (tokenAddress: string, ethAmount: bigint, chainId: number): Promise<TradeQuote> =>
+  quote('buy', tokenAddress, ethAmount, chainId);
+
+/**
+ * Quote a bonding curve sell of tokenAmount (wei), falling back to calculateEthAmount like quoteBuy
+ */
+export const quoteSell = (tokenAddress: string, tokenAmount: bigint, chainId: number): Promise<TradeQuote> =>
+  quote('sell', tokenAddress, tokenAmount, chainId);
+
+const getQuoteSecret = (): string => process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+/**
+ * Signed, short-lived ID of a quote; trades can pass it to be bounded by the quoted output
+ */
+export const issueQuoteId = (quote: TradeQuote, tokenAddress: string, chainId: number): string => {
+  const claims: QuoteClaims = {
+    side: quote.side,
+    tokenAddress: tokenAddress.toLowerCase(),
+    chainId: chainId,
+    amountIn: quote.amountIn,
+    amountOut: quote.amountOut,
+  };
+  return jwt.sign(claims, getQuoteSecret(), { audience: QUOTE_AUDIENCE, expiresIn: QUOTE_TTL_SECONDS });
+};
+
+/**
+ * Claims of a quote ID, or null when it is invalid or expired
+ */
+export const readQuoteId = (quoteId: string): QuoteClaims | null => {
+  try {
+    const decoded = jwt.verify(quoteId, getQuoteSecret(), { audience: QUOTE_AUDIENCE }) as any;
+    return {
+      side: decoded.side,
+      tokenAddress: decoded.tokenAddress,
+      chainId: decoded.chainId,
+      amountIn: decoded.amountIn,
+      amountOut: decoded.amountOut,
+    };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,162 @@
+import { ethers } from 'ethers';
+import { factoryInterface } from '../config/blockchain';
+import { QuoteSide, quoteBuy, quoteSell, readQuoteId } from './quoteService';
+
+// Slippage applied when a trade gives neither a minimum output nor a slippage limit
+const DEFAULT_SLIPPAGE_BPS = Number(process.env.TRADE_DEFAULT_SLIPPAGE_BPS) || 100; // 1%
+const MAX_SLIPPAGE_BPS = 5000; // 50%
+const BPS = 10000n;
+// Added on top of the gas estimate of the simulated trade
+const GAS_BUFFER_PERCENT = 20n;
+
+export interface SlippageRequest {
+  side: QuoteSide;
+  tokenAddress: string;
+  chainId: number;
+  amountIn: bigint;
+  quoteId?: string;
+  minAmountOut?: string;
+  maxSlippageBps?: number | string;
+}
+
+export interface SlippageBound {
+  minAmountOut: bigint;
+  // What the minimum was derived from
+  reference: 'quoteId' | 'minAmountOut' | 'quote';
+  referenceAmountOut: string | null; // Quoted output the slippage was applied to
+  maxSlippageBps: number | null;
+}
+
+export interface TradeSimulation {
+  expectedAmountOut: bigint;
+  blockNumber: number;
+  gasLimit: bigint;
+}
+
+const applySlippage = (amountOut: bigint, slippageBps: number): bigint =>
+  (amountOut * (BPS - BigInt(slippageBps))) / BPS;
+
+/**
+ * Lowest acceptable output of a trade: minAmountOut, or the quote ID's (else a fresh quote's) output less
+ * maxSlippageBps (TRADE_DEFAULT_SLIPPAGE_BPS when omitted). Returns an error message for invalid input.
+ */
+export const resolveSlippageBound = async (request: SlippageRequest): Promise<SlippageBound | string> => {
+  let slippageBps: number | null = null;
+  if (request.maxSlippageBps !== undefined && request.maxSlippageBps !== null && request.maxSlippageBps !== '') {
+    slippageBps = Number(request.maxSlippageBps);
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > MAX_SLIPPAGE_BPS) {
+      return `maxSlippageBps must be an integer between 0 and ${MAX_SLIPPAGE_BPS}`;
+    }
+  }
+
+  if (request.minAmountOut !== undefined && request.minAmountOut !== null && request.minAmountOut !== '') {
+    let minAmountOut: bigint;
+    try {
+      minAmountOut = BigInt(request.minAmountOut);
+    } catch {
+      return 'Invalid minAmountOut format';
+    }
+    if (minAmountOut < 0n) {
+      return 'minAmountOut must not be negative';
+    }
+    return { minAmountOut, reference: 'minAmountOut', referenceAmountOut: null, maxSlippageBps: null };
+  }
+
+  const bps = slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+  if (request.quoteId) {
+    const claims = readQuoteId(request.quoteId);
+    if (!claims) {
+      return 'Quote is invalid or expired';
+    }
+    if (claims.side !== request.side
+      || claims.tokenAddress !== request.tokenAddress.toLowerCase()
+      || claims.chainId !== request.chainId
+      || claims.amountIn !== request.amountIn.toString()) {
+      return 'Quote does not match the trade';
+    }
+    return {
+      minAmountOut: applySlippage(BigInt(claims.amountOut), bps),
+      reference: 'quoteId',
+      referenceAmountOut: claims.amountOut,
+      maxSlippageBps: bps,
+    };
+  }
+
+  const quote = request.side === 'buy'
+    ? await quoteBuy(request.tokenAddress, request.amountIn, request.chainId)
+    : await quoteSell(request.tokenAddress, request.amountIn, request.chainId);
+  return {
+    minAmountOut: applySlippage(BigInt(quote.amountOut), bps),
+    reference: 'quote',
+    referenceAmountOut: quote.amountOut,
+    maxSlippageBps: bps,
+  };
+};
+
+/**
+ * Simulate a trade with eth_call against the latest block: the output comes from the factory's
+ * calculate function and the trade itself is called at the same block, so a revert surfaces here.
+ * factory must be connected to the trader's signer.
+ */
+export const simulateTrade = async (
+  factory: ethers.Contract,
+  side: QuoteSide,
+  tokenAddress: string,
+  amountIn: bigint
+): Promise<TradeSimulation> => {
+  const provider = factory.runner!.provider!;
+  const blockNumber = await provider.getBlockNumber();
+  const overrides = side === 'buy' ? { value: amountIn } : {};
+
+  const [expectedAmountOut, gasEstimate] = await Promise.all([
+    side === 'buy'
+      ? factory.calculateTokenAmount(tokenAddress, amountIn, { blockTag: blockNumber })
+      : factory.calculateEthAmount(tokenAddress, amountIn, { blockTag: blockNumber }),
+    side === 'buy'
+      ? factory.buyTokens.estimateGas(tokenAddress, overrides)
+      : factory.sellTokens.estimateGas(tokenAddress, amountIn, overrides),
+    side === 'buy'
+      ? factory.buyTokens.staticCall(tokenAddress, { ...overrides, blockTag: blockNumber })
+      : factory.sellTokens.staticCall(tokenAddress, amountIn, { blockTag: blockNumber }),
+  ]);
+
+  return {
+    expectedAmountOut: BigInt(expectedAmountOut.toString()),
+    blockNumber,
+    gasLimit: (BigInt(gasEstimate.toString()) * (100n + GAS_BUFFER_PERCENT)) / 100n,
+  };
+};
+
+/**
+ * Output a mined trade actually delivered, from its TokenBought/TokenSold log (null if not found)
+ */
+export const readRealizedAmountOut = (
+  receipt: ethers.TransactionReceipt,
+  side: QuoteSide,
+  tokenAddress: string,
+  factoryAddress: string
+): bigint | null => {
+  const eventName = side === 'buy' ? 'TokenBought' : 'TokenSold';
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== factoryAddress.toLowerCase()) {
+      continue;
+    }
+    let parsed: ethers.LogDescription | null = null;
+    try {
+      parsed = factoryInterface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      continue;
+    }
+    if (parsed?.name === eventName && (parsed.args[0] as string).toLowerCase() === tokenAddress.toLowerCase()) {
+      // TokenBought(token, buyer, ethAmount, tokenAmount, ...) / TokenSold(token, seller, tokenAmount, ethAmount, ...)
+      return BigInt(parsed.args[3].toString());
+    }
+  }
+  return null;
+};
+
+/**
+ * How much worse (in bps, negative = better) the realized output was than the simulated one
+ */
+export const slippageBpsOf = (expected: bigint, realized: bigint): number =>
+  expected > 0n ? Number(((expected - realized) * BPS) / expected) : 0;
@@ -0,0 +1,165 @@
+import { getProvider, getConfiguredChains, wsConnectionAttempts } from '../config/blockchain';
+import { getLastProcessedBlock } from '../sync/checkpoint';
+import { getTrackingState } from '../sync/track';
+import { getSyncMetrics } from '../sync/syncMetrics';
+import { isChainLeader } from './leaderElection';
+import { emitSyncLag } from '../socket/updateEmitter';
+
+const LAG_CHECK_INTERVAL_MS = Number(process.env.SYNC_LAG_CHECK_INTERVAL_MS) || 30000; // 30 seconds
+const LAG_ALERT_SECONDS = Number(process.env.SYNC_LAG_ALERT_SECONDS) || 300; // 5 minutes
+
+export interface ChainSyncStatus {
+  chainId: number;
+  isLeader: boolean;
+  headBlock: number | null;
+  lastIngestedBlock: number | null;
+  lagBlocks: number | null;
+  lagSeconds: number | null;
+  lagging: boolean;
+  ws: ReturnType<typeof getTrackingState> & {
+    connectionAttempts: number;
+    backoffUntil: Date | null;
+  };
+  reconnects: number;
+  lastReconnectAt: Date | null;
+  lastError: { message: string; at: Date } | null;
+  lastEventAt: Date | null;
+  eventsPerMinute: number;
+}
+
+interface ChainLag {
+  headBlock: number | null;
+  lastIngestedBlock: number | null;
+  lagBlocks: number | null;
+  lagSeconds: number | null;
+}
+
+let lagCheckInterval: NodeJS.Timeout | null = null;
+
+// Chains currently reported as lagging, so the socket event fires once per transition
+const laggingChains = new Set<number>();
+
+/**
+ * Head block vs. last ingested block of a chain, in blocks and in seconds of block time.
+ * Values that can't be read (RPC or Mongo down) are reported as null.
+ */
+const getChainLag = async (chainId: number): Promise<ChainLag> => {
+  const chainProvider = getProvider(chainId);
+  const [headBlock, lastIngestedBlock] = await Promise.all([
+    chainProvider.getBlockNumber().catch((error: any) => {
+      console.error(`❌ Error reading head block for chain ${chainId}:`, error.message);
+      return null;
+    }),
+    getLastProcessedBlock(chainId).catch((error: any) => {
+      console.error(`❌ Error reading sync checkpoint for chain ${chainId}:`, error.message);
+      return null;
+    }),
+  ]);
+  if (headBlock === null || lastIngestedBlock === null) {
+    return { headBlock, lastIngestedBlock, lagBlocks: null, lagSeconds: null };
+  }
+
+  const lagBlocks = Math.max(0, headBlock - lastIngestedBlock);
+  let lagSeconds: number | null = 0;
+  if (lagBlocks > 0) {
+    try {
+      const [head, lastIngested] = await Promise.all([
+        chainProvider.getBlock(headBlock),
+        chainProvider.getBlock(lastIngestedBlock),
+      ]);
+      lagSeconds = head && lastIngested ? Math.max(0, head.timestamp - lastIngested.timestamp) : null;
+    } catch (error: any) {
+      console.error(`❌ Error reading block timestamps for chain ${chainId}:`, error.message);
+      lagSeconds = null;
+    }
+  }
+  return { headBlock, lastIngestedBlock, lagBlocks, lagSeconds };
+};
+
+/**
+ * Sync status of one chain: lag behind the head, live tracker connection and ingestion counters
+ */
+export const getChainSyncStatus = async (chainId: number): Promise<ChainSyncStatus> => {
+  const metrics = getSyncMetrics(chainId);
+  const attempts = wsConnectionAttempts.get(chainId);
+
+  const lag = await getChainLag(chainId);
+
+  return {
+    chainId,
+    isLeader: isChainLeader(chainId),
+    headBlock: lag.headBlock,
+    lastIngestedBlock: lag.lastIngestedBlock,
+    lagBlocks: lag.lagBlocks,
+    lagSeconds: lag.lagSeconds,
+    lagging: lag.lagSeconds !== null && lag.lagSeconds >= LAG_ALERT_SECONDS,
+    ws: {
+      ...getTrackingState(chainId),
+      connectionAttempts: attempts?.count || 0,
+      backoffUntil: attempts && attempts.backoffUntil > Date.now() ? new Date(attempts.backoffUntil) : null,
+    },
+    ...metrics,
+  };
+};
+
+/**
+ * Sync status of every configured chain
+ */
+export const getSyncStatus = async (): Promise<ChainSyncStatus[]> =>
+  Promise.all(getConfiguredChains().map((chainId) => getChainSyncStatus(chainId)));
+
+/**
+ * Check every chain's lag and notify clients when a chain falls behind SYNC_LAG_ALERT_SECONDS or catches up again
+ */
+const checkSyncLag = async (): Promise<void> => {
+  for (const chainId of getConfiguredChains()) {
+    try {
+      const status = await getChainSyncStatus(chainId);
+      if (status.lagSeconds === null || status.lagging === laggingChains.has(chainId)) {
+        continue;
+      }
+
+      if (status.lagging) {
+        laggingChains.add(chainId);
+        console.warn(`⚠️ Chain ${chainId} is ${status.lagBlocks} blocks (${status.lagSeconds}s) behind the head`);
+      } else {
+        laggingChains.delete(chainId);
+        console.log(`✅ Chain ${chainId} caught up with the head`);
+      }
+      emitSyncLag({
+        chainId,
+        lagging: status.lagging,
+        headBlock: status.headBlock!,
+        lastIngestedBlock: status.lastIngestedBlock!,
+        lagBlocks: status.lagBlocks!,
+        lagSeconds: status.lagSeconds,
+        thresholdSeconds: LAG_ALERT_SECONDS,
+      });
+    } catch (error: any) {
+      console.error(`❌ Error checking sync lag for chain ${chainId}:`, error.message);
+    }
+  }
+};
+
+/**
+ * Start the periodic lag check that emits `syncLag` socket events
+ */
+export const startSyncLagMonitor = (): void => {
+  if (lagCheckInterval) {
+    return;
+  }
+  lagCheckInterval = setInterval(() => {
+    checkSyncLag();
+  }, LAG_CHECK_INTERVAL_MS);
+};
+
+/**
+ * Stop the periodic lag check
+ */
+export const stopSyncLagMonitor = (): void => {
+  if (lagCheckInterval) {
+    clearInterval(lagCheckInterval);
+    lagCheckInterval = null;
+  }
+  laggingChains.clear();
+};
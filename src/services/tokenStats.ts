@@ -0,0 +1,216 @@
+import { ethers } from 'ethers';
+import Token from '../models/Token';
+import Candle from '../models/Candle';
+import { CandleResolution } from '../types';
+import { getConfiguredChains } from '../config/blockchain';
+import { isChainLeader } from './leaderElection';
+
+const SWEEP_INTERVAL_MS = Number(process.env.TOKEN_STATS_INTERVAL_MS) || 60000; // 1 minute
+// Per-trade updates of the same token closer together than this are left to the sweep
+const MIN_UPDATE_INTERVAL_MS = Number(process.env.TOKEN_STATS_MIN_UPDATE_INTERVAL_MS) || 5000; // 5 seconds
+
+export type StatsWindow = '1h' | '24h' | '7d';
+
+// Rolling windows, computed from the candles of the given resolution (accurate to one bucket)
+export const STATS_WINDOWS: Record<StatsWindow, { ms: number; resolution: CandleResolution }> = {
+  '1h': { ms: 60 * 60 * 1000, resolution: '1m' },
+  '24h': { ms: 24 * 60 * 60 * 1000, resolution: '5m' },
+  '7d': { ms: 7 * 24 * 60 * 60 * 1000, resolution: '1h' },
+};
+
+export interface WindowStats {
+  volume: string;
+  volumeUSD: number;
+  priceChange: string;
+  priceChangePercent: number;
+}
+
+const sweepIntervals = new Map<number, NodeJS.Timeout>();
+
+// Chains with a sweep in progress
+const activeSweeps = new Set<number>();
+
+// Last per-trade update per token (chainId:address)
+const lastTradeUpdates = new Map<string, number>();
+
+let legacyFieldsNormalized = false;
+
+// Prices are decimal ETH strings; fall back to a fixed-point rendering for values parseUnits rejects
+const toWei = (price: string): bigint => {
+  try {
+    return ethers.parseUnits(price, 18);
+  } catch {
+    return ethers.parseUnits((parseFloat(price) || 0).toFixed(18), 18);
+  }
+};
+
+/**
+ * Volume and price change of a token over one rolling window ending now
+ */
+const computeWindowStats = async (
+  tokenAddress: string,
+  chainId: number,
+  window: StatsWindow,
+  currentPrice: string | null,
+  now: number
+): Promise<WindowStats> => {
+  const { ms, resolution } = STATS_WINDOWS[window];
+  const windowStart = new Date(now - ms);
+  const key = { tokenAddress, chainId, resolution };
+
+  const [totals, before, firstInWindow] = await Promise.all([
+    Candle.aggregate([
+      { $match: { ...key, openTime: { $gte: windowStart } } },
+      {
+        $group: {
+          _id: null,
+          volume: { $sum: { $toDecimal: '$volumeEth' } },
+          volumeUSD: { $sum: { $toDouble: '$volumeUSD' } },
+        },
+      },
+    ]),
+    // Price when the window opened: the last close before it...
+    Candle.findOne({ ...key, openTime: { $lt: windowStart } }).sort({ openTime: -1 }).select('close').lean(),
+    // ...or, for tokens younger than the window, the first trade's price
+    Candle.findOne({ ...key, openTime: { $gte: windowStart } }).sort({ openTime: 1 }).select('open').lean(),
+  ]);
+
+  const basePrice = before?.close || firstInWindow?.open || null;
+  let priceChange = '0';
+  let priceChangePercent = 0;
+  if (currentPrice && basePrice && parseFloat(basePrice) > 0) {
+    priceChange = ethers.formatUnits(toWei(currentPrice) - toWei(basePrice), 18);
+    priceChangePercent = ((parseFloat(currentPrice) - parseFloat(basePrice)) / parseFloat(basePrice)) * 100;
+  }
+
+  return {
+    volume: totals[0] ? BigInt(totals[0].volume.toString().split('.')[0]).toString() : '0',
+    volumeUSD: totals[0]?.volumeUSD || 0,
+    priceChange,
+    priceChangePercent,
+  };
+};
+
+/**
+ * Stats of every window for a token
+ */
+export const computeTokenStats = async (tokenAddress: string, chainId: number): Promise<Record<StatsWindow, WindowStats>> => {
+  const normalizedAddress = tokenAddress.toLowerCase();
+  const now = Date.now();
+
+  // Current price: close of the most recent candle (the last trade)
+  const latest = await Candle.findOne({ tokenAddress: normalizedAddress, chainId, resolution: '1m' })
+    .sort({ openTime: -1 })
+    .select('close')
+    .lean();
+  const currentPrice = latest?.close || null;
+
+  const windows = Object.keys(STATS_WINDOWS) as StatsWindow[];
+  const results = await Promise.all(
+    windows.map((window) => computeWindowStats(normalizedAddress, chainId, window, currentPrice, now))
+  );
+  return Object.fromEntries(windows.map((window, i) => [window, results[i]])) as Record<StatsWindow, WindowStats>;
+};
+
+/**
+ * Recompute and store the rolling stats of a token
+ */
+export const updateTokenStats = async (tokenAddress: string, chainId: number): Promise<void> => {
+  const stats = await computeTokenStats(tokenAddress, chainId);
+
+  const update: Record<string, any> = { statsUpdatedAt: new Date() };
+  for (const [window, values] of Object.entries(stats)) {
+    update[`volume${window}`] = values.volume;
+    update[`volume${window}USD`] = values.volumeUSD;
+    update[`priceChange${window}`] = values.priceChange;
+    update[`priceChange${window}Percent`] = values.priceChangePercent;
+  }
+  await Token.updateOne({ address: tokenAddress.toLowerCase(), chainId: chainId }, { $set: update });
+};
+
+/**
+ * Refresh a token's stats after a trade (throttled per token; the sweep covers skipped updates)
+ */
+export const updateTokenStatsAfterTrade = async (tokenAddress: string, chainId: number): Promise<void> => {
+  const key = `${chainId}:${tokenAddress.toLowerCase()}`;
+  const lastUpdate = lastTradeUpdates.get(key) || 0;
+  if (Date.now() - lastUpdate < MIN_UPDATE_INTERVAL_MS) {
+    return;
+  }
+  lastTradeUpdates.set(key, Date.now());
+  await updateTokenStats(tokenAddress, chainId);
+};
+
+// These fields used to be strings ('0'); stored strings would sort after every number
+const normalizeLegacyStatsFields = async (): Promise<void> => {
+  if (legacyFieldsNormalized) {
+    return;
+  }
+  for (const field of ['volume24hUSD', 'priceChange24hPercent']) {
+    await Token.updateMany(
+      { [field]: { $type: 'string' } },
+      [{ $set: { [field]: { $convert: { input: `$${field}`, to: 'double', onError: 0, onNull: 0 } } } }]
+    );
+  }
+  legacyFieldsNormalized = true;
+};
+
+/**
+ * Recompute the stats of every token of a chain that traded within the largest window or still
+ * shows stats, so values decay to zero once trading stops
+ */
+const sweepChain = async (chainId: number): Promise<void> => {
+  // Only the instance ingesting the chain maintains its stats
+  if (activeSweeps.has(chainId) || !isChainLeader(chainId)) {
+    return;
+  }
+  activeSweeps.add(chainId);
+
+  try {
+    await normalizeLegacyStatsFields();
+
+    const largestWindow = STATS_WINDOWS['7d'];
+    const since = new Date(Date.now() - largestWindow.ms - SWEEP_INTERVAL_MS);
+    const [tradedTokens, tokensWithStats] = await Promise.all([
+      Candle.distinct('tokenAddress', { chainId, resolution: largestWindow.resolution, openTime: { $gte: since } }),
+      Token.distinct('address', { chainId, volume7d: { $ne: '0' } }),
+    ]);
+
+    for (const tokenAddress of new Set<string>([...tradedTokens, ...tokensWithStats])) {
+      try {
+        await updateTokenStats(tokenAddress, chainId);
+      } catch (error: any) {
+        console.error(`❌ Error updating stats for ${tokenAddress} on chain ${chainId}:`, error.message);
+      }
+    }
+  } catch (error: any) {
+    console.error(`❌ Error sweeping token stats for chain ${chainId}:`, error.message);
+  } finally {
+    activeSweeps.delete(chainId);
+  }
+};
+
+/**
+ * Start the periodic token stats sweep for all configured chains
+ */
+export const startTokenStatsSweep = (): void => {
+  for (const chainId of getConfiguredChains()) {
+    if (sweepIntervals.has(chainId)) {
+      continue;
+    }
+    sweepIntervals.set(chainId, setInterval(() => {
+      sweepChain(chainId);
+    }, SWEEP_INTERVAL_MS));
+  }
+};
+
+/**
+ * Stop the periodic token stats sweep
+ */
+export const stopTokenStatsSweep = (): void => {
+  for (const interval of sweepIntervals.values()) {
+    clearInterval(interval);
+  }
+  sweepIntervals.clear();
+  lastTradeUpdates.clear();
+};
@@ -0,0 +1,252 @@
+import { Types } from 'mongoose';
+import TrendingScore from '../models/TrendingScore';
+import Transaction from '../models/Transaction';
+import ChatMessage from '../models/ChatMessage';
+import Token from '../models/Token';
+import { TrendingComponent, TrendingComponentScore } from '../types';
+import { getConfiguredChains } from '../config/blockchain';
+import { isChainLeader } from './leaderElection';
+
+const SCORE_INTERVAL_MS = Number(process.env.TRENDING_INTERVAL_MS) || 2 * 60 * 1000; // 2 minutes
+// Activity older than the window is ignored; within it, its weight halves every half-life
+const WINDOW_MS = (Number(process.env.TRENDING_WINDOW_HOURS) || 24) * 60 * 60 * 1000;
+const HALF_LIFE_MS = (Number(process.env.TRENDING_HALF_LIFE_MINUTES) || 120) * 60 * 1000;
+
+export const TRENDING_COMPONENTS: TrendingComponent[] = [
+  'tradeVelocity',
+  'uniqueBuyers',
+  'netInflow',
+  'holderGrowth',
+  'chatActivity',
+  'graduationProximity',
+];
+
+const DEFAULT_WEIGHTS: Record<TrendingComponent, number> = {
+  tradeVelocity: 0.25,
+  uniqueBuyers: 0.2,
+  netInflow: 0.2,
+  holderGrowth: 0.15,
+  chatActivity: 0.1,
+  graduationProximity: 0.1,
+};
+
+interface TokenMetrics {
+  tokenId: Types.ObjectId;
+  values: Record<TrendingComponent, number>;
+}
+
+const scoreIntervals = new Map<number, NodeJS.Timeout>();
+
+// Chains with a score run in progress
+const activeRuns = new Set<number>();
+
+/**
+ * Component weights: the defaults, overridden by TRENDING_WEIGHTS (e.g. "chatActivity=0.2,netInflow=0.1")
+ */
+export const getTrendingWeights = (): Record<TrendingComponent, number> => {
+  const weights = { ...DEFAULT_WEIGHTS };
+  const overrides = (process.env.TRENDING_WEIGHTS || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  for (const override of overrides) {
+    const [name, value] = override.split('=').map((part) => part.trim());
+    const weight = Number(value);
+    if (!TRENDING_COMPONENTS.includes(name as TrendingComponent) || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Invalid trending weight "${override}" in TRENDING_WEIGHTS`);
+    }
+    weights[name as TrendingComponent] = weight;
+  }
+  return weights;
+};
+
+// Weight of an event at the given date field: 1 now, halving every half-life
+const decayOf = (field: string, now: Date) => ({
+  $pow: [0.5, { $divide: [{ $subtract: [now, field] }, HALF_LIFE_MS] }],
+});
+
+// Log scaling keeps one outlier from flattening every other token to zero
+const normalize = (value: number, max: number): number => {
+  if (max <= 0 || value === 0) {
+    return 0;
+  }
+  return (Math.sign(value) * Math.log1p(Math.abs(value))) / Math.log1p(max);
+};
+
+/**
+ * Time-decayed activity metrics of every token of a chain with trades or chat messages in the window
+ */
+const collectChainMetrics = async (chainId: number, now: Date): Promise<Map<string, TokenMetrics>> => {
+  const windowStart = new Date(now.getTime() - WINDOW_MS);
+  const trades = { chainId: chainId, type: { $in: ['Bought', 'Sold'] }, blockTimestamp: { $gte: windowStart } };
+
+  const [tradeRows, buyerRows, chatTokens] = await Promise.all([
+    Transaction.aggregate([
+      { $match: trades },
+      {
+        $project: {
+          tokenAddress: 1,
+          decay: decayOf('$blockTimestamp', now),
+          // Signed ETH flow into the curve/pool (ethAmount is in wei)
+          flow: {
+            $multiply: [
+              { $divide: [{ $convert: { input: '$ethAmount', to: 'double', onError: 0, onNull: 0 } }, 1e18] },
+              { $cond: [{ $eq: ['$type', 'Bought'] }, 1, -1] },
+            ],
+          },
+        },
+      },
+      {
+        $group: {
+          _id: '$tokenAddress',
+          tradeVelocity: { $sum: '$decay' },
+          netInflow: { $sum: { $multiply: ['$decay', '$flow'] } },
+        },
+      },
+    ]),
+    // Each buyer counts once, weighted by their latest buy
+    Transaction.aggregate([
+      { $match: { ...trades, type: 'Bought' } },
+      { $group: { _id: { token: '$tokenAddress', buyer: '$recipientAddress' }, lastBuy: { $max: '$blockTimestamp' } } },
+      { $group: { _id: '$_id.token', uniqueBuyers: { $sum: decayOf('$lastBuy', now) } } },
+    ]),
+    ChatMessage.distinct('token', { timestamp: { $gte: windowStart }, isDeleted: { $ne: true } }),
+  ]);
+
+  const candidates = new Set<string>([...tradeRows.map((row) => row._id), ...chatTokens]);
+  const tokens = await Token.find({ chainId: chainId, address: { $in: Array.from(candidates) } })
+    .select('_id address isActive graduatedAt graduationProgress')
+    .lean();
+  const addresses = tokens.map((token) => token.address);
+
+  const [holderRows, chatRows] = await Promise.all([
+    // New holders: buyers whose first buy of the token falls in the window
+    Transaction.aggregate([
+      { $match: { chainId: chainId, tokenAddress: { $in: addresses }, type: 'Bought' } },
+      { $group: { _id: { token: '$tokenAddress', buyer: '$recipientAddress' }, firstBuy: { $min: '$blockTimestamp' } } },
+      { $match: { firstBuy: { $gte: windowStart } } },
+      { $group: { _id: '$_id.token', holderGrowth: { $sum: decayOf('$firstBuy', now) } } },
+    ]),
+    ChatMessage.aggregate([
+      { $match: { token: { $in: addresses }, timestamp: { $gte: windowStart }, isDeleted: { $ne: true } } },
+      { $group: { _id: '$token', chatActivity: { $sum: decayOf('$timestamp', now) } } },
+    ]),
+  ]);
+
+  const byToken = (rows: any[], field: string) => new Map<string, number>(rows.map((row) => [row._id, row[field] || 0]));
+  const tradeVelocity = byToken(tradeRows, 'tradeVelocity');
+  const netInflow = byToken(tradeRows, 'netInflow');
+  const uniqueBuyers = byToken(buyerRows, 'uniqueBuyers');
+  const holderGrowth = byToken(holderRows, 'holderGrowth');
+  const chatActivity = byToken(chatRows, 'chatActivity');
+
+  const metrics = new Map<string, TokenMetrics>();
+  for (const token of tokens) {
+    // graduationProgress is scaled by 1e18 (1e18 = ready to graduate); graduated tokens no longer approach it
+    const progress = token.isActive && !token.graduatedAt ? Number(token.graduationProgress || '0') / 1e18 : 0;
+    metrics.set(token.address, {
+      tokenId: token._id,
+      values: {
+        tradeVelocity: tradeVelocity.get(token.address) || 0,
+        uniqueBuyers: uniqueBuyers.get(token.address) || 0,
+        netInflow: netInflow.get(token.address) || 0,
+        holderGrowth: holderGrowth.get(token.address) || 0,
+        chatActivity: chatActivity.get(token.address) || 0,
+        graduationProximity: Math.min(Math.max(progress, 0), 1),
+      },
+    });
+  }
+  return metrics;
+};
+
+/**
+ * Recompute and store the trending scores of a chain; tokens without recent activity drop out
+ */
+export const computeChainTrending = async (chainId: number): Promise<number> => {
+  const now = new Date();
+  const weights = getTrendingWeights();
+  const totalWeight = TRENDING_COMPONENTS.reduce((sum, component) => sum + weights[component], 0);
+  const metrics = await collectChainMetrics(chainId, now);
+
+  // Largest (absolute) value of each component on the chain
+  const maxima = Object.fromEntries(TRENDING_COMPONENTS.map((component) => [
+    component,
+    Math.max(0, ...Array.from(metrics.values()).map(({ values }) => Math.abs(values[component]))),
+  ])) as Record<TrendingComponent, number>;
+
+  const scored = Array.from(metrics.entries()).map(([tokenAddress, { tokenId, values }]) => {
+    const components = {} as Record<TrendingComponent, TrendingComponentScore>;
+    let score = 0;
+    for (const component of TRENDING_COMPONENTS) {
+      // Graduation proximity is already a 0-1 fraction
+      const normalized = component === 'graduationProximity'
+        ? values[component]
+        : normalize(values[component], maxima[component]);
+      const contribution = totalWeight > 0 ? (100 * weights[component] * normalized) / totalWeight : 0;
+      components[component] = { value: values[component], normalized, contribution };
+      score += contribution;
+    }
+    return { tokenAddress, tokenId, components, score: Math.max(0, score) };
+  });
+  scored.sort((a, b) => b.score - a.score);
+
+  if (scored.length > 0) {
+    await TrendingScore.bulkWrite(scored.map((entry, i) => ({
+      updateOne: {
+        filter: { tokenAddress: entry.tokenAddress, chainId: chainId },
+        update: {
+          $set: {
+            tokenId: entry.tokenId,
+            score: entry.score,
+            rank: i + 1,
+            components: entry.components,
+            computedAt: now,
+            updatedAt: now,
+          },
+          $setOnInsert: { createdAt: now },
+        },
+        upsert: true,
+      },
+    })), { ordered: false });
+  }
+  await TrendingScore.deleteMany({ chainId: chainId, tokenAddress: { $nin: scored.map((entry) => entry.tokenAddress) } });
+
+  return scored.length;
+};
+
+const runChain = async (chainId: number): Promise<void> => {
+  // Only the instance ingesting the chain maintains its scores
+  if (activeRuns.has(chainId) || !isChainLeader(chainId)) {
+    return;
+  }
+  activeRuns.add(chainId);
+
+  try {
+    await computeChainTrending(chainId);
+  } catch (error: any) {
+    console.error(`❌ Error computing trending scores for chain ${chainId}:`, error.message);
+  } finally {
+    activeRuns.delete(chainId);
+  }
+};
+
+/**
+ * Start the periodic trending score computation for all configured chains
+ */
+export const startTrendingScores = (): void => {
+  for (const chainId of getConfiguredChains()) {
+    if (scoreIntervals.has(chainId)) {
+      continue;
+    }
+    scoreIntervals.set(chainId, setInterval(() => {
+      runChain(chainId);
+    }, SCORE_INTERVAL_MS));
+  }
+};
+
+/**
+ * Stop the periodic trending score computation
+ */
+export const stopTrendingScores = (): void => {
+  for (const interval of scoreIntervals.values()) {
+    clearInterval(interval);
+  }
+  scoreIntervals.clear();
+};
@@ -372,3 +372,65 @@ export function emitBalanceUpdate(data: {
     console.error('❌ Error emitting balanceUpdate event:', error);
   }
 }
+
+/**
+ * Emit syncLag event when a chain's ingestion falls behind the lag threshold or catches up again
+ */
+export function emitSyncLag(data: {
+  chainId: number;
+  lagging: boolean;
+  headBlock: number;
+  lastIngestedBlock: number;
+  lagBlocks: number;
+  lagSeconds: number;
+  thresholdSeconds: number;
+}): void {
+  if (!ioInstance) {
+    return;
+  }
+
+  try {
+    ioInstance.emit('syncLag', {
+      ...data,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('❌ Error emitting syncLag event:', error);
+  }
+}
+
+/**
+ * Emit orderUpdate to the order owner's room when a limit/stop order is triggered, filled,
+ * fails an attempt, expires or is cancelled
+ */
+export function emitOrderUpdate(data: {
+  userId: string;
+  orderId: string;
+  event: 'triggered' | 'filled' | 'attemptFailed' | 'failed' | 'expired' | 'cancelled';
+  type: string;
+  status: string;
+  tokenAddress: string;
+  chainId: number;
+  triggerPrice: string;
+  amount: string;
+  attempts: number;
+  txHash?: string | null;
+  simulatedAmountOut?: string | null;
+  filledAmountOut?: string | null;
+  error?: string;
+}): void {
+  if (!ioInstance) {
+    return;
+  }
+
+  try {
+    const { userId, ...order } = data;
+    ioInstance.to(`user:${userId}`).emit('orderUpdate', {
+      ...order,
+      tokenAddress: order.tokenAddress.toLowerCase(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('❌ Error emitting orderUpdate event:', error);
+  }
+}
@@ -0,0 +1,141 @@
+import { it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import Token from '../../models/Token';
+import Transaction from '../../models/Transaction';
+import TokenHolder from '../../models/TokenHolder';
+import { IToken } from '../../types';
+import { getFactoryAddressForChain } from '../../config/blockchain';
+import { saveTradeEvent, saveTransferEvent } from '../handler';
+import { describeWithDB, connectTestDB, clearTestDB, closeTestDB } from '../../__tests__/setup/database';
+
+const CHAIN_ID = 84532;
+const TOKEN = '0x2000000000000000000000000000000000000002';
+const ALICE = '0x3000000000000000000000000000000000000003';
+const BOB = '0x4000000000000000000000000000000000000004';
+const ZERO = '0x0000000000000000000000000000000000000000';
+const TX_HASH = '0x' + 'ab'.repeat(32);
+const TOTAL_SUPPLY = 1000n * 10n ** 24n;
+
+const balancesOf = async (): Promise<Record<string, string>> => {
+  const holders = await TokenHolder.find({ tokenAddress: TOKEN, chainId: CHAIN_ID }).lean();
+  return Object.fromEntries(holders.map((holder) => [holder.holderAddress, holder.balance]));
+};
+
+// What a failed attempt leaves behind: the record exists, its holder step is still pending
+const markHoldersPending = () =>
+  Transaction.updateOne({ txHash: TX_HASH, chainId: CHAIN_ID }, { $set: { pendingSteps: ['holders'] } });
+
+describeWithDB('holder changes of a retried event', () => {
+  const curve = getFactoryAddressForChain(CHAIN_ID).toLowerCase();
+  let token: IToken;
+
+  const createHolder = (holderAddress: string, balance: bigint, lastAppliedLog = '') =>
+    TokenHolder.create({
+      tokenId: token._id,
+      tokenAddress: TOKEN,
+      holderAddress: holderAddress,
+      balance: balance.toString(),
+      lastAppliedLog: lastAppliedLog,
+      chainId: CHAIN_ID,
+    });
+
+  const createPendingRecord = (type: string, senderAddress: string, recipientAddress: string, tokenAmount: string) =>
+    Transaction.create({
+      txHash: TX_HASH,
+      logIndex: 3,
+      tokenId: token._id,
+      tokenAddress: TOKEN,
+      type: type,
+      senderAddress: senderAddress,
+      recipientAddress: recipientAddress,
+      ethAmount: '0',
+      tokenAmount: tokenAmount,
+      tokenPrice: '0',
+      blockNumber: 1005,
+      blockHash: TX_HASH,
+      blockTimestamp: new Date(),
+      chainId: CHAIN_ID,
+      pendingSteps: ['holders'],
+    });
+
+  const transfer = (from: string, to: string, value: bigint) => ({
+    chainId: CHAIN_ID,
+    tokenAddress: TOKEN,
+    txHash: TX_HASH,
+    logIndex: 3,
+    blockNumber: 1005,
+    from,
+    to,
+    value,
+  });
+
+  beforeAll(async () => {
+    await connectTestDB('holder-retry');
+  });
+
+  afterAll(async () => {
+    await closeTestDB();
+  });
+
+  beforeEach(async () => {
+    await clearTestDB();
+    token = await Token.create({
+      name: 'Retry',
+      symbol: 'RTY',
+      address: TOKEN,
+      chainId: CHAIN_ID,
+      creatorAddress: ALICE,
+      totalSupply: TOTAL_SUPPLY.toString(),
+    });
+  });
+
+  it('applies each side of a transfer once when the event is retried', async () => {
+    await createHolder(ALICE, 100n);
+
+    await saveTransferEvent(transfer(ALICE, BOB, 40n));
+    await markHoldersPending();
+    await saveTransferEvent(transfer(ALICE, BOB, 40n));
+
+    expect(await balancesOf()).toEqual({ [ALICE]: '60', [BOB]: '40' });
+    expect((await Transaction.findOne({ txHash: TX_HASH }).lean())?.pendingSteps).toEqual([]);
+  });
+
+  it('finishes the side of a transfer a failed attempt did not reach', async () => {
+    // The sender was debited before the attempt failed
+    await createHolder(ALICE, 60n, `${TX_HASH}:3`);
+    await createPendingRecord('Transfer', ALICE, BOB, '40');
+
+    await saveTransferEvent(transfer(ALICE, BOB, 40n));
+
+    expect(await balancesOf()).toEqual({ [ALICE]: '60', [BOB]: '40' });
+  });
+
+  it('changes the supply of a retried burn once', async () => {
+    await createHolder(ALICE, 100n);
+
+    await saveTransferEvent(transfer(ALICE, ZERO, 100n));
+    await markHoldersPending();
+    await saveTransferEvent(transfer(ALICE, ZERO, 100n));
+
+    expect(await balancesOf()).toEqual({});
+    expect((await Token.findOne({ address: TOKEN }).lean())?.totalSupply).toBe((TOTAL_SUPPLY - 100n).toString());
+  });
+
+  it('moves the curve holder of a retried buy whose buyer was already credited', async () => {
+    await createHolder(curve, 700n);
+    await createHolder(ALICE, 300n, `${TX_HASH}:3`);
+    await createPendingRecord('Bought', ALICE, ALICE, '300');
+
+    await saveTradeEvent({
+      chainId: CHAIN_ID,
+      tokenAddress: TOKEN,
+      txHash: TX_HASH,
+      logIndex: 3,
+      blockNumber: 1005,
+      type: 'Bought',
+      recipientAddress: ALICE,
+      tokenAmount: 300n,
+    }, null);
+
+    expect(await balancesOf()).toEqual({ [curve]: '400', [ALICE]: '300' });
+  });
+});
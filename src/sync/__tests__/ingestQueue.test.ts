@@ -0,0 +1,159 @@
+import { it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import IngestEvent from '../../models/IngestEvent';
+import DeadLetterEvent from '../../models/DeadLetterEvent';
+import { saveCreatedEvent, saveTradeEvent } from '../handler';
+import { enqueueIngestEvents, drainIngestQueue, replayDeadLetter, IngestEventInput } from '../ingestQueue';
+import { describeWithDB, connectTestDB, clearTestDB, closeTestDB } from '../../__tests__/setup/database';
+
+jest.mock('../handler', () => ({
+  saveTradeEvent: jest.fn(async () => undefined),
+  saveCreatedEvent: jest.fn(async () => undefined),
+  saveGraduationEvent: jest.fn(async () => undefined),
+  saveLiquidityAddedEvent: jest.fn(async () => undefined),
+  saveFeeEvent: jest.fn(async () => undefined),
+  saveProtocolConfigEvent: jest.fn(async () => undefined),
+  saveTransferEvent: jest.fn(async () => undefined),
+  saveDexSwapEvent: jest.fn(async () => undefined),
+  PROTOCOL_CONFIG_EVENTS: [],
+}));
+
+const CHAIN_ID = 84532;
+const MAX_ATTEMPTS = 5;
+
+const queuedEvent = (eventName: string, blockNumber: number, logIndex: number): IngestEventInput => ({
+  chainId: CHAIN_ID,
+  eventName: eventName,
+  txHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+  logIndex: logIndex,
+  blockNumber: blockNumber,
+  payload: { eventData: { id: `${blockNumber}:${logIndex}`, amount: 10n ** 18n } },
+});
+
+// Make every event waiting out a backoff due again
+const expireBackoff = () => IngestEvent.updateMany({}, { $set: { nextAttemptAt: new Date(0) } });
+
+describeWithDB('ingest queue', () => {
+  beforeAll(async () => {
+    await connectTestDB('ingest-queue');
+  });
+
+  afterAll(async () => {
+    await closeTestDB();
+  });
+
+  beforeEach(async () => {
+    await clearTestDB();
+    jest.mocked(saveCreatedEvent).mockReset().mockResolvedValue(undefined);
+    jest.mocked(saveTradeEvent).mockReset().mockResolvedValue(undefined);
+  });
+
+  it('processes queued events in block and log order', async () => {
+    await enqueueIngestEvents([
+      queuedEvent('TokenBought', 1003, 2),
+      queuedEvent('TokenBought', 1003, 1),
+      queuedEvent('TokenCreated', 1001, 0),
+    ]);
+
+    await drainIngestQueue(CHAIN_ID);
+
+    expect(jest.mocked(saveCreatedEvent).mock.calls.map(([eventData]) => eventData.id)).toEqual(['1001:0']);
+    expect(jest.mocked(saveTradeEvent).mock.calls.map(([eventData]) => eventData.id)).toEqual(['1003:1', '1003:2']);
+    // Done events expire by completedAt
+    expect(await IngestEvent.countDocuments({ status: 'done', completedAt: { $ne: null } })).toBe(3);
+  });
+
+  it('stores BigInt values as decimal strings', async () => {
+    await enqueueIngestEvents([queuedEvent('TokenBought', 1003, 0)]);
+
+    const event = await IngestEvent.findOne().lean();
+    expect((event?.payload as any).eventData.amount).toBe('1000000000000000000');
+  });
+
+  it('leaves already queued events alone unless they are reprocessed', async () => {
+    await enqueueIngestEvents([queuedEvent('TokenBought', 1003, 0)]);
+    await drainIngestQueue(CHAIN_ID);
+
+    await enqueueIngestEvents([queuedEvent('TokenBought', 1003, 0)]);
+    await drainIngestQueue(CHAIN_ID);
+    expect(saveTradeEvent).toHaveBeenCalledTimes(1);
+
+    await enqueueIngestEvents([queuedEvent('TokenBought', 1003, 0)], { reprocess: true });
+    await drainIngestQueue(CHAIN_ID);
+    expect(saveTradeEvent).toHaveBeenCalledTimes(2);
+    expect(await IngestEvent.countDocuments()).toBe(1);
+  });
+
+  it('retries a failed event once its backoff has passed', async () => {
+    jest.mocked(saveTradeEvent).mockRejectedValueOnce(new Error('rpc timeout'));
+    await enqueueIngestEvents([queuedEvent('TokenBought', 1003, 0)]);
+
+    await drainIngestQueue(CHAIN_ID);
+    const failed = await IngestEvent.findOne().lean();
+    expect(failed?.status).toBe('pending');
+    expect(failed?.attempts).toBe(1);
+    expect(failed?.lastError).toBe('rpc timeout');
+    expect(failed!.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    await drainIngestQueue(CHAIN_ID);
+    expect(saveTradeEvent).toHaveBeenCalledTimes(1);
+
+    await expireBackoff();
+    await drainIngestQueue(CHAIN_ID);
+    expect(saveTradeEvent).toHaveBeenCalledTimes(2);
+    expect((await IngestEvent.findOne().lean())?.status).toBe('done');
+  });
+
+  it('holds back the later events of the chain while an earlier one waits for its retry', async () => {
+    jest.mocked(saveCreatedEvent).mockRejectedValueOnce(new Error('rpc timeout'));
+    await enqueueIngestEvents([queuedEvent('TokenCreated', 1001, 0), queuedEvent('TokenBought', 1003, 0)]);
+
+    await drainIngestQueue(CHAIN_ID);
+    expect(saveTradeEvent).not.toHaveBeenCalled();
+    expect(await IngestEvent.countDocuments({ status: 'pending' })).toBe(2);
+
+    await expireBackoff();
+    await drainIngestQueue(CHAIN_ID);
+    expect(saveCreatedEvent).toHaveBeenCalledTimes(2);
+    expect(saveTradeEvent).toHaveBeenCalledTimes(1);
+    expect(await IngestEvent.countDocuments({ status: 'done' })).toBe(2);
+  });
+
+  it('lets the chain proceed once the failing event is dead-lettered', async () => {
+    jest.mocked(saveCreatedEvent).mockRejectedValue(new Error('bad payload'));
+    await enqueueIngestEvents([queuedEvent('TokenCreated', 1001, 0), queuedEvent('TokenBought', 1003, 0)]);
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      expect(saveTradeEvent).not.toHaveBeenCalled();
+      await expireBackoff();
+      await drainIngestQueue(CHAIN_ID);
+    }
+
+    expect(await DeadLetterEvent.countDocuments()).toBe(1);
+    expect(saveTradeEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves an event to the dead letters after the last attempt and replays it on request', async () => {
+    jest.mocked(saveTradeEvent).mockRejectedValue(new Error('bad payload'));
+    await enqueueIngestEvents([queuedEvent('TokenBought', 1003, 0)]);
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      await expireBackoff();
+      await drainIngestQueue(CHAIN_ID);
+    }
+
+    expect(saveTradeEvent).toHaveBeenCalledTimes(MAX_ATTEMPTS);
+    expect(await IngestEvent.countDocuments()).toBe(0);
+    const deadLetter = await DeadLetterEvent.findOne().lean();
+    expect(deadLetter?.attempts).toBe(MAX_ATTEMPTS);
+    expect(deadLetter?.lastError).toBe('bad payload');
+
+    jest.mocked(saveTradeEvent).mockResolvedValue(undefined);
+    expect(await replayDeadLetter(String(deadLetter!._id))).toBe(true);
+    // replayDeadLetter drains in the background; this drain runs after it
+    await drainIngestQueue(CHAIN_ID);
+
+    expect(await DeadLetterEvent.countDocuments()).toBe(0);
+    expect((await IngestEvent.findOne().lean())?.status).toBe('done');
+  });
+});
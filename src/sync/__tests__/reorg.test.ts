@@ -0,0 +1,181 @@
+import { it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import { Types } from 'mongoose';
+import Token from '../../models/Token';
+import Transaction from '../../models/Transaction';
+import TokenHistory from '../../models/TokenHistory';
+import TokenHolder from '../../models/TokenHolder';
+import LiquidityEvent from '../../models/LiquidityEvent';
+import SyncState from '../../models/SyncState';
+import { getProvider, getContract, getFactoryAddressForChain } from '../../config/blockchain';
+import { syncBlockRange } from '../handler';
+import { rollbackFromBlock, checkForReorg } from '../reorg';
+import { describeWithDB, connectTestDB, clearTestDB, closeTestDB } from '../../__tests__/setup/database';
+
+jest.mock('../../config/blockchain', () => ({
+  ...jest.requireActual<typeof import('../../config/blockchain')>('../../config/blockchain'),
+  getProvider: jest.fn(),
+  getContract: jest.fn(),
+  getConfirmationDepth: jest.fn(() => 2),
+}));
+
+jest.mock('../handler', () => ({
+  ...jest.requireActual<typeof import('../handler')>('../handler'),
+  syncBlockRange: jest.fn(async () => undefined),
+}));
+
+const CHAIN_ID = 84532;
+const TOKEN = '0x2000000000000000000000000000000000000002';
+const BUYER = '0x3000000000000000000000000000000000000003';
+const PAIR = '0x8000000000000000000000000000000000000008';
+const TOTAL_SUPPLY = 1000n * 10n ** 24n;
+
+const hashOf = (n: number): string => '0x' + n.toString(16).padStart(64, '0');
+
+const createToken = () =>
+  Token.create({
+    name: 'Lifecycle',
+    symbol: 'LIFE',
+    address: TOKEN,
+    chainId: CHAIN_ID,
+    creatorAddress: BUYER,
+    totalSupply: TOTAL_SUPPLY.toString(),
+    isActive: false,
+  });
+
+const createBuy = (tokenId: Types.ObjectId, blockNumber: number, tokenAmount: bigint, blockHash: string) =>
+  Transaction.create({
+    txHash: hashOf(blockNumber),
+    logIndex: 0,
+    tokenId: tokenId,
+    tokenAddress: TOKEN,
+    type: 'Bought',
+    senderAddress: BUYER,
+    recipientAddress: BUYER,
+    ethAmount: '1000000000000000000',
+    tokenAmount: tokenAmount.toString(),
+    tokenPrice: '0.000001',
+    blockNumber: blockNumber,
+    blockHash: blockHash,
+    blockTimestamp: new Date(),
+    chainId: CHAIN_ID,
+    status: 'pending',
+  });
+
+describeWithDB('reorg rollback', () => {
+  beforeAll(async () => {
+    await connectTestDB('reorg');
+  });
+
+  afterAll(async () => {
+    await closeTestDB();
+  });
+
+  beforeEach(async () => {
+    await clearTestDB();
+    jest.mocked(getContract).mockReturnValue({
+      tokens: async () => ({
+        virtualEthReserves: 10n ** 18n,
+        virtualTokenReserves: TOTAL_SUPPLY,
+        realEthReserves: 0n,
+        realTokenReserves: TOTAL_SUPPLY,
+      }),
+    } as any);
+    jest.mocked(syncBlockRange).mockClear();
+  });
+
+  it('removes the records of orphaned blocks and rebuilds the token from what remains', async () => {
+    const token = await createToken();
+    await createBuy(token._id, 1003, 300n * 10n ** 24n, hashOf(0xa));
+    await createBuy(token._id, 1020, 100n * 10n ** 24n, hashOf(0xb));
+    await TokenHistory.create([
+      { tokenAddress: TOKEN, tokenId: token._id, tokenPrice: '0.000001', blockNumber: 1003, timestamp: new Date(1000), chainId: CHAIN_ID },
+      { tokenAddress: TOKEN, tokenId: token._id, tokenPrice: '0.000002', blockNumber: 1020, timestamp: new Date(2000), chainId: CHAIN_ID },
+    ]);
+    await LiquidityEvent.create({
+      tokenId: token._id,
+      tokenAddress: TOKEN,
+      type: 'add',
+      providerAddress: PAIR,
+      liquidityPoolAddress: PAIR,
+      txHash: hashOf(1020),
+      blockNumber: 1020,
+      blockTimestamp: new Date(),
+      chainId: CHAIN_ID,
+      methodName: 'TokenGraduated',
+    });
+
+    await rollbackFromBlock(CHAIN_ID, 1020);
+
+    expect(await Transaction.countDocuments({ blockNumber: { $gte: 1020 } })).toBe(0);
+    expect(await Transaction.countDocuments({ blockNumber: 1003 })).toBe(1);
+    expect(await TokenHistory.countDocuments()).toBe(1);
+    expect(await LiquidityEvent.countDocuments()).toBe(0);
+
+    const rebuilt = await Token.findOne({ address: TOKEN, chainId: CHAIN_ID });
+    expect(rebuilt?.isActive).toBe(true);
+    expect(rebuilt?.currentPrice).toBe('0.000001');
+
+    const curve = getFactoryAddressForChain(CHAIN_ID).toLowerCase();
+    const holders = await TokenHolder.find({ tokenAddress: TOKEN }).lean();
+    const balances = Object.fromEntries(holders.map((holder) => [holder.holderAddress, holder.balance]));
+    expect(balances).toEqual({
+      [BUYER]: (300n * 10n ** 24n).toString(),
+      [curve]: (700n * 10n ** 24n).toString(),
+    });
+  });
+
+  it('removes tokens created in orphaned blocks', async () => {
+    const token = await Token.create({
+      name: 'Orphaned',
+      symbol: 'ORPH',
+      address: TOKEN,
+      chainId: CHAIN_ID,
+      creatorAddress: BUYER,
+      totalSupply: TOTAL_SUPPLY.toString(),
+      deploymentBlock: 1020,
+    });
+    await createBuy(token._id, 1021, 100n * 10n ** 24n, hashOf(0xb));
+    await TokenHolder.create({ tokenId: token._id, tokenAddress: TOKEN, holderAddress: BUYER, balance: '1', chainId: CHAIN_ID });
+
+    await rollbackFromBlock(CHAIN_ID, 1020);
+
+    expect(await Token.countDocuments()).toBe(0);
+    expect(await TokenHolder.countDocuments()).toBe(0);
+    expect(await Transaction.countDocuments()).toBe(0);
+  });
+
+  it('confirms records below the confirmation depth and re-syncs from the first block whose hash changed', async () => {
+    const token = await createToken();
+    await createBuy(token._id, 1003, 300n * 10n ** 24n, hashOf(0xa));
+    await createBuy(token._id, 1020, 100n * 10n ** 24n, hashOf(0xb));
+    await SyncState.create({ chainId: CHAIN_ID, lastProcessedBlock: 1021 });
+
+    // Head 1021 with a depth of 2: block 1003 is final, block 1020 was replaced
+    jest.mocked(getProvider).mockReturnValue({
+      getBlockNumber: async () => 1021,
+      getBlock: async (blockNumber: number) => ({ hash: blockNumber === 1020 ? hashOf(0xc) : hashOf(0xa) }),
+    } as any);
+
+    await checkForReorg(CHAIN_ID);
+
+    const remaining = await Transaction.find({ chainId: CHAIN_ID }).lean();
+    expect(remaining.map((tx) => [tx.blockNumber, tx.status])).toEqual([[1003, 'confirmed']]);
+    expect(syncBlockRange).toHaveBeenCalledWith(1020, 1021, CHAIN_ID);
+    expect((await SyncState.findOne({ chainId: CHAIN_ID }))?.lastProcessedBlock).toBe(1021);
+  });
+
+  it('leaves everything in place when the recorded hashes are canonical', async () => {
+    const token = await createToken();
+    await createBuy(token._id, 1020, 100n * 10n ** 24n, hashOf(0xb));
+
+    jest.mocked(getProvider).mockReturnValue({
+      getBlockNumber: async () => 1021,
+      getBlock: async () => ({ hash: hashOf(0xb) }),
+    } as any);
+
+    await checkForReorg(CHAIN_ID);
+
+    expect(await Transaction.countDocuments({ status: 'pending' })).toBe(1);
+    expect(syncBlockRange).not.toHaveBeenCalled();
+  });
+});
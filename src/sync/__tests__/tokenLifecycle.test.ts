@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { syncBlockRange } from '../handler';
+import Token from '../../models/Token';
+import Transaction from '../../models/Transaction';
+import TokenHolder from '../../models/TokenHolder';
+import LiquidityEvent from '../../models/LiquidityEvent';
+import IngestEvent from '../../models/IngestEvent';
+import DeadLetterEvent from '../../models/DeadLetterEvent';
+import holderRoutes from '../../routes/holders';
+import transactionRoutes from '../../routes/transactions';
+import { describeWithDB, connectTestDB, closeTestDB } from '../../__tests__/setup/database';
+
+// src/config/fixtures/token-lifecycle.json: created at 1001, bought at 1003, graduated at 1010
+const CHAIN_ID = 84532;
+const TOKEN = '0x2000000000000000000000000000000000000002';
+const BUYER = '0x3000000000000000000000000000000000000003';
+const PAIR = '0x8000000000000000000000000000000000000008';
+const GENESIS_TIMESTAMP = 1735689600;
+const BLOCK_TIME_SECONDS = 2;
+
+const blockTime = (blockNumber: number): Date =>
+  new Date((GENESIS_TIMESTAMP + (blockNumber - 1000) * BLOCK_TIME_SECONDS) * 1000);
+
+describeWithDB('token lifecycle on the fixture chain', () => {
+  beforeAll(async () => {
+    await connectTestDB('token-lifecycle');
+    await syncBlockRange(1001, 1010, CHAIN_ID);
+  });
+
+  afterAll(async () => {
+    await closeTestDB();
+  });
+
+  it('processes every queued event', async () => {
+    expect(await IngestEvent.countDocuments({ chainId: CHAIN_ID, status: { $ne: 'done' } })).toBe(0);
+    expect(await DeadLetterEvent.countDocuments({ chainId: CHAIN_ID })).toBe(0);
+  });
+
+  it('stores the created token with its deployment block', async () => {
+    const token = await Token.findOne({ address: TOKEN, chainId: CHAIN_ID }).lean();
+    expect(token).not.toBeNull();
+    expect(token!.name).toBe('Fixture Token');
+    expect(token!.symbol).toBe('FIX');
+    expect(token!.creatorAddress).toBe(BUYER);
+    expect(token!.totalSupply).toBe('1000000000000000000000000000');
+    expect(token!.graduationEth).toBe('5000000000000000000');
+    // 1 ETH of the 5 ETH graduation threshold after the buy
+    expect(token!.graduationProgress).toBe('200000000000000000');
+    expect(token!.deploymentBlock).toBe(1001);
+    expect(token!.deploymentTimestamp).toEqual(blockTime(1001));
+  });
+
+  it('stores the buy and the liquidity deposit as transactions', async () => {
+    const transactions = await Transaction.find({ tokenAddress: TOKEN, chainId: CHAIN_ID })
+      .sort({ blockNumber: 1 })
+      .lean();
+    expect(transactions.map((tx) => tx.type)).toEqual(['Bought', 'Add_liquidity']);
+
+    const [buy, liquidity] = transactions;
+    expect(buy.recipientAddress).toBe(BUYER);
+    expect(buy.ethAmount).toBe('1000000000000000000');
+    expect(buy.tokenAmount).toBe('300000000000000000000000000');
+    expect(buy.blockNumber).toBe(1003);
+    expect(new Date(buy.blockTimestamp)).toEqual(blockTime(1003));
+    expect(liquidity.venue).toBe('dex');
+    expect(liquidity.recipientAddress).toBe(PAIR);
+    expect(transactions.every((tx) => tx.pendingSteps.length === 0)).toBe(true);
+  });
+
+  it('tracks the holder balances of the buyer and the DEX pair', async () => {
+    const holders = await TokenHolder.find({ tokenAddress: TOKEN, chainId: CHAIN_ID }).lean();
+    const balanceOf = (address: string): string | undefined =>
+      holders.find((holder) => holder.holderAddress === address)?.balance;
+
+    expect(balanceOf(BUYER)).toBe('300000000000000000000000000');
+    expect(balanceOf(PAIR)).toBe('200000000000000000000000000');
+  });
+
+  it('graduates the token to its DEX pair', async () => {
+    const token = await Token.findOne({ address: TOKEN, chainId: CHAIN_ID }).lean();
+    expect(token!.isActive).toBe(false);
+    expect(token!.pairAddress).toBe(PAIR);
+    expect(token!.graduatedAt).toEqual(blockTime(1010));
+
+    const liquidityEvents = await LiquidityEvent.find({ tokenAddress: TOKEN, chainId: CHAIN_ID }).lean();
+    expect(liquidityEvents).toHaveLength(1);
+    expect(liquidityEvents[0].liquidityPoolAddress).toBe(PAIR);
+    expect(liquidityEvents[0].ethAmount).toBe('5000000000000000000');
+    expect(liquidityEvents[0].tokenAmount).toBe('200000000000000000000000000');
+  });
+
+  it('replays the range without duplicating records', async () => {
+    await syncBlockRange(1001, 1010, CHAIN_ID, { reprocess: true });
+
+    expect(await Token.countDocuments({ address: TOKEN, chainId: CHAIN_ID })).toBe(1);
+    expect(await Transaction.countDocuments({ tokenAddress: TOKEN, chainId: CHAIN_ID })).toBe(2);
+    const buyer = await TokenHolder.findOne({ tokenAddress: TOKEN, holderAddress: BUYER, chainId: CHAIN_ID }).lean();
+    expect(buyer!.balance).toBe('300000000000000000000000000');
+  });
+
+  describe('API', () => {
+    const app = express();
+    app.use('/api/holders', holderRoutes);
+    app.use('/api/transactions', transactionRoutes);
+
+    it('GET /api/transactions/token/:tokenAddress lists the synced transactions', async () => {
+      const response = await request(app)
+        .get(`/api/transactions/token/${TOKEN}`)
+        .query({ chainId: CHAIN_ID })
+        .expect(200);
+
+      expect(response.body.totalCount).toBe(2);
+      // Newest first
+      expect(response.body.data.map((tx: any) => tx.type)).toEqual(['Add_liquidity', 'Bought']);
+    });
+
+    it('GET /api/holders/token/:tokenAddress lists holders by balance', async () => {
+      const response = await request(app)
+        .get(`/api/holders/token/${TOKEN}`)
+        .query({ chainId: CHAIN_ID })
+        .expect(200);
+
+      expect(response.body.data[0]).toMatchObject({
+        owner_address: BUYER,
+        balance: '300000000000000000000000000',
+      });
+    });
+
+    it('rejects an invalid token address', async () => {
+      await request(app).get('/api/transactions/token/not-an-address').expect(400);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import Token from '../../models/Token';
+import { getContractWithSigner } from '../../config/blockchain';
+import { saveTradeEvent } from '../handler';
+import { describeWithDB, connectTestDB, clearTestDB, closeTestDB } from '../../__tests__/setup/database';
+
+jest.mock('../../config/blockchain', () => ({
+  ...jest.requireActual<typeof import('../../config/blockchain')>('../../config/blockchain'),
+  getContractWithSigner: jest.fn(),
+}));
+
+const CHAIN_ID = 84532;
+const TOKEN = '0x2000000000000000000000000000000000000002';
+const BUYER = '0x3000000000000000000000000000000000000003';
+const ETH = 10n ** 18n;
+
+const buy = (blockNumber: number, tokenPrice: string, newEthReserves: bigint) => {
+  const timestamp = new Date(blockNumber * 1000);
+  return {
+    eventData: {
+      chainId: CHAIN_ID,
+      tokenAddress: TOKEN,
+      txHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+      logIndex: 0,
+      blockNumber: blockNumber,
+      blockTimestamp: timestamp,
+      type: 'Bought',
+      senderAddress: BUYER,
+      recipientAddress: BUYER,
+      ethAmount: ETH,
+      tokenAmount: 10n ** 24n,
+      newEthReserves: newEthReserves,
+    },
+    priceData: { tokenAddress: TOKEN, tokenPrice: tokenPrice, blockNumber: blockNumber, timestamp: timestamp, chainId: CHAIN_ID },
+  };
+};
+
+describeWithDB('token price of indexed trades', () => {
+  const estimateGas = jest.fn(async () => {
+    throw new Error('threshold not met');
+  });
+
+  beforeAll(async () => {
+    await connectTestDB('trade-price');
+  });
+
+  afterAll(async () => {
+    await closeTestDB();
+  });
+
+  beforeEach(async () => {
+    await clearTestDB();
+    estimateGas.mockClear();
+    jest.mocked(getContractWithSigner).mockReturnValue({ graduateTokenManually: { estimateGas } } as any);
+    await Token.create({
+      name: 'Price',
+      symbol: 'PRC',
+      address: TOKEN,
+      chainId: CHAIN_ID,
+      creatorAddress: BUYER,
+      totalSupply: (10n ** 27n).toString(),
+      graduationEth: (5n * ETH).toString(),
+    });
+  });
+
+  it('keeps the price and progress of a newer trade when an older one is ingested later', async () => {
+    const newer = buy(1010, '0.000002', 2n * ETH);
+    const older = buy(1005, '0.000001', ETH);
+
+    await saveTradeEvent(newer.eventData, newer.priceData);
+    await saveTradeEvent(older.eventData, older.priceData);
+
+    const token = await Token.findOne({ address: TOKEN }).lean();
+    expect(token).toMatchObject({
+      currentPrice: '0.000002',
+      marketCap: (2000n * ETH).toString(),
+      graduationProgress: (4n * 10n ** 17n).toString(),
+      priceBlockNumber: 1010,
+    });
+  });
+
+  it('asks the factory to graduate the token once, not again on a replay', async () => {
+    const trade = buy(1010, '0.000005', 5n * ETH);
+
+    await saveTradeEvent(trade.eventData, trade.priceData);
+    await saveTradeEvent(trade.eventData, trade.priceData);
+
+    expect(estimateGas).toHaveBeenCalledTimes(1);
+    expect((await Token.findOne({ address: TOKEN }).lean())?.graduationProgress).toBe(ETH.toString());
+  });
+});
@@ -0,0 +1,87 @@
+import SyncState from '../models/SyncState';
+import { getProvider } from '../config/blockchain';
+import { syncBlockRange } from './handler';
+
+// Chains that currently have a gap backfill running (prevents overlapping backfills on rapid reconnects)
+const activeBackfills = new Map<number, Promise<void>>();
+
+/**
+ * Get the last fully processed block for a chain, or null if the chain has never been synced
+ */
+export const getLastProcessedBlock = async (chainId: number): Promise<number | null> => {
+  const state = await SyncState.findOne({ chainId }).lean();
+  return state ? state.lastProcessedBlock : null;
+};
+
+/**
+ * Advance the checkpoint for a chain. The checkpoint only ever moves forward,
+ * so concurrent writers (sync script, live tracker, backfill) can't move it back.
+ */
+export const saveLastProcessedBlock = async (chainId: number, blockNumber: number): Promise<void> => {
+  await SyncState.updateOne(
+    { chainId },
+    {
+      $max: { lastProcessedBlock: blockNumber },
+      $set: { lastProcessedAt: new Date(), updatedAt: new Date() },
+      $setOnInsert: { chainId, createdAt: new Date() }
+    },
+    { upsert: true }
+  );
+};
+
+/**
+ * Move the checkpoint back to a given block (used when a reorg invalidates already-processed blocks)
+ */
+export const rewindLastProcessedBlock = async (chainId: number, blockNumber: number): Promise<void> => {
+  await SyncState.updateOne(
+    { chainId, lastProcessedBlock: { $gt: blockNumber } },
+    { $set: { lastProcessedBlock: blockNumber, lastProcessedAt: new Date(), updatedAt: new Date() } }
+  );
+};
+
+/**
+ * Returns true while a gap backfill is running for the chain
+ */
+export const isBackfillRunning = (chainId: number): boolean => activeBackfills.has(chainId);
+
+/**
+ * Replay every block between the stored checkpoint and the current head through syncBlockRange.
+ * Called whenever the live tracker (re)connects so events emitted while we were offline are not lost.
+ * If the chain has no checkpoint yet, starts from SYNC_START_BLOCK or, if unset, from the current head.
+ */
+export const backfillGap = (chainId: number): Promise<void> => {
+  const running = activeBackfills.get(chainId);
+  if (running) {
+    return running;
+  }
+
+  const run = (async () => {
+    const chainProvider = getProvider(chainId);
+    const intervalSize = Number(process.env.SYNC_INTERVAL_SIZE) || 100;
+    const headBlock = await chainProvider.getBlockNumber();
+
+    const lastProcessedBlock = await getLastProcessedBlock(chainId);
+    let startBlock: number;
+    if (lastProcessedBlock !== null) {
+      startBlock = lastProcessedBlock + 1;
+    } else if (process.env.SYNC_START_BLOCK) {
+      startBlock = Number(process.env.SYNC_START_BLOCK) || 0;
+    } else {
+      // Nothing to catch up on - start tracking from the current head
+      await saveLastProcessedBlock(chainId, headBlock);
+      return;
+    }
+
+    while (startBlock <= headBlock) {
+      const endBlock = Math.min(startBlock + intervalSize - 1, headBlock);
+      await syncBlockRange(startBlock, endBlock, chainId);
+      await saveLastProcessedBlock(chainId, endBlock);
+      startBlock = endBlock + 1;
+    }
+  })();
+
+  activeBackfills.set(chainId, run);
+  return run.finally(() => {
+    activeBackfills.delete(chainId);
+  });
+};
@@ -4,9 +4,35 @@ import TokenHistory from '../models/TokenHistory';
 import Token from '../models/Token';
 import TokenHolder from '../models/TokenHolder';
 import LiquidityEvent from '../models/LiquidityEvent';
-import { getContract, getProvider, getFactoryAddressForChain, getContractWithSigner } from '../config/blockchain';
+import FeePayment from '../models/FeePayment';
+import ProtocolConfigEvent from '../models/ProtocolConfigEvent';
+import {
+  getProvider,
+  getFactoryAddressForChain,
+  getContractWithSigner,
+  tokenInterface,
+  factoryInterface,
+  TRANSFER_TOPIC
+} from '../config/blockchain';
+import { resolvePairAddress, clearDexConfig, getPairContract, isToken0, pairInterface, SWAP_TOPIC, SYNC_TOPIC } from '../config/dex';
+import { getLogsAdaptive, createBlockTimestampCache } from './logs';
+import { enqueueIngestEvents, drainIngestQueue, IngestEventInput } from './ingestQueue';
 import { emitTokenPriceUpdate, emitTokenBought, emitTokenSold, emitTokenCreated } from '../socket/updateEmitter';
-import { getEthPriceUSD } from '../services/ethPriceService';
+import { getEthPriceAt } from '../services/ethPriceService';
+import { applyTradeToCandles, rebuildTokenCandles } from '../services/candleService';
+import { updateTokenStats, updateTokenStatsAfterTrade } from '../services/tokenStats';
+import { matchOrders } from '../services/orderService';
+
+// Number of token addresses per eth_getLogs Transfer query
+export const TRANSFER_ADDRESS_BATCH_SIZE = 500;
+
+// Factory admin events that change protocol parameters
+export const PROTOCOL_CONFIG_EVENTS = [
+  'FeeTierUpdated',
+  'MarketCapUnitUpdated',
+  'UniswapRouterUpdated',
+  'OwnershipTransferred',
+] as const;
 
 // Helper function to validate and normalize price
 const validatePrice = (price: string | number | undefined, context: string = ''): string => {
@@ -27,6 +53,10 @@ const validatePrice = (price: string | number | undefined, context: string = '')
   return priceStr;
 };
 
+// Key of the event log a holder change comes from, stored as TokenHolder.lastAppliedLog
+const holderLogKey = (txHash: string, logIndex: number | undefined): string =>
+  `${txHash.toLowerCase()}:${logIndex ?? 0}`;
+
 // Helper function to update or create a holder record
 const updateOrCreateHolder = async (
   tokenId: any,
@@ -35,7 +65,8 @@ const updateOrCreateHolder = async (
   balance: string,
   txHash: string,
   chainId: number,
-  isFirstTransaction: boolean
+  isFirstTransaction: boolean,
+  appliedLog: string
 ): Promise<void> => {
   try {
     const existingHolder = await TokenHolder.findOne({
@@ -49,6 +80,7 @@ const updateOrCreateHolder = async (
       existingHolder.balance = balance;
       existingHolder.lastTransactionHash = txHash.toLowerCase();
       existingHolder.transactionCount = (existingHolder.transactionCount || 0) + 1;
+      existingHolder.lastAppliedLog = appliedLog;
       if (isFirstTransaction && !existingHolder.firstTransactionHash) {
         existingHolder.firstTransactionHash = txHash.toLowerCase();
       }
@@ -63,6 +95,7 @@ const updateOrCreateHolder = async (
         firstTransactionHash: txHash.toLowerCase(),
         lastTransactionHash: txHash.toLowerCase(),
         transactionCount: 1,
+        lastAppliedLog: appliedLog,
         chainId: chainId
       });
     }
@@ -110,6 +143,110 @@ export const recalculatePercentages = async (
   }
 };
 
+// Helper function to add a (possibly negative) amount to a holder's balance, removing the holder at zero.
+// Skipped when the holder already carries this log's change (a retry after a partial failure).
+// Returns whether a holder was written.
+const applyHolderDelta = async (
+  token: any,
+  holderAddress: string,
+  delta: bigint,
+  txHash: string,
+  logIndex: number,
+  chainId: number
+): Promise<boolean> => {
+  const appliedLog = holderLogKey(txHash, logIndex);
+  const existingHolder = await TokenHolder.findOne({
+    tokenId: token._id,
+    holderAddress: holderAddress.toLowerCase(),
+    chainId: chainId
+  });
+  if (existingHolder?.lastAppliedLog === appliedLog) {
+    return false;
+  }
+  const newBalance = BigInt(existingHolder?.balance || '0') + delta;
+
+  if (newBalance > 0n) {
+    await updateOrCreateHolder(
+      token._id,
+      token.address,
+      holderAddress,
+      newBalance.toString(),
+      txHash,
+      chainId,
+      !existingHolder,
+      appliedLog
+    );
+    return true;
+  } else if (existingHolder) {
+    await TokenHolder.deleteOne({ _id: existingHolder._id });
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Store the curve reserves a trade left behind (used by services/quoteService to quote locally).
+ * Only applies when the trade is newer than the stored state, so replays and out-of-order batches can't roll it back.
+ */
+const saveCurveReserves = async (eventData: any, tokenAddress: string, chainId: number): Promise<void> => {
+  const reserves = [eventData.newEthReserves, eventData.newTokenReserves, eventData.newVirtualEthReserves, eventData.newVirtualTokenReserves];
+  if (reserves.some((value) => value === undefined || value === null) || eventData.blockNumber === undefined) {
+    return;
+  }
+
+  const blockNumber = Number(eventData.blockNumber);
+  const logIndex = Number(eventData.logIndex ?? 0);
+  await Token.updateOne(
+    {
+      address: tokenAddress,
+      chainId: chainId,
+      $or: [
+        { reservesBlockNumber: null },
+        { reservesBlockNumber: { $lt: blockNumber } },
+        { reservesBlockNumber: blockNumber, reservesLogIndex: { $lt: logIndex } },
+      ],
+    },
+    {
+      $set: {
+        realEthReserves: eventData.newEthReserves.toString(),
+        realTokenReserves: eventData.newTokenReserves.toString(),
+        virtualEthReserves: eventData.newVirtualEthReserves.toString(),
+        virtualTokenReserves: eventData.newVirtualTokenReserves.toString(),
+        reservesBlockNumber: blockNumber,
+        reservesLogIndex: logIndex,
+        reservesUpdatedAt: new Date(),
+      },
+    }
+  );
+};
+
+/**
+ * Record a trade as the newest one behind the token's price, market cap and graduation progress.
+ * Returns false for trades older than the recorded one (replays, backfilled gaps), which must not overwrite them.
+ * The recorded trade itself passes again, so that a retry of a failed attempt finishes its writes.
+ */
+const claimPriceTrade = async (eventData: any, tokenAddress: string, chainId: number): Promise<boolean> => {
+  if (eventData.blockNumber === undefined || eventData.blockNumber === null) {
+    return true;
+  }
+
+  const blockNumber = Number(eventData.blockNumber);
+  const logIndex = Number(eventData.logIndex ?? 0);
+  const { matchedCount } = await Token.updateOne(
+    {
+      address: tokenAddress,
+      chainId: chainId,
+      $or: [
+        { priceBlockNumber: null },
+        { priceBlockNumber: { $lt: blockNumber } },
+        { priceBlockNumber: blockNumber, priceLogIndex: { $lte: logIndex } },
+      ],
+    },
+    { $set: { priceBlockNumber: blockNumber, priceLogIndex: logIndex } }
+  );
+  return matchedCount > 0;
+};
+
 // Define your callback function for handling the events
 export const saveTradeEvent = async (eventData: any, priceData: any): Promise<void> => {
   try {
@@ -126,10 +263,14 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
       return;
     }
     
-    // Check if the transaction already exists in the database by txHash + chainId
+    // Check if the trade already exists in the database by its log (chainId + txHash + logIndex):
+    // one transaction can carry several trades (e.g. a router hitting the curve or the pair twice)
+    // next to the transfers stored as separate records
+    const isDexTrade = eventData.venue === 'dex';
     const existingTx = await Transaction.findOne({ 
+      chainId: chainId,
       txHash: (eventData.txHash || '').toLowerCase(),
-      chainId: chainId
+      logIndex: eventData.logIndex ?? 0
     });
     
     // Lookup token to get tokenId
@@ -142,8 +283,14 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
       return;
     }
     
+    // Replays (gap backfills, overlapping sync ranges) must not apply holder changes twice.
+    // A record whose holder step is still pending was left by a failed attempt, which this retry finishes.
+    const isReplay = !!existingTx && !existingTx.pendingSteps.includes('holders');
+    // Trades older than the one the token's price comes from leave price, market cap and progress alone
+    const isLatestTrade = await claimPriceTrade(eventData, token.address, chainId);
+    
     // Update graduation progress if newEthReserves is available
-    if (eventData.newEthReserves !== undefined && token.graduationEth && token.graduationEth !== '0') {
+    if (isLatestTrade && eventData.newEthReserves !== undefined && token.graduationEth && token.graduationEth !== '0') {
       try {
         const newEthReserves = BigInt(eventData.newEthReserves.toString());
         const graduationEth = BigInt(token.graduationEth);
@@ -156,8 +303,8 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
         await token.save();
         
         // Check if token is ready to graduate and call graduateTokenManually
-        // Only check if token is still active (not already graduated)
-        if (newEthReserves >= graduationEth && token.isActive) {
+        // Only check if token is still active (not already graduated) and the trade is new
+        if (!isReplay && newEthReserves >= graduationEth && token.isActive) {
           
           // Call graduateTokenManually asynchronously (don't block the event processing)
           graduateTokenManually(token.address, chainId).catch((error: any) => {
@@ -169,35 +316,69 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
       }
     }
     
+    // DEX trades don't move the curve
+    if (!isDexTrade) {
+      try {
+        await saveCurveReserves(eventData, token.address, chainId);
+      } catch (error: any) {
+        console.error(`❌ Error saving curve reserves:`, error.message);
+      }
+    }
+
+    // Fetch ETH price for USD calculations
+    let ethPriceUSD: string | null = null;
+    if (priceData) {
+      try {
+        ethPriceUSD = await getEthPriceAt(eventData.blockTimestamp || new Date());
+      } catch (error: any) {
+        console.error('❌ Error fetching ETH price in saveTradeEvent:', error.message);
+        // Continue with ETH-only values if USD calculation fails
+      }
+    }
+
     // Save transaction if it doesn't exist
+    let transactionId = existingTx?._id;
     if (!existingTx) {
+      const tokenPrice = priceData?.tokenPrice ? String(priceData.tokenPrice) : '0';
+      const ethPrice = ethPriceUSD !== null ? parseFloat(ethPriceUSD) : null;
       const transactionData = {
         ...eventData,
         txHash: eventData.txHash?.toLowerCase() || '',
         tokenId: token._id,
         tokenAddress: eventData.tokenAddress?.toLowerCase() || '',
         chainId: chainId,
+        blockHash: eventData.blockHash?.toLowerCase() || '',
         blockTimestamp: eventData.blockTimestamp || new Date(),
-        tokenPrice: priceData?.tokenPrice ? String(priceData.tokenPrice) : '0', // Include tokenPrice from priceData
+        tokenPrice: tokenPrice, // Include tokenPrice from priceData
+        // null when the ETH price at block time is unknown (not a zero price)
+        tokenPriceUSD: tokenPrice === '0' ? '0' : ethPrice !== null ? (parseFloat(tokenPrice) * ethPrice).toString() : null,
+        status: 'pending', // Confirmed by the reorg checker once it's deeper than the confirmation depth
+        pendingSteps: ['candles', 'holders'],
       };
-      await Transaction.create(transactionData);
-    } else if (priceData?.tokenPrice && (!existingTx.tokenPrice || existingTx.tokenPrice === '0')) {
-      // Update existing transaction with tokenPrice if it's missing or zero
-      existingTx.tokenPrice = String(priceData.tokenPrice);
-      await existingTx.save();
+      transactionId = (await Transaction.create(transactionData))._id;
+
+      // Candles and rolling stats are maintained incrementally; a failure reaches the ingest queue,
+      // whose retry rebuilds the candles below
+      await applyTradeToCandles(transactionData);
+      await updateTokenStatsAfterTrade(transactionData.tokenAddress, chainId);
+      await Transaction.updateOne({ _id: transactionId }, { $pull: { pendingSteps: 'candles' } });
+    } else {
+      if (existingTx.pendingSteps.includes('candles')) {
+        // The failed attempt may have added the trade to some candles already, so applying it again
+        // could count it twice: recompute the token's candles from its stored trades instead
+        await rebuildTokenCandles(existingTx.tokenAddress, chainId);
+        await updateTokenStats(existingTx.tokenAddress, chainId);
+        await Transaction.updateOne({ _id: existingTx._id }, { $pull: { pendingSteps: 'candles' } });
+      }
+      if (priceData?.tokenPrice && (!existingTx.tokenPrice || existingTx.tokenPrice === '0')) {
+        // Update existing transaction with tokenPrice if it's missing or zero
+        existingTx.tokenPrice = String(priceData.tokenPrice);
+        await existingTx.save();
+      }
     }
     
     // Save price history if it doesn't exist
     if (priceData) {
-      // Fetch ETH price for USD calculations
-      let ethPriceUSD = '0';
-      try {
-        ethPriceUSD = await getEthPriceUSD();
-      } catch (error: any) {
-        console.error('❌ Error fetching ETH price in saveTradeEvent:', error.message);
-        // Continue with ETH-only values if USD calculation fails
-      }
-
       const existingPrice = await TokenHistory.findOne({
         tokenAddress: priceData.tokenAddress?.toLowerCase(),
         chainId: chainId,
@@ -207,10 +388,10 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
     if (!existingPrice) {
         // Calculate USD values for TokenHistory
         const tokenPrice = String(priceData.tokenPrice || '0');
-        let priceUSD = '0';
-        let marketCapUSD = '0';
+        let priceUSD: string | null = ethPriceUSD !== null ? '0' : null;
+        let marketCapUSD: string | null = ethPriceUSD !== null ? '0' : null;
         
-        if (tokenPrice !== '0' && ethPriceUSD !== '0') {
+        if (tokenPrice !== '0' && ethPriceUSD !== null) {
           try {
             const ethPrice = parseFloat(ethPriceUSD);
             // tokenPrice is in ETH (decimal string), convert to USD
@@ -227,7 +408,7 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
             const priceInWei = ethers.parseUnits(tokenPrice, 18);
             marketCap = ((supply * priceInWei) / (10n ** 18n)).toString();
             
-            if (marketCap !== '0' && ethPriceUSD !== '0') {
+            if (marketCap !== '0' && ethPriceUSD !== null) {
               const ethPrice = parseFloat(ethPriceUSD);
               // marketCap is in wei, convert to ETH first, then to USD
               const marketCapInEth = Number(marketCap) / 1e18;
@@ -241,6 +422,7 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
           ...priceData,
           tokenId: token._id,
           tokenAddress: priceData.tokenAddress?.toLowerCase(),
+          blockHash: priceData.blockHash?.toLowerCase() || '',
           tokenPrice: tokenPrice,
           priceUSD: priceUSD,
           marketCap: marketCap,
@@ -251,12 +433,12 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
         
         // Update Token's currentPrice with the validated price
         const validatedPrice = validatePrice(priceData.tokenPrice, 'in saveTradeEvent (new history)');
-        if (validatedPrice !== '0') {
+        if (isLatestTrade && validatedPrice !== '0') {
           token.currentPrice = validatedPrice;
           
           // Calculate USD price
           try {
-            const ethPrice = parseFloat(ethPriceUSD);
+            const ethPrice = parseFloat(ethPriceUSD || '0');
             if (ethPrice > 0) {
               token.currentPriceUSD = (parseFloat(validatedPrice) * ethPrice).toString();
             }
@@ -267,7 +449,7 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
         
         // Calculate and update marketCap if totalSupply is available
         // currentPrice is stored as decimal string (e.g., "0.000008"), need to convert to wei first
-        if (token.totalSupply && token.currentPrice && token.currentPrice !== '0') {
+        if (isLatestTrade && token.totalSupply && token.currentPrice && token.currentPrice !== '0') {
           try {
             const supply = BigInt(token.totalSupply);
             // Convert decimal price string to wei (BigInt)
@@ -277,7 +459,7 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
             token.marketCap = marketCap.toString();
             
             // Calculate USD market cap
-            if (ethPriceUSD !== '0') {
+            if (ethPriceUSD !== null) {
               try {
                 const ethPrice = parseFloat(ethPriceUSD);
                 if (ethPrice > 0) {
@@ -302,14 +484,14 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
         await token.save();
       } else {
         // Even if price history exists, update Token's currentPrice if it's newer
-        if (priceData.tokenPrice) {
+        if (isLatestTrade && priceData.tokenPrice) {
           const validatedPrice = validatePrice(priceData.tokenPrice, 'in saveTradeEvent (existing history - trade)');
           if (validatedPrice !== '0') {
             token.currentPrice = validatedPrice;
             
             // Calculate USD price
             try {
-              const ethPrice = parseFloat(ethPriceUSD);
+              const ethPrice = parseFloat(ethPriceUSD || '0');
               if (ethPrice > 0) {
                 token.currentPriceUSD = (parseFloat(validatedPrice) * ethPrice).toString();
               }
@@ -330,7 +512,7 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
               token.marketCap = marketCap.toString();
               
               // Calculate USD market cap
-              if (ethPriceUSD !== '0') {
+              if (ethPriceUSD !== null) {
                 try {
                   const ethPrice = parseFloat(ethPriceUSD);
                   if (ethPrice > 0) {
@@ -350,12 +532,20 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
       }
     }
     
+    // Already-ingested trade: holders and clients were updated the first time around
+    if (isReplay) {
+      return;
+    }
+    
     // Update holders based on trade type (MOVED COMPLETELY OUTSIDE of if (priceData) - runs for EVERY trade)
     try {
       const tokenAddress = priceData?.tokenAddress?.toLowerCase() || eventData.tokenAddress?.toLowerCase();
       const bondingCurveAddress = getFactoryAddressForChain(chainId)?.toLowerCase();
+      // A retry after a partial failure skips the holders this trade was already applied to
+      const appliedLog = holderLogKey(eventData.txHash, eventData.logIndex);
       
-      if (eventData.type === 'Bought') {
+      // DEX trades move tokens with plain ERC20 transfers, which saveTransferEvent already applies
+      if (!isDexTrade && eventData.type === 'Bought') {
         // Buyer receives tokens, bonding curve loses tokens
         const buyerAddress = eventData.recipientAddress?.toLowerCase();
         const tokenAmount = eventData.tokenAmount?.toString() || '0';
@@ -370,15 +560,18 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
         const buyerNewBalance = (buyerCurrentBalance + BigInt(tokenAmount)).toString();
         
         // Update buyer holder
-        await updateOrCreateHolder(
-          token._id,
-          tokenAddress,
-          buyerAddress,
-          buyerNewBalance,
-          eventData.txHash,
-          chainId,
-          !buyerHolder
-        );
+        if (buyerHolder?.lastAppliedLog !== appliedLog) {
+          await updateOrCreateHolder(
+            token._id,
+            tokenAddress,
+            buyerAddress,
+            buyerNewBalance,
+            eventData.txHash,
+            chainId,
+            !buyerHolder,
+            appliedLog
+          );
+        }
         
         // Update bonding curve holder (decrease balance)
         if (bondingCurveAddress) {
@@ -387,7 +580,7 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
             holderAddress: bondingCurveAddress,
             chainId: chainId
           });
-          if (bondingCurveHolder) {
+          if (bondingCurveHolder && bondingCurveHolder.lastAppliedLog !== appliedLog) {
             const bondingCurveCurrentBalance = BigInt(bondingCurveHolder.balance || '0');
             const bondingCurveNewBalance = (bondingCurveCurrentBalance - BigInt(tokenAmount)).toString();
             if (BigInt(bondingCurveNewBalance) >= 0n) {
@@ -398,14 +591,15 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
                 bondingCurveNewBalance,
                 eventData.txHash,
                 chainId,
-                false
+                false,
+                appliedLog
               );
             }
           } else {
           }
         }
         
-      } else if (eventData.type === 'Sold') {
+      } else if (!isDexTrade && eventData.type === 'Sold') {
         // Seller loses tokens, bonding curve gains tokens
         const sellerAddress = eventData.senderAddress?.toLowerCase();
         const tokenAmount = eventData.tokenAmount?.toString() || '0';
@@ -420,7 +614,9 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
         const sellerNewBalance = (sellerCurrentBalance - BigInt(tokenAmount)).toString();
         
         // Update seller holder (remove if balance becomes 0)
-        if (sellerNewBalance !== '0' && BigInt(sellerNewBalance) >= 0n) {
+        if (sellerHolder?.lastAppliedLog === appliedLog) {
+          // Already applied
+        } else if (sellerNewBalance !== '0' && BigInt(sellerNewBalance) >= 0n) {
           await updateOrCreateHolder(
             token._id,
             tokenAddress,
@@ -428,7 +624,8 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
             sellerNewBalance,
             eventData.txHash,
             chainId,
-            false
+            false,
+            appliedLog
           );
         } else if (sellerHolder) {
           // Remove holder if balance becomes 0
@@ -449,24 +646,28 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
           const bondingCurveCurrentBalance = BigInt(bondingCurveHolder?.balance || '0');
           const bondingCurveNewBalance = (bondingCurveCurrentBalance + BigInt(tokenAmount)).toString();
           
-          await updateOrCreateHolder(
-            token._id,
-            tokenAddress,
-            bondingCurveAddress,
-            bondingCurveNewBalance,
-            eventData.txHash,
-            chainId,
-            !bondingCurveHolder
-          );
+          if (bondingCurveHolder?.lastAppliedLog !== appliedLog) {
+            await updateOrCreateHolder(
+              token._id,
+              tokenAddress,
+              bondingCurveAddress,
+              bondingCurveNewBalance,
+              eventData.txHash,
+              chainId,
+              !bondingCurveHolder,
+              appliedLog
+            );
+          }
         }
         
       }
       
       // Recalculate percentages for all holders
       await recalculatePercentages(tokenAddress, token.totalSupply || '0', chainId);
+      await Transaction.updateOne({ _id: transactionId }, { $pull: { pendingSteps: 'holders' } });
     } catch (holderError: any) {
       console.error('❌ Error updating holders:', holderError.message);
-      // Don't throw - continue even if holder update fails
+      throw holderError; // the ingest queue retries the event, which resumes at the holder step
     }
     
     // Fetch updated holders for WebSocket emission (moved outside if (priceData))
@@ -494,8 +695,8 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
     const tokenAddress = priceData?.tokenAddress?.toLowerCase() || eventData.tokenAddress?.toLowerCase() || '';
     const tokenPrice = priceData?.tokenPrice || token.currentPrice || '0';
     
-    // Emit price update if priceData exists
-    if (priceData && priceData.tokenPrice) {
+    // Emit price update if priceData exists (and is the token's current price)
+    if (isLatestTrade && priceData && priceData.tokenPrice) {
       emitTokenPriceUpdate(tokenAddress, {
         price: String(tokenPrice),
         priceUSD: token.currentPriceUSD || '0', // Include USD price for real-time updates
@@ -545,8 +746,16 @@ export const saveTradeEvent = async (eventData: any, priceData: any): Promise<vo
         holders: formattedHolders,
       });
     }
+
+    // Limit and stop orders watching the curve price (replays carry old prices)
+    if (!isReplay && !isDexTrade && priceData?.tokenPrice) {
+      matchOrders(tokenAddress, chainId, String(priceData.tokenPrice)).catch((error: any) => {
+        console.error(`❌ Error matching orders for ${tokenAddress} on chain ${chainId}:`, error.message);
+      });
+    }
   } catch (error) {
     console.error('Error saving transaction:', error);
+    throw error; // the ingest queue retries the event
   }
 };
 
@@ -584,14 +793,23 @@ export const saveCreatedEvent = async (eventData: any, priceData: any): Promise<
       if (!token.totalSupply && eventData?.totalSupply) {
         token.totalSupply = eventData.totalSupply;
       }
-      // Update graduationEth if it's not set
-      if (!token.graduationEth && eventData?.graduationEth) {
+      // Update graduationEth if it's not set ('0' is the placeholder of tokens created without it)
+      if ((!token.graduationEth || token.graduationEth === '0') && eventData?.graduationEth && eventData.graduationEth !== '0') {
         token.graduationEth = eventData.graduationEth;
       }
       // Update graduationProgress if it's not set (initial value is 0)
       if (!token.graduationProgress) {
         token.graduationProgress = '0';
       }
+      // Tokens indexed before the deployment block was recorded
+      if (!token.deploymentBlock && eventData?.deploymentBlock) {
+        token.deploymentTxHash = eventData.deploymentTxHash || '';
+        token.deploymentBlock = eventData.deploymentBlock;
+        token.deploymentBlockHash = eventData.deploymentBlockHash || '';
+      }
+      if (!token.deploymentTimestamp && eventData?.deploymentTimestamp) {
+        token.deploymentTimestamp = new Date(eventData.deploymentTimestamp);
+      }
       if (token.isModified()) {
         await token.save();
       }
@@ -601,9 +819,9 @@ export const saveCreatedEvent = async (eventData: any, priceData: any): Promise<
     // Price history should only be saved on buy/sell events, not on token creation
     if (priceData && token) {
       // Fetch ETH price for USD calculations
-      let ethPriceUSD = '0';
+      let ethPriceUSD: string | null = null;
       try {
-        ethPriceUSD = await getEthPriceUSD();
+        ethPriceUSD = await getEthPriceAt(eventData.blockTimestamp || new Date());
       } catch (error: any) {
         console.error('❌ Error fetching ETH price in saveCreatedEvent:', error.message);
         // Continue with ETH-only values if USD calculation fails
@@ -618,7 +836,7 @@ export const saveCreatedEvent = async (eventData: any, priceData: any): Promise<
         
         // Calculate USD price
         try {
-          const ethPrice = parseFloat(ethPriceUSD);
+          const ethPrice = parseFloat(ethPriceUSD || '0');
           if (ethPrice > 0) {
             token.currentPriceUSD = (parseFloat(validatedPrice) * ethPrice).toString();
           } else {
@@ -639,7 +857,7 @@ export const saveCreatedEvent = async (eventData: any, priceData: any): Promise<
             token.marketCap = marketCap.toString();
             
             // Calculate USD market cap
-            if (ethPriceUSD !== '0') {
+            if (ethPriceUSD !== null) {
               try {
                 const ethPrice = parseFloat(ethPriceUSD);
                 if (ethPrice > 0) {
@@ -746,331 +964,389 @@ export const saveCreatedEvent = async (eventData: any, priceData: any): Promise<
     }
   } catch (error: any) {
     console.error('Error saving token creation event:', error);
-    // Don't throw - we want the system to continue even if one event fails
+    throw error; // the ingest queue retries the event
   }
 };
 
-export const syncBlockRange = async (start: number, end: number, chainId: number): Promise<void> => {
-  try {
-    // Get chain-specific contract and provider
-    const chainContract = getContract(chainId);
-    const chainProvider = getProvider(chainId);
-    const chainContractAddress = getFactoryAddressForChain(chainId);
-    
+// Factory events ingested by syncBlockRange (all fetched with a single getLogs call per range)
+const FEE_EVENT_TYPES: Record<string, 'creator' | 'dev' | 'marketing'> = {
+  CreatorFeePaid: 'creator',
+  DevFeePaid: 'dev',
+  MarketingFeePaid: 'marketing',
+};
+const FACTORY_EVENTS = [
+  'TokenCreated',
+  'TokenBought',
+  'TokenSold',
+  'TokenGraduated',
+  'LiquidityAdded',
+  ...Object.keys(FEE_EVENT_TYPES),
+  ...PROTOCOL_CONFIG_EVENTS,
+];
+const FACTORY_TOPICS = FACTORY_EVENTS.map((eventName) => factoryInterface.getEvent(eventName)!.topicHash);
 
-    const createdEvents = await chainContract.queryFilter(
-      chainContract.filters.TokenCreated(),
-      start,
-      end
-    );
+interface SyncRangeContext {
+  chainId: number;
+  factoryAddress: string;
+  getBlockTimestamp: (blockNumber: number) => Promise<Date>;
+  // Latest Sync per pair - a Swap is always preceded by the Sync carrying its post-trade reserves
+  lastSync: Map<string, { txHash: string; reserve0: bigint; reserve1: bigint }>;
+}
 
-    const boughtEvents = await chainContract.queryFilter(
-      chainContract.filters.TokenBought(),
-      start,
-      end
-    );
+// Bonding curve price from virtual reserves, '0' if the result is not a sane price
+const curvePriceFromReserves = (virtualEthReserves: bigint, virtualTokenReserves: bigint, context: string): string => {
+  if (virtualTokenReserves <= 0n || virtualEthReserves <= 0n) {
+    return '0';
+  }
+  const tokenPrice = ethers.formatUnits((virtualEthReserves * 10n ** 18n) / virtualTokenReserves, 18);
 
-    const soldEvents = await chainContract.queryFilter(
-      chainContract.filters.TokenSold(),
-      start,
-      end
-    );
+  // Validate price is reasonable (should be < 1000 ETH per token)
+  const priceValue = parseFloat(tokenPrice);
+  if (!isFinite(priceValue) || priceValue < 0 || priceValue > 1000) {
+    console.error(`❌ Invalid price calculated in syncBlockRange (${context}):`, {
+      price: tokenPrice,
+      priceValue,
+      virtualEthReserves: virtualEthReserves.toString(),
+      virtualTokenReserves: virtualTokenReserves.toString(),
+    });
+    return '0';
+  }
+  return tokenPrice;
+};
 
-    // Handle Created events
-    if (createdEvents?.length > 0) {
-      // Use the chainId parameter - we know it because we queried from that chain's contract
+// Token a factory event is about (null for protocol config events)
+const factoryEventToken = (parsed: ethers.LogDescription): string | null => {
+  if (parsed.name in FEE_EVENT_TYPES) {
+    return parsed.args[1] as string; // recipient, token, amount
+  }
+  if ((PROTOCOL_CONFIG_EVENTS as readonly string[]).includes(parsed.name)) {
+    return null;
+  }
+  return parsed.args[0] as string;
+};
 
-      for (const event of createdEvents) {
-        // Type assertion: events from queryFilter have args property
-        const decodedEvent = event as any;
-        if (!decodedEvent.args || !Array.isArray(decodedEvent.args)) {
-          continue;
-        }
+// Decode one factory log into a queued ingest event
+const decodeFactoryLog = async (
+  log: ethers.Log,
+  parsed: ethers.LogDescription,
+  context: SyncRangeContext
+): Promise<IngestEventInput | null> => {
+  const { chainId } = context;
+  const args = parsed.args;
+  const blockTimestamp = await context.getBlockTimestamp(log.blockNumber);
+  const logFields = {
+    txHash: log.transactionHash,
+    logIndex: log.index,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    blockTimestamp: blockTimestamp,
+    chainId: chainId,
+  };
+  const toIngestEvent = (payload: IngestEventInput['payload']): IngestEventInput => ({
+    chainId: chainId,
+    eventName: parsed.name,
+    txHash: log.transactionHash,
+    logIndex: log.index,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    payload: payload,
+  });
 
-        // Validate array has enough elements (need at least 9 elements: 0-8)
-        if (decodedEvent.args.length < 9) {
-          console.error('❌ Invalid event args length in TokenCreated event:', {
-            chainId,
-            argsLength: decodedEvent.args.length,
-            expected: 9,
-            txHash: decodedEvent.transactionHash
-          });
-          continue;
-        }
+  switch (parsed.name) {
+    case 'TokenCreated': {
+      // args: tokenAddress, creator, name, symbol, description, uri, totalSupply, virtualEthReserves, virtualTokenReserves,
+      // graduationEth
+      const eventData = {
+        address: args[0],
+        creatorAddress: args[1],
+        name: args[2],
+        symbol: args[3],
+        description: args[4] || '',
+        logo: args[5] || '/chats/noimg.svg',
+        totalSupply: args[6]?.toString() || '0',
+        graduationEth: ethers.toBigInt(args[9]).toString(),
+        deploymentTxHash: log.transactionHash.toLowerCase(),
+        deploymentBlock: log.blockNumber,
+        deploymentBlockHash: log.blockHash.toLowerCase(),
+        deploymentTimestamp: blockTimestamp,
+        chainId: chainId,
+      };
+      const virtualEthReserves = ethers.toBigInt(args[7]);
+      const virtualTokenReserves = ethers.toBigInt(args[8]);
+      const priceData = {
+        tokenAddress: args[0],
+        tokenPrice: virtualTokenReserves > 0n
+          ? ethers.formatUnits((virtualEthReserves * 10n ** 18n) / virtualTokenReserves, 18)
+          : '0',
+        blockNumber: log.blockNumber,
+        timestamp: blockTimestamp,
+        chainId: chainId,
+      };
+      return toIngestEvent({ eventData, priceData });
+    }
 
-        const eventData = {
-          address: decodedEvent.args[0],
-          creatorAddress: decodedEvent.args[1],
-          name: decodedEvent.args[2],
-          symbol: decodedEvent.args[3],
-          description: decodedEvent.args[4] || '',
-          logo: decodedEvent.args[5] || '/chats/noimg.svg',
-          totalSupply: decodedEvent.args[6]?.toString() || '0', // args[6] = totalSupply
-          chainId: chainId,
-        };
-        const block = await chainProvider.getBlock(decodedEvent.blockNumber);
-        const blockNumber = block?.number;
-        const timestamp = block?.timestamp;
-        
-        // Fix: Use correct args indices for price calculation
-        // args[7] = virtualEthReserves, args[8] = virtualTokenReserves
-        // Validate values exist before BigInt conversion
-        if (decodedEvent.args[7] === undefined || decodedEvent.args[7] === null ||
-            decodedEvent.args[8] === undefined || decodedEvent.args[8] === null) {
-          console.error('❌ Missing virtual reserves in TokenCreated event:', {
-            chainId,
-            txHash: decodedEvent.transactionHash,
-            args7: decodedEvent.args[7],
-            args8: decodedEvent.args[8]
-          });
-          continue;
-        }
+    case 'TokenBought':
+    case 'TokenSold': {
+      // args: tokenAddress, trader, ethAmount/tokenAmount (Bought) or tokenAmount/ethAmount (Sold),
+      // newEthReserves, newTokenReserves, newVirtualEthReserves, newVirtualTokenReserves
+      const isBuy = parsed.name === 'TokenBought';
+      const tokenPrice = curvePriceFromReserves(
+        ethers.toBigInt(args[6]),
+        ethers.toBigInt(args[7]),
+        isBuy ? 'Bought' : 'Sold'
+      );
+      const eventData = {
+        ...logFields,
+        tokenAddress: args[0],
+        senderAddress: isBuy ? context.factoryAddress : args[1],
+        recipientAddress: isBuy ? args[1] : context.factoryAddress,
+        ethAmount: (isBuy ? args[2] : args[3])?.toString() || '0',
+        tokenAmount: (isBuy ? args[3] : args[2])?.toString() || '0',
+        // Curve state after the trade (graduation progress and local quotes)
+        newEthReserves: args[4]?.toString(),
+        newTokenReserves: args[5]?.toString(),
+        newVirtualEthReserves: args[6]?.toString(),
+        newVirtualTokenReserves: args[7]?.toString(),
+        type: isBuy ? 'Bought' : 'Sold',
+      };
+      const priceData = {
+        tokenAddress: args[0],
+        tokenPrice: tokenPrice,
+        priceUSD: '0', // Will be calculated later if needed
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        timestamp: blockTimestamp,
+        chainId: chainId,
+      };
+      return toIngestEvent({ eventData, priceData });
+    }
 
-        let virtualEthReserves: bigint;
-        let virtualTokenReserves: bigint;
-        try {
-          virtualEthReserves = ethers.toBigInt(decodedEvent.args[7]);
-          virtualTokenReserves = ethers.toBigInt(decodedEvent.args[8]);
-        } catch (error: any) {
-          console.error('❌ Error converting virtual reserves to BigInt:', {
-            chainId,
-            txHash: decodedEvent.transactionHash,
-            error: error.message,
-            args7: decodedEvent.args[7],
-            args8: decodedEvent.args[8]
-          });
-          continue;
-        }
-        
-        const priceData = {
-          tokenAddress: decodedEvent.args[0],
-          tokenPrice: virtualTokenReserves > 0n
-            ? ethers.formatUnits((virtualEthReserves * 10n ** 18n) / virtualTokenReserves, 18)
-            : '0',
-          blockNumber: blockNumber,
-          timestamp: timestamp ? new Date(Number(timestamp) * 1000) : new Date(),
-          chainId: chainId,
-        };
-        await saveCreatedEvent(eventData, priceData);
+    case 'TokenGraduated':
+      return toIngestEvent({
+        eventData: {
+          ...logFields,
+          tokenAddress: args[0],
+          graduationPrice: args[1]?.toString() || '0',
+        },
+      });
+
+    case 'LiquidityAdded':
+      return toIngestEvent({
+        eventData: {
+          ...logFields,
+          tokenAddress: args[0],
+          ethAmount: args[1]?.toString() || '0',
+          tokenAmount: args[2]?.toString() || '0',
+          liquidity: args[3]?.toString() || '0',
+        },
+      });
+
+    case 'CreatorFeePaid':
+    case 'DevFeePaid':
+    case 'MarketingFeePaid':
+      return toIngestEvent({
+        eventData: {
+          ...logFields,
+          feeType: FEE_EVENT_TYPES[parsed.name],
+          recipientAddress: args[0],
+          tokenAddress: args[1],
+          amount: args[2]?.toString() || '0',
+        },
+      });
+
+    default:
+      if ((PROTOCOL_CONFIG_EVENTS as readonly string[]).includes(parsed.name)) {
+        return toIngestEvent({
+          eventData: {
+            ...logFields,
+            eventName: parsed.name,
+            args: Array.from(args),
+          },
+        });
       }
-    } else {
-      handleNoEventsFound(start, end);
-    }
+      return null;
+  }
+};
 
-    // Handle Bought events
-    if (boughtEvents.length > 0) {
-      // Use the chainId parameter - we know it because we queried from that chain's contract
+// Decode a Swap/Sync log of a graduated token's DEX pair (Syncs only update the range's reserves)
+const decodePairLog = async (log: ethers.Log, context: SyncRangeContext): Promise<IngestEventInput | null> => {
+  const parsed = pairInterface.parseLog(log);
+  if (!parsed) {
+    return null; // e.g. LP token Transfer
+  }
+  const pairAddress = log.address.toLowerCase();
 
-      for (const event of boughtEvents) {
-        // Type assertion: events from queryFilter have args property
-        const decodedEvent = event as any;
-        if (!decodedEvent.args || !Array.isArray(decodedEvent.args)) {
-          continue;
-        }
+  if (parsed.name === 'Sync') {
+    context.lastSync.set(pairAddress, { txHash: log.transactionHash, reserve0: parsed.args[0], reserve1: parsed.args[1] });
+    return null;
+  }
+  if (parsed.name !== 'Swap') {
+    return null;
+  }
 
-        // Validate array has enough elements (need at least 8 elements: 0-7)
-        if (decodedEvent.args.length < 8) {
-          console.error('❌ Invalid event args length in TokenBought event:', {
-            chainId,
-            argsLength: decodedEvent.args.length,
-            expected: 8,
-            txHash: decodedEvent.transactionHash
-          });
-          continue;
-        }
+  const sync = context.lastSync.get(pairAddress);
+  const reserves = sync && sync.txHash === log.transactionHash ? sync : undefined;
+  return {
+    chainId: context.chainId,
+    eventName: 'Swap',
+    txHash: log.transactionHash,
+    logIndex: log.index,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    payload: {
+      eventData: {
+        pairAddress: pairAddress,
+        amount0In: parsed.args[1],
+        amount1In: parsed.args[2],
+        amount0Out: parsed.args[3],
+        amount1Out: parsed.args[4],
+        to: parsed.args[5],
+        reserve0: reserves?.reserve0,
+        reserve1: reserves?.reserve1,
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        blockTimestamp: await context.getBlockTimestamp(log.blockNumber),
+        chainId: context.chainId,
+      },
+    },
+  };
+};
 
-        const block = await chainProvider.getBlock(decodedEvent.blockNumber);
-        const blockNumber = block?.number;
-        const timestamp = block?.timestamp ? new Date(Number(block.timestamp) * 1000) : new Date();
-        
-        // Calculate price: (newVirtualEthReserves * 1e18) / newVirtualTokenReserves
-        // args[6] = newVirtualEthReserves, args[7] = newVirtualTokenReserves
-        // Validate values exist before BigInt conversion
-        if (decodedEvent.args[6] === undefined || decodedEvent.args[6] === null ||
-            decodedEvent.args[7] === undefined || decodedEvent.args[7] === null) {
-          console.error('❌ Missing virtual reserves in TokenBought event:', {
-            chainId,
-            txHash: decodedEvent.transactionHash,
-            args6: decodedEvent.args[6],
-            args7: decodedEvent.args[7]
-          });
-          continue;
-        }
+// Decode an ERC20 Transfer log of a known token
+const decodeTransferLog = async (log: ethers.Log, context: SyncRangeContext): Promise<IngestEventInput | null> => {
+  const parsed = tokenInterface.parseLog(log);
+  if (!parsed || parsed.name !== 'Transfer') {
+    return null;
+  }
 
-        let virtualEthReserves: bigint;
-        let virtualTokenReserves: bigint;
-        try {
-          virtualEthReserves = ethers.toBigInt(decodedEvent.args[6]);
-          virtualTokenReserves = ethers.toBigInt(decodedEvent.args[7]);
-        } catch (error: any) {
-          console.error('❌ Error converting virtual reserves to BigInt:', {
-            chainId,
-            txHash: decodedEvent.transactionHash,
-            error: error.message,
-            args6: decodedEvent.args[6],
-            args7: decodedEvent.args[7]
-          });
-          continue;
-        }
-        
-        let tokenPrice = '0';
-        if (virtualTokenReserves > 0n && virtualEthReserves > 0n) {
-          const priceInWei = (virtualEthReserves * 10n ** 18n) / virtualTokenReserves;
-          tokenPrice = ethers.formatUnits(priceInWei, 18);
-          
-          // Validate price is reasonable (should be < 1000 ETH per token)
-          const priceValue = parseFloat(tokenPrice);
-          if (!isFinite(priceValue) || priceValue < 0 || priceValue > 1000) {
-            console.error('❌ Invalid price calculated in syncBlockRange (Bought):', {
-              price: tokenPrice,
-              priceValue,
-              virtualEthReserves: virtualEthReserves.toString(),
-              virtualTokenReserves: virtualTokenReserves.toString(),
-              tokenAddress: decodedEvent.args[0],
-            });
-            tokenPrice = '0'; // Skip invalid price
-          }
-        }
+  return {
+    chainId: context.chainId,
+    eventName: 'Transfer',
+    txHash: log.transactionHash,
+    logIndex: log.index,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    payload: {
+      eventData: {
+        tokenAddress: log.address,
+        from: parsed.args[0],
+        to: parsed.args[1],
+        value: parsed.args[2]?.toString() || '0',
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        blockTimestamp: await context.getBlockTimestamp(log.blockNumber),
+        chainId: context.chainId,
+      },
+    },
+  };
+};
 
-        const eventData = {
-          txHash: decodedEvent.transactionHash,
-          tokenAddress: decodedEvent.args[0],
-          senderAddress: chainContractAddress,
-          recipientAddress: decodedEvent.args[1],
-          ethAmount: decodedEvent.args[2]?.toString() || '0',
-          tokenAmount: decodedEvent.args[3]?.toString() || '0',
-          blockNumber: decodedEvent.blockNumber,
-          blockTimestamp: timestamp,
-          type: 'Bought',
-          chainId: chainId,
-        };
-        
-        const priceData = {
-          tokenAddress: decodedEvent.args[0],
-          tokenPrice: tokenPrice,
-          priceUSD: '0', // Will be calculated later if needed
-          blockNumber: blockNumber,
-          timestamp: timestamp,
-          chainId: chainId,
-        };
-        
-        await saveTradeEvent(eventData, priceData);
+/**
+ * Ingest every event of a block range:
+ * 1. all factory events in one getLogs call,
+ * 2. Transfer logs of known tokens and Swap/Sync logs of DEX pairs (including tokens created and pairs
+ *    created inside the range), batched by address,
+ * 3. everything decoded in (block, logIndex) order across event types, written to the ingest queue
+ *    and processed from there (`reprocess` re-runs events that were already processed, e.g. for a reindex).
+ * With `tokenAddress`, only the events of that token (and its DEX pair) are ingested.
+ * Block timestamps are fetched once per block and getLogs spans shrink automatically on provider limits.
+ */
+export const syncBlockRange = async (
+  start: number,
+  end: number,
+  chainId: number,
+  options: { reprocess?: boolean; tokenAddress?: string } = {}
+): Promise<void> => {
+  try {
+    const factoryAddress = getFactoryAddressForChain(chainId).toLowerCase();
+    const scopedToken = options.tokenAddress?.toLowerCase();
+    const isInScope = (tokenAddress: string): boolean => !scopedToken || tokenAddress.toLowerCase() === scopedToken;
+    const context: SyncRangeContext = {
+      chainId,
+      factoryAddress,
+      getBlockTimestamp: createBlockTimestampCache(chainId),
+      lastSync: new Map(),
+    };
+
+    const factoryLogs = await getLogsAdaptive(chainId, { address: factoryAddress, topics: [FACTORY_TOPICS] }, start, end);
+    const decodedFactoryLogs = new Map<ethers.Log, ethers.LogDescription>();
+    for (const log of factoryLogs) {
+      const parsed = factoryInterface.parseLog(log);
+      if (parsed) {
+        decodedFactoryLogs.set(log, parsed);
       }
-    } else {
-      handleNoEventsFound(start, end);
     }
 
-    // Handle Sold events
-    if (soldEvents.length > 0) {
-      // Use the chainId parameter - we know it because we queried from that chain's contract
-
-      for (const event of soldEvents) {
-        // Type assertion: events from queryFilter have args property
-        const decodedEvent = event as any;
-        if (!decodedEvent.args || !Array.isArray(decodedEvent.args)) {
-          continue;
+    // Tokens and pairs to follow: the known ones plus those that appear inside this range
+    const knownTokens = await Token.find({ chainId: chainId, ...(scopedToken ? { address: scopedToken } : {}) })
+      .select('address pairAddress')
+      .lean();
+    const tokenAddresses = new Set(knownTokens.map((token) => token.address.toLowerCase()));
+    const pairByToken = new Map(
+      knownTokens.filter((token) => token.pairAddress).map((token) => [token.address.toLowerCase(), token.pairAddress])
+    );
+    for (const parsed of decodedFactoryLogs.values()) {
+      if (parsed.name === 'TokenCreated' && isInScope(parsed.args[0])) {
+        tokenAddresses.add((parsed.args[0] as string).toLowerCase());
+      } else if (parsed.name === 'LiquidityAdded' && isInScope(parsed.args[0])) {
+        const tokenAddress = (parsed.args[0] as string).toLowerCase();
+        const pair = pairByToken.has(tokenAddress) ? null : await resolvePairAddress(chainId, tokenAddress);
+        if (pair) {
+          pairByToken.set(tokenAddress, pair.pairAddress);
         }
+      }
+    }
+    const pairAddresses = new Set(pairByToken.values());
 
-        // Validate array has enough elements (need at least 8 elements: 0-7)
-        if (decodedEvent.args.length < 8) {
-          console.error('❌ Invalid event args length in TokenSold event:', {
-            chainId,
-            argsLength: decodedEvent.args.length,
-            expected: 8,
-            txHash: decodedEvent.transactionHash
-          });
-          continue;
-        }
+    const followedAddresses = [...tokenAddresses, ...pairAddresses];
+    const assetLogs: ethers.Log[] = [];
+    for (let i = 0; i < followedAddresses.length; i += TRANSFER_ADDRESS_BATCH_SIZE) {
+      assetLogs.push(...await getLogsAdaptive(
+        chainId,
+        { address: followedAddresses.slice(i, i + TRANSFER_ADDRESS_BATCH_SIZE), topics: [[TRANSFER_TOPIC, SWAP_TOPIC, SYNC_TOPIC]] },
+        start,
+        end
+      ));
+    }
 
-        const block = await chainProvider.getBlock(decodedEvent.blockNumber);
-        const blockNumber = block?.number;
-        const timestamp = block?.timestamp ? new Date(Number(block.timestamp) * 1000) : new Date();
-        
-        // Calculate price: (newVirtualEthReserves * 1e18) / newVirtualTokenReserves
-        // args[6] = newVirtualEthReserves, args[7] = newVirtualTokenReserves
-        // Validate values exist before BigInt conversion
-        if (decodedEvent.args[6] === undefined || decodedEvent.args[6] === null ||
-            decodedEvent.args[7] === undefined || decodedEvent.args[7] === null) {
-          console.error('❌ Missing virtual reserves in TokenSold event:', {
-            chainId,
-            txHash: decodedEvent.transactionHash,
-            args6: decodedEvent.args[6],
-            args7: decodedEvent.args[7]
-          });
-          continue;
-        }
+    const logs = [...decodedFactoryLogs.keys(), ...assetLogs]
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
 
-        let virtualEthReserves: bigint;
-        let virtualTokenReserves: bigint;
-        try {
-          virtualEthReserves = ethers.toBigInt(decodedEvent.args[6]);
-          virtualTokenReserves = ethers.toBigInt(decodedEvent.args[7]);
-        } catch (error: any) {
-          console.error('❌ Error converting virtual reserves to BigInt:', {
-            chainId,
-            txHash: decodedEvent.transactionHash,
-            error: error.message,
-            args6: decodedEvent.args[6],
-            args7: decodedEvent.args[7]
-          });
-          continue;
+    const ingestEvents: IngestEventInput[] = [];
+    for (const log of logs) {
+      const address = log.address.toLowerCase();
+      const parsed = decodedFactoryLogs.get(log);
+      let event: IngestEventInput | null = null;
+      if (parsed) {
+        // Factory events of other tokens and protocol config events are outside a token-scoped sync
+        const eventToken = factoryEventToken(parsed);
+        if (!scopedToken || (eventToken && isInScope(eventToken))) {
+          event = await decodeFactoryLog(log, parsed, context);
         }
-        
-        let tokenPrice = '0';
-        if (virtualTokenReserves > 0n && virtualEthReserves > 0n) {
-          const priceInWei = (virtualEthReserves * 10n ** 18n) / virtualTokenReserves;
-          tokenPrice = ethers.formatUnits(priceInWei, 18);
-          
-          // Validate price is reasonable (should be < 1000 ETH per token)
-          const priceValue = parseFloat(tokenPrice);
-          if (!isFinite(priceValue) || priceValue < 0 || priceValue > 1000) {
-            console.error('❌ Invalid price calculated in syncBlockRange (Sold):', {
-              price: tokenPrice,
-              priceValue,
-              virtualEthReserves: virtualEthReserves.toString(),
-              virtualTokenReserves: virtualTokenReserves.toString(),
-              tokenAddress: decodedEvent.args[0],
-            });
-            tokenPrice = '0'; // Skip invalid price
-          }
-        }
-
-        const eventData = {
-          txHash: decodedEvent.transactionHash,
-          tokenAddress: decodedEvent.args[0],
-          senderAddress: decodedEvent.args[1],
-          recipientAddress: chainContractAddress,
-          ethAmount: decodedEvent.args[3]?.toString() || '0',
-          tokenAmount: decodedEvent.args[2]?.toString() || '0',
-          blockNumber: decodedEvent.blockNumber,
-          blockTimestamp: timestamp,
-          type: 'Sold',
-          chainId: chainId,
-        };
-        
-        const priceData = {
-          tokenAddress: decodedEvent.args[0],
-          tokenPrice: tokenPrice,
-          priceUSD: '0', // Will be calculated later if needed
-          blockNumber: blockNumber,
-          timestamp: timestamp,
-          chainId: chainId,
-        };
-        
-        await saveTradeEvent(eventData, priceData);
+      } else if (pairAddresses.has(address)) {
+        event = await decodePairLog(log, context);
+      } else if (tokenAddresses.has(address)) {
+        event = await decodeTransferLog(log, context);
+      }
+      if (event) {
+        ingestEvents.push(event);
       }
-    } else {
-      handleNoEventsFound(start, end);
     }
+
+    // Persist first, then process - events that fail stay queued for retry instead of being lost
+    await enqueueIngestEvents(ingestEvents, { reprocess: options.reprocess });
+    await drainIngestQueue(chainId, end);
   } catch (err) {
     console.error('Error during sync cycle:', err);
+    // Re-throw so callers don't advance the sync checkpoint past a failed range
+    throw err;
   }
 };
 
-// Define a callback for when no events are found
-const handleNoEventsFound = (_startBlock: number, _endBlock: number): void => {
-};
-
 /**
  * Call graduateTokenManually on the contract for a specific chain
  * This is called automatically when a token reaches the graduation threshold
@@ -1141,66 +1417,537 @@ export const saveGraduationEvent = async (eventData: any): Promise<void> => {
       return;
     }
 
-    // Check if the liquidity event already exists
+    // Lookup token to get tokenId
+    const token = await Token.findOne({ 
+      address: eventData.tokenAddress?.toLowerCase(),
+      chainId: chainId
+    });
+    
+    if (!token) {
+      return;
+    }
+
+    // LiquidityAdded (usually in the same transaction) may already have written the real pool record
     const existingEvent = await LiquidityEvent.findOne({ 
       txHash: eventData.txHash.toLowerCase(),
       chainId: chainId
     });
     
-    if (existingEvent) {
+    if (!existingEvent) {
+      // Calculate graduation price from event data
+      let graduationPrice = '0';
+      if (eventData.graduationPrice) {
+        try {
+          graduationPrice = ethers.formatUnits(BigInt(eventData.graduationPrice.toString()), 18);
+        } catch (err) {
+        }
+      }
+
+      // Pool address and amounts are filled in by saveLiquidityAddedEvent; only use a pair that really exists
+      let poolAddress = token.pairAddress;
+      if (!poolAddress) {
+        try {
+          const pair = await resolvePairAddress(chainId, token.address);
+          poolAddress = pair?.pairAddress || '';
+        } catch (err: any) {
+          console.error(`❌ Error resolving DEX pair for ${token.address} on chain ${chainId}:`, err.message);
+        }
+      }
+
+      // Create LiquidityEvent record
+      await LiquidityEvent.create({
+        tokenId: token._id,
+        tokenAddress: eventData.tokenAddress.toLowerCase(),
+        type: 'add', // Graduation always adds liquidity
+        providerAddress: getFactoryAddressForChain(chainId).toLowerCase(),
+        ethAmount: eventData.ethAmount?.toString() || '0',
+        tokenAmount: eventData.tokenAmount?.toString() || '0',
+        tokenPrice: graduationPrice,
+        tokenPriceUSD: '0', // Can be calculated later if needed
+        liquidityPoolAddress: poolAddress || ethers.ZeroAddress,
+        txHash: eventData.txHash.toLowerCase(),
+        blockNumber: eventData.blockNumber || 0,
+        blockHash: eventData.blockHash?.toLowerCase() || '',
+        blockTimestamp: eventData.blockTimestamp || new Date(),
+        chainId: chainId,
+        status: 'pending', // Confirmed by the reorg checker once it's deeper than the confirmation depth
+        methodName: 'TokenGraduated',
+      });
+    }
+
+    
+    // Update token's isActive status to false (token is no longer active on bonding curve)
+    token.isActive = false;
+    await token.save();
+    
+  } catch (error: any) {
+    console.error('❌ Error saving graduation event:', error.message);
+    console.error('   Full error:', error);
+    throw error;
+  }
+};
+
+
+/**
+ * Save a CreatorFeePaid / DevFeePaid / MarketingFeePaid event to the fee ledger
+ */
+export const saveFeeEvent = async (eventData: any): Promise<void> => {
+  try {
+    const chainId = eventData.chainId || parseInt(process.env.CHAIN_ID || '1');
+
+    if (!eventData.txHash || eventData.logIndex === undefined) {
+      console.error('❌ saveFeeEvent: txHash or logIndex is missing in eventData:', eventData);
       return;
     }
 
-    // Lookup token to get tokenId
-    const token = await Token.findOne({ 
+    const existingPayment = await FeePayment.findOne({
+      txHash: eventData.txHash.toLowerCase(),
+      logIndex: eventData.logIndex,
+      chainId: chainId
+    });
+
+    if (existingPayment) {
+      return;
+    }
+
+    const token = await Token.findOne({
       address: eventData.tokenAddress?.toLowerCase(),
       chainId: chainId
     });
-    
+
     if (!token) {
       return;
     }
 
-    // Get Uniswap router address from environment or use factory address as fallback
-    const factoryAddress = getFactoryAddressForChain(chainId);
-    const uniswapRouter = process.env.UNISWAP_ROUTER_ADDRESS || factoryAddress || '0x0000000000000000000000000000000000000000';
-    
-    // Calculate graduation price from event data
-    let graduationPrice = '0';
-    if (eventData.graduationPrice) {
-      try {
-        graduationPrice = ethers.formatUnits(BigInt(eventData.graduationPrice.toString()), 18);
-      } catch (err) {
+    const amount = eventData.amount?.toString() || '0';
+
+    // null when the ETH price at block time is unknown
+    let amountUSD: string | null = null;
+    try {
+      const ethPriceUSD = await getEthPriceAt(eventData.blockTimestamp || new Date());
+      if (ethPriceUSD !== null) {
+        amountUSD = (parseFloat(ethers.formatEther(amount)) * parseFloat(ethPriceUSD)).toString();
       }
+    } catch (error: any) {
+      console.error('❌ Error fetching ETH price in saveFeeEvent:', error.message);
     }
 
-    // Create LiquidityEvent record
-    await LiquidityEvent.create({
+    await FeePayment.create({
       tokenId: token._id,
-      tokenAddress: eventData.tokenAddress.toLowerCase(),
-      type: 'add', // Graduation always adds liquidity
-      providerAddress: uniswapRouter.toLowerCase(),
-      ethAmount: eventData.ethAmount?.toString() || '0',
-      tokenAmount: eventData.tokenAmount?.toString() || '0',
-      tokenPrice: graduationPrice,
-      tokenPriceUSD: '0', // Can be calculated later if needed
-      liquidityPoolAddress: uniswapRouter.toLowerCase(),
+      tokenAddress: token.address,
+      feeType: eventData.feeType,
+      recipientAddress: eventData.recipientAddress.toLowerCase(),
+      amount: amount,
+      amountUSD: amountUSD,
       txHash: eventData.txHash.toLowerCase(),
+      logIndex: eventData.logIndex,
       blockNumber: eventData.blockNumber || 0,
+      blockHash: eventData.blockHash?.toLowerCase() || '',
       blockTimestamp: eventData.blockTimestamp || new Date(),
       chainId: chainId,
-      status: 'confirmed',
-      methodName: 'TokenGraduated',
+      status: 'pending', // Confirmed by the reorg checker once it's deeper than the confirmation depth
     });
+  } catch (error: any) {
+    console.error('❌ Error saving fee event:', error.message);
+    throw error;
+  }
+};
 
-    
-    // Update token's isActive status to false (token is no longer active on bonding curve)
+/**
+ * Save a factory admin event (fee tier, market cap unit, router or owner change) to the protocol config history.
+ * eventData.args are the raw decoded event arguments.
+ */
+export const saveProtocolConfigEvent = async (eventData: any): Promise<void> => {
+  try {
+    const chainId = eventData.chainId || parseInt(process.env.CHAIN_ID || '1');
+
+    if (!eventData.txHash || eventData.logIndex === undefined) {
+      console.error('❌ saveProtocolConfigEvent: txHash or logIndex is missing in eventData:', eventData);
+      return;
+    }
+
+    const existingEvent = await ProtocolConfigEvent.findOne({
+      txHash: eventData.txHash.toLowerCase(),
+      logIndex: eventData.logIndex,
+      chainId: chainId
+    });
+
+    if (existingEvent) {
+      return;
+    }
+
+    const args = eventData.args || [];
+    const params: Record<string, any> = {};
+    switch (eventData.eventName) {
+      case 'FeeTierUpdated':
+        params.tier = Number(args[0]);
+        params.minMarketCap = args[1]?.toString() || '0';
+        params.creatorFeeBps = Number(args[2]);
+        params.devFeeBps = Number(args[3]);
+        params.marketingFeeBps = Number(args[4]);
+        break;
+      case 'MarketCapUnitUpdated':
+        params.marketCapUnit = args[0]?.toString() || '0';
+        break;
+      case 'UniswapRouterUpdated':
+        params.routerAddress = args[0]?.toLowerCase() || '';
+        break;
+      case 'OwnershipTransferred':
+        params.previousOwner = args[0]?.toLowerCase() || '';
+        params.newOwner = args[1]?.toLowerCase() || '';
+        break;
+      default:
+        console.error('❌ saveProtocolConfigEvent: unknown event name:', eventData.eventName);
+        return;
+    }
+
+    await ProtocolConfigEvent.create({
+      eventName: eventData.eventName,
+      contractAddress: getFactoryAddressForChain(chainId).toLowerCase(),
+      ...params,
+      txHash: eventData.txHash.toLowerCase(),
+      logIndex: eventData.logIndex,
+      blockNumber: eventData.blockNumber || 0,
+      blockHash: eventData.blockHash?.toLowerCase() || '',
+      blockTimestamp: eventData.blockTimestamp || new Date(),
+      chainId: chainId,
+      status: 'pending', // Confirmed by the reorg checker once it's deeper than the confirmation depth
+    });
+
+    // New pairs must be resolved through the new router
+    if (eventData.eventName === 'UniswapRouterUpdated') {
+      clearDexConfig(chainId);
+    }
+
+    // Stored fee tiers may no longer match - local quotes re-read them from the factory
+    if (eventData.eventName === 'FeeTierUpdated' || eventData.eventName === 'MarketCapUnitUpdated') {
+      await Token.updateMany({ chainId: chainId }, { $set: { feeTierUpdatedAt: null } });
+    }
+  } catch (error: any) {
+    console.error('❌ Error saving protocol config event:', error.message);
+    throw error;
+  }
+};
+
+/**
+ * Save an ERC20 Transfer of a known token and apply it to TokenHolder.
+ * Transfers to/from the bonding curve are skipped - TokenCreated/TokenBought/TokenSold already account for them.
+ */
+export const saveTransferEvent = async (eventData: any): Promise<void> => {
+  try {
+    const chainId = eventData.chainId || parseInt(process.env.CHAIN_ID || '1');
+
+    if (!eventData.txHash || eventData.logIndex === undefined) {
+      console.error('❌ saveTransferEvent: txHash or logIndex is missing in eventData:', eventData);
+      return;
+    }
+
+    const fromAddress = eventData.from.toLowerCase();
+    const toAddress = eventData.to.toLowerCase();
+    const bondingCurveAddress = getFactoryAddressForChain(chainId).toLowerCase();
+    if (fromAddress === bondingCurveAddress || toAddress === bondingCurveAddress) {
+      return;
+    }
+
+    // Already ingested, unless a failed attempt left its holder changes unapplied
+    const existingTx = await Transaction.findOne({
+      txHash: eventData.txHash.toLowerCase(),
+      chainId: chainId,
+      logIndex: eventData.logIndex
+    });
+    if (existingTx && !existingTx.pendingSteps.includes('holders')) {
+      return;
+    }
+
+    const token = await Token.findOne({
+      address: eventData.tokenAddress?.toLowerCase(),
+      chainId: chainId
+    });
+    if (!token) {
+      return;
+    }
+
+    const value = BigInt(eventData.value?.toString() || '0');
+    const type = toAddress === ethers.ZeroAddress
+      ? 'Burn'
+      : fromAddress === ethers.ZeroAddress
+        ? 'Mint'
+        : 'Transfer';
+
+    const transaction = existingTx || await Transaction.create({
+      txHash: eventData.txHash.toLowerCase(),
+      logIndex: eventData.logIndex,
+      tokenId: token._id,
+      tokenAddress: token.address,
+      type: type,
+      senderAddress: fromAddress,
+      recipientAddress: toAddress,
+      ethAmount: '0',
+      tokenAmount: value.toString(),
+      tokenPrice: token.currentPrice || '0',
+      blockNumber: eventData.blockNumber || 0,
+      blockHash: eventData.blockHash?.toLowerCase() || '',
+      blockTimestamp: eventData.blockTimestamp || new Date(),
+      chainId: chainId,
+      status: 'pending', // Confirmed by the reorg checker once it's deeper than the confirmation depth
+      pendingSteps: value === 0n ? [] : ['holders'],
+      methodName: type.toLowerCase(),
+    });
+
+    if (value === 0n) {
+      return;
+    }
+
+    // A transfer to oneself leaves the balance as it is (and would apply two changes to one holder)
+    let fromApplied = false;
+    let toApplied = false;
+    if (fromAddress !== ethers.ZeroAddress && fromAddress !== toAddress) {
+      fromApplied = await applyHolderDelta(token, fromAddress, -value, eventData.txHash, eventData.logIndex, chainId);
+    }
+    if (toAddress !== ethers.ZeroAddress && fromAddress !== toAddress) {
+      toApplied = await applyHolderDelta(token, toAddress, value, eventData.txHash, eventData.logIndex, chainId);
+    }
+
+    // Burns and mints change the circulating supply - once, along with the holder they debit or credit
+    if (type !== 'Transfer' && token.totalSupply && (type === 'Burn' ? fromApplied : toApplied)) {
+      const supply = BigInt(token.totalSupply);
+      token.totalSupply = (type === 'Burn' ? supply - value : supply + value).toString();
+      await token.save();
+    }
+
+    await recalculatePercentages(token.address, token.totalSupply || '0', chainId);
+    await Transaction.updateOne({ _id: transaction._id }, { $pull: { pendingSteps: 'holders' } });
+  } catch (error: any) {
+    console.error('❌ Error saving transfer event:', error.message);
+    throw error;
+  }
+};
+
+/**
+ * Handle LiquidityAdded: discover the Uniswap pair for the graduated token, store it on the token,
+ * record the deposit (amounts, LP tokens minted, USD value) as the graduation's LiquidityEvent
+ * and move the liquidity tokens from the bonding curve holder to the pair holder.
+ * Returns the pair address so the caller can start following its Swap/Sync events.
+ */
+export const saveLiquidityAddedEvent = async (eventData: any): Promise<string | null> => {
+  try {
+    const chainId = eventData.chainId || parseInt(process.env.CHAIN_ID || '1');
+
+    if (!eventData.txHash || eventData.logIndex === undefined) {
+      console.error('❌ saveLiquidityAddedEvent: txHash or logIndex is missing in eventData:', eventData);
+      return null;
+    }
+
+    const token = await Token.findOne({
+      address: eventData.tokenAddress?.toLowerCase(),
+      chainId: chainId
+    });
+    if (!token) {
+      return null;
+    }
+
+    if (!token.pairAddress) {
+      const pair = await resolvePairAddress(chainId, token.address);
+      if (!pair) {
+        console.error(`❌ No DEX pair found for graduated token ${token.address} on chain ${chainId}`);
+        return null;
+      }
+      token.pairAddress = pair.pairAddress;
+      token.quoteTokenAddress = pair.wethAddress;
+    }
+    if (!token.graduatedAt) {
+      token.graduatedAt = eventData.blockTimestamp || new Date();
+    }
     token.isActive = false;
     await token.save();
-    
+
+    const bondingCurveAddress = getFactoryAddressForChain(chainId).toLowerCase();
+    const ethAdded = BigInt(eventData.ethAmount?.toString() || '0');
+    const tokenAdded = BigInt(eventData.tokenAmount?.toString() || '0');
+
+    // Pool price and USD value of the deposit (both sides are worth the same at the pool price)
+    let poolPrice = '0';
+    if (tokenAdded > 0n) {
+      poolPrice = ethers.formatUnits((ethAdded * 10n ** 18n) / tokenAdded, 18);
+    }
+    // USD values stay null when the ETH price at block time is unknown
+    let ethPrice: number | null = null;
+    try {
+      const ethPriceUSD = await getEthPriceAt(eventData.blockTimestamp || new Date());
+      ethPrice = ethPriceUSD !== null ? parseFloat(ethPriceUSD) : null;
+    } catch (error: any) {
+      console.error('❌ Error fetching ETH price in saveLiquidityAddedEvent:', error.message);
+    }
+    const ethAmountUSD = ethPrice !== null ? parseFloat(ethers.formatEther(ethAdded)) * ethPrice : null;
+
+    // TokenGraduated is emitted in the same transaction, so complete its record instead of adding a second one
+    await LiquidityEvent.updateOne(
+      { txHash: eventData.txHash.toLowerCase(), chainId: chainId },
+      {
+        $set: {
+          tokenId: token._id,
+          tokenAddress: token.address,
+          type: 'add',
+          providerAddress: bondingCurveAddress,
+          ethAmount: ethAdded.toString(),
+          tokenAmount: tokenAdded.toString(),
+          lpTokenAmount: eventData.liquidity?.toString() || '0',
+          tokenPrice: poolPrice,
+          tokenPriceUSD: ethPrice !== null ? (parseFloat(poolPrice) * ethPrice).toString() : null,
+          ethAmountUSD: ethAmountUSD !== null ? ethAmountUSD.toString() : null,
+          totalValueUSD: ethAmountUSD !== null ? (ethAmountUSD * 2).toString() : null,
+          liquidityPoolAddress: token.pairAddress,
+          blockNumber: eventData.blockNumber || 0,
+          blockHash: eventData.blockHash?.toLowerCase() || '',
+          blockTimestamp: eventData.blockTimestamp || new Date(),
+          methodName: 'LiquidityAdded',
+          updatedAt: new Date(),
+        },
+        $setOnInsert: {
+          txHash: eventData.txHash.toLowerCase(),
+          chainId: chainId,
+          status: 'pending', // Confirmed by the reorg checker once it's deeper than the confirmation depth
+          createdAt: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+
+    const existingTx = await Transaction.findOne({
+      txHash: eventData.txHash.toLowerCase(),
+      chainId: chainId,
+      logIndex: eventData.logIndex
+    });
+
+    // A record whose holder step is still pending was left by a failed attempt, which this retry finishes
+    if (!existingTx || existingTx.pendingSteps.includes('holders')) {
+      const transaction = existingTx || await Transaction.create({
+        txHash: eventData.txHash.toLowerCase(),
+        logIndex: eventData.logIndex,
+        tokenId: token._id,
+        tokenAddress: token.address,
+        type: 'Add_liquidity',
+        venue: 'dex',
+        senderAddress: bondingCurveAddress,
+        recipientAddress: token.pairAddress,
+        ethAmount: ethAdded.toString(),
+        tokenAmount: tokenAdded.toString(),
+        tokenPrice: token.currentPrice || '0',
+        blockNumber: eventData.blockNumber || 0,
+        blockHash: eventData.blockHash?.toLowerCase() || '',
+        blockTimestamp: eventData.blockTimestamp || new Date(),
+        chainId: chainId,
+        status: 'pending', // Confirmed by the reorg checker once it's deeper than the confirmation depth
+        pendingSteps: ['holders'],
+        methodName: 'LiquidityAdded',
+      });
+
+      // The curve -> pair token transfer is skipped by saveTransferEvent, so account for it here
+      if (tokenAdded > 0n) {
+        await applyHolderDelta(token, bondingCurveAddress, -tokenAdded, eventData.txHash, eventData.logIndex, chainId);
+        await applyHolderDelta(token, token.pairAddress, tokenAdded, eventData.txHash, eventData.logIndex, chainId);
+        await recalculatePercentages(token.address, token.totalSupply || '0', chainId);
+      }
+      await Transaction.updateOne({ _id: transaction._id }, { $pull: { pendingSteps: 'holders' } });
+    }
+
+    return token.pairAddress;
   } catch (error: any) {
-    console.error('❌ Error saving graduation event:', error.message);
-    console.error('   Full error:', error);
+    console.error('❌ Error saving liquidity added event:', error.message);
+    throw error;
   }
 };
 
+/**
+ * Handle a Uniswap V2 Swap on a graduated token's pair and feed it into the trade pipeline (venue: 'dex').
+ * Reserves come from the Sync emitted just before the Swap; without them the pair is queried directly.
+ */
+export const saveDexSwapEvent = async (eventData: any): Promise<void> => {
+  try {
+    const chainId = eventData.chainId || parseInt(process.env.CHAIN_ID || '1');
+
+    const token = await Token.findOne({
+      pairAddress: eventData.pairAddress?.toLowerCase(),
+      chainId: chainId
+    });
+    if (!token || !token.quoteTokenAddress) {
+      return;
+    }
+
+    const tokenIsToken0 = isToken0(token.address, token.quoteTokenAddress);
+    const amount0In = BigInt(eventData.amount0In.toString());
+    const amount1In = BigInt(eventData.amount1In.toString());
+    const amount0Out = BigInt(eventData.amount0Out.toString());
+    const amount1Out = BigInt(eventData.amount1Out.toString());
+
+    const tokenIn = tokenIsToken0 ? amount0In : amount1In;
+    const tokenOut = tokenIsToken0 ? amount0Out : amount1Out;
+    const ethIn = tokenIsToken0 ? amount1In : amount0In;
+    const ethOut = tokenIsToken0 ? amount1Out : amount0Out;
+
+    // Token leaving the pair is a buy, token entering it is a sell
+    const isBuy = tokenOut > 0n;
+    const tokenAmount = isBuy ? tokenOut - tokenIn : tokenIn - tokenOut;
+    const ethAmount = isBuy ? ethIn - ethOut : ethOut - ethIn;
+    if (tokenAmount <= 0n) {
+      return;
+    }
+
+    // The Swap's `to` is often the router (e.g. sells unwrapping WETH), so use the transaction sender as trader
+    const chainProvider = getProvider(chainId);
+    let trader = eventData.to?.toLowerCase();
+    try {
+      const tx = await chainProvider.getTransaction(eventData.txHash);
+      if (tx?.from) {
+        trader = tx.from.toLowerCase();
+      }
+    } catch {
+      // Fall back to the Swap recipient
+    }
+
+    let reserve0 = eventData.reserve0 !== undefined ? BigInt(eventData.reserve0.toString()) : undefined;
+    let reserve1 = eventData.reserve1 !== undefined ? BigInt(eventData.reserve1.toString()) : undefined;
+    if (reserve0 === undefined || reserve1 === undefined) {
+      const reserves = await getPairContract(chainId, token.pairAddress).getReserves();
+      reserve0 = BigInt(reserves[0].toString());
+      reserve1 = BigInt(reserves[1].toString());
+    }
+    const tokenReserve = tokenIsToken0 ? reserve0 : reserve1;
+    const ethReserve = tokenIsToken0 ? reserve1 : reserve0;
+
+    const tokenPrice = tokenReserve > 0n
+      ? validatePrice(ethers.formatUnits((ethReserve * 10n ** 18n) / tokenReserve, 18), 'in saveDexSwapEvent')
+      : '0';
+
+    const tradeData = {
+      txHash: eventData.txHash,
+      logIndex: eventData.logIndex,
+      tokenAddress: token.address,
+      senderAddress: isBuy ? token.pairAddress : trader,
+      recipientAddress: isBuy ? trader : token.pairAddress,
+      ethAmount: ethAmount.toString(),
+      tokenAmount: tokenAmount.toString(),
+      blockNumber: eventData.blockNumber,
+      blockHash: eventData.blockHash,
+      blockTimestamp: eventData.blockTimestamp,
+      type: isBuy ? 'Bought' : 'Sold',
+      venue: 'dex',
+      chainId: chainId,
+    };
+
+    const priceData = {
+      tokenAddress: token.address,
+      tokenPrice: tokenPrice,
+      blockNumber: eventData.blockNumber,
+      blockHash: eventData.blockHash,
+      timestamp: eventData.blockTimestamp,
+      venue: 'dex',
+      chainId: chainId,
+    };
+
+    await saveTradeEvent(tradeData, priceData);
+  } catch (error: any) {
+    console.error('❌ Error saving DEX swap event:', error.message);
+    throw error;
+  }
+};
@@ -0,0 +1,348 @@
+import IngestEvent from '../models/IngestEvent';
+import DeadLetterEvent from '../models/DeadLetterEvent';
+import { getConfiguredChains } from '../config/blockchain';
+import { isChainLeader } from '../services/leaderElection';
+import { recordProcessedEvent, recordSyncError } from './syncMetrics';
+import {
+  saveTradeEvent,
+  saveCreatedEvent,
+  saveGraduationEvent,
+  saveLiquidityAddedEvent,
+  saveFeeEvent,
+  saveProtocolConfigEvent,
+  saveTransferEvent,
+  saveDexSwapEvent,
+  PROTOCOL_CONFIG_EVENTS
+} from './handler';
+
+const MAX_ATTEMPTS = Number(process.env.INGEST_MAX_ATTEMPTS) || 5;
+const RETRY_BASE_DELAY_MS = Number(process.env.INGEST_RETRY_BASE_DELAY_MS) || 5000; // 5 seconds
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000; // 10 minutes
+const WORKER_INTERVAL_MS = Number(process.env.INGEST_WORKER_INTERVAL_MS) || 5000; // 5 seconds
+// A 'processing' event older than this belongs to a worker that died mid-event
+const STALE_LOCK_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface IngestEventInput {
+  chainId: number;
+  eventName: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash?: string;
+  payload: { eventData: any; priceData?: any };
+}
+
+// Handler per event name. Every handler is idempotent (keyed on txHash/logIndex), so retries are safe.
+const dispatchIngestEvent = async (eventName: string, payload: { eventData: any; priceData?: any }): Promise<void> => {
+  switch (eventName) {
+    case 'TokenCreated':
+      await saveCreatedEvent(payload.eventData, payload.priceData);
+      return;
+    case 'TokenBought':
+    case 'TokenSold':
+      await saveTradeEvent(payload.eventData, payload.priceData);
+      return;
+    case 'TokenGraduated':
+      await saveGraduationEvent(payload.eventData);
+      return;
+    case 'LiquidityAdded':
+      await saveLiquidityAddedEvent(payload.eventData);
+      return;
+    case 'CreatorFeePaid':
+    case 'DevFeePaid':
+    case 'MarketingFeePaid':
+      await saveFeeEvent(payload.eventData);
+      return;
+    case 'Transfer':
+      await saveTransferEvent(payload.eventData);
+      return;
+    case 'Swap':
+      await saveDexSwapEvent(payload.eventData);
+      return;
+    default:
+      if ((PROTOCOL_CONFIG_EVENTS as readonly string[]).includes(eventName)) {
+        await saveProtocolConfigEvent(payload.eventData);
+        return;
+      }
+      throw new Error(`No ingest handler for event ${eventName}`);
+  }
+};
+
+// BigInts can't be stored in Mongo - decoded log values are kept as decimal strings
+const serializePayload = (value: any): any => {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializePayload);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    // Drop undefined fields - the driver would store them as null
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .map(([key, entry]) => [key, serializePayload(entry)]));
+  }
+  return value;
+};
+
+/**
+ * Write decoded events to the queue. Events already queued (or processed) are left untouched
+ * unless `reprocess` is set, which puts them back in the queue (used by reindexing).
+ */
+export const enqueueIngestEvents = async (
+  events: IngestEventInput[],
+  options: { reprocess?: boolean } = {}
+): Promise<void> => {
+  if (events.length === 0) {
+    return;
+  }
+
+  const now = new Date();
+  await IngestEvent.bulkWrite(events.map((event) => {
+    const fields = {
+      eventName: event.eventName,
+      blockNumber: event.blockNumber,
+      blockHash: event.blockHash?.toLowerCase() || '',
+      payload: serializePayload(event.payload),
+    };
+    const queued = {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      lockedAt: null,
+      lastError: '',
+      completedAt: null,
+    };
+
+    return {
+      updateOne: {
+        filter: { chainId: event.chainId, txHash: event.txHash.toLowerCase(), logIndex: event.logIndex },
+        update: options.reprocess
+          ? { $set: { ...fields, ...queued, updatedAt: now }, $setOnInsert: { createdAt: now } }
+          : { $setOnInsert: { ...fields, ...queued, createdAt: now, updatedAt: now } },
+        upsert: true,
+      },
+    };
+  }), { ordered: false });
+};
+
+// Exponential backoff: 5s, 10s, 20s, ... capped at 10 minutes
+const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS);
+
+/**
+ * Claim and process the events of a chain strictly in (block, logIndex) order until none are due.
+ * Later events depend on earlier ones (a trade needs its TokenCreated), so a failed event holds back
+ * everything after it: it is retried with backoff and, after MAX_ATTEMPTS, moved to the dead-letter
+ * collection, which lets the rest of the chain proceed.
+ */
+const processDueEvents = async (chainId: number, maxBlock?: number): Promise<void> => {
+  for (;;) {
+    // The oldest unfinished event, whether it is due or waiting out a backoff
+    const head = await IngestEvent.findOne({ chainId: chainId, status: { $in: ['pending', 'processing'] } })
+      .sort({ blockNumber: 1, logIndex: 1 })
+      .select('status nextAttemptAt blockNumber')
+      .lean();
+    if (!head
+      || head.status !== 'pending'
+      || head.nextAttemptAt > new Date()
+      || (maxBlock !== undefined && head.blockNumber > maxBlock)) {
+      return;
+    }
+
+    const event = await IngestEvent.findOneAndUpdate(
+      { _id: head._id, status: 'pending' },
+      { $set: { status: 'processing', lockedAt: new Date() }, $inc: { attempts: 1 } },
+      { new: true }
+    );
+    if (!event) {
+      return;
+    }
+
+    try {
+      await dispatchIngestEvent(event.eventName, event.payload as { eventData: any; priceData?: any });
+      await IngestEvent.updateOne(
+        { _id: event._id },
+        { $set: { status: 'done', completedAt: new Date(), lockedAt: null, lastError: '' } }
+      );
+      recordProcessedEvent(chainId);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      recordSyncError(chainId, `${event.eventName} ${event.txHash}:${event.logIndex}: ${message}`);
+
+      if (event.attempts >= MAX_ATTEMPTS) {
+        console.error(`❌ Ingest event ${event.eventName} ${event.txHash}:${event.logIndex} on chain ${chainId} failed ${event.attempts} times, moving to dead letters:`, message);
+        await DeadLetterEvent.updateOne(
+          { chainId: chainId, txHash: event.txHash, logIndex: event.logIndex },
+          {
+            $set: {
+              eventName: event.eventName,
+              blockNumber: event.blockNumber,
+              blockHash: event.blockHash,
+              payload: event.payload,
+              attempts: event.attempts,
+              lastError: message,
+              failedAt: new Date(),
+              updatedAt: new Date(),
+            },
+            $setOnInsert: { createdAt: new Date() },
+          },
+          { upsert: true }
+        );
+        await IngestEvent.deleteOne({ _id: event._id });
+      } else {
+        await IngestEvent.updateOne(
+          { _id: event._id },
+          {
+            $set: {
+              status: 'pending',
+              lockedAt: null,
+              lastError: message,
+              nextAttemptAt: new Date(Date.now() + getRetryDelay(event.attempts)),
+            },
+          }
+        );
+      }
+    }
+  }
+};
+
+// Drains run one after another per chain so events are applied in order
+const drainChains = new Map<number, Promise<void>>();
+
+/**
+ * Process every due event of a chain (optionally only up to a block). Calls for the same chain are serialized.
+ */
+export const drainIngestQueue = (chainId: number, maxBlock?: number): Promise<void> => {
+  const previous = drainChains.get(chainId) || Promise.resolve();
+  const run = previous.then(() => processDueEvents(chainId, maxBlock));
+  const settled = run.catch(() => undefined);
+  drainChains.set(chainId, settled);
+  settled.then(() => {
+    if (drainChains.get(chainId) === settled) {
+      drainChains.delete(chainId);
+    }
+  });
+  return run;
+};
+
+/**
+ * Queue a single live event and process it right away
+ */
+export const ingestEvent = async (event: IngestEventInput): Promise<void> => {
+  await enqueueIngestEvents([event]);
+  await drainIngestQueue(event.chainId);
+};
+
+/**
+ * Forget queued events from orphaned blocks (a reorg rollback re-ingests the canonical ones)
+ */
+export const removeIngestEventsFromBlock = async (chainId: number, fromBlock: number): Promise<void> => {
+  await Promise.all([
+    IngestEvent.deleteMany({ chainId: chainId, blockNumber: { $gte: fromBlock } }),
+    DeadLetterEvent.deleteMany({ chainId: chainId, blockNumber: { $gte: fromBlock } }),
+  ]);
+};
+
+/**
+ * Move a dead-letter event back into the queue with a fresh attempt budget
+ */
+export const replayDeadLetter = async (deadLetterId: string): Promise<boolean> => {
+  const deadLetter = await DeadLetterEvent.findById(deadLetterId);
+  if (!deadLetter) {
+    return false;
+  }
+
+  await enqueueIngestEvents([{
+    chainId: deadLetter.chainId,
+    eventName: deadLetter.eventName,
+    txHash: deadLetter.txHash,
+    logIndex: deadLetter.logIndex,
+    blockNumber: deadLetter.blockNumber,
+    blockHash: deadLetter.blockHash,
+    payload: deadLetter.payload as { eventData: any; priceData?: any },
+  }], { reprocess: true });
+  await DeadLetterEvent.deleteOne({ _id: deadLetter._id });
+
+  drainIngestQueue(deadLetter.chainId).catch((error: any) => {
+    console.error(`❌ Error draining ingest queue for chain ${deadLetter.chainId}:`, error.message);
+  });
+  return true;
+};
+
+/**
+ * Queue and dead-letter counts per chain
+ */
+export const getIngestQueueStats = async () => {
+  const [queued, deadLetters] = await Promise.all([
+    IngestEvent.aggregate([
+      { $group: { _id: { chainId: '$chainId', status: '$status' }, count: { $sum: 1 }, oldestBlock: { $min: '$blockNumber' } } },
+    ]),
+    DeadLetterEvent.aggregate([
+      { $group: { _id: '$chainId', count: { $sum: 1 }, lastFailedAt: { $max: '$failedAt' } } },
+    ]),
+  ]);
+
+  const stats = new Map<number, Record<string, any>>();
+  const entry = (chainId: number) => {
+    const existing = stats.get(chainId);
+    if (existing) {
+      return existing;
+    }
+    const created: Record<string, any> = { chainId, pending: 0, processing: 0, done: 0, oldestPendingBlock: null, deadLetters: 0, lastFailedAt: null };
+    stats.set(chainId, created);
+    return created;
+  };
+  for (const row of queued) {
+    const chainStats = entry(row._id.chainId);
+    chainStats[row._id.status] = row.count;
+    if (row._id.status === 'pending') {
+      chainStats.oldestPendingBlock = row.oldestBlock;
+    }
+  }
+  for (const row of deadLetters) {
+    const chainStats = entry(row._id);
+    chainStats.deadLetters = row.count;
+    chainStats.lastFailedAt = row.lastFailedAt;
+  }
+
+  return Array.from(stats.values());
+};
+
+const workerIntervals = new Map<number, NodeJS.Timeout>();
+
+/**
+ * Start the background workers that retry due events and recover events left 'processing' by a crashed worker
+ */
+export const startIngestWorkers = (): void => {
+  for (const chainId of getConfiguredChains()) {
+    if (workerIntervals.has(chainId)) {
+      continue;
+    }
+    workerIntervals.set(chainId, setInterval(async () => {
+      // Retries belong to the instance ingesting the chain
+      if (!isChainLeader(chainId)) {
+        return;
+      }
+      try {
+        await IngestEvent.updateMany(
+          { chainId: chainId, status: 'processing', lockedAt: { $lt: new Date(Date.now() - STALE_LOCK_MS) } },
+          { $set: { status: 'pending', lockedAt: null } }
+        );
+        await drainIngestQueue(chainId);
+      } catch (error: any) {
+        console.error(`❌ Error running ingest worker for chain ${chainId}:`, error.message);
+      }
+    }, WORKER_INTERVAL_MS));
+  }
+};
+
+/**
+ * Stop the background ingest workers
+ */
+export const stopIngestWorkers = (): void => {
+  for (const interval of workerIntervals.values()) {
+    clearInterval(interval);
+  }
+  workerIntervals.clear();
+};
@@ -0,0 +1,93 @@
+import { ethers } from 'ethers';
+import { getProvider } from '../config/blockchain';
+
+// Provider errors that mean "ask for fewer blocks" rather than a real failure
+const LOG_LIMIT_ERROR_PATTERNS = [
+  /more than \d+ (results|logs)/i,
+  /block range/i,
+  /range (is )?too (large|wide|big)/i,
+  /response size/i,
+  /limit exceeded/i,
+  /too many (results|logs|blocks)/i,
+  /exceeds? (the )?max/i,
+];
+
+// Successful calls at a reduced span before the span is doubled again
+const LOG_RANGE_GROWTH_AFTER = 20;
+
+// Largest block span per getLogs call that the chain's provider accepted (absent = unlimited)
+const logRangeLimits = new Map<number, { span: number; successes: number }>();
+
+/**
+ * Returns true if a getLogs error is the provider refusing the size of the query
+ */
+export const isLogLimitError = (error: any): boolean => {
+  const code = error?.error?.code ?? error?.info?.error?.code ?? error?.code;
+  if (code === -32005) {
+    return true;
+  }
+  const message = [error?.shortMessage, error?.message, error?.error?.message, error?.info?.error?.message]
+    .filter(Boolean)
+    .join(' ');
+  return LOG_LIMIT_ERROR_PATTERNS.some((pattern) => pattern.test(message));
+};
+
+/**
+ * eth_getLogs over [fromBlock, toBlock], split into smaller spans whenever the provider rejects the range.
+ * The accepted span is remembered per chain and slowly grown back after a run of successful calls.
+ */
+export const getLogsAdaptive = async (
+  chainId: number,
+  filter: { address?: string | string[]; topics?: Array<string | string[] | null> },
+  fromBlock: number,
+  toBlock: number
+): Promise<ethers.Log[]> => {
+  const chainProvider = getProvider(chainId);
+  const logs: ethers.Log[] = [];
+
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const limit = logRangeLimits.get(chainId);
+    const end = limit ? Math.min(toBlock, start + limit.span - 1) : toBlock;
+
+    try {
+      logs.push(...await chainProvider.getLogs({ ...filter, fromBlock: start, toBlock: end }));
+      start = end + 1;
+
+      if (limit && ++limit.successes >= LOG_RANGE_GROWTH_AFTER) {
+        limit.span *= 2;
+        limit.successes = 0;
+      }
+    } catch (error: any) {
+      if (!isLogLimitError(error) || end === start) {
+        throw error;
+      }
+      const span = Math.max(1, Math.floor((end - start + 1) / 2));
+      logRangeLimits.set(chainId, { span, successes: 0 });
+      console.warn(`⚠️ getLogs range ${start}-${end} rejected on chain ${chainId}, retrying with ${span} blocks per call`);
+    }
+  }
+
+  return logs;
+};
+
+/**
+ * Lazily fetched block timestamps for one sync range (each block is requested at most once)
+ */
+export const createBlockTimestampCache = (chainId: number) => {
+  const chainProvider = getProvider(chainId);
+  const timestamps = new Map<number, Promise<Date>>();
+
+  return (blockNumber: number): Promise<Date> => {
+    let timestamp = timestamps.get(blockNumber);
+    if (!timestamp) {
+      timestamp = chainProvider.getBlock(blockNumber).then((block) =>
+        block?.timestamp ? new Date(Number(block.timestamp) * 1000) : new Date()
+      );
+      // Don't cache failures - the next caller retries
+      timestamp.catch(() => timestamps.delete(blockNumber));
+      timestamps.set(blockNumber, timestamp);
+    }
+    return timestamp;
+  };
+};
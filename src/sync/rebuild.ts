@@ -0,0 +1,245 @@
+import { ethers } from 'ethers';
+import Transaction from '../models/Transaction';
+import TokenHistory from '../models/TokenHistory';
+import TokenHolder from '../models/TokenHolder';
+import { IToken } from '../types';
+import { getContract, getFactoryAddressForChain } from '../config/blockchain';
+import { getEthPriceUSD } from '../services/ethPriceService';
+import { rebuildTokenCandles } from '../services/candleService';
+import { updateTokenStats } from '../services/tokenStats';
+import { recalculatePercentages } from './handler';
+
+interface HolderReplayState {
+  balance: bigint;
+  firstTransactionHash: string;
+  lastTransactionHash: string;
+  transactionCount: number;
+}
+
+/**
+ * Rebuild all TokenHolder rows for a token by replaying its stored trades and transfers in block order.
+ * The bonding curve starts with the full supply, exactly as saveCreatedEvent seeds it.
+ */
+export const rebuildTokenHolders = async (token: IToken): Promise<void> => {
+  const chainId = token.chainId;
+  const tokenAddress = token.address.toLowerCase();
+  const bondingCurveAddress = getFactoryAddressForChain(chainId).toLowerCase();
+
+  const balances = new Map<string, HolderReplayState>();
+  const applyDelta = (holderAddress: string, delta: bigint, txHash: string): void => {
+    const current = balances.get(holderAddress);
+    if (current) {
+      current.balance += delta;
+      current.lastTransactionHash = txHash;
+      current.transactionCount += 1;
+    } else {
+      balances.set(holderAddress, {
+        balance: delta,
+        firstTransactionHash: txHash,
+        lastTransactionHash: txHash,
+        transactionCount: 1,
+      });
+    }
+  };
+
+  const transactions = await Transaction.find({
+    tokenAddress: tokenAddress,
+    chainId: chainId,
+    type: { $in: ['Bought', 'Sold', 'Transfer', 'Mint', 'Burn', 'Add_liquidity'] }
+  })
+    .sort({ blockNumber: 1, logIndex: 1, createdAt: 1 })
+    .select('type venue senderAddress recipientAddress tokenAmount txHash')
+    .lean();
+
+  // token.totalSupply tracks burns and mints, so undo them to get the supply the curve started with
+  let initialSupply = BigInt(token.totalSupply || '0');
+  for (const tx of transactions) {
+    if (tx.type === 'Burn') initialSupply += BigInt(tx.tokenAmount || '0');
+    if (tx.type === 'Mint') initialSupply -= BigInt(tx.tokenAmount || '0');
+  }
+
+  if (initialSupply > 0n) {
+    balances.set(bondingCurveAddress, {
+      balance: initialSupply,
+      firstTransactionHash: '',
+      lastTransactionHash: '',
+      transactionCount: 0,
+    });
+  }
+
+  for (const tx of transactions) {
+    const amount = BigInt(tx.tokenAmount || '0');
+    const sender = tx.senderAddress.toLowerCase();
+    const recipient = tx.recipientAddress.toLowerCase();
+
+    // DEX trades are mirrored by the pair's Transfer logs, which are replayed on their own
+    if (tx.venue === 'dex' && (tx.type === 'Bought' || tx.type === 'Sold')) {
+      continue;
+    }
+
+    switch (tx.type) {
+      case 'Bought':
+        applyDelta(recipient, amount, tx.txHash);
+        applyDelta(bondingCurveAddress, -amount, tx.txHash);
+        break;
+      case 'Sold':
+        applyDelta(sender, -amount, tx.txHash);
+        applyDelta(bondingCurveAddress, amount, tx.txHash);
+        break;
+      case 'Transfer':
+      case 'Add_liquidity':
+        applyDelta(sender, -amount, tx.txHash);
+        applyDelta(recipient, amount, tx.txHash);
+        break;
+      case 'Burn':
+        applyDelta(sender, -amount, tx.txHash);
+        break;
+      case 'Mint':
+        applyDelta(recipient, amount, tx.txHash);
+        break;
+    }
+  }
+
+  await TokenHolder.deleteMany({ tokenId: token._id, chainId: chainId });
+
+  const holderDocs = Array.from(balances.entries())
+    .filter(([, state]) => state.balance > 0n)
+    .map(([holderAddress, state]) => ({
+      tokenId: token._id,
+      tokenAddress: tokenAddress,
+      holderAddress: holderAddress,
+      balance: state.balance.toString(),
+      firstTransactionHash: state.firstTransactionHash,
+      lastTransactionHash: state.lastTransactionHash,
+      transactionCount: state.transactionCount,
+      chainId: chainId,
+    }));
+
+  if (holderDocs.length > 0) {
+    await TokenHolder.insertMany(holderDocs);
+  }
+
+  await recalculatePercentages(tokenAddress, token.totalSupply || '0', chainId);
+
+  // Holder steps left by failed events are covered by the rebuild (a retry must not apply them again)
+  await Transaction.updateMany(
+    { tokenAddress: tokenAddress, chainId: chainId, pendingSteps: 'holders' },
+    { $pull: { pendingSteps: 'holders' } }
+  );
+};
+
+/**
+ * Restore a token's price, market cap, graduation progress and curve reserves after derived records were removed.
+ * Price comes from the newest remaining TokenHistory entry, falling back to the on-chain curve state.
+ */
+export const rebuildTokenMarketState = async (token: IToken): Promise<void> => {
+  const chainId = token.chainId;
+  const contract = getContract(chainId);
+
+  let curveState: any = null;
+  try {
+    curveState = await contract.tokens(token.address);
+  } catch (error: any) {
+    console.error(`❌ Error reading curve state for ${token.address} on chain ${chainId}:`, error.message);
+  }
+
+  // Curve reserves for local quotes: the on-chain state, positioned at the newest remaining curve trade
+  // so that re-ingested trades after it still apply. Without a curve state, quotes use the contract.
+  if (curveState) {
+    const latestTrade = await Transaction.findOne({
+      tokenAddress: token.address.toLowerCase(),
+      chainId: chainId,
+      type: { $in: ['Bought', 'Sold'] },
+      venue: { $ne: 'dex' }
+    }).sort({ blockNumber: -1, logIndex: -1 });
+
+    token.virtualEthReserves = curveState.virtualEthReserves.toString();
+    token.virtualTokenReserves = curveState.virtualTokenReserves.toString();
+    token.realEthReserves = curveState.realEthReserves.toString();
+    token.realTokenReserves = curveState.realTokenReserves.toString();
+    token.reservesBlockNumber = latestTrade?.blockNumber ?? 0;
+    token.reservesLogIndex = latestTrade?.logIndex ?? 0;
+    token.reservesUpdatedAt = new Date();
+  } else {
+    token.virtualEthReserves = null;
+    token.virtualTokenReserves = null;
+    token.realEthReserves = null;
+    token.realTokenReserves = null;
+    token.reservesBlockNumber = null;
+    token.reservesLogIndex = null;
+    token.reservesUpdatedAt = null;
+  }
+  token.feeTierUpdatedAt = null;
+
+  // Graduation progress uses the same scale as saveTradeEvent: realEthReserves * 1e18 / graduationEth
+  if (curveState && token.graduationEth && token.graduationEth !== '0') {
+    const realEthReserves = BigInt(curveState.realEthReserves.toString());
+    token.graduationProgress = ((realEthReserves * 10n ** 18n) / BigInt(token.graduationEth)).toString();
+  }
+
+  // Trades after the newest remaining one may set the price again
+  const latestPriceTrade = await Transaction.findOne({
+    tokenAddress: token.address.toLowerCase(),
+    chainId: chainId,
+    type: { $in: ['Bought', 'Sold'] }
+  }).sort({ blockNumber: -1, logIndex: -1 });
+  token.priceBlockNumber = latestPriceTrade?.blockNumber ?? null;
+  token.priceLogIndex = latestPriceTrade?.logIndex ?? null;
+
+  const latestHistory = await TokenHistory.findOne({
+    tokenAddress: token.address.toLowerCase(),
+    chainId: chainId
+  }).sort({ timestamp: -1 });
+
+  if (latestHistory) {
+    token.currentPrice = latestHistory.tokenPrice;
+    // USD values of the history are null when the ETH price was unavailable; keep the token's then
+    token.currentPriceUSD = latestHistory.priceUSD ?? token.currentPriceUSD;
+    token.marketCap = latestHistory.marketCap;
+    token.marketCapUSD = latestHistory.marketCapUSD ?? token.marketCapUSD;
+  } else if (curveState) {
+    const virtualEthReserves = BigInt(curveState.virtualEthReserves.toString());
+    const virtualTokenReserves = BigInt(curveState.virtualTokenReserves.toString());
+    if (virtualTokenReserves > 0n) {
+      const priceInWei = (virtualEthReserves * 10n ** 18n) / virtualTokenReserves;
+      token.currentPrice = ethers.formatUnits(priceInWei, 18);
+
+      let ethPrice = 0;
+      try {
+        ethPrice = parseFloat((await getEthPriceUSD()) || '0');
+      } catch (error: any) {
+        console.error('❌ Error fetching ETH price in rebuildTokenMarketState:', error.message);
+      }
+
+      // Without an ETH price the USD values are unknown, not zero: keep the token's
+      if (ethPrice > 0) {
+        token.currentPriceUSD = (parseFloat(token.currentPrice) * ethPrice).toString();
+      }
+      if (token.totalSupply) {
+        const marketCap = (BigInt(token.totalSupply) * priceInWei) / (10n ** 18n);
+        token.marketCap = marketCap.toString();
+        if (ethPrice > 0) {
+          token.marketCapUSD = ((Number(marketCap) / 1e18) * ethPrice).toString();
+        }
+      }
+    }
+  }
+
+  await token.save();
+};
+
+/**
+ * Rebuild every piece of derived state for a token from what remains in the database
+ */
+export const rebuildTokenState = async (token: IToken): Promise<void> => {
+  await rebuildTokenHolders(token);
+  await rebuildTokenMarketState(token);
+  await rebuildTokenCandles(token.address, token.chainId);
+  await updateTokenStats(token.address, token.chainId);
+
+  // Candle steps left by failed events are covered by the rebuild
+  await Transaction.updateMany(
+    { tokenAddress: token.address, chainId: token.chainId, pendingSteps: 'candles' },
+    { $pull: { pendingSteps: 'candles' } }
+  );
+};
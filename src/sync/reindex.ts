@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import Transaction from '../models/Transaction';
+import TokenHistory from '../models/TokenHistory';
+import TokenHolder from '../models/TokenHolder';
+import Token from '../models/Token';
+import { getProvider } from '../config/blockchain';
+import { syncBlockRange } from './handler';
+import { rebuildTokenState } from './rebuild';
+import { rollupChainRange } from '../services/analyticsService';
+
+export interface ReindexOptions {
+  chainId: number;
+  tokenAddress?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface ReindexResult {
+  chainId: number;
+  tokenAddress: string | null;
+  fromBlock: number;
+  toBlock: number;
+  historyRemoved: number;
+  tokensRebuilt: number;
+}
+
+export interface ReindexJob {
+  id: string;
+  options: ReindexOptions;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: Date;
+  finishedAt: Date | null;
+  result: ReindexResult | null;
+  error: string | null;
+}
+
+// Chains with a reindex in progress - two reindexes of the same chain would wipe each other's output
+const activeReindexes = new Set<number>();
+
+// Jobs started through startReindexJob (kept in memory for status polling)
+const reindexJobs = new Map<string, ReindexJob>();
+const MAX_FINISHED_JOBS = 50;
+
+/**
+ * Returns true while a reindex is running for the chain
+ */
+export const isReindexRunning = (chainId: number): boolean => activeReindexes.has(chainId);
+
+/**
+ * Wipe derived data (TokenHistory, TokenHolder, Token price fields) for a token, a chain or a block range
+ * and regenerate it: stored Transactions are kept, the on-chain logs of the range are replayed through
+ * syncBlockRange (re-creating price history and any events that were missed) and holders plus market
+ * state are rebuilt from the resulting Transactions.
+ *
+ * Without a fromBlock, a token reindex starts at its first stored transaction and a chain reindex at SYNC_START_BLOCK.
+ */
+export const reindex = async (options: ReindexOptions): Promise<ReindexResult> => {
+  const chainId = options.chainId;
+  const tokenAddress = options.tokenAddress?.toLowerCase();
+
+  if (activeReindexes.has(chainId)) {
+    throw new Error(`A reindex is already running for chain ${chainId}`);
+  }
+  activeReindexes.add(chainId);
+
+  try {
+    if (tokenAddress) {
+      const token = await Token.findOne({ address: tokenAddress, chainId: chainId }).select('_id').lean();
+      if (!token) {
+        throw new Error(`Token ${tokenAddress} not found on chain ${chainId}`);
+      }
+    }
+
+    let fromBlock = options.fromBlock;
+    if (fromBlock === undefined && tokenAddress) {
+      const firstTx = await Transaction.findOne({ tokenAddress: tokenAddress, chainId: chainId })
+        .sort({ blockNumber: 1 })
+        .select('blockNumber')
+        .lean();
+      fromBlock = firstTx?.blockNumber;
+    }
+    if (fromBlock === undefined && process.env.SYNC_START_BLOCK) {
+      fromBlock = Number(process.env.SYNC_START_BLOCK) || 0;
+    }
+    if (fromBlock === undefined) {
+      throw new Error('fromBlock is required when the token has no transactions and SYNC_START_BLOCK is unset');
+    }
+
+    const toBlock = options.toBlock ?? await getProvider(chainId).getBlockNumber();
+    if (fromBlock > toBlock) {
+      throw new Error(`Invalid block range ${fromBlock}-${toBlock}`);
+    }
+
+    const rangeFilter: Record<string, any> = { chainId: chainId, blockNumber: { $gte: fromBlock, $lte: toBlock } };
+    if (tokenAddress) {
+      rangeFilter.tokenAddress = tokenAddress;
+    }
+
+    // Tokens whose derived state is rebuilt: the requested token, or everything that traded in the range
+    const affectedTokens = new Set<string>();
+    if (tokenAddress) {
+      affectedTokens.add(tokenAddress);
+    } else {
+      const [txTokens, historyTokens] = await Promise.all([
+        Transaction.distinct('tokenAddress', rangeFilter),
+        TokenHistory.distinct('tokenAddress', rangeFilter),
+      ]);
+      for (const address of [...txTokens, ...historyTokens]) {
+        affectedTokens.add(address);
+      }
+    }
+
+    // Wipe derived data so the replay regenerates it instead of skipping existing rows
+    const { deletedCount: historyRemoved } = await TokenHistory.deleteMany(rangeFilter);
+    await TokenHolder.deleteMany({ tokenAddress: { $in: Array.from(affectedTokens) }, chainId: chainId });
+    // USD fields are left as they are: the rebuild keeps them when the history has no USD value
+    await Token.updateMany(
+      { address: { $in: Array.from(affectedTokens) }, chainId: chainId },
+      { $set: { currentPrice: '0', marketCap: '0', priceBlockNumber: null, priceLogIndex: null } }
+    );
+
+    const intervalSize = Number(process.env.SYNC_INTERVAL_SIZE) || 100;
+    let startBlock = fromBlock;
+    while (startBlock <= toBlock) {
+      const endBlock = Math.min(startBlock + intervalSize - 1, toBlock);
+      // A token reindex only replays that token's events - other tokens' state is not rebuilt afterwards
+      await syncBlockRange(startBlock, endBlock, chainId, { reprocess: true, tokenAddress: tokenAddress });
+      startBlock = endBlock + 1;
+    }
+
+    // Events missed before may have surfaced new tokens in the range
+    if (!tokenAddress) {
+      const replayedTokens = await Transaction.distinct('tokenAddress', rangeFilter);
+      for (const address of replayedTokens) {
+        affectedTokens.add(address);
+      }
+    }
+
+    let tokensRebuilt = 0;
+    for (const address of affectedTokens) {
+      const token = await Token.findOne({ address: address, chainId: chainId });
+      if (!token) {
+        continue;
+      }
+      try {
+        await rebuildTokenState(token);
+        tokensRebuilt++;
+      } catch (error: any) {
+        console.error(`❌ Error rebuilding state for ${address} on chain ${chainId} during reindex:`, error.message);
+      }
+    }
+
+    // Daily analytics of the days the range covers (older days are not revisited by the rollup job)
+    try {
+      const [first, last] = await Promise.all([
+        Transaction.findOne(rangeFilter).sort({ blockTimestamp: 1 }).select('blockTimestamp').lean(),
+        Transaction.findOne(rangeFilter).sort({ blockTimestamp: -1 }).select('blockTimestamp').lean(),
+      ]);
+      if (first && last) {
+        await rollupChainRange(chainId, first.blockTimestamp, last.blockTimestamp);
+      }
+    } catch (error: any) {
+      console.error(`❌ Error recomputing daily analytics for chain ${chainId} during reindex:`, error.message);
+    }
+
+    return {
+      chainId: chainId,
+      tokenAddress: tokenAddress || null,
+      fromBlock: fromBlock,
+      toBlock: toBlock,
+      historyRemoved: historyRemoved,
+      tokensRebuilt: tokensRebuilt,
+    };
+  } finally {
+    activeReindexes.delete(chainId);
+  }
+};
+
+/**
+ * Run a reindex in the background and return its job record (used by the admin route)
+ */
+export const startReindexJob = (options: ReindexOptions): ReindexJob => {
+  if (activeReindexes.has(options.chainId)) {
+    throw new Error(`A reindex is already running for chain ${options.chainId}`);
+  }
+
+  const job: ReindexJob = {
+    id: crypto.randomBytes(8).toString('hex'),
+    options: options,
+    status: 'running',
+    startedAt: new Date(),
+    finishedAt: null,
+    result: null,
+    error: null,
+  };
+  reindexJobs.set(job.id, job);
+
+  reindex(options)
+    .then((result) => {
+      job.status = 'completed';
+      job.result = result;
+    })
+    .catch((error: any) => {
+      console.error(`❌ Reindex job ${job.id} failed:`, error.message);
+      job.status = 'failed';
+      job.error = error.message;
+    })
+    .finally(() => {
+      job.finishedAt = new Date();
+      pruneFinishedJobs();
+    });
+
+  return job;
+};
+
+/**
+ * Get a reindex job by id
+ */
+export const getReindexJob = (jobId: string): ReindexJob | undefined => reindexJobs.get(jobId);
+
+// Keep only the most recent finished jobs
+const pruneFinishedJobs = (): void => {
+  const finished = Array.from(reindexJobs.values()).filter((job) => job.status !== 'running');
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    reindexJobs.delete(job.id);
+  }
+};
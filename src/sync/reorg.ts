@@ -0,0 +1,232 @@
+import Transaction from '../models/Transaction';
+import TokenHistory from '../models/TokenHistory';
+import LiquidityEvent from '../models/LiquidityEvent';
+import FeePayment from '../models/FeePayment';
+import ProtocolConfigEvent from '../models/ProtocolConfigEvent';
+import Token from '../models/Token';
+import TokenHolder from '../models/TokenHolder';
+import Candle from '../models/Candle';
+import TrendingScore from '../models/TrendingScore';
+import { getProvider, getConfirmationDepth } from '../config/blockchain';
+import { clearDexConfig } from '../config/dex';
+import { syncBlockRange } from './handler';
+import { rebuildTokenState } from './rebuild';
+import { rewindLastProcessedBlock, saveLastProcessedBlock } from './checkpoint';
+import { removeIngestEventsFromBlock } from './ingestQueue';
+
+// Chains with a reorg check (or recovery) currently running
+const activeChecks = new Set<number>();
+
+// Chains currently rolling back and re-applying blocks after a detected reorg
+const activeRecoveries = new Set<number>();
+
+/**
+ * Returns true while the chain is recovering from a reorg (the live checkpoint must not advance)
+ */
+export const isReorgRecoveryRunning = (chainId: number): boolean => activeRecoveries.has(chainId);
+
+/**
+ * Remove every record derived from blocks >= fromBlock and rebuild the state of the affected tokens
+ */
+export const rollbackFromBlock = async (chainId: number, fromBlock: number): Promise<void> => {
+  const blockFilter = { chainId: chainId, blockNumber: { $gte: fromBlock } };
+
+  const [orphanedTransactions, orphanedHistory, orphanedLiquidity, orphanedRouterUpdates, orphanedTokens] = await Promise.all([
+    Transaction.find(blockFilter).select('tokenAddress type tokenAmount').lean(),
+    TokenHistory.find(blockFilter).select('tokenAddress').lean(),
+    LiquidityEvent.find(blockFilter).select('tokenAddress methodName').lean(),
+    ProtocolConfigEvent.countDocuments({ ...blockFilter, eventName: 'UniswapRouterUpdated' }),
+    Token.find({ chainId: chainId, deploymentBlock: { $gte: fromBlock } }).select('address').lean(),
+  ]);
+
+  const affectedTokens = new Set<string>([
+    ...orphanedTransactions.map((tx) => tx.tokenAddress),
+    ...orphanedHistory.map((history) => history.tokenAddress),
+    ...orphanedLiquidity.map((event) => event.tokenAddress),
+  ]);
+
+  // Orphaned burns/mints changed the stored supply - undo them before the holders are rebuilt
+  const supplyAdjustments = new Map<string, bigint>();
+  for (const tx of orphanedTransactions) {
+    if (tx.type !== 'Burn' && tx.type !== 'Mint') {
+      continue;
+    }
+    const amount = BigInt(tx.tokenAmount || '0');
+    const adjustment = supplyAdjustments.get(tx.tokenAddress) || 0n;
+    supplyAdjustments.set(tx.tokenAddress, adjustment + (tx.type === 'Burn' ? amount : -amount));
+  }
+  for (const [tokenAddress, adjustment] of supplyAdjustments) {
+    const token = await Token.findOne({ address: tokenAddress, chainId: chainId });
+    if (token?.totalSupply) {
+      token.totalSupply = (BigInt(token.totalSupply) + adjustment).toString();
+      await token.save();
+    }
+  }
+
+  await Promise.all([
+    Transaction.deleteMany(blockFilter),
+    TokenHistory.deleteMany(blockFilter),
+    LiquidityEvent.deleteMany(blockFilter),
+    FeePayment.deleteMany(blockFilter),
+    ProtocolConfigEvent.deleteMany(blockFilter),
+    removeIngestEventsFromBlock(chainId, fromBlock),
+  ]);
+
+  // Tokens created in orphaned blocks never existed on the canonical chain (re-syncing creates them again if they do)
+  const removedTokens = orphanedTokens.map((token) => token.address);
+  if (removedTokens.length > 0) {
+    const tokenFilter = { tokenAddress: { $in: removedTokens }, chainId: chainId };
+    await Promise.all([
+      Token.deleteMany({ address: { $in: removedTokens }, chainId: chainId }),
+      TokenHolder.deleteMany(tokenFilter),
+      Candle.deleteMany(tokenFilter),
+      TrendingScore.deleteMany(tokenFilter),
+    ]);
+    for (const tokenAddress of removedTokens) {
+      affectedTokens.delete(tokenAddress);
+    }
+  }
+
+  // The cached router may come from an orphaned UniswapRouterUpdated
+  if (orphanedRouterUpdates > 0) {
+    clearDexConfig(chainId);
+  }
+
+  // Graduations that were orphaned put the token back on the bonding curve
+  const ungraduatedTokens = orphanedLiquidity
+    .filter((event) => event.methodName === 'TokenGraduated' || event.methodName === 'LiquidityAdded')
+    .map((event) => event.tokenAddress);
+  if (ungraduatedTokens.length > 0) {
+    await Token.updateMany(
+      { address: { $in: ungraduatedTokens }, chainId: chainId },
+      { $set: { isActive: true, graduatedAt: null } }
+    );
+  }
+
+  for (const tokenAddress of affectedTokens) {
+    const token = await Token.findOne({ address: tokenAddress, chainId: chainId });
+    if (!token) {
+      continue;
+    }
+    try {
+      await rebuildTokenState(token);
+    } catch (error: any) {
+      console.error(`❌ Error rebuilding state for ${tokenAddress} on chain ${chainId} after reorg:`, error.message);
+    }
+  }
+};
+
+/**
+ * Roll back everything from the first orphaned block and re-ingest the canonical chain from there
+ */
+const recoverFromReorg = async (chainId: number, fromBlock: number): Promise<void> => {
+  activeRecoveries.add(chainId);
+  try {
+    await rewindLastProcessedBlock(chainId, fromBlock - 1);
+    await rollbackFromBlock(chainId, fromBlock);
+
+    // Read the head after the rollback so anything the live tracker wrote meanwhile is re-applied too
+    const headBlock = await getProvider(chainId).getBlockNumber();
+    const intervalSize = Number(process.env.SYNC_INTERVAL_SIZE) || 100;
+    let startBlock = fromBlock;
+    while (startBlock <= headBlock) {
+      const endBlock = Math.min(startBlock + intervalSize - 1, headBlock);
+      await syncBlockRange(startBlock, endBlock, chainId);
+      await saveLastProcessedBlock(chainId, endBlock);
+      startBlock = endBlock + 1;
+    }
+  } finally {
+    activeRecoveries.delete(chainId);
+  }
+};
+
+/**
+ * Compare the block hashes of unconfirmed records with the canonical chain.
+ * Records deeper than the chain's confirmation depth are marked confirmed; any hash mismatch
+ * inside the window triggers a rollback and re-sync from the first orphaned block.
+ */
+export const checkForReorg = async (chainId: number): Promise<void> => {
+  if (activeChecks.has(chainId)) {
+    return;
+  }
+  activeChecks.add(chainId);
+
+  try {
+    const chainProvider = getProvider(chainId);
+    const confirmationDepth = getConfirmationDepth(chainId);
+    const headBlock = await chainProvider.getBlockNumber();
+    const finalizedBlock = headBlock - confirmationDepth;
+
+    // Anything at or below the finalized block is final
+    await Promise.all([
+      Transaction.updateMany(
+        { chainId: chainId, status: 'pending', blockNumber: { $lte: finalizedBlock } },
+        { $set: { status: 'confirmed' } }
+      ),
+      LiquidityEvent.updateMany(
+        { chainId: chainId, status: 'pending', blockNumber: { $lte: finalizedBlock } },
+        { $set: { status: 'confirmed' } }
+      ),
+      FeePayment.updateMany(
+        { chainId: chainId, status: 'pending', blockNumber: { $lte: finalizedBlock } },
+        { $set: { status: 'confirmed' } }
+      ),
+      ProtocolConfigEvent.updateMany(
+        { chainId: chainId, status: 'pending', blockNumber: { $lte: finalizedBlock } },
+        { $set: { status: 'confirmed' } }
+      ),
+    ]);
+
+    // Collect the block hashes recorded for every unconfirmed block
+    const unconfirmedFilter = { chainId: chainId, status: 'pending', blockHash: { $ne: '' } };
+    const [txBlocks, liquidityBlocks, feeBlocks, configBlocks, tokenBlocks] = await Promise.all([
+      Transaction.aggregate([
+        { $match: unconfirmedFilter },
+        { $group: { _id: '$blockNumber', hashes: { $addToSet: '$blockHash' } } },
+      ]),
+      LiquidityEvent.aggregate([
+        { $match: unconfirmedFilter },
+        { $group: { _id: '$blockNumber', hashes: { $addToSet: '$blockHash' } } },
+      ]),
+      FeePayment.aggregate([
+        { $match: unconfirmedFilter },
+        { $group: { _id: '$blockNumber', hashes: { $addToSet: '$blockHash' } } },
+      ]),
+      ProtocolConfigEvent.aggregate([
+        { $match: unconfirmedFilter },
+        { $group: { _id: '$blockNumber', hashes: { $addToSet: '$blockHash' } } },
+      ]),
+      // Token creations inside the confirmation window
+      Token.aggregate([
+        { $match: { chainId: chainId, deploymentBlock: { $gt: finalizedBlock }, deploymentBlockHash: { $ne: '' } } },
+        { $group: { _id: '$deploymentBlock', hashes: { $addToSet: '$deploymentBlockHash' } } },
+      ]),
+    ]);
+
+    const recordedHashes = new Map<number, Set<string>>();
+    for (const entry of [...txBlocks, ...liquidityBlocks, ...feeBlocks, ...configBlocks, ...tokenBlocks]) {
+      const hashes = recordedHashes.get(entry._id) || new Set<string>();
+      for (const hash of entry.hashes as string[]) {
+        hashes.add(hash);
+      }
+      recordedHashes.set(entry._id, hashes);
+    }
+
+    const blockNumbers = Array.from(recordedHashes.keys()).sort((a, b) => a - b);
+    for (const blockNumber of blockNumbers) {
+      const block = await chainProvider.getBlock(blockNumber);
+      const canonicalHash = block?.hash?.toLowerCase();
+      const hashes = recordedHashes.get(blockNumber)!;
+
+      if (!canonicalHash || hashes.size > 1 || !hashes.has(canonicalHash)) {
+        console.warn(`⚠️ Reorg detected on chain ${chainId} at block ${blockNumber}, rolling back and re-syncing`);
+        await recoverFromReorg(chainId, blockNumber);
+        break;
+      }
+    }
+  } catch (error: any) {
+    console.error(`❌ Error checking for reorgs on chain ${chainId}:`, error.message);
+  } finally {
+    activeChecks.delete(chainId);
+  }
+};
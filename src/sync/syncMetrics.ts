@@ -0,0 +1,76 @@
+// In-memory ingestion counters per chain, reported by /api/status/sync (reset on restart)
+
+const EVENT_RATE_WINDOW_MS = 60 * 1000; // 1 minute
+
+interface ChainSyncMetrics {
+  reconnects: number;
+  lastReconnectAt: Date | null;
+  lastError: { message: string; at: Date } | null;
+  lastEventAt: Date | null;
+  // Processing times (ms) of the events handled within the rate window, oldest first
+  recentEvents: number[];
+}
+
+const chainMetrics = new Map<number, ChainSyncMetrics>();
+
+const getMetrics = (chainId: number): ChainSyncMetrics => {
+  let metrics = chainMetrics.get(chainId);
+  if (!metrics) {
+    metrics = { reconnects: 0, lastReconnectAt: null, lastError: null, lastEventAt: null, recentEvents: [] };
+    chainMetrics.set(chainId, metrics);
+  }
+  return metrics;
+};
+
+const pruneRecentEvents = (metrics: ChainSyncMetrics, now: number): void => {
+  const cutoff = now - EVENT_RATE_WINDOW_MS;
+  let expired = 0;
+  while (expired < metrics.recentEvents.length && metrics.recentEvents[expired] <= cutoff) {
+    expired++;
+  }
+  if (expired > 0) {
+    metrics.recentEvents.splice(0, expired);
+  }
+};
+
+/**
+ * Count a WebSocket reconnection attempt of the live tracker
+ */
+export const recordReconnect = (chainId: number): void => {
+  const metrics = getMetrics(chainId);
+  metrics.reconnects++;
+  metrics.lastReconnectAt = new Date();
+};
+
+/**
+ * Remember the most recent tracking or ingestion error of a chain
+ */
+export const recordSyncError = (chainId: number, message: string): void => {
+  getMetrics(chainId).lastError = { message, at: new Date() };
+};
+
+/**
+ * Count an event that was processed successfully
+ */
+export const recordProcessedEvent = (chainId: number): void => {
+  const metrics = getMetrics(chainId);
+  const now = Date.now();
+  metrics.recentEvents.push(now);
+  metrics.lastEventAt = new Date(now);
+  pruneRecentEvents(metrics, now);
+};
+
+/**
+ * Counters of a chain, with the number of events processed during the last minute
+ */
+export const getSyncMetrics = (chainId: number) => {
+  const metrics = getMetrics(chainId);
+  pruneRecentEvents(metrics, Date.now());
+  return {
+    reconnects: metrics.reconnects,
+    lastReconnectAt: metrics.lastReconnectAt,
+    lastError: metrics.lastError,
+    lastEventAt: metrics.lastEventAt,
+    eventsPerMinute: metrics.recentEvents.length,
+  };
+};
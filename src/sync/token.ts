@@ -2,6 +2,7 @@ import cron from 'node-cron';
 import connectDB from '../config/database';
 import { syncBlockRange } from './handler';
 import { getConfiguredChains, getProvider } from '../config/blockchain';
+import { getLastProcessedBlock, saveLastProcessedBlock } from './checkpoint';
 
 // Main function to sync the trade events for all configured chains
 const syncTrade = async (): Promise<void> => {
@@ -15,26 +16,40 @@ const syncTrade = async (): Promise<void> => {
   // Sync each configured chain independently
   for (const chainId of configuredChains) {
     const chainProvider = getProvider(chainId);
-    let startBlock = Number(process.env.SYNC_START_BLOCK) || 0;
     const intervalSize = Number(process.env.SYNC_INTERVAL_SIZE) || 100;
+    let isSyncing = false;
     
     
     const checkingCycle = cron.schedule('*/10 * * * * *', async () => {
+      // Skip this tick if the previous range is still being processed
+      if (isSyncing) {
+        return;
+      }
+      isSyncing = true;
       try {
+        // Resume from the persisted checkpoint (shared with the live tracker)
+        const lastProcessedBlock = await getLastProcessedBlock(chainId);
+        const startBlock = lastProcessedBlock !== null
+          ? lastProcessedBlock + 1
+          : Number(process.env.SYNC_START_BLOCK) || 0;
         const latestBlock = await chainProvider.getBlockNumber();
+
+        // Stop if caught up
+        if (startBlock > latestBlock) {
+          checkingCycle.stop();
+          return;
+        }
+
         const endBlock = Math.min(startBlock + intervalSize, latestBlock);
 
         await syncBlockRange(startBlock, endBlock, chainId);
 
         // Move forward
-        startBlock = endBlock + 1;
-
-        // Stop if caught up
-        if (startBlock >= latestBlock) {
-          checkingCycle.stop();
-        }
+        await saveLastProcessedBlock(chainId, endBlock);
       } catch (error) {
         console.error(`❌ Error during cron sync for chain ${chainId}:`, error);
+      } finally {
+        isSyncing = false;
       }
     });
   }
@@ -1,13 +1,80 @@
 import { ethers } from 'ethers';
-import { getWsContract, getProvider, getFactoryAddressForChain, getConfiguredChains } from '../config/blockchain';
-import { saveTradeEvent, saveCreatedEvent, saveGraduationEvent } from './handler';
+import Token from '../models/Token';
+import {
+  getWsContract,
+  getProvider,
+  getFactoryAddressForChain,
+  getConfiguredChains,
+  getConfirmationDepth,
+  tokenInterface,
+  TRANSFER_TOPIC,
+  EventProvider
+} from '../config/blockchain';
+import { PROTOCOL_CONFIG_EVENTS, TRANSFER_ADDRESS_BATCH_SIZE } from './handler';
+import { ingestEvent } from './ingestQueue';
+import { pairInterface, SWAP_TOPIC, SYNC_TOPIC } from '../config/dex';
+import { backfillGap, saveLastProcessedBlock } from './checkpoint';
+import { checkForReorg, isReorgRecoveryRunning } from './reorg';
+import { recordReconnect, recordSyncError } from './syncMetrics';
 
 // Store active tracking connections to prevent duplicates and enable cleanup
 const activeTracking = new Map<number, {
   contract: ethers.Contract;
-  provider: ethers.WebSocketProvider;
+  provider: EventProvider;
+  blockListener: (blockNumber: number) => void;
 }>();
 
+// Number of live event handlers still running per chain (the checkpoint can't advance past them)
+const inFlightEvents = new Map<number, number>();
+
+// Chains whose gap between the checkpoint and the live stream hasn't been backfilled yet
+const pendingGaps = new Set<number>();
+
+const GAP_BACKFILL_RETRY_DELAY = 30000; // 30 seconds
+
+// Chains this instance is supposed to track (reconnects stop once a chain is released to another instance)
+const trackedChains = new Set<number>();
+
+// Attach/detach steps per chain, chained so each finishes before the next starts
+// (otherwise a detach could remove subscriptions a newer attach just made, or miss ones still being added)
+const trackingTransitions = new Map<number, Promise<void>>();
+
+const runTrackingTransition = (chainId: number, step: () => Promise<void>): Promise<void> => {
+  const result = (trackingTransitions.get(chainId) || Promise.resolve()).then(step);
+  trackingTransitions.set(chainId, result.catch(() => {}));
+  return result;
+};
+
+// Per-chain reorg check intervals (started once, survive WebSocket reconnects)
+const reorgCheckIntervals = new Map<number, NodeJS.Timeout>();
+const REORG_CHECK_INTERVAL = Number(process.env.REORG_CHECK_INTERVAL_MS) || 15000; // 15 seconds
+
+const beginEvent = (chainId: number): void => {
+  inFlightEvents.set(chainId, (inFlightEvents.get(chainId) || 0) + 1);
+};
+
+const endEvent = (chainId: number): void => {
+  inFlightEvents.set(chainId, Math.max(0, (inFlightEvents.get(chainId) || 0) - 1));
+};
+
+// Backfill everything between the stored checkpoint and the chain head, retrying until it succeeds
+const runGapBackfill = (chainId: number): void => {
+  pendingGaps.add(chainId);
+  backfillGap(chainId)
+    .then(() => {
+      pendingGaps.delete(chainId);
+    })
+    .catch((error: any) => {
+      console.error(`❌ Gap backfill failed for chain ${chainId}, retrying in ${GAP_BACKFILL_RETRY_DELAY / 1000}s:`, error.message);
+      recordSyncError(chainId, `Gap backfill failed: ${error.message}`);
+      setTimeout(() => {
+        if (activeTracking.has(chainId)) {
+          runGapBackfill(chainId);
+        }
+      }, GAP_BACKFILL_RETRY_DELAY);
+    });
+};
+
 // Helper to remove all event listeners from a contract
 const removeAllEventListeners = (contract: ethers.Contract): void => {
   try {
@@ -15,6 +82,13 @@ const removeAllEventListeners = (contract: ethers.Contract): void => {
     contract.removeAllListeners('TokenSold');
     contract.removeAllListeners('TokenCreated');
     contract.removeAllListeners('TokenGraduated');
+    contract.removeAllListeners('LiquidityAdded');
+    contract.removeAllListeners('CreatorFeePaid');
+    contract.removeAllListeners('DevFeePaid');
+    contract.removeAllListeners('MarketingFeePaid');
+    for (const eventName of PROTOCOL_CONFIG_EVENTS) {
+      contract.removeAllListeners(eventName);
+    }
   } catch (err) {
     // Ignore errors if listeners don't exist
   }
@@ -28,6 +102,7 @@ const reconnectWebSocket = (chainId: number, retryCount: number = 0): void => {
   
   if (retryCount >= maxRetries) {
     console.error(`❌ Max reconnection attempts (${maxRetries}) reached for chain ${chainId}. Stopping reconnection.`);
+    recordSyncError(chainId, `Max reconnection attempts (${maxRetries}) reached`);
     activeTracking.delete(chainId);
     return;
   }
@@ -36,47 +111,322 @@ const reconnectWebSocket = (chainId: number, retryCount: number = 0): void => {
   const delay = Math.min(baseDelay * Math.pow(2, retryCount), maxDelay);
   
   setTimeout(() => {
-    try {
-      trackChain(chainId);
-    } catch (error: any) {
+    if (!trackedChains.has(chainId)) {
+      return;
+    }
+    recordReconnect(chainId);
+    runTrackingTransition(chainId, async () => {
+      // Released while waiting for a previous transition
+      if (trackedChains.has(chainId)) {
+        await trackChain(chainId);
+      }
+    }).catch((error: any) => {
       console.error(`❌ Reconnection attempt ${retryCount + 1} failed for chain ${chainId}:`, error.message);
+      recordSyncError(chainId, `Reconnection attempt ${retryCount + 1} failed: ${error.message}`);
       // Retry with incremented count
       reconnectWebSocket(chainId, retryCount + 1);
-    }
+    });
   }, delay);
 };
 
+// Active raw log subscriptions per chain and kind (one filter per batch of addresses)
+type LogSubscriptionKind = 'transfers' | 'dexPairs';
+type AddressFilter = Omit<ethers.Filter, 'address'> & { address: string[] };
+const logSubscriptions = new Map<string, {
+  provider: EventProvider;
+  topics: Array<string | string[]>;
+  filters: AddressFilter[];
+  listener: (log: ethers.Log) => void;
+}>();
+
+// Remove log subscriptions of a chain (all kinds unless one is given)
+const unsubscribeLogs = async (chainId: number, kind?: LogSubscriptionKind): Promise<void> => {
+  const kinds: LogSubscriptionKind[] = kind ? [kind] : ['transfers', 'dexPairs'];
+  for (const subscriptionKind of kinds) {
+    const key = `${chainId}:${subscriptionKind}`;
+    const existing = logSubscriptions.get(key);
+    if (!existing) {
+      continue;
+    }
+    logSubscriptions.delete(key);
+    for (const filter of existing.filters) {
+      try {
+        await existing.provider.off(filter, existing.listener);
+      } catch {
+        // Ignore errors if the subscription is already gone
+      }
+    }
+  }
+};
+
+// (Re)subscribe to logs with the given topics emitted by any of the addresses
+const subscribeLogs = async (
+  chainId: number,
+  kind: LogSubscriptionKind,
+  wsProvider: EventProvider,
+  addresses: string[],
+  topics: Array<string | string[]>,
+  handleLog: (log: ethers.Log) => Promise<void>
+): Promise<void> => {
+  // A handler of a connection detached in the meantime must not subscribe on it again
+  if (activeTracking.get(chainId)?.provider !== wsProvider) {
+    return;
+  }
+  await unsubscribeLogs(chainId, kind);
+
+  const listener = async (log: ethers.Log): Promise<void> => {
+    beginEvent(chainId);
+    try {
+      await handleLog(log);
+    } catch (err) {
+      console.error(`❌ Error handling ${kind} log:`, err);
+    } finally {
+      endEvent(chainId);
+    }
+  };
+
+  const filters: AddressFilter[] = [];
+  for (let i = 0; i < addresses.length; i += TRANSFER_ADDRESS_BATCH_SIZE) {
+    const filter: AddressFilter = {
+      address: addresses.slice(i, i + TRANSFER_ADDRESS_BATCH_SIZE),
+      topics: topics,
+    };
+    await wsProvider.on(filter, listener);
+    filters.push(filter);
+  }
+
+  logSubscriptions.set(`${chainId}:${kind}`, { provider: wsProvider, topics, filters, listener });
+};
+
+// Add one address to an existing log subscription without resubscribing the others
+// (false when there is no subscription of that kind on the provider to extend)
+const addLogSubscriptionAddress = async (
+  chainId: number,
+  kind: LogSubscriptionKind,
+  wsProvider: EventProvider,
+  address: string
+): Promise<boolean> => {
+  const subscription = logSubscriptions.get(`${chainId}:${kind}`);
+  if (!subscription || subscription.provider !== wsProvider) {
+    return false;
+  }
+  if (subscription.filters.some((filter) => filter.address.some((known) => known.toLowerCase() === address.toLowerCase()))) {
+    return true;
+  }
+
+  const last = subscription.filters[subscription.filters.length - 1];
+  if (last && last.address.length < TRANSFER_ADDRESS_BATCH_SIZE) {
+    // Subscribe the extended batch before dropping the old one so its addresses' logs keep arriving
+    // (a log delivered by both is queued once)
+    const extended: AddressFilter = { address: [...last.address, address], topics: subscription.topics };
+    await wsProvider.on(extended, subscription.listener);
+    subscription.filters[subscription.filters.length - 1] = extended;
+    try {
+      await wsProvider.off(last, subscription.listener);
+    } catch {
+      // Ignore errors if the subscription is already gone
+    }
+  } else {
+    const filter: AddressFilter = { address: [address], topics: subscription.topics };
+    await wsProvider.on(filter, subscription.listener);
+    subscription.filters.push(filter);
+  }
+  return true;
+};
+
+// Block timestamp for a log (falls back to the current time)
+const getLogTimestamp = async (chainId: number, blockNumber: number): Promise<Date> => {
+  try {
+    const block = await getProvider(chainId).getBlock(blockNumber);
+    return block?.timestamp ? new Date(block.timestamp * 1000) : new Date();
+  } catch {
+    return new Date();
+  }
+};
+
 /**
- * Track events for a specific chain
- * This function is idempotent - can be called multiple times safely
+ * (Re)subscribe to ERC20 Transfer logs of every known token on the chain.
+ * Called on connect; a new token is added to the subscription by subscribeNewTokenTransfers.
  */
-const trackChain = (chainId: number): void => {
-  // Clean up existing connection if it exists (for reconnection)
+const subscribeTokenTransfers = async (chainId: number, wsProvider: EventProvider): Promise<void> => {
+  try {
+    const tokens = await Token.find({ chainId: chainId }).select('address').lean();
+
+    await subscribeLogs(chainId, 'transfers', wsProvider, tokens.map((token) => token.address), [TRANSFER_TOPIC], async (log) => {
+      const parsed = tokenInterface.parseLog(log);
+      if (!parsed) {
+        return;
+      }
+
+      await ingestEvent({
+        chainId: chainId,
+        eventName: 'Transfer',
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        payload: {
+          eventData: {
+            tokenAddress: log.address,
+            from: parsed.args[0],
+            to: parsed.args[1],
+            value: parsed.args[2]?.toString() || '0',
+            txHash: log.transactionHash,
+            logIndex: log.index,
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            blockTimestamp: await getLogTimestamp(chainId, log.blockNumber),
+            chainId: chainId,
+          },
+        },
+      });
+    });
+  } catch (error: any) {
+    console.error(`❌ Failed to subscribe to token transfers for chain ${chainId}:`, error.message);
+  }
+};
+
+/**
+ * Start following Transfer logs of a newly created token
+ */
+const subscribeNewTokenTransfers = async (chainId: number, wsProvider: EventProvider, tokenAddress: string): Promise<void> => {
+  try {
+    if (!(await addLogSubscriptionAddress(chainId, 'transfers', wsProvider, tokenAddress))) {
+      await subscribeTokenTransfers(chainId, wsProvider);
+    }
+  } catch (error: any) {
+    console.error(`❌ Failed to subscribe to transfers of token ${tokenAddress} on chain ${chainId}:`, error.message);
+  }
+};
+
+/**
+ * (Re)subscribe to Swap/Sync logs of every graduated token's DEX pair on the chain.
+ * Called on connect; a pair revealed by LiquidityAdded is added by subscribeNewDexPair.
+ */
+const subscribeDexPairs = async (chainId: number, wsProvider: EventProvider): Promise<void> => {
+  try {
+    const tokens = await Token.find({ chainId: chainId, pairAddress: { $ne: '' } }).select('pairAddress').lean();
+
+    // Latest Sync per pair - a Swap is always preceded by the Sync carrying its post-trade reserves
+    const lastSync = new Map<string, { txHash: string; reserve0: bigint; reserve1: bigint }>();
+
+    await subscribeLogs(chainId, 'dexPairs', wsProvider, tokens.map((token) => token.pairAddress), [[SWAP_TOPIC, SYNC_TOPIC]], async (log) => {
+      const parsed = pairInterface.parseLog(log);
+      if (!parsed) {
+        return;
+      }
+      const pairAddress = log.address.toLowerCase();
+
+      if (parsed.name === 'Sync') {
+        lastSync.set(pairAddress, { txHash: log.transactionHash, reserve0: parsed.args[0], reserve1: parsed.args[1] });
+        return;
+      }
+
+      const sync = lastSync.get(pairAddress);
+      const reserves = sync && sync.txHash === log.transactionHash ? sync : undefined;
+      await ingestEvent({
+        chainId: chainId,
+        eventName: 'Swap',
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        payload: {
+          eventData: {
+            pairAddress: pairAddress,
+            amount0In: parsed.args[1],
+            amount1In: parsed.args[2],
+            amount0Out: parsed.args[3],
+            amount1Out: parsed.args[4],
+            to: parsed.args[5],
+            reserve0: reserves?.reserve0,
+            reserve1: reserves?.reserve1,
+            txHash: log.transactionHash,
+            logIndex: log.index,
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            blockTimestamp: await getLogTimestamp(chainId, log.blockNumber),
+            chainId: chainId,
+          },
+        },
+      });
+    });
+  } catch (error: any) {
+    console.error(`❌ Failed to subscribe to DEX pairs for chain ${chainId}:`, error.message);
+  }
+};
+
+/**
+ * Start following Swap/Sync logs of a graduated token's new DEX pair
+ */
+const subscribeNewDexPair = async (chainId: number, wsProvider: EventProvider, pairAddress: string): Promise<void> => {
+  try {
+    if (!(await addLogSubscriptionAddress(chainId, 'dexPairs', wsProvider, pairAddress))) {
+      await subscribeDexPairs(chainId, wsProvider);
+    }
+  } catch (error: any) {
+    console.error(`❌ Failed to subscribe to DEX pair ${pairAddress} on chain ${chainId}:`, error.message);
+  }
+};
+
+// Remove the contract listeners and log subscriptions of a chain's current connection
+const detachTracking = async (chainId: number): Promise<void> => {
   const existing = activeTracking.get(chainId);
+  activeTracking.delete(chainId);
   if (existing) {
+    removeAllEventListeners(existing.contract);
     try {
-      removeAllEventListeners(existing.contract);
-      // Don't destroy provider here - let it be garbage collected naturally
-      // Destroying might cause issues if it's still in use
+      await existing.provider.off('block', existing.blockListener);
     } catch {
-      // Ignore cleanup errors
+      // Ignore errors if the subscription is already gone
     }
-    activeTracking.delete(chainId);
+    // Don't destroy provider here - let it be garbage collected naturally
+    // Destroying might cause issues if it's still in use
   }
+  // Also after a closed socket already dropped the connection from activeTracking
+  await unsubscribeLogs(chainId);
+};
+
+/**
+ * Track events for a specific chain
+ * This function is idempotent - can be called multiple times safely
+ */
+const trackChain = async (chainId: number): Promise<void> => {
+  // Clean up existing connection if it exists (for reconnection)
+  await detachTracking(chainId);
   const ws_contract = getWsContract(chainId);
   if (!ws_contract) {
     activeTracking.delete(chainId);
     return;
   }
 
-  const wsProvider = ws_contract.provider as unknown as ethers.WebSocketProvider;
+  const wsProvider = ws_contract.runner as EventProvider;
   const chainProvider = getProvider(chainId);
   const factoryAddress = getFactoryAddressForChain(chainId);
   
+  // Advance the checkpoint as new heads arrive. A new head doesn't mean the log subscriptions have
+  // delivered the logs of the block before it, so the checkpoint stays the confirmation depth behind
+  // the head: logs that deep have arrived (and a reconnect backfills from there again).
+  // Hold it back while live handlers are still saving or the reconnect gap hasn't been backfilled.
+  const blockListener = (blockNumber: number): void => {
+    if (pendingGaps.has(chainId) || isReorgRecoveryRunning(chainId) || (inFlightEvents.get(chainId) || 0) > 0) {
+      return;
+    }
+    const deliveredBlock = blockNumber - Math.max(1, getConfirmationDepth(chainId));
+    if (deliveredBlock < 0) {
+      return;
+    }
+    saveLastProcessedBlock(chainId, deliveredBlock).catch((error: any) => {
+      console.error(`❌ Error saving sync checkpoint for chain ${chainId}:`, error.message);
+      recordSyncError(chainId, `Error saving sync checkpoint: ${error.message}`);
+    });
+  };
+
   // Store connection info for cleanup and reconnection
   activeTracking.set(chainId, {
     contract: ws_contract,
-    provider: wsProvider
+    provider: wsProvider,
+    blockListener
   });
 
   // Helper function to safely parse price
@@ -120,6 +470,7 @@ const trackChain = (chainId: number): void => {
   ws_contract.on('TokenBought', async (
     ...args: any[]
   ) => {
+    beginEvent(chainId);
     try {
       // Extract event arguments
       // TokenBought event signature from contract:
@@ -133,7 +484,7 @@ const trackChain = (chainId: number): void => {
       const ethAmount = args[2] as bigint;
       const tokenAmount = args[3] as bigint;
       const newEthReserves = args[4] as bigint;
-      // const newTokenReserves = args[5] as bigint; // Not used currently
+      const newTokenReserves = args[5] as bigint;
       const newVirtualEthReserves = args[6] as bigint; // FIXED: was args[5]
       const newVirtualTokenReserves = args[7] as bigint; // FIXED: was args[6]
       const eventLog = args[8] as any; // The event log object is at index 8
@@ -212,13 +563,18 @@ const trackChain = (chainId: number): void => {
 
       const eventData = {
         txHash: txHash,
+        logIndex: eventLog?.log?.index ?? eventLog?.index ?? 0,
         tokenAddress: tokenAddress,
         senderAddress: factoryAddress, // Use chain-specific factory address
         recipientAddress: buyer,
         ethAmount: ethAmount,
         tokenAmount: tokenAmount,
         newEthReserves: newEthReserves, // Add newEthReserves for graduation progress calculation
+        newTokenReserves: newTokenReserves,
+        newVirtualEthReserves: newVirtualEthReserves,
+        newVirtualTokenReserves: newVirtualTokenReserves,
         blockNumber: blockNumber || 0,
+        blockHash: eventLog?.log?.blockHash || eventLog?.blockHash || '',
         blockTimestamp: blockTimestamp,
         type: 'Bought',
         chainId: chainId,
@@ -228,13 +584,24 @@ const trackChain = (chainId: number): void => {
         tokenAddress: tokenAddress,
         tokenPrice: calculatePrice(newVirtualEthReserves, newVirtualTokenReserves),
         blockNumber: blockNumber || 0,
+        blockHash: eventLog?.log?.blockHash || eventLog?.blockHash || '',
         timestamp: blockTimestamp,
         chainId: chainId,
       };
 
-      await saveTradeEvent(eventData, priceData);
+      await ingestEvent({
+        chainId: chainId,
+        eventName: 'TokenBought',
+        txHash: eventData.txHash,
+        logIndex: eventData.logIndex,
+        blockNumber: eventData.blockNumber,
+        blockHash: eventData.blockHash,
+        payload: { eventData, priceData },
+      });
     } catch (err) {
       console.error('❌ Error handling TokenBought event:', err);
+    } finally {
+      endEvent(chainId);
     }
   });
 
@@ -242,6 +609,7 @@ const trackChain = (chainId: number): void => {
   ws_contract.on('TokenSold', async (
     ...args: any[]
   ) => {
+    beginEvent(chainId);
     try {
       // Extract event arguments
       // TokenSold event signature from contract:
@@ -255,7 +623,7 @@ const trackChain = (chainId: number): void => {
       const tokenAmount = args[2] as bigint;
       const ethAmount = args[3] as bigint;
       const newEthReserves = args[4] as bigint;
-      // const newTokenReserves = args[5] as bigint; // Not used currently
+      const newTokenReserves = args[5] as bigint;
       const newVirtualEthReserves = args[6] as bigint; // FIXED: was args[5]
       const newVirtualTokenReserves = args[7] as bigint; // FIXED: was args[6]
       const eventLog = args[8] as any; // The event log object is at index 8
@@ -329,13 +697,18 @@ const trackChain = (chainId: number): void => {
 
       const eventData = {
         txHash: txHash,
+        logIndex: eventLog?.log?.index ?? eventLog?.index ?? 0,
         tokenAddress: tokenAddress,
         senderAddress: seller,
         recipientAddress: factoryAddress,
         ethAmount: ethAmount,
         tokenAmount: tokenAmount,
         newEthReserves: newEthReserves,
+        newTokenReserves: newTokenReserves,
+        newVirtualEthReserves: newVirtualEthReserves,
+        newVirtualTokenReserves: newVirtualTokenReserves,
         blockNumber: blockNumber || 0,
+        blockHash: eventLog?.log?.blockHash || eventLog?.blockHash || '',
         blockTimestamp: blockTimestamp,
         type: 'Sold',
         chainId: chainId,
@@ -345,13 +718,24 @@ const trackChain = (chainId: number): void => {
         tokenAddress: tokenAddress,
         tokenPrice: calculatePrice(newVirtualEthReserves, newVirtualTokenReserves),
         blockNumber: blockNumber || 0,
+        blockHash: eventLog?.log?.blockHash || eventLog?.blockHash || '',
         timestamp: blockTimestamp,
         chainId: chainId,
       };
 
-      await saveTradeEvent(eventData, priceData);
+      await ingestEvent({
+        chainId: chainId,
+        eventName: 'TokenSold',
+        txHash: eventData.txHash,
+        logIndex: eventData.logIndex,
+        blockNumber: eventData.blockNumber,
+        blockHash: eventData.blockHash,
+        payload: { eventData, priceData },
+      });
     } catch (err) {
       console.error('❌ Error handling TokenSold event:', err);
+    } finally {
+      endEvent(chainId);
     }
   });
 
@@ -359,6 +743,7 @@ const trackChain = (chainId: number): void => {
   ws_contract.on('TokenCreated', async (
     ...args: any[]
   ) => {
+    beginEvent(chainId);
     try {
       // Extract event arguments
       // TokenCreated event signature from contract:
@@ -423,18 +808,6 @@ const trackChain = (chainId: number): void => {
         return;
       }
 
-      const eventData = {
-        address: tokenAddress,
-        creatorAddress: creator,
-        name: name,
-        symbol: symbol,
-        description: description || '',
-        logo: uri || '/chats/noimg.svg',
-        totalSupply: totalSupply.toString(),
-        graduationEth: graduationEth.toString(),
-        chainId: chainId,
-      };
-
       // Get block timestamp
       let blockTimestamp = new Date();
       if (blockNumber) {
@@ -457,6 +830,22 @@ const trackChain = (chainId: number): void => {
         }
       }
       
+      const eventData = {
+        address: tokenAddress,
+        creatorAddress: creator,
+        name: name,
+        symbol: symbol,
+        description: description || '',
+        logo: uri || '/chats/noimg.svg',
+        totalSupply: totalSupply.toString(),
+        graduationEth: graduationEth.toString(),
+        deploymentTxHash: txHash.toLowerCase(),
+        deploymentBlock: blockNumber || 0,
+        deploymentBlockHash: (eventLog?.log?.blockHash || eventLog?.blockHash || '').toLowerCase(),
+        deploymentTimestamp: blockTimestamp,
+        chainId: chainId,
+      };
+
       const priceData = {
         tokenAddress: tokenAddress,
         tokenPrice: calculatePrice(virtualEthReserves, virtualTokenReserves),
@@ -465,9 +854,22 @@ const trackChain = (chainId: number): void => {
         chainId: chainId,
       };
 
-      await saveCreatedEvent(eventData, priceData);
+      await ingestEvent({
+        chainId: chainId,
+        eventName: 'TokenCreated',
+        txHash: txHash,
+        logIndex: eventLog?.log?.index ?? eventLog?.index ?? 0,
+        blockNumber: blockNumber || 0,
+        blockHash: eventLog?.log?.blockHash || eventLog?.blockHash || '',
+        payload: { eventData, priceData },
+      });
+
+      // Start following Transfer logs of the new token
+      await runTrackingTransition(chainId, () => subscribeNewTokenTransfers(chainId, wsProvider, tokenAddress));
     } catch (err) {
       console.error('❌ Error handling TokenCreated event:', err);
+    } finally {
+      endEvent(chainId);
     }
   });
 
@@ -475,6 +877,7 @@ const trackChain = (chainId: number): void => {
   ws_contract.on('TokenGraduated', async (
     ...args: any[]
   ) => {
+    beginEvent(chainId);
     try {
       // TokenGraduated event: event TokenGraduated(address indexed tokenAddress, uint256 graduationPrice)
       const tokenAddress = args[0] as string;
@@ -562,21 +965,193 @@ const trackChain = (chainId: number): void => {
 
       const eventData = {
         txHash: txHash,
+        logIndex: eventLog?.log?.index ?? eventLog?.index ?? 0,
         tokenAddress: tokenAddress,
         graduationPrice: graduationPrice.toString(),
         ethAmount: '0', // Will be updated if we track LiquidityAdded event
         tokenAmount: '0', // Will be updated if we track LiquidityAdded event
         blockNumber: blockNumber || 0,
+        blockHash: eventLog?.log?.blockHash || eventLog?.blockHash || '',
         blockTimestamp: blockTimestamp,
         chainId: chainId,
       };
 
-      await saveGraduationEvent(eventData);
+      await ingestEvent({
+        chainId: chainId,
+        eventName: 'TokenGraduated',
+        txHash: eventData.txHash,
+        logIndex: eventData.logIndex,
+        blockNumber: eventData.blockNumber,
+        blockHash: eventData.blockHash,
+        payload: { eventData },
+      });
     } catch (err) {
       console.error('❌ Error handling TokenGraduated event:', err);
+    } finally {
+      endEvent(chainId);
     }
   });
 
+  // LiquidityAdded event - emitted when a graduated token's liquidity is added to the DEX
+  // event LiquidityAdded(address indexed tokenAddress, uint256 ethAdded, uint256 tokenAdded, uint256 liquidity)
+  ws_contract.on('LiquidityAdded', async (
+    ...args: any[]
+  ) => {
+    beginEvent(chainId);
+    try {
+      const tokenAddress = args[0] as string;
+      const ethAdded = args[1] as bigint;
+      const tokenAdded = args[2] as bigint;
+      const liquidity = args[3] as bigint;
+      const log = (args[4] as any)?.log;
+
+      if (!log?.transactionHash) {
+        console.error('❌ LiquidityAdded event missing log details');
+        return;
+      }
+
+      await ingestEvent({
+        chainId: chainId,
+        eventName: 'LiquidityAdded',
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        payload: {
+          eventData: {
+            tokenAddress: tokenAddress,
+            ethAmount: ethAdded.toString(),
+            tokenAmount: tokenAdded.toString(),
+            liquidity: liquidity.toString(),
+            txHash: log.transactionHash,
+            logIndex: log.index,
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            blockTimestamp: await getLogTimestamp(chainId, log.blockNumber),
+            chainId: chainId,
+          },
+        },
+      });
+
+      // Start following the new pair's trades once the event stored it on the token
+      const token = await Token.findOne({ address: tokenAddress.toLowerCase(), chainId: chainId }).select('pairAddress').lean();
+      if (token?.pairAddress) {
+        await runTrackingTransition(chainId, () => subscribeNewDexPair(chainId, wsProvider, token.pairAddress));
+      }
+    } catch (err) {
+      console.error('❌ Error handling LiquidityAdded event:', err);
+    } finally {
+      endEvent(chainId);
+    }
+  });
+
+  // Fee events - CreatorFeePaid / DevFeePaid / MarketingFeePaid all share the signature
+  // event XFeePaid(address indexed recipient, address indexed tokenAddress, uint256 amount)
+  const feeEventTypes: Array<{ eventName: string; feeType: 'creator' | 'dev' | 'marketing' }> = [
+    { eventName: 'CreatorFeePaid', feeType: 'creator' },
+    { eventName: 'DevFeePaid', feeType: 'dev' },
+    { eventName: 'MarketingFeePaid', feeType: 'marketing' },
+  ];
+  for (const { eventName, feeType } of feeEventTypes) {
+    ws_contract.on(eventName, async (
+      ...args: any[]
+    ) => {
+      beginEvent(chainId);
+      try {
+        const recipient = args[0] as string;
+        const tokenAddress = args[1] as string;
+        const amount = args[2] as bigint;
+        const log = (args[3] as any)?.log;
+
+        if (!log?.transactionHash) {
+          console.error(`❌ ${eventName} event missing log details`);
+          return;
+        }
+
+        await ingestEvent({
+          chainId: chainId,
+          eventName: eventName,
+          txHash: log.transactionHash,
+          logIndex: log.index,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          payload: {
+            eventData: {
+              feeType: feeType,
+              recipientAddress: recipient,
+              tokenAddress: tokenAddress,
+              amount: amount.toString(),
+              txHash: log.transactionHash,
+              logIndex: log.index,
+              blockNumber: log.blockNumber,
+              blockHash: log.blockHash,
+              blockTimestamp: await getLogTimestamp(chainId, log.blockNumber),
+              chainId: chainId,
+            },
+          },
+        });
+      } catch (err) {
+        console.error(`❌ Error handling ${eventName} event:`, err);
+      } finally {
+        endEvent(chainId);
+      }
+    });
+  }
+
+  // Protocol config events (fee tiers, market cap unit, router, owner)
+  for (const eventName of PROTOCOL_CONFIG_EVENTS) {
+    ws_contract.on(eventName, async (
+      ...args: any[]
+    ) => {
+      beginEvent(chainId);
+      try {
+        // The event payload is always the last listener argument
+        const log = (args[args.length - 1] as any)?.log;
+
+        if (!log?.transactionHash) {
+          console.error(`❌ ${eventName} event missing log details`);
+          return;
+        }
+
+        await ingestEvent({
+          chainId: chainId,
+          eventName: eventName,
+          txHash: log.transactionHash,
+          logIndex: log.index,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          payload: {
+            eventData: {
+              eventName: eventName,
+              args: args.slice(0, -1),
+              txHash: log.transactionHash,
+              logIndex: log.index,
+              blockNumber: log.blockNumber,
+              blockHash: log.blockHash,
+              blockTimestamp: await getLogTimestamp(chainId, log.blockNumber),
+              chainId: chainId,
+            },
+          },
+        });
+      } catch (err) {
+        console.error(`❌ Error handling ${eventName} event:`, err);
+      } finally {
+        endEvent(chainId);
+      }
+    });
+  }
+
+  wsProvider.on('block', blockListener).catch((error: any) => {
+    console.error(`❌ Failed to subscribe to new blocks for chain ${chainId}:`, error.message);
+    recordSyncError(chainId, `Failed to subscribe to new blocks: ${error.message}`);
+  });
+
+  await subscribeTokenTransfers(chainId, wsProvider);
+  await subscribeDexPairs(chainId, wsProvider);
+
+  // Catch up on anything emitted between the last checkpoint and this connection
+  runGapBackfill(chainId);
+
   // Add error handlers for WebSocket connection
   if (wsProvider && 'on' in wsProvider) {
     // Handle WebSocket provider errors (supported event)
@@ -584,26 +1159,28 @@ const trackChain = (chainId: number): void => {
       wsProvider.on('error', (error: any) => {
         console.error(`❌ WebSocket provider error for chain ${chainId}:`, error);
         console.error('   Error details:', error.message || error);
+        recordSyncError(chainId, `WebSocket provider error: ${error.message || error}`);
       });
     } catch {
       // Could not attach error handler - non-critical
     }
 
     // Monitor connection health by checking the underlying WebSocket
-    if (wsProvider.websocket) {
+    if (wsProvider instanceof ethers.WebSocketProvider && wsProvider.websocket) {
       const underlyingWs = wsProvider.websocket as any; // WebSocketLike might not have all EventEmitter methods
       
       if (underlyingWs && typeof underlyingWs.on === 'function') {
         underlyingWs.on('error', (error: any) => {
           console.error(`❌ Underlying WebSocket error for chain ${chainId}:`, error);
+          recordSyncError(chainId, `WebSocket error: ${error?.message || error}`);
         });
 
         underlyingWs.on('close', (code: number) => {
           // Remove from active tracking
           activeTracking.delete(chainId);
           
-          // Attempt to reconnect (only if not a normal closure)
-          if (code !== 1000) { // 1000 = normal closure (don't reconnect)
+          // Attempt to reconnect (only if not a normal closure and the chain is still ours)
+          if (code !== 1000 && trackedChains.has(chainId)) { // 1000 = normal closure (don't reconnect)
             reconnectWebSocket(chainId, 0);
           }
         });
@@ -612,6 +1189,81 @@ const trackChain = (chainId: number): void => {
   }
 };
 
+/**
+ * Start tracking events for one chain (called when this instance becomes the chain's leader)
+ */
+export const startChainTracking = (chainId: number): void => {
+  if (trackedChains.has(chainId)) {
+    return;
+  }
+  trackedChains.add(chainId);
+
+  runTrackingTransition(chainId, async () => {
+    if (trackedChains.has(chainId)) {
+      await trackChain(chainId);
+    }
+  }).catch((error: any) => {
+    console.error(`❌ Failed to initialize tracking for chain ${chainId}:`, error.message);
+    recordSyncError(chainId, `Failed to initialize tracking: ${error.message}`);
+  });
+
+  // Watch recent blocks for reorgs and finalize records past the confirmation depth
+  if (!reorgCheckIntervals.has(chainId)) {
+    reorgCheckIntervals.set(chainId, setInterval(() => {
+      checkForReorg(chainId);
+    }, REORG_CHECK_INTERVAL));
+  }
+};
+
+/**
+ * Stop tracking events for one chain (leader lease lost or released)
+ */
+export const stopChainTracking = (chainId: number): void => {
+  trackedChains.delete(chainId);
+  runTrackingTransition(chainId, () => detachTracking(chainId)).catch((error: any) => {
+    console.error(`❌ Failed to detach tracking for chain ${chainId}:`, error.message);
+  });
+  pendingGaps.delete(chainId);
+
+  const reorgInterval = reorgCheckIntervals.get(chainId);
+  if (reorgInterval) {
+    clearInterval(reorgInterval);
+    reorgCheckIntervals.delete(chainId);
+  }
+};
+
+/**
+ * Live tracking state of a chain on this instance. `connection` is the WebSocket readyState,
+ * 'polling' for providers without a socket (fixture chains) and 'disconnected' between reconnects.
+ */
+export const getTrackingState = (chainId: number) => {
+  const tracking = activeTracking.get(chainId);
+  let connection: 'not-tracked' | 'disconnected' | 'connecting' | 'open' | 'closing' | 'closed' | 'polling' = 'not-tracked';
+  if (trackedChains.has(chainId)) {
+    connection = 'disconnected';
+    if (tracking) {
+      try {
+        const readyState = tracking.provider instanceof ethers.WebSocketProvider
+          ? (tracking.provider.websocket as any)?.readyState
+          : undefined;
+        connection = readyState === undefined
+          ? 'polling'
+          : (['connecting', 'open', 'closing', 'closed'] as const)[readyState] || 'closed';
+      } catch {
+        // The websocket getter throws once the provider is destroyed
+        connection = 'closed';
+      }
+    }
+  }
+
+  return {
+    tracked: trackedChains.has(chainId),
+    connection,
+    gapBackfillPending: pendingGaps.has(chainId),
+    inFlightEvents: inFlightEvents.get(chainId) || 0,
+  };
+};
+
 /**
  * Track events for all configured chains
  */
@@ -624,10 +1276,6 @@ export const trackTrading = (): void => {
   
   // Track events for each configured chain
   for (const chainId of configuredChains) {
-    try {
-      trackChain(chainId);
-    } catch (error: any) {
-      console.error(`❌ Failed to initialize tracking for chain ${chainId}:`, error.message);
-    }
+    startChainTracking(chainId);
   }
 };
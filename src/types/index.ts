@@ -76,18 +76,50 @@ export interface IToken extends Document {
   totalLiquidityUSD: string;
   graduationEth: string;
   graduationProgress: string;
+  // Bonding curve state from the latest trade (wei strings, null until the first trade is indexed)
+  virtualEthReserves: string | null;
+  virtualTokenReserves: string | null;
+  realEthReserves: string | null;
+  realTokenReserves: string | null;
+  reservesBlockNumber: number | null;
+  reservesLogIndex: number | null;
+  reservesUpdatedAt: Date | null;
+  // Position of the trade currentPrice, marketCap and graduationProgress come from
+  priceBlockNumber: number | null;
+  priceLogIndex: number | null;
+  // Fee tier the curve charged at reservesBlockNumber (null until first read from the factory)
+  creatorFeeBps: number | null;
+  devFeeBps: number | null;
+  marketingFeeBps: number | null;
+  feeTierBlockNumber: number | null;
+  feeTierUpdatedAt: Date | null;
+  volume1h: string;
+  volume1hUSD: number;
+  priceChange1h: string;
+  priceChange1hPercent: number;
   volume24h: string;
-  volume24hUSD: string;
+  volume24hUSD: number;
   priceChange24h: string;
-  priceChange24hPercent: string;
+  priceChange24hPercent: number;
+  volume7d: string;
+  volume7dUSD: number;
+  priceChange7d: string;
+  priceChange7dPercent: number;
+  statsUpdatedAt: Date | null;
   isVerified: boolean;
   isActive: boolean;
   isHoneypot: boolean;
+  pairAddress: string;
+  quoteTokenAddress: string;
+  graduatedAt: Date | null;
+  holdersReconciledAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   latestTransactionTimestamp: Date;
   deploymentTxHash: string;
   deploymentBlock: number;
+  deploymentBlockHash: string;
+  deploymentTimestamp: Date | null;
   tags: string[];
   auditScore: number;
   riskLevel: 'low' | 'medium' | 'high' | 'extreme';
@@ -100,32 +132,39 @@ export interface PriceData {
   marketCap: string;
   marketCapUSD: string;
   volume24h: string;
-  volume24hUSD: string;
+  volume24hUSD: number;
   priceChange24h: string;
-  priceChange24hPercent: string;
+  priceChange24hPercent: number;
 }
 
+// Derived state a stored transaction is applied to after its record is written
+export type TransactionIngestStep = 'holders' | 'candles';
+
 // Transaction Interface
 export interface ITransaction extends Document {
   _id: Types.ObjectId;
   txHash: string;
+  logIndex: number;
   tokenId: string;
   tokenAddress: string;
   type: 'Bought' | 'Sold' | 'Add_liquidity' | 'Remove_liquidity' | 'Transfer' | 'Mint' | 'Burn';
+  venue: 'bonding_curve' | 'dex';
   senderAddress: string;
   recipientAddress: string;
   ethAmount: string;
   tokenAmount: string;
   tokenPrice: string;
-  tokenPriceUSD: string;
+  tokenPriceUSD: string | null; // null when the ETH price was unavailable
   gasUsed: string;
   gasPrice: string;
   gasCost: string;
   gasCostUSD: string;
   blockNumber: number;
+  blockHash: string;
   blockTimestamp: Date;
   chainId: number;
   status: 'pending' | 'confirmed' | 'failed';
+  pendingSteps: TransactionIngestStep[];
   methodName: string;
   inputData: string;
   createdAt: Date;
@@ -141,7 +180,7 @@ export interface IActivity extends Document {
   fromAddress: string;
   toAddress: string;
   amount: string;
-  amountUSD: string;
+  amountUSD: string | null; // null when the ETH price was unavailable
   txHash: string;
   blockNumber: number;
   blockTimestamp: Date;
@@ -163,11 +202,15 @@ export interface ILiquidityEvent extends Document {
   providerAddress: string;
   ethAmount: string;
   tokenAmount: string;
+  lpTokenAmount: string;
+  ethAmountUSD: string | null; // null when the ETH price was unavailable
+  totalValueUSD: string | null; // null when the ETH price was unavailable
   tokenPrice: string;
-  tokenPriceUSD: string;
+  tokenPriceUSD: string | null; // null when the ETH price was unavailable
   liquidityPoolAddress: string;
   txHash: string;
   blockNumber: number;
+  blockHash: string;
   blockTimestamp: Date;
   chainId: number;
   status: 'pending' | 'confirmed' | 'failed';
@@ -190,6 +233,7 @@ export interface ITokenHolder extends Document {
   firstTransactionHash: string;
   lastTransactionHash: string;
   transactionCount: number;
+  lastAppliedLog: string;
   chainId: number;
   createdAt: Date;
   updatedAt: Date;
@@ -203,16 +247,18 @@ export interface ITokenHistory extends Document {
   timestamp: Date;
   tokenPrice: string;
   price: string;
-  priceUSD: string;
+  priceUSD: string | null; // null when the ETH price was unavailable
   marketCap: string;
-  marketCapUSD: string;
+  marketCapUSD: string | null; // null when the ETH price was unavailable
   volume24h: string;
   volume24hUSD: string;
   totalLiquidity: string;
   totalLiquidityUSD: string;
   holdersCount: number;
   transactionsCount: number;
+  venue: 'bonding_curve' | 'dex';
   blockNumber: number;
+  blockHash: string;
   chainId: number;
   createdAt: Date;
 }
@@ -232,6 +278,341 @@ export interface IChatMessage extends Document {
   deletedAt?: Date;
 }
 
+// Fee Payment Interface (CreatorFeePaid / DevFeePaid / MarketingFeePaid)
+export interface IFeePayment extends Document {
+  _id: Types.ObjectId;
+  tokenId: Types.ObjectId;
+  tokenAddress: string;
+  feeType: 'creator' | 'dev' | 'marketing';
+  recipientAddress: string;
+  amount: string;
+  amountUSD: string | null; // null when the ETH price was unavailable
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: Date;
+  chainId: number;
+  status: 'pending' | 'confirmed' | 'failed';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Protocol Config Event Interface (admin changes on the TokenFactory)
+export interface IProtocolConfigEvent extends Document {
+  _id: Types.ObjectId;
+  eventName: 'FeeTierUpdated' | 'MarketCapUnitUpdated' | 'UniswapRouterUpdated' | 'OwnershipTransferred';
+  contractAddress: string;
+  tier: number | null;
+  minMarketCap: string;
+  creatorFeeBps: number;
+  devFeeBps: number;
+  marketingFeeBps: number;
+  marketCapUnit: string;
+  routerAddress: string;
+  previousOwner: string;
+  newOwner: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: Date;
+  chainId: number;
+  status: 'pending' | 'confirmed' | 'failed';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Holder Discrepancy Interface (stored balance vs on-chain balanceOf)
+export interface IHolderDiscrepancy extends Document {
+  _id: Types.ObjectId;
+  tokenId: Types.ObjectId;
+  tokenAddress: string;
+  holderAddress: string;
+  storedBalance: string;
+  onChainBalance: string;
+  difference: string;
+  blockNumber: number;
+  corrected: boolean;
+  chainId: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Ingest Event Interface (durable queue between log decoding and the sync handlers)
+export interface IIngestEvent extends Document {
+  _id: Types.ObjectId;
+  chainId: number;
+  txHash: string;
+  logIndex: number;
+  eventName: string;
+  blockNumber: number;
+  blockHash: string;
+  payload: Record<string, any>;
+  status: 'pending' | 'processing' | 'done';
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedAt: Date | null;
+  lastError: string;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Dead Letter Event Interface (ingest events that kept failing)
+export interface IDeadLetterEvent extends Document {
+  _id: Types.ObjectId;
+  chainId: number;
+  txHash: string;
+  logIndex: number;
+  eventName: string;
+  blockNumber: number;
+  blockHash: string;
+  payload: Record<string, any>;
+  attempts: number;
+  lastError: string;
+  failedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// OHLCV candle of a token's trades (prices in ETH and USD, volumes in wei)
+export type CandleResolution = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export interface ICandle extends Document {
+  _id: Types.ObjectId;
+  tokenAddress: string;
+  chainId: number;
+  resolution: CandleResolution;
+  openTime: Date;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  openUSD: string;
+  highUSD: string;
+  lowUSD: string;
+  closeUSD: string;
+  volumeEth: string;
+  volumeToken: string;
+  volumeUSD: string;
+  trades: number;
+  openBlock: number;
+  openLogIndex: number;
+  closeBlock: number;
+  closeLogIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Daily analytics rollup of a chain (chainId null: platform-wide metrics that aren't tied to a chain)
+export interface IDailyStat extends Document {
+  _id: Types.ObjectId;
+  date: Date;
+  chainId: number | null;
+  tokensCreated: number;
+  graduations: number;
+  graduationDurations: number[];
+  trades: number;
+  volumeEth: string;
+  volumeUSD: number;
+  traders: string[];
+  uniqueTraders: number;
+  feesEth: string;
+  feesUSD: number;
+  newUsers: number;
+  computedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Trending score of a token (recomputed periodically from recent activity, see services/trendingService)
+export type TrendingComponent =
+  | 'tradeVelocity'
+  | 'uniqueBuyers'
+  | 'netInflow'
+  | 'holderGrowth'
+  | 'chatActivity'
+  | 'graduationProximity';
+
+export interface TrendingComponentScore {
+  value: number; // time-decayed metric (trades, buyers, ETH, new holders, messages; progress 0-1)
+  normalized: number; // relative to the chain's most active token (-1 to 1 for net inflow, else 0 to 1)
+  contribution: number; // points added to the score
+}
+
+export interface ITrendingScore extends Document {
+  _id: Types.ObjectId;
+  tokenId: Types.ObjectId;
+  tokenAddress: string;
+  chainId: number;
+  score: number;
+  rank: number; // position within the chain
+  components: Record<TrendingComponent, TrendingComponentScore>;
+  computedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Conditional order executed through a user's embedded wallet once the curve price crosses triggerPrice
+// limit_buy buys at or below the trigger; limit_sell and take_profit sell at or above it, stop_loss at or below it
+export type OrderType = 'limit_buy' | 'limit_sell' | 'stop_loss' | 'take_profit';
+export type OrderStatus = 'open' | 'executing' | 'filled' | 'failed' | 'cancelled' | 'expired';
+
+export interface IOrder extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  walletAddress: string;
+  tokenId: Types.ObjectId;
+  tokenAddress: string;
+  chainId: number;
+  type: OrderType;
+  side: 'buy' | 'sell';
+  triggerPrice: string; // ETH per token
+  amount: string; // wei: ETH for buys, tokens for sells
+  maxSlippageBps: number;
+  expiresAt: Date | null;
+  status: OrderStatus;
+  attempts: number;
+  lastError: string;
+  triggeredAt: Date | null;
+  triggerTradePrice: string | null; // Curve price of the trade that triggered the last attempt
+  lockedAt: Date | null;
+  txHash: string | null;
+  txNonce: number | null;
+  simulatedAmountOut: string | null;
+  filledAmountOut: string | null;
+  filledAt: Date | null;
+  closedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ETH/USD price sample (periodic spot prices and backfilled history, used for point-in-time USD values)
+// 'median' samples aggregate several live sources
+export type EthPriceSource = 'chainlink' | 'alchemy' | 'coingecko' | 'fixed' | 'median' | 'coingecko-history';
+
+export interface IEthPrice extends Document {
+  _id: Types.ObjectId;
+  timestamp: Date;
+  price: string;
+  source: EthPriceSource;
+  createdAt: Date;
+}
+
+// Sync State Interface (per-chain ingestion checkpoint)
+export interface ISyncState extends Document {
+  _id: Types.ObjectId;
+  chainId: number;
+  lastProcessedBlock: number;
+  lastProcessedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Per-chain leader lease (the holder runs ingestion and deposit monitoring for the chain)
+export interface ILeaderLease extends Document {
+  _id: Types.ObjectId;
+  chainId: number;
+  holderId: string;
+  hostname: string;
+  pid: number;
+  acquiredAt: Date;
+  renewedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Chain registry entry (src/config/chainRegistry.json or CHAIN_REGISTRY_PATH).
+// Secrets stay in the environment: the entry names the variables holding the RPC/WS URLs and factory address.
+export interface ChainDefinition {
+  chainId: number;
+  key: string; // suffix of per-chain env vars, e.g. BASE -> FACTORY_ADDRESS_BASE, CONFIRMATIONS_BASE
+  name: string;
+  rpcUrlEnv: string; // may hold several comma-separated URLs (the RPC pool fails over between them)
+  wsUrlEnv?: string;
+  factoryAddressEnv?: string;
+  // Literal values, used when the env variable is unset
+  rpcUrl?: string;
+  wsUrl?: string;
+  factoryAddress?: string;
+  explorerUrl: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  confirmationDepth: number;
+  blockTimeMs: number;
+  rpcMaxRps?: number; // request budget per RPC endpoint, overridable with RPC_MAX_RPS_<KEY>
+  ethUsdFeedAddress?: string; // Chainlink ETH/USD aggregator (an ETH price source)
+  testnet: boolean;
+}
+
+// Chain registry entry with its URLs and factory address resolved from the environment
+export interface ChainConfig extends ChainDefinition {
+  rpcUrls: string[]; // every configured RPC endpoint, rpcUrl being the first
+  configured: boolean; // has both an RPC URL and a factory address
+}
+
+// Fixture chain scenario (FIXTURE_CHAIN_SCENARIO): a scripted chain served in place of a live RPC.
+// Addresses may be written as "factory"; numeric values are decimal strings.
+export interface FixtureEventSpec {
+  event: string; // event name in the TokenFactory, ERC20 or Uniswap V2 pair ABI
+  address?: string; // emitting contract (defaults to the factory for factory events)
+  args: Record<string, any> | any[];
+  txHash?: string; // events sharing a txHash are logged by one transaction
+  from?: string; // sender of that transaction
+}
+
+export interface FixtureTransactionSpec {
+  from: string;
+  to: string;
+  value?: string;
+  data?: string;
+  hash?: string;
+}
+
+export interface FixtureBlockSpec {
+  number: number;
+  timestamp?: number; // unix seconds (default: derived from blockTimeMs)
+  events?: FixtureEventSpec[];
+  transactions?: FixtureTransactionSpec[]; // plain transfers (deposits) included in the block
+}
+
+// eth_call answer for a contract method (args narrow the match, revert makes the call fail)
+export interface FixtureCallSpec {
+  to: string;
+  method: string;
+  args?: any[];
+  returns?: any[];
+  revert?: string;
+}
+
+// Events logged when a sent transaction calls a contract method. "$from", "$to" and "$value" args are
+// replaced with the transaction's values.
+export interface FixtureReactionSpec {
+  to: string;
+  method: string;
+  events?: FixtureEventSpec[];
+  revert?: string;
+}
+
+export interface FixtureScenario {
+  chainId: number;
+  factoryAddress: string;
+  startBlock?: number; // head before the first scripted block (default: first scripted block - 1)
+  genesisTimestamp?: number; // unix seconds of startBlock (default: load time)
+  blockTimeMs?: number;
+  mode?: 'instant' | 'realtime'; // instant: every scripted block exists at once; realtime: one new block per blockTimeMs
+  gasPrice?: string;
+  balances?: Record<string, string>;
+  calls?: FixtureCallSpec[];
+  reactions?: FixtureReactionSpec[];
+  blocks: FixtureBlockSpec[];
+}
+
 // JWT Payload
 export interface JWTPayload {
   userId: string;